@@ -5,7 +5,7 @@
  * - Dynamic package loading from API
  * - M-Pesa STK push payment flow
  * - SMS fallback verification
- * - Voucher redemption
+ * - Voucher redemption (code can be pre-filled via ?voucher=)
  * - Auto-login after payment
  */
 
@@ -141,6 +141,13 @@ async function init() {
     // Setup event listeners
     setupEventListeners();
 
+    // Voucher cards link here with ?voucher=CODE - open the voucher tab pre-filled
+    const voucherCode = urlParams.get('voucher');
+    if (voucherCode) {
+        switchTab('voucher');
+        elements.voucherInput.value = voucherCode.toUpperCase();
+    }
+
     // Check if we have a valid tenantId now
     const hasTenantId = CONFIG.tenantId && !CONFIG.tenantId.startsWith('__');
 
@@ -820,10 +827,10 @@ function formatRemainingTime(minutes) {
 function useExistingSession() {
     if (!state.activeSession) return;
 
-    // Set credentials and submit login form
+    // Set credentials and submit login form (the login token stands in for the password)
     state.credentials = {
         username: state.activeSession.username,
-        password: state.activeSession.password,
+        password: state.activeSession.loginToken,
     };
 
     elements.sessionPopup.classList.remove('active');
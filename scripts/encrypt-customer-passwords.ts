@@ -0,0 +1,25 @@
+/**
+ * Encrypt and hash customer passwords still stored in plaintext.
+ * Run once after deploying credential encryption (CREDENTIAL_ENCRYPTION_KEY
+ * must be set); rows already migrated are skipped.
+ *
+ *   npm run db:encrypt-passwords
+ */
+
+import { prisma } from '../src/lib/prisma.js';
+import { migrateCustomerPasswords } from '../src/services/credential.service.js';
+
+async function main() {
+    const { migrated, failed } = await migrateCustomerPasswords();
+    console.log(`Migrated ${migrated} customer password(s), ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .catch((error) => {
+        console.error(error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
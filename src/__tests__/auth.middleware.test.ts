@@ -0,0 +1,103 @@
+/**
+ * Auth Middleware Tests
+ * Tests that reseller accounts are kept to their self-service portal
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import jwt from 'jsonwebtoken';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        user: {
+            findUnique: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/config.js', () => ({
+    config: { jwtSecret: 'test-secret' },
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+
+const token = jwt.sign({ userId: 'user-1', tenantId: 'tenant-1' }, 'test-secret');
+
+const mockUser = (role: string) => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: 'user-1',
+        email: 'agent@example.com',
+        name: 'Agent',
+        role,
+        tenantId: 'tenant-1',
+        addedPermissions: [],
+        removedPermissions: [],
+        status: 'ACTIVE',
+    } as any);
+};
+
+describe('authMiddleware', () => {
+    let app: Hono;
+
+    const get = (path: string) =>
+        app.request(path, { headers: { Authorization: `Bearer ${token}` } });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        app = new Hono();
+        app.onError(errorHandler);
+        app.use('/api/*', authMiddleware);
+        app.get('/api/*', (c) => c.json({ ok: true }));
+        app.put('/api/*', (c) => c.json({ ok: true }));
+    });
+
+    it('should deny resellers the tenant routes guarded only by authentication', async () => {
+        mockUser('RESELLER');
+
+        for (const path of [
+            '/api/customers',
+            '/api/customers/cust-1/wallet',
+            '/api/radius/sessions',
+            '/api/mikrotik/nas-1/disconnect',
+            '/api/resellers',
+            '/api/resellers/reseller-2',
+            '/api/resellers/meta',
+        ]) {
+            const res = await get(path);
+            expect(res.status, path).toBe(403);
+        }
+    });
+
+    it('should let resellers use their portal and own login session', async () => {
+        mockUser('RESELLER');
+
+        for (const path of ['/api/resellers/me', '/api/resellers/me/batches/b-1/pdf', '/api/auth/me']) {
+            const res = await get(path);
+            expect(res.status, path).toBe(200);
+        }
+        const res = await app.request('/api/auth/password', {
+            method: 'PUT',
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        expect(res.status).toBe(200);
+    });
+
+    it('should not restrict staff roles', async () => {
+        mockUser('CUSTOMER_CARE');
+
+        const res = await get('/api/customers');
+        expect(res.status).toBe(200);
+    });
+});
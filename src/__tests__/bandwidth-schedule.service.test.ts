@@ -0,0 +1,170 @@
+/**
+ * Bandwidth Schedule Service Tests
+ * Tests for time-of-day speed windows and CoA at window boundaries
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        package: {
+            findMany: vi.fn(),
+        },
+        session: {
+            findMany: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/queue.js', () => ({
+    queue: { scheduleRecurring: vi.fn() },
+}));
+
+vi.mock('../radius/handlers/coa.js', () => ({
+    updateSession: vi.fn().mockResolvedValue({ success: true, message: 'Session updated' }),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { updateSession } from '../radius/handlers/coa.js';
+import {
+    formatRateLimit,
+    getLocalTime,
+    isWindowActive,
+    getActiveProfile,
+    applyScheduleBoundaries,
+} from '../services/bandwidth-schedule.service.js';
+
+const TZ = 'Africa/Nairobi'; // UTC+3, no DST
+
+const nightBoost = {
+    name: 'Night boost',
+    daysOfWeek: [],
+    startTime: '22:00',
+    endTime: '06:00',
+    downloadSpeed: 20,
+    uploadSpeed: 10,
+    burstDownload: null,
+    burstUpload: null,
+};
+
+const weekendBoost = {
+    name: 'Weekend',
+    daysOfWeek: [0, 6],
+    startTime: '00:00',
+    endTime: '00:00',
+    downloadSpeed: 15,
+    uploadSpeed: 8,
+    burstDownload: null,
+    burstUpload: null,
+};
+
+const pkg = {
+    id: 'pkg-1',
+    downloadSpeed: 10,
+    uploadSpeed: 5,
+    burstDownload: null,
+    burstUpload: null,
+    schedules: [nightBoost, weekendBoost],
+    tenant: { timezone: TZ },
+};
+
+describe('Bandwidth Schedule Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should format plain and burst rate limits', () => {
+        expect(formatRateLimit({ downloadSpeed: 10, uploadSpeed: 5, burstDownload: null, burstUpload: null })).toBe('5M/10M');
+        expect(formatRateLimit({ downloadSpeed: 10, uploadSpeed: 5, burstDownload: 20, burstUpload: 10 }))
+            .toBe('5M/10M 10M/20M 0/0 1/1 5');
+    });
+
+    it('should read local day and time in the tenant time zone', () => {
+        // Friday 21:30 UTC is Saturday 00:30 in Nairobi
+        expect(getLocalTime(new Date('2026-03-13T21:30:00Z'), TZ)).toEqual({ day: 6, minutes: 30 });
+    });
+
+    // =============================================
+    // Windows
+    // =============================================
+    describe('isWindowActive', () => {
+        it('should cover both sides of midnight for overnight windows', () => {
+            expect(isWindowActive(nightBoost, { day: 3, minutes: 23 * 60 })).toBe(true);
+            expect(isWindowActive(nightBoost, { day: 4, minutes: 5 * 60 + 59 })).toBe(true);
+            expect(isWindowActive(nightBoost, { day: 4, minutes: 6 * 60 })).toBe(false);
+        });
+
+        it('should carry an overnight window into the day after its start day', () => {
+            const fridayNight = { ...nightBoost, daysOfWeek: [5] };
+            expect(isWindowActive(fridayNight, { day: 6, minutes: 60 })).toBe(true); // Saturday 01:00
+            expect(isWindowActive(fridayNight, { day: 5, minutes: 60 })).toBe(false); // Friday 01:00
+        });
+
+        it('should treat equal start and end as the whole day', () => {
+            expect(isWindowActive(weekendBoost, { day: 0, minutes: 12 * 60 })).toBe(true);
+            expect(isWindowActive(weekendBoost, { day: 1, minutes: 12 * 60 })).toBe(false);
+        });
+    });
+
+    it('should pick the first matching schedule, else the package speeds', () => {
+        // Wednesday 12:00 Nairobi
+        expect(getActiveProfile(pkg, TZ, new Date('2026-03-11T09:00:00Z'))).toBe(pkg);
+        // Saturday 23:00 Nairobi - both windows match, the night boost is listed first
+        expect(getActiveProfile(pkg, TZ, new Date('2026-03-14T20:00:00Z'))).toBe(nightBoost);
+        // Saturday 12:00 Nairobi
+        expect(getActiveProfile(pkg, TZ, new Date('2026-03-14T09:00:00Z'))).toBe(weekendBoost);
+    });
+
+    // =============================================
+    // Boundaries
+    // =============================================
+    describe('applyScheduleBoundaries', () => {
+        const session = {
+            sessionId: '81a00003',
+            username: 'john',
+            nas: { ipAddress: '10.0.0.1', vpnIp: '10.10.0.5', coaPort: 3799, secret: 'nassecret' },
+        };
+
+        it('should send the new rate to active sessions when a window opens', async () => {
+            vi.mocked(prisma.package.findMany).mockResolvedValue([pkg] as any);
+            vi.mocked(prisma.session.findMany).mockResolvedValue([session] as any);
+
+            // Wednesday 21:59 -> 22:00 Nairobi
+            const result = await applyScheduleBoundaries(
+                new Date('2026-03-11T18:59:00Z'),
+                new Date('2026-03-11T19:00:00Z')
+            );
+
+            expect(result).toEqual({ packages: 1, updated: 1, failed: 0 });
+            expect(updateSession).toHaveBeenCalledWith('10.10.0.5', 3799, 'nassecret', '81a00003', 'john', '10M/20M');
+            expect(prisma.session.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: expect.objectContaining({
+                    customer: expect.objectContaining({ packageId: 'pkg-1', status: 'ACTIVE' }),
+                }),
+            }));
+        });
+
+        it('should leave sessions alone when no window boundary passed', async () => {
+            vi.mocked(prisma.package.findMany).mockResolvedValue([pkg] as any);
+
+            const result = await applyScheduleBoundaries(
+                new Date('2026-03-11T09:00:00Z'),
+                new Date('2026-03-11T09:01:00Z')
+            );
+
+            expect(result.packages).toBe(0);
+            expect(prisma.session.findMany).not.toHaveBeenCalled();
+            expect(updateSession).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,392 @@
+/**
+ * Billing Cycle Engine Tests
+ * Tests for billing periods, recurring invoices, wallet settlement and dunning
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const tx = {
+    tenant: {
+        update: vi.fn(),
+    },
+    invoice: {
+        count: vi.fn(),
+        create: vi.fn(),
+        updateMany: vi.fn(),
+    },
+    customer: {
+        update: vi.fn(),
+        updateMany: vi.fn(),
+        findUniqueOrThrow: vi.fn(),
+    },
+    walletTransaction: {
+        create: vi.fn(),
+    },
+};
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        invoice: {
+            findFirst: vi.fn(),
+            findMany: vi.fn(),
+            update: vi.fn(),
+            count: vi.fn(),
+        },
+        customer: {
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+            update: vi.fn(),
+        },
+        tenant: {
+            findMany: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/queue.js', () => ({
+    queue: { scheduleRecurring: vi.fn() },
+}));
+
+vi.mock('../radius/handlers/coa.js', () => ({
+    disconnectUser: vi.fn(),
+}));
+
+vi.mock('../services/sms.service.js', () => ({
+    smsService: { sendSms: vi.fn() },
+}));
+
+vi.mock('../services/ledger.service.js', () => ({
+    ACCOUNT_CODES: { CUSTOMER_WALLETS: '2000' },
+    postInvoiceIssued: vi.fn(),
+    postInvoicePayment: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { disconnectUser } from '../radius/handlers/coa.js';
+import { smsService } from '../services/sms.service.js';
+import { postInvoiceIssued, postInvoicePayment } from '../services/ledger.service.js';
+import {
+    getBillingPeriod,
+    nextInvoiceNo,
+    raiseInvoiceIfDue,
+    generateRecurringInvoices,
+    settleOpenInvoices,
+    processDunning,
+} from '../services/billing.service.js';
+
+const NOW = new Date('2026-03-14T06:00:00Z');
+const tenant = { billingCycleEnabled: true, billDay: null, invoiceDueDays: 7 };
+
+function makeCustomer(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'cust-1',
+        username: 'john',
+        status: 'ACTIVE',
+        expiresAt: new Date('2026-03-15T00:00:00Z'),
+        createdAt: new Date('2025-11-15T09:00:00Z'),
+        tenantId: 'tenant-1',
+        package: { name: 'Home 10M', price: 2500 },
+        ...overrides,
+    };
+}
+
+function makeInvoice(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'inv-1',
+        invoiceNo: 'INV-20260001',
+        amount: 2500,
+        status: 'pending',
+        dueDate: new Date('2026-03-22T00:00:00Z'),
+        remindersSent: 0,
+        tenantId: 'tenant-1',
+        customer: { id: 'cust-1', name: 'John', username: 'john', phone: '254700000000', status: 'ACTIVE' },
+        tenant: { businessName: 'Acme ISP', dunningOffsetDays: [-3, 0, 3] },
+        ...overrides,
+    };
+}
+
+describe('Billing Cycle Engine', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.$transaction).mockImplementation(async (fn: any) => fn(tx));
+        vi.mocked(disconnectUser).mockResolvedValue({ success: true, message: 'Disconnected' });
+        vi.mocked(smsService.sendSms).mockResolvedValue({ success: true });
+        tx.tenant.update.mockResolvedValue({ invoiceSeq: 1 });
+        tx.invoice.count.mockResolvedValue(0);
+        tx.invoice.create.mockImplementation(async (args: any) => ({ id: 'inv-new', ...args.data }));
+    });
+
+    // =============================================
+    // Billing Periods
+    // =============================================
+    describe('getBillingPeriod', () => {
+        it('should start on the latest bill date on or before the given time', () => {
+            const period = getBillingPeriod(15, new Date('2026-03-20T10:00:00Z'));
+
+            expect(period.periodStart).toEqual(new Date('2026-03-15T00:00:00Z'));
+            expect(period.periodEnd).toEqual(new Date('2026-04-15T00:00:00Z'));
+        });
+
+        it('should fall back to the previous month before this month\'s bill date', () => {
+            const period = getBillingPeriod(15, new Date('2026-03-10T10:00:00Z'));
+
+            expect(period.periodStart).toEqual(new Date('2026-02-15T00:00:00Z'));
+        });
+
+        it('should clamp anniversaries to the end of short months', () => {
+            const period = getBillingPeriod(31, new Date('2026-02-28T10:00:00Z'));
+
+            expect(period.periodStart).toEqual(new Date('2026-02-28T00:00:00Z'));
+            expect(period.periodEnd).toEqual(new Date('2026-03-31T00:00:00Z'));
+        });
+    });
+
+    // =============================================
+    // Invoice Generation
+    // =============================================
+    describe('nextInvoiceNo', () => {
+        it('should number invoices from the tenant\'s counter', async () => {
+            tx.tenant.update.mockResolvedValue({ invoiceSeq: 42 });
+
+            expect(await nextInvoiceNo(tx as any, 'tenant-1', NOW)).toBe('INV-20260042');
+            expect(tx.tenant.update).toHaveBeenCalledWith({
+                where: { id: 'tenant-1' },
+                data: { invoiceSeq: { increment: 1 } },
+                select: { invoiceSeq: true },
+            });
+            expect(tx.invoice.count).not.toHaveBeenCalled();
+        });
+
+        it('should continue after invoices raised before the counter existed', async () => {
+            tx.invoice.count.mockResolvedValue(17);
+
+            expect(await nextInvoiceNo(tx as any, 'tenant-1', NOW)).toBe('INV-20260018');
+            expect(tx.tenant.update).toHaveBeenLastCalledWith({ where: { id: 'tenant-1' }, data: { invoiceSeq: 18 } });
+        });
+    });
+
+    describe('raiseInvoiceIfDue', () => {
+        it('should raise the next period\'s invoice a day ahead and extend the subscription', async () => {
+            vi.mocked(prisma.invoice.findFirst).mockResolvedValue(null);
+
+            const invoice = await raiseInvoiceIfDue(makeCustomer(), tenant, NOW);
+
+            expect(invoice).not.toBeNull();
+            expect(tx.invoice.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    invoiceNo: `INV-${NOW.getFullYear()}0001`,
+                    amount: 2500,
+                    periodStart: new Date('2026-03-15T00:00:00Z'),
+                    periodEnd: new Date('2026-04-15T00:00:00Z'),
+                    dueDate: new Date('2026-03-22T00:00:00Z'),
+                }),
+            });
+            expect(postInvoiceIssued).toHaveBeenCalled();
+            expect(tx.customer.update).toHaveBeenCalledWith({
+                where: { id: 'cust-1' },
+                data: expect.objectContaining({ expiresAt: new Date('2026-04-15T00:00:00Z') }),
+            });
+            expect(disconnectUser).not.toHaveBeenCalled();
+        });
+
+        it('should use the tenant bill day when set', async () => {
+            vi.mocked(prisma.invoice.findFirst).mockResolvedValue(null);
+
+            await raiseInvoiceIfDue(makeCustomer({ expiresAt: new Date('2026-03-01T00:00:00Z') }), { ...tenant, billDay: 1 }, NOW);
+
+            expect(tx.invoice.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ periodStart: new Date('2026-03-01T00:00:00Z') }),
+            });
+        });
+
+        it('should skip customers whose subscription already covers the period', async () => {
+            const invoice = await raiseInvoiceIfDue(makeCustomer({ expiresAt: new Date('2026-04-14T12:00:00Z') }), tenant, NOW);
+
+            expect(invoice).toBeNull();
+            expect(tx.invoice.create).not.toHaveBeenCalled();
+        });
+
+        it('should not raise the same period twice', async () => {
+            vi.mocked(prisma.invoice.findFirst).mockResolvedValue({ id: 'inv-1' } as any);
+
+            const invoice = await raiseInvoiceIfDue(makeCustomer(), tenant, NOW);
+
+            expect(invoice).toBeNull();
+            expect(tx.invoice.create).not.toHaveBeenCalled();
+        });
+
+        it('should reactivate and reconnect expired customers', async () => {
+            vi.mocked(prisma.invoice.findFirst).mockResolvedValue(null);
+
+            await raiseInvoiceIfDue(makeCustomer({ status: 'EXPIRED' }), tenant, NOW);
+
+            expect(tx.customer.update).toHaveBeenCalledWith({
+                where: { id: 'cust-1' },
+                data: expect.objectContaining({ status: 'ACTIVE' }),
+            });
+            expect(disconnectUser).toHaveBeenCalledWith('john', 'tenant-1');
+        });
+    });
+
+    describe('generateRecurringInvoices', () => {
+        it('should walk a tenant\'s billable customers in id-ordered batches', async () => {
+            vi.mocked(prisma.tenant.findMany).mockResolvedValue([{ id: 'tenant-1', ...tenant }] as any);
+            const covered = Array.from({ length: 500 }, (_, i) => makeCustomer({
+                id: `cust-${String(i).padStart(3, '0')}`,
+                expiresAt: new Date('2026-06-01T00:00:00Z'),
+            }));
+            vi.mocked(prisma.customer.findMany)
+                .mockResolvedValueOnce(covered as any)
+                .mockResolvedValueOnce([makeCustomer({ id: 'cust-500' })] as any);
+            vi.mocked(prisma.invoice.findFirst).mockResolvedValue(null);
+            vi.mocked(prisma.customer.findUnique).mockResolvedValue({ walletBalance: 0 } as any);
+            vi.mocked(prisma.invoice.findMany).mockResolvedValue([]);
+
+            const invoiced = await generateRecurringInvoices(NOW);
+
+            expect(prisma.customer.findMany).toHaveBeenCalledTimes(2);
+            expect(vi.mocked(prisma.customer.findMany).mock.calls[0][0]).toMatchObject({ orderBy: { id: 'asc' }, take: 500 });
+            expect(vi.mocked(prisma.customer.findMany).mock.calls[1][0]!.where).toMatchObject({ id: { gt: 'cust-499' }, tenantId: 'tenant-1' });
+            expect(invoiced).toBe(1);
+        });
+    });
+
+    // =============================================
+    // Payment Matching
+    // =============================================
+    describe('settleOpenInvoices', () => {
+        beforeEach(() => {
+            tx.invoice.updateMany.mockResolvedValue({ count: 1 });
+            tx.customer.updateMany.mockResolvedValue({ count: 1 });
+        });
+
+        it('should pay the oldest invoices the wallet covers and stop at the first it cannot', async () => {
+            vi.mocked(prisma.customer.findUnique)
+                .mockResolvedValueOnce({ walletBalance: 3000 } as any)
+                .mockResolvedValueOnce({ status: 'ACTIVE' } as any);
+            vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+                makeInvoice({ id: 'inv-1', dueDate: new Date('2026-02-22T00:00:00Z') }),
+                makeInvoice({ id: 'inv-2', invoiceNo: 'INV-20260002' }),
+            ] as any);
+            tx.customer.findUniqueOrThrow.mockResolvedValue({ walletBalance: 500 });
+
+            const result = await settleOpenInvoices('cust-1', NOW);
+
+            expect(result.settled).toBe(1);
+            expect(tx.invoice.updateMany).toHaveBeenCalledTimes(1);
+            expect(tx.invoice.updateMany).toHaveBeenCalledWith({
+                where: { id: 'inv-1', status: { in: ['pending', 'overdue'] } },
+                data: { status: 'paid', paidAt: NOW },
+            });
+            expect(tx.walletTransaction.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ type: 'DEBIT', amount: 2500, balanceAfter: 500, reference: 'inv-1' }),
+            });
+            expect(postInvoicePayment).toHaveBeenCalledWith(expect.objectContaining({ id: 'inv-1' }), '2000', tx);
+        });
+
+        it('should restore a suspended customer once nothing is overdue', async () => {
+            vi.mocked(prisma.customer.findUnique)
+                .mockResolvedValueOnce({ walletBalance: 2500 } as any)
+                .mockResolvedValueOnce({
+                    ...makeCustomer({ status: 'SUSPENDED', connectionType: 'PPPOE', expiresAt: new Date('2026-04-15T00:00:00Z') }),
+                    tenant,
+                } as any);
+            vi.mocked(prisma.invoice.findMany).mockResolvedValue([makeInvoice({ status: 'overdue' })] as any);
+            vi.mocked(prisma.invoice.count).mockResolvedValue(0);
+            tx.customer.findUniqueOrThrow.mockResolvedValue({ walletBalance: 0 });
+
+            const result = await settleOpenInvoices('cust-1', NOW);
+
+            expect(result).toEqual({ settled: 1, reactivated: true });
+            expect(prisma.customer.update).toHaveBeenCalledWith({
+                where: { id: 'cust-1' },
+                data: { status: 'ACTIVE' },
+            });
+        });
+    });
+
+    // =============================================
+    // Dunning
+    // =============================================
+    describe('processDunning', () => {
+        it('should send a reminder once the first offset is reached', async () => {
+            vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+                makeInvoice({ dueDate: new Date('2026-03-16T00:00:00Z') }),
+            ] as any);
+
+            const result = await processDunning(NOW);
+
+            expect(smsService.sendSms).toHaveBeenCalledWith(
+                'tenant-1',
+                '254700000000',
+                expect.stringContaining('is due on 2026-03-16'),
+                'dunning',
+                'PPPOE'
+            );
+            expect(prisma.invoice.update).toHaveBeenCalledWith({
+                where: { id: 'inv-1' },
+                data: { remindersSent: 1, lastReminderAt: NOW },
+            });
+            expect(result.reminded).toBe(1);
+        });
+
+        it('should walk open invoices in id-ordered batches', async () => {
+            const batch = Array.from({ length: 500 }, (_, i) => makeInvoice({
+                id: `inv-${String(i).padStart(3, '0')}`,
+                dueDate: new Date('2026-04-30T00:00:00Z'),
+            }));
+            vi.mocked(prisma.invoice.findMany)
+                .mockResolvedValueOnce(batch as any)
+                .mockResolvedValueOnce([makeInvoice({ id: 'inv-900', dueDate: new Date('2026-03-16T00:00:00Z') })] as any);
+
+            const result = await processDunning(NOW);
+
+            expect(prisma.invoice.findMany).toHaveBeenCalledTimes(2);
+            expect(vi.mocked(prisma.invoice.findMany).mock.calls[0][0]).toMatchObject({ orderBy: { id: 'asc' }, take: 500 });
+            expect(vi.mocked(prisma.invoice.findMany).mock.calls[1][0]?.where).toMatchObject({ id: { gt: 'inv-499' } });
+            expect(result.reminded).toBe(1);
+        });
+
+        it('should not repeat a reminder that was already sent', async () => {
+            vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+                makeInvoice({ dueDate: new Date('2026-03-16T00:00:00Z'), remindersSent: 1 }),
+            ] as any);
+
+            const result = await processDunning(NOW);
+
+            expect(smsService.sendSms).not.toHaveBeenCalled();
+            expect(result.reminded).toBe(0);
+        });
+
+        it('should mark past-due invoices overdue and suspend the customer', async () => {
+            vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+                makeInvoice({ dueDate: new Date('2026-03-13T00:00:00Z'), remindersSent: 2 }),
+            ] as any);
+
+            const result = await processDunning(NOW);
+
+            expect(prisma.invoice.update).toHaveBeenCalledWith({
+                where: { id: 'inv-1' },
+                data: { status: 'overdue' },
+            });
+            expect(prisma.customer.update).toHaveBeenCalledWith({
+                where: { id: 'cust-1' },
+                data: { status: 'SUSPENDED' },
+            });
+            expect(disconnectUser).toHaveBeenCalledWith('john', 'tenant-1');
+            expect(smsService.sendSms).not.toHaveBeenCalled();
+            expect(result).toEqual({ reminded: 0, overdue: 1, suspended: 1 });
+        });
+    });
+});
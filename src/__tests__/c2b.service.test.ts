@@ -0,0 +1,254 @@
+/**
+ * C2B Service Tests
+ * Tests for PayBill/Till URL registration, callback authentication and BillRefNumber matching
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        paymentGateway: {
+            findUnique: vi.fn(),
+            update: vi.fn(),
+        },
+        customer: {
+            findFirst: vi.fn(),
+            findMany: vi.fn(),
+        },
+        payment: {
+            findUnique: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/config.js', () => ({
+    config: { credentialKey: 'test-credential-key', mpesa: {} },
+}));
+
+vi.mock('../services/renewal.service.js', () => ({
+    recordWalletPayment: vi.fn(),
+}));
+
+vi.mock('../services/suspense.service.js', () => ({
+    recordUnallocatedPayment: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { recordWalletPayment } from '../services/renewal.service.js';
+import { recordUnallocatedPayment } from '../services/suspense.service.js';
+import {
+    findC2BGateway,
+    matchBillRef,
+    validateC2BPayment,
+    handleC2BConfirmation,
+    registerC2BUrls,
+} from '../services/c2b.service.js';
+
+const gateway = {
+    id: 'gw-1',
+    tenantId: 'tenant-1',
+    shortcode: '600100',
+    storeNumber: null,
+    c2bToken: 'a'.repeat(48),
+};
+
+const payload = {
+    TransactionType: 'Pay Bill',
+    TransID: 'SGL1ABC234',
+    TransAmount: '1500.00',
+    BusinessShortCode: '600100',
+    BillRefNumber: 'john',
+    MSISDN: '254712345678',
+    FirstName: 'JOHN',
+    LastName: 'DOE',
+};
+
+describe('C2B Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.customer.findFirst).mockResolvedValue(null);
+        vi.mocked(prisma.customer.findMany).mockResolvedValue([]);
+    });
+
+    describe('findC2BGateway', () => {
+        it('should accept the right token and shortcode', async () => {
+            vi.mocked(prisma.paymentGateway.findUnique).mockResolvedValue(gateway as any);
+
+            expect(await findC2BGateway('gw-1', gateway.c2bToken, '600100')).toBe(gateway);
+            expect(await findC2BGateway('gw-1', 'b'.repeat(48), '600100')).toBeNull();
+            expect(await findC2BGateway('gw-1', 'short', '600100')).toBeNull();
+            expect(await findC2BGateway('gw-1', gateway.c2bToken, '999999')).toBeNull();
+        });
+
+        it('should reject gateways that never registered C2B', async () => {
+            vi.mocked(prisma.paymentGateway.findUnique).mockResolvedValue({ ...gateway, c2bToken: null } as any);
+
+            expect(await findC2BGateway('gw-1', '', '600100')).toBeNull();
+        });
+    });
+
+    describe('matchBillRef', () => {
+        it('should match the username first, then the account number', async () => {
+            vi.mocked(prisma.customer.findFirst)
+                .mockResolvedValueOnce(null)
+                .mockResolvedValueOnce({ id: 'cust-2' } as any);
+
+            expect(await matchBillRef('tenant-1', ' ACC-42 ')).toEqual({ id: 'cust-2' });
+
+            const calls = vi.mocked(prisma.customer.findFirst).mock.calls;
+            expect(calls[0][0]!.where).toMatchObject({ tenantId: 'tenant-1', username: { equals: 'ACC-42', mode: 'insensitive' } });
+            expect(calls[1][0]!.where).toMatchObject({ accountNumber: { equals: 'ACC-42', mode: 'insensitive' } });
+        });
+
+        it('should match a phone number reference on its last nine digits', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([{ id: 'cust-3' }] as any);
+
+            expect(await matchBillRef('tenant-1', '0712345678')).toEqual({ id: 'cust-3' });
+            expect(vi.mocked(prisma.customer.findMany).mock.calls[0][0]!.where).toMatchObject({
+                phone: { endsWith: '712345678' },
+            });
+        });
+
+        it('should fall back to the payer MSISDN unless it is masked', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([{ id: 'cust-4' }] as any);
+
+            expect(await matchBillRef('tenant-1', 'typo', '254712345678')).toEqual({ id: 'cust-4' });
+            vi.mocked(prisma.customer.findMany).mockClear();
+
+            expect(await matchBillRef('tenant-1', 'typo', '2547 ***** 678')).toBeNull();
+            expect(prisma.customer.findMany).not.toHaveBeenCalled();
+        });
+
+        it('should not match a phone shared by several customers', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([{ id: 'a' }, { id: 'b' }] as any);
+
+            expect(await matchBillRef('tenant-1', '', '254712345678')).toBeNull();
+        });
+    });
+
+    describe('validateC2BPayment', () => {
+        it('should accept any positive amount', () => {
+            expect(validateC2BPayment(payload)).toEqual({ ResultCode: '0', ResultDesc: 'Accepted' });
+            expect(validateC2BPayment({ ...payload, TransAmount: '0' }).ResultCode).toBe('C2B00013');
+        });
+    });
+
+    describe('handleC2BConfirmation', () => {
+        it('should credit the matched customer wallet', async () => {
+            vi.mocked(prisma.payment.findUnique).mockResolvedValue(null);
+            vi.mocked(prisma.customer.findFirst).mockResolvedValueOnce({ id: 'cust-1', username: 'john' } as any);
+            vi.mocked(recordWalletPayment).mockResolvedValue({
+                paymentId: 'pay-1',
+                walletBalance: 0,
+                renewal: { renewed: true },
+                invoicesSettled: 0,
+            } as any);
+
+            expect(await handleC2BConfirmation(gateway, payload)).toEqual({ status: 'credited', paymentId: 'pay-1', customerId: 'cust-1' });
+            expect(recordWalletPayment).toHaveBeenCalledWith(expect.objectContaining({
+                customerId: 'cust-1',
+                amount: 1500,
+                transactionId: 'SGL1ABC234',
+                method: 'MPESA',
+            }));
+        });
+
+        it('should hold unmatched payments in suspense', async () => {
+            vi.mocked(prisma.payment.findUnique).mockResolvedValue(null);
+            vi.mocked(recordUnallocatedPayment).mockResolvedValue({ id: 'pay-2' } as any);
+
+            expect(await handleC2BConfirmation(gateway, { ...payload, BillRefNumber: 'nobody', MSISDN: 'hashed' }))
+                .toEqual({ status: 'suspense', paymentId: 'pay-2' });
+            expect(recordUnallocatedPayment).toHaveBeenCalledWith(expect.objectContaining({
+                tenantId: 'tenant-1',
+                amount: 1500,
+                account: 'nobody',
+                description: 'M-Pesa PayBill payment from JOHN DOE',
+            }));
+            expect(recordWalletPayment).not.toHaveBeenCalled();
+        });
+
+        it('should ignore a repeated confirmation', async () => {
+            vi.mocked(prisma.payment.findUnique).mockResolvedValue({ id: 'pay-1', customerId: 'cust-1' } as any);
+
+            expect((await handleC2BConfirmation(gateway, payload)).status).toBe('duplicate');
+            expect(recordWalletPayment).not.toHaveBeenCalled();
+            expect(recordUnallocatedPayment).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('registerC2BUrls', () => {
+        const fetchMock = vi.fn();
+
+        beforeEach(() => {
+            vi.stubGlobal('fetch', fetchMock);
+            vi.stubEnv('API_BASE_URL', 'https://isp.example.com');
+            fetchMock.mockReset();
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+            vi.unstubAllEnvs();
+        });
+
+        it('should register the URLs with the gateway credentials and keep the token', async () => {
+            vi.mocked(prisma.paymentGateway.findUnique).mockResolvedValue({
+                ...gateway,
+                subType: 'PAYBILL',
+                consumerKey: 'key',
+                consumerSecret: 'secret',
+                env: 'sandbox',
+            } as any);
+            fetchMock
+                .mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'tok' })))
+                .mockResolvedValueOnce(new Response(JSON.stringify({ ResponseCode: '0', ResponseDescription: 'Success' })));
+
+            const result = await registerC2BUrls('gw-1');
+
+            expect(result.success).toBe(true);
+            expect(result.confirmationUrl).toBe(`https://isp.example.com/api/c2b/gw-1/${gateway.c2bToken}/confirmation`);
+
+            const [url, init] = fetchMock.mock.calls[1];
+            expect(url).toBe('https://sandbox.safaricom.co.ke/mpesa/c2b/v1/registerurl');
+            expect(init.headers.Authorization).toBe('Bearer tok');
+            expect(JSON.parse(init.body)).toMatchObject({ ShortCode: '600100', ResponseType: 'Completed' });
+            expect(prisma.paymentGateway.update).toHaveBeenCalledWith({
+                where: { id: 'gw-1' },
+                data: { c2bToken: gateway.c2bToken, c2bRegisteredAt: expect.any(Date) },
+            });
+        });
+
+        it('should report a Daraja error without saving', async () => {
+            vi.mocked(prisma.paymentGateway.findUnique).mockResolvedValue({
+                ...gateway,
+                c2bToken: null,
+                consumerKey: 'key',
+                consumerSecret: 'secret',
+                env: 'production',
+            } as any);
+            fetchMock
+                .mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'tok' })))
+                .mockResolvedValueOnce(new Response(JSON.stringify({ errorMessage: 'Invalid ValidationURL' }), { status: 400 }));
+
+            expect(await registerC2BUrls('gw-1')).toEqual({ success: false, message: 'Invalid ValidationURL' });
+            expect(prisma.paymentGateway.update).not.toHaveBeenCalled();
+        });
+
+        it('should refuse gateways without API credentials', async () => {
+            vi.mocked(prisma.paymentGateway.findUnique).mockResolvedValue({ ...gateway, consumerKey: null } as any);
+
+            expect((await registerC2BUrls('gw-1')).success).toBe(false);
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+    });
+});
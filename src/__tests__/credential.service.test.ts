@@ -0,0 +1,141 @@
+/**
+ * Credential Service Tests
+ * Tests for customer password encryption, hashing, login tokens and the plaintext migration
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        customer: {
+            findMany: vi.fn(),
+            update: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/config.js', () => ({
+    config: { credentialKey: 'test-credential-key' },
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import {
+    LOGIN_TOKEN_WINDOW_MS,
+    encryptCredential,
+    decryptCredential,
+    protectPassword,
+    verifyCustomerPassword,
+    createLoginToken,
+    getValidLoginTokens,
+    migrateCustomerPasswords,
+} from '../services/credential.service.js';
+
+describe('Credential Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('encryptCredential / decryptCredential', () => {
+        it('should round-trip a password through a fresh ciphertext each time', () => {
+            const first = encryptCredential('s3cret!');
+            const second = encryptCredential('s3cret!');
+
+            expect(first).toMatch(/^enc:v1:/);
+            expect(first).not.toContain('s3cret');
+            expect(first).not.toBe(second);
+            expect(decryptCredential(first)).toBe('s3cret!');
+            expect(decryptCredential(second)).toBe('s3cret!');
+        });
+
+        it('should return legacy plaintext unchanged', () => {
+            expect(decryptCredential('oldpass')).toBe('oldpass');
+        });
+
+        it('should return null for a tampered ciphertext', () => {
+            const stored = encryptCredential('s3cret!');
+            const [iv, tag, ciphertext] = stored.slice('enc:v1:'.length).split('.');
+            const flipped = Buffer.from(ciphertext, 'base64url');
+            flipped[0] ^= 0xff;
+
+            expect(decryptCredential(`enc:v1:${iv}.${tag}.${flipped.toString('base64url')}`)).toBeNull();
+        });
+    });
+
+    describe('verifyCustomerPassword', () => {
+        it('should check the bcrypt hash when present', async () => {
+            const customer = await protectPassword('s3cret!');
+
+            expect(customer.passwordHash).toMatch(/^\$2[aby]\$/);
+            expect(await verifyCustomerPassword(customer, 's3cret!')).toBe(true);
+            expect(await verifyCustomerPassword(customer, 'wrong')).toBe(false);
+        });
+
+        it('should fall back to the stored value for rows not migrated yet', async () => {
+            const customer = { password: 'oldpass', passwordHash: null };
+
+            expect(await verifyCustomerPassword(customer, 'oldpass')).toBe(true);
+            expect(await verifyCustomerPassword(customer, 'wrong')).toBe(false);
+        });
+    });
+
+    describe('login tokens', () => {
+        const now = new Date('2026-03-01T10:02:00Z');
+
+        it('should accept a token for its own and the following window only', () => {
+            const { token, expiresAt } = createLoginToken('cust-1', now);
+
+            expect(token).toHaveLength(20);
+            expect(expiresAt).toEqual(new Date('2026-03-01T10:10:00Z'));
+            expect(getValidLoginTokens('cust-1', now)).toContain(token);
+            expect(getValidLoginTokens('cust-1', new Date(now.getTime() + LOGIN_TOKEN_WINDOW_MS))).toContain(token);
+            expect(getValidLoginTokens('cust-1', new Date(now.getTime() + 2 * LOGIN_TOKEN_WINDOW_MS))).not.toContain(token);
+        });
+
+        it('should differ between customers', () => {
+            expect(createLoginToken('cust-1', now).token).not.toBe(createLoginToken('cust-2', now).token);
+        });
+    });
+
+    describe('migrateCustomerPasswords', () => {
+        it('should encrypt and hash plaintext rows in batches', async () => {
+            vi.mocked(prisma.customer.findMany)
+                .mockResolvedValueOnce([
+                    { id: 'a', password: 'alpha' },
+                    { id: 'b', password: 'bravo' },
+                ] as any)
+                .mockResolvedValueOnce([{ id: 'c', password: 'charlie' }] as any)
+                .mockResolvedValueOnce([]);
+
+            const result = await migrateCustomerPasswords(2);
+
+            expect(result).toEqual({ migrated: 3, failed: 0 });
+            expect(vi.mocked(prisma.customer.findMany).mock.calls[1][0]).toMatchObject({
+                where: { passwordHash: null, id: { gt: 'b' } },
+            });
+
+            const update = vi.mocked(prisma.customer.update).mock.calls[0][0] as any;
+            expect(update.where).toEqual({ id: 'a' });
+            expect(decryptCredential(update.data.password)).toBe('alpha');
+            expect(await verifyCustomerPassword(update.data, 'alpha')).toBe(true);
+        });
+
+        it('should count rows that do not decrypt as failed', async () => {
+            vi.mocked(prisma.customer.findMany)
+                .mockResolvedValueOnce([{ id: 'a', password: 'enc:v1:bad.bad.bad' }] as any)
+                .mockResolvedValueOnce([]);
+
+            expect(await migrateCustomerPasswords()).toEqual({ migrated: 0, failed: 1 });
+            expect(prisma.customer.update).not.toHaveBeenCalled();
+        });
+    });
+});
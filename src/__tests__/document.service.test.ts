@@ -0,0 +1,269 @@
+/**
+ * Document Service Tests
+ * Tests for invoice/receipt PDFs, voucher card exports and SMS download links
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        invoice: {
+            findFirst: vi.fn(),
+        },
+        payment: {
+            findFirst: vi.fn(),
+        },
+        documentLink: {
+            create: vi.fn(),
+            findUnique: vi.fn(),
+        },
+        voucher: {
+            findMany: vi.fn(),
+        },
+        tenant: {
+            findUnique: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../services/sms.service.js', () => ({
+    smsService: { sendSms: vi.fn() },
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { smsService } from '../services/sms.service.js';
+import {
+    parseInvoiceItems,
+    renderInvoicePdf,
+    renderReceiptPdf,
+    renderLinkedDocument,
+    sendDocumentLink,
+    renderVoucherSheetPdf,
+    renderVoucherCsv,
+    formatVoucherValidity,
+    getVoucherPortalUrl,
+} from '../services/document.service.js';
+
+const tenant = {
+    businessName: 'Acme ISP',
+    logo: null,
+    primaryColor: '#FF5500',
+    phone: '0700000000',
+    email: 'billing@acme.test',
+    location: 'Nairobi',
+};
+
+describe('Document Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.stubEnv('API_BASE_URL', 'https://api.example.com');
+    });
+
+    describe('parseInvoiceItems', () => {
+        it('should default quantity and drop malformed items', () => {
+            const items = parseInvoiceItems([
+                { description: 'Home 10M', amount: 2500 },
+                { description: 'Router', quantity: 2, amount: '1500' },
+                { amount: 100 },
+                'junk',
+            ]);
+
+            expect(items).toEqual([
+                { description: 'Home 10M', quantity: 1, amount: 2500 },
+                { description: 'Router', quantity: 2, amount: 1500 },
+            ]);
+        });
+
+        it('should return no items for non-array JSON', () => {
+            expect(parseInvoiceItems({ description: 'x' })).toEqual([]);
+        });
+    });
+
+    // =============================================
+    // PDF Rendering
+    // =============================================
+    describe('renderInvoicePdf', () => {
+        it('should render a PDF named after the invoice number', async () => {
+            vi.mocked(prisma.invoice.findFirst).mockResolvedValue({
+                invoiceNo: 'INV-20260001',
+                amount: 2500,
+                status: 'pending',
+                items: [{ description: 'Home 10M', amount: 2500 }],
+                dueDate: new Date('2026-03-22T00:00:00Z'),
+                createdAt: new Date('2026-03-15T00:00:00Z'),
+                periodStart: null,
+                periodEnd: null,
+                paidAt: null,
+                customer: { name: 'John', username: 'john', phone: '254700000000', email: null, location: null },
+                tenant,
+            } as any);
+
+            const file = await renderInvoicePdf('tenant-1', 'INV-20260001');
+
+            expect(file?.filename).toBe('INV-20260001.pdf');
+            expect(file?.content.subarray(0, 5).toString()).toBe('%PDF-');
+            expect(prisma.invoice.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+                where: { invoiceNo: 'INV-20260001', tenantId: 'tenant-1' },
+            }));
+        });
+
+        it('should return null for unknown invoices', async () => {
+            vi.mocked(prisma.invoice.findFirst).mockResolvedValue(null);
+
+            expect(await renderInvoicePdf('tenant-1', 'INV-missing')).toBeNull();
+        });
+
+        it('should not load logos outside the uploads directory or on internal hosts', async () => {
+            for (const logo of ['/uploads/../../.env', 'http://169.254.169.254/latest/meta-data']) {
+                vi.mocked(prisma.invoice.findFirst).mockResolvedValue({
+                    invoiceNo: 'INV-20260001',
+                    amount: 2500,
+                    status: 'pending',
+                    items: [],
+                    dueDate: new Date('2026-03-22T00:00:00Z'),
+                    createdAt: new Date('2026-03-15T00:00:00Z'),
+                    customer: { name: 'John', username: 'john', phone: null, email: null, location: null },
+                    tenant: { ...tenant, logo },
+                } as any);
+
+                const file = await renderInvoicePdf('tenant-1', 'INV-20260001');
+
+                expect(file?.content.subarray(0, 5).toString()).toBe('%PDF-');
+            }
+
+            expect(logger.warn).toHaveBeenCalledWith({ logo: '/uploads/../../.env' }, 'Tenant logo path escapes the uploads directory');
+            expect(logger.warn).toHaveBeenCalledWith(
+                { error: expect.objectContaining({ message: '169.254.169.254 is not a public address' }), logo: 'http://169.254.169.254/latest/meta-data' },
+                'Failed to load tenant logo for PDF'
+            );
+        });
+    });
+
+    describe('renderReceiptPdf', () => {
+        it('should only render receipts for completed payments', async () => {
+            vi.mocked(prisma.payment.findFirst).mockResolvedValue({
+                id: 'abcdef12-3456-7890-abcd-ef1234567890',
+                amount: 1500,
+                method: 'CASH',
+                transactionId: null,
+                phone: null,
+                account: 'john',
+                description: 'Wallet top-up',
+                createdAt: new Date('2026-03-15T00:00:00Z'),
+                customer: { name: 'John', username: 'john', phone: '254700000000' },
+                tenant,
+            } as any);
+
+            const file = await renderReceiptPdf('tenant-1', 'abcdef12-3456-7890-abcd-ef1234567890');
+
+            expect(file?.filename).toBe('RCT-ABCDEF12.pdf');
+            expect(prisma.payment.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: 'abcdef12-3456-7890-abcd-ef1234567890', tenantId: 'tenant-1', status: 'COMPLETED' },
+            }));
+        });
+    });
+
+    // =============================================
+    // Download Links
+    // =============================================
+    describe('download links', () => {
+        it('should reject expired links', async () => {
+            vi.mocked(prisma.documentLink.findUnique).mockResolvedValue({
+                type: 'INVOICE',
+                documentId: 'INV-20260001',
+                tenantId: 'tenant-1',
+                expiresAt: new Date(Date.now() - 1000),
+            } as any);
+
+            expect(await renderLinkedDocument('abc12345')).toBeNull();
+            expect(prisma.invoice.findFirst).not.toHaveBeenCalled();
+        });
+
+        it('should text a short link to the document', async () => {
+            vi.mocked(prisma.documentLink.create).mockImplementation((async (args: any) => args.data) as any);
+            vi.mocked(smsService.sendSms).mockResolvedValue({ success: true });
+
+            const result = await sendDocumentLink('RECEIPT', 'pay-1', 'tenant-1', '254700000000', 'RCT-ABCDEF12');
+
+            expect(result.url).toMatch(/^https:\/\/api\.example\.com\/d\/[\w-]{8}$/);
+            expect(smsService.sendSms).toHaveBeenCalledWith(
+                'tenant-1',
+                '254700000000',
+                `Your payment receipt RCT-ABCDEF12 is ready. Download: ${result.url}`,
+                'document_link'
+            );
+        });
+    });
+
+    // =============================================
+    // Voucher Cards
+    // =============================================
+    describe('voucher exports', () => {
+        const pkg = { name: 'Daily 5M', price: 50, sessionTime: 1440, dataLimit: null };
+
+        function makeVouchers(count: number) {
+            return Array.from({ length: count }, (_, i) => ({
+                code: `CODE${String(i).padStart(4, '0')}`,
+                status: 'AVAILABLE',
+                expiresAt: null,
+                usedAt: null,
+                package: pkg,
+            }));
+        }
+
+        it('should describe package validity by time and data', () => {
+            expect(formatVoucherValidity({ sessionTime: 60 * 3, dataLimit: null })).toBe('3 hours');
+            expect(formatVoucherValidity({ sessionTime: 1440 * 7, dataLimit: BigInt(2 * 1024 ** 3) })).toBe('7 days / 2.0 GB');
+            expect(formatVoucherValidity({ sessionTime: null, dataLimit: null })).toBe('Unlimited');
+        });
+
+        it('should point QR codes at the hotspot login with the code pre-filled', () => {
+            expect(getVoucherPortalUrl('AB12CD34')).toBe('http://hotspot.local/login?voucher=AB12CD34');
+        });
+
+        it('should lay out unused vouchers over as many pages as the grid needs', async () => {
+            vi.mocked(prisma.voucher.findMany).mockResolvedValue(makeVouchers(7) as any);
+            vi.mocked(prisma.tenant.findUnique).mockResolvedValue(tenant as any);
+
+            const file = await renderVoucherSheetPdf('tenant-1', 'batch-1234567890', { columns: 2, rows: 3 });
+
+            expect(file?.filename).toBe('vouchers-batch-12.pdf');
+            const pages = file!.content.toString('latin1').match(/\/Type \/Page\b/g) ?? [];
+            expect(pages).toHaveLength(2);
+            expect(prisma.voucher.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { tenantId: 'tenant-1', batchId: 'batch-1234567890', status: 'AVAILABLE' },
+            }));
+        });
+
+        it('should return null when the batch has nothing left to print', async () => {
+            vi.mocked(prisma.voucher.findMany).mockResolvedValue([]);
+            vi.mocked(prisma.tenant.findUnique).mockResolvedValue(tenant as any);
+
+            expect(await renderVoucherSheetPdf('tenant-1', 'batch-1', {})).toBeNull();
+        });
+
+        it('should export the whole batch as CSV', async () => {
+            vi.mocked(prisma.voucher.findMany).mockResolvedValue([
+                { ...makeVouchers(1)[0], package: { ...pkg, name: 'Daily, 5M' } },
+            ] as any);
+
+            const file = await renderVoucherCsv('tenant-1', 'batch-1');
+
+            expect(file?.content).toBe(
+                'code,package,price,validity,status,expiresAt,usedAt,portalUrl\n' +
+                'CODE0000,"Daily, 5M",50,1 day,AVAILABLE,,,http://hotspot.local/login?voucher=CODE0000\n'
+            );
+        });
+    });
+});
@@ -0,0 +1,210 @@
+/**
+ * Expiry Engine Tests
+ * Tests for expiring customers, grace period throttling and CoA disconnects
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        customer: {
+            findMany: vi.fn(),
+            update: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/queue.js', () => ({
+    queue: { scheduleRecurring: vi.fn() },
+}));
+
+vi.mock('../services/renewal.service.js', () => ({
+    renewIfDue: vi.fn(),
+}));
+
+vi.mock('../radius/handlers/coa.js', () => ({
+    disconnectUser: vi.fn(),
+    updateUserRateLimit: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { disconnectUser, updateUserRateLimit } from '../radius/handlers/coa.js';
+import { renewIfDue } from '../services/renewal.service.js';
+import { processExpiredCustomers, isWithinGracePeriod } from '../services/expiry.service.js';
+
+const NOW = new Date('2026-01-15T12:00:00Z');
+
+function makeCustomer(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'cust-1',
+        username: 'john',
+        tenantId: 'tenant-1',
+        expiresAt: new Date('2026-01-15T11:30:00Z'),
+        graceStartedAt: null,
+        tenant: { gracePeriodMinutes: 0, graceRateLimit: '256k/256k' },
+        ...overrides,
+    };
+}
+
+describe('Expiry Engine', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(disconnectUser).mockResolvedValue({ success: true, message: 'Disconnected' });
+        vi.mocked(updateUserRateLimit).mockResolvedValue({ success: true, message: 'Updated' });
+        vi.mocked(renewIfDue).mockResolvedValue({ renewed: false } as any);
+    });
+
+    // =============================================
+    // Grace Period Window
+    // =============================================
+    describe('isWithinGracePeriod', () => {
+        const expiresAt = new Date('2026-01-15T11:30:00Z');
+
+        it('should be false when tenant has no grace period', () => {
+            expect(isWithinGracePeriod(expiresAt, { gracePeriodMinutes: 0, graceRateLimit: '' }, NOW)).toBe(false);
+        });
+
+        it('should be true inside the grace window', () => {
+            expect(isWithinGracePeriod(expiresAt, { gracePeriodMinutes: 60, graceRateLimit: '' }, NOW)).toBe(true);
+        });
+
+        it('should be false once the grace window has passed', () => {
+            expect(isWithinGracePeriod(expiresAt, { gracePeriodMinutes: 15, graceRateLimit: '' }, NOW)).toBe(false);
+        });
+
+        it('should be false before expiry', () => {
+            const future = new Date('2026-01-15T13:00:00Z');
+            expect(isWithinGracePeriod(future, { gracePeriodMinutes: 60, graceRateLimit: '' }, NOW)).toBe(false);
+        });
+    });
+
+    // =============================================
+    // Processing Expired Customers
+    // =============================================
+    describe('processExpiredCustomers', () => {
+        it('should expire and disconnect customers without a grace period', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([makeCustomer()] as any);
+
+            const result = await processExpiredCustomers(NOW);
+
+            expect(prisma.customer.update).toHaveBeenCalledWith({
+                where: { id: 'cust-1' },
+                data: { status: 'EXPIRED' },
+            });
+            expect(disconnectUser).toHaveBeenCalledWith('john', 'tenant-1');
+            expect(result).toEqual({ renewed: 0, expired: 1, throttled: 0, disconnected: 1 });
+        });
+
+        it('should renew customers whose wallet covers the package instead of expiring them', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([makeCustomer()] as any);
+            vi.mocked(renewIfDue).mockResolvedValue({ renewed: true } as any);
+
+            const result = await processExpiredCustomers(NOW);
+
+            expect(prisma.customer.update).not.toHaveBeenCalled();
+            expect(disconnectUser).not.toHaveBeenCalled();
+            expect(result.renewed).toBe(1);
+        });
+
+        it('should throttle customers inside the grace period instead of disconnecting', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([
+                makeCustomer({ tenant: { gracePeriodMinutes: 60, graceRateLimit: '128k/128k' } }),
+            ] as any);
+
+            const result = await processExpiredCustomers(NOW);
+
+            expect(updateUserRateLimit).toHaveBeenCalledWith('john', 'tenant-1', '128k/128k');
+            expect(prisma.customer.update).toHaveBeenCalledWith({
+                where: { id: 'cust-1' },
+                data: { graceStartedAt: NOW },
+            });
+            expect(disconnectUser).not.toHaveBeenCalled();
+            expect(result).toEqual({ renewed: 0, expired: 0, throttled: 1, disconnected: 0 });
+        });
+
+        it('should page past a full batch of customers already in grace', async () => {
+            const inGrace = Array.from({ length: 200 }, (_, i) => makeCustomer({
+                id: `grace-${String(i).padStart(3, '0')}`,
+                graceStartedAt: new Date('2026-01-15T11:35:00Z'),
+                tenant: { gracePeriodMinutes: 60, graceRateLimit: '128k/128k' },
+            }));
+            vi.mocked(prisma.customer.findMany)
+                .mockResolvedValueOnce(inGrace as any)
+                .mockResolvedValueOnce([makeCustomer({ id: 'new-1', username: 'mary' })] as any);
+
+            const result = await processExpiredCustomers(NOW);
+
+            expect(prisma.customer.findMany).toHaveBeenCalledTimes(2);
+            expect(vi.mocked(prisma.customer.findMany).mock.calls[1][0]).toMatchObject({
+                where: { id: { gt: 'grace-199' } },
+                orderBy: { id: 'asc' },
+            });
+            expect(disconnectUser).toHaveBeenCalledWith('mary', 'tenant-1');
+            expect(result).toEqual({ renewed: 0, expired: 1, throttled: 0, disconnected: 1 });
+        });
+
+        it('should not re-throttle a customer already in grace for the same expiry', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([
+                makeCustomer({
+                    graceStartedAt: new Date('2026-01-15T11:31:00Z'),
+                    tenant: { gracePeriodMinutes: 60, graceRateLimit: '128k/128k' },
+                }),
+            ] as any);
+
+            const result = await processExpiredCustomers(NOW);
+
+            expect(updateUserRateLimit).not.toHaveBeenCalled();
+            expect(prisma.customer.update).not.toHaveBeenCalled();
+            expect(result.throttled).toBe(0);
+        });
+
+        it('should expire customers once the grace period has run out', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([
+                makeCustomer({
+                    graceStartedAt: new Date('2026-01-15T11:31:00Z'),
+                    tenant: { gracePeriodMinutes: 15, graceRateLimit: '128k/128k' },
+                }),
+            ] as any);
+
+            const result = await processExpiredCustomers(NOW);
+
+            expect(disconnectUser).toHaveBeenCalledWith('john', 'tenant-1');
+            expect(result.expired).toBe(1);
+        });
+
+        it('should count customers without an active session as expired but not disconnected', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([makeCustomer()] as any);
+            vi.mocked(disconnectUser).mockResolvedValue({ success: false, message: 'No active session found' });
+
+            const result = await processExpiredCustomers(NOW);
+
+            expect(result).toEqual({ renewed: 0, expired: 1, throttled: 0, disconnected: 0 });
+        });
+
+        it('should keep going when one customer fails', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([
+                makeCustomer({ id: 'cust-1' }),
+                makeCustomer({ id: 'cust-2', username: 'jane' }),
+            ] as any);
+            vi.mocked(prisma.customer.update)
+                .mockRejectedValueOnce(new Error('DB error'))
+                .mockResolvedValueOnce({} as any);
+
+            const result = await processExpiredCustomers(NOW);
+
+            expect(disconnectUser).toHaveBeenCalledTimes(1);
+            expect(disconnectUser).toHaveBeenCalledWith('jane', 'tenant-1');
+            expect(result.expired).toBe(1);
+        });
+    });
+});
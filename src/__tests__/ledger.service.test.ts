@@ -0,0 +1,199 @@
+/**
+ * General Ledger Tests
+ * Tests for balanced journal postings, account mapping and financial reports
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        chartOfAccount: {
+            findMany: vi.fn(),
+            createMany: vi.fn(),
+            update: vi.fn(),
+        },
+        journalEntry: {
+            create: vi.fn(),
+            findMany: vi.fn(),
+            findFirst: vi.fn(),
+        },
+        journalLine: {
+            groupBy: vi.fn(),
+        },
+    },
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import {
+    ACCOUNT_CODES,
+    postJournalEntry,
+    reverseEntriesForSource,
+    accountForPaymentMethod,
+    accountForExpenseCategory,
+    getTrialBalance,
+    getProfitAndLoss,
+    getBalanceSheet,
+} from '../services/ledger.service.js';
+
+const accounts = [
+    { id: 'acc-cash', code: ACCOUNT_CODES.CASH, name: 'Cash on Hand', type: 'Asset' },
+    { id: 'acc-mpesa', code: ACCOUNT_CODES.MPESA, name: 'M-Pesa', type: 'Asset' },
+    { id: 'acc-wallet', code: ACCOUNT_CODES.CUSTOMER_WALLETS, name: 'Customer Wallet Deposits', type: 'Liability' },
+    { id: 'acc-revenue', code: ACCOUNT_CODES.SERVICE_REVENUE, name: 'Internet Service Revenue', type: 'Revenue' },
+    { id: 'acc-bandwidth', code: ACCOUNT_CODES.BANDWIDTH, name: 'Bandwidth', type: 'Expense' },
+];
+
+describe('General Ledger', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.chartOfAccount.findMany).mockImplementation((async (args: any) => {
+            const codes: string[] | undefined = args?.where?.code?.in;
+            return codes ? accounts.filter(a => codes.includes(a.code)) : accounts;
+        }) as any);
+        vi.mocked(prisma.journalEntry.create).mockImplementation((async (args: any) => ({ id: 'entry-1', ...args.data })) as any);
+    });
+
+    // =============================================
+    // Posting
+    // =============================================
+    describe('postJournalEntry', () => {
+        it('should reject unbalanced entries', async () => {
+            await expect(postJournalEntry({
+                tenantId: 'tenant-1',
+                description: 'Broken',
+                sourceType: 'MANUAL',
+                lines: [
+                    { accountCode: ACCOUNT_CODES.CASH, debit: 100 },
+                    { accountCode: ACCOUNT_CODES.SERVICE_REVENUE, credit: 90 },
+                ],
+            })).rejects.toThrow('Unbalanced journal entry');
+            expect(prisma.journalEntry.create).not.toHaveBeenCalled();
+        });
+
+        it('should update balances in each account\'s normal direction', async () => {
+            await postJournalEntry({
+                tenantId: 'tenant-1',
+                description: 'Wallet deposit',
+                sourceType: 'PAYMENT',
+                sourceId: 'pay-1',
+                lines: [
+                    { accountCode: ACCOUNT_CODES.MPESA, debit: 1500 },
+                    { accountCode: ACCOUNT_CODES.CUSTOMER_WALLETS, credit: 1500 },
+                ],
+            });
+
+            expect(prisma.chartOfAccount.update).toHaveBeenCalledWith({
+                where: { id: 'acc-mpesa' },
+                data: { balance: { increment: 1500 } },
+            });
+            expect(prisma.chartOfAccount.update).toHaveBeenCalledWith({
+                where: { id: 'acc-wallet' },
+                data: { balance: { increment: 1500 } },
+            });
+        });
+
+        it('should seed system accounts when codes are missing', async () => {
+            vi.mocked(prisma.chartOfAccount.findMany)
+                .mockResolvedValueOnce([] as any);
+
+            await postJournalEntry({
+                tenantId: 'tenant-1',
+                description: 'Sale',
+                sourceType: 'PAYMENT',
+                lines: [
+                    { accountCode: ACCOUNT_CODES.CASH, debit: 50 },
+                    { accountCode: ACCOUNT_CODES.SERVICE_REVENUE, credit: 50 },
+                ],
+            });
+
+            expect(prisma.chartOfAccount.createMany).toHaveBeenCalledWith(expect.objectContaining({ skipDuplicates: true }));
+        });
+    });
+
+    describe('reverseEntriesForSource', () => {
+        it('should post a mirror entry with debits and credits swapped', async () => {
+            vi.mocked(prisma.journalEntry.findMany).mockResolvedValue([{
+                id: 'entry-1',
+                description: 'Wallet deposit',
+                lines: [
+                    { debit: 1500, credit: 0, description: null, account: accounts[1] },
+                    { debit: 0, credit: 1500, description: null, account: accounts[2] },
+                ],
+            }] as any);
+            vi.mocked(prisma.journalEntry.findFirst).mockResolvedValue(null);
+
+            const reversed = await reverseEntriesForSource('tenant-1', 'PAYMENT', 'pay-1', 'Refund');
+
+            expect(reversed).toBe(1);
+            const created = vi.mocked(prisma.journalEntry.create).mock.calls[0][0] as any;
+            expect(created.data.reversalOf).toBe('entry-1');
+            expect(created.data.sourceType).toBe('REFUND');
+            expect(created.data.lines.create).toEqual([
+                expect.objectContaining({ accountId: 'acc-mpesa', debit: 0, credit: 1500 }),
+                expect.objectContaining({ accountId: 'acc-wallet', debit: 1500, credit: 0 }),
+            ]);
+        });
+    });
+
+    // =============================================
+    // Account Mapping
+    // =============================================
+    describe('account mapping', () => {
+        it('should map payment methods to asset accounts', () => {
+            expect(accountForPaymentMethod('MPESA')).toBe(ACCOUNT_CODES.MPESA);
+            expect(accountForPaymentMethod('M-Pesa')).toBe(ACCOUNT_CODES.MPESA);
+            expect(accountForPaymentMethod('AIRTEL_MONEY')).toBe(ACCOUNT_CODES.AIRTEL_MONEY);
+            expect(accountForPaymentMethod('BANK_TRANSFER')).toBe(ACCOUNT_CODES.BANK);
+            expect(accountForPaymentMethod('CARD')).toBe(ACCOUNT_CODES.BANK);
+            expect(accountForPaymentMethod('PAYSTACK')).toBe(ACCOUNT_CODES.BANK);
+            expect(accountForPaymentMethod(null)).toBe(ACCOUNT_CODES.CASH);
+        });
+
+        it('should map expense categories to expense accounts', () => {
+            expect(accountForExpenseCategory('Bandwidth')).toBe(ACCOUNT_CODES.BANDWIDTH);
+            expect(accountForExpenseCategory('fuel')).toBe(ACCOUNT_CODES.GENERAL_EXPENSES);
+        });
+    });
+
+    // =============================================
+    // Reports
+    // =============================================
+    describe('reports', () => {
+        beforeEach(() => {
+            // Deposit 1500 via M-Pesa, renew 1000 from wallet, pay 300 bandwidth in cash
+            vi.mocked(prisma.journalLine.groupBy as any).mockResolvedValue([
+                { accountId: 'acc-mpesa', _sum: { debit: 1500, credit: 0 } },
+                { accountId: 'acc-wallet', _sum: { debit: 1000, credit: 1500 } },
+                { accountId: 'acc-revenue', _sum: { debit: 0, credit: 1000 } },
+                { accountId: 'acc-bandwidth', _sum: { debit: 300, credit: 0 } },
+                { accountId: 'acc-cash', _sum: { debit: 0, credit: 300 } },
+            ]);
+        });
+
+        it('should produce a balanced trial balance', async () => {
+            const report = await getTrialBalance('tenant-1');
+
+            expect(report.totalDebit).toBe(1800);
+            expect(report.totalCredit).toBe(1800);
+            expect(report.balanced).toBe(true);
+        });
+
+        it('should compute net income for the period', async () => {
+            const report = await getProfitAndLoss('tenant-1', new Date('2026-01-01'), new Date('2026-01-31'));
+
+            expect(report.totalRevenue).toBe(1000);
+            expect(report.totalExpenses).toBe(300);
+            expect(report.netIncome).toBe(700);
+        });
+
+        it('should balance assets against liabilities and equity', async () => {
+            const report = await getBalanceSheet('tenant-1');
+
+            expect(report.totalAssets).toBe(1200);
+            expect(report.totalLiabilities).toBe(500);
+            expect(report.totalEquity).toBe(700);
+            expect(report.balanced).toBe(true);
+        });
+    });
+});
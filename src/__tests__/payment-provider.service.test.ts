@@ -0,0 +1,279 @@
+/**
+ * Payment Provider Service Tests
+ * Tests for adapter selection, M-Pesa delegation, and the Airtel Money,
+ * Paystack and Flutterwave status mapping and webhook verification
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHmac } from 'crypto';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        paymentGateway: {
+            findFirst: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../services/mpesa.service.js', () => ({
+    initiateSTKPush: vi.fn(),
+    querySTKStatus: vi.fn(),
+    parseStkCallback: vi.fn(),
+    formatPhoneNumber: (phone: string) => phone,
+    getBaseUrl: () => 'https://sandbox.safaricom.co.ke',
+    getGatewayAccessToken: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { initiateSTKPush, querySTKStatus } from '../services/mpesa.service.js';
+import { paymentProviderService } from '../services/payment-provider.service.js';
+
+const baseGateway = {
+    id: 'gw-1',
+    tenantId: 'tenant-1',
+    type: 'MPESA_API',
+    shortcode: '600100',
+    consumerKey: 'key',
+    consumerSecret: 'secret',
+    env: 'sandbox',
+    config: null,
+};
+
+function gatewayOf(overrides: Record<string, unknown>) {
+    return { ...baseGateway, ...overrides } as any;
+}
+
+describe('Payment Provider Service', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.stubGlobal('fetch', fetchMock);
+        fetchMock.mockReset();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('getAdapter', () => {
+        it('should pick the adapter from the gateway type', () => {
+            expect(paymentProviderService.getAdapter(gatewayOf({ type: 'MPESA_API' }))?.method).toBe('MPESA');
+            expect(paymentProviderService.getAdapter(gatewayOf({ type: 'MPESA_NO_API' }))?.method).toBe('MPESA');
+            expect(paymentProviderService.getAdapter(gatewayOf({ type: 'AIRTEL_MONEY' }))?.method).toBe('AIRTEL_MONEY');
+            expect(paymentProviderService.getAdapter(gatewayOf({ type: 'PAYSTACK' }))?.name).toBe('Paystack');
+            expect(paymentProviderService.getAdapter(gatewayOf({ type: 'FLUTTERWAVE' }))?.name).toBe('Flutterwave');
+
+            // Gateway checkouts are kept apart from the CARD payments staff record by hand
+            expect(paymentProviderService.getAdapter(gatewayOf({ type: 'PAYSTACK' }))?.method).toBe('PAYSTACK');
+            expect(paymentProviderService.getAdapter(gatewayOf({ type: 'FLUTTERWAVE' }))?.method).toBe('FLUTTERWAVE');
+            expect(paymentProviderService.getAdapter(gatewayOf({ type: 'BITCOIN' }))).toBeNull();
+        });
+    });
+
+    describe('getProviderForPurpose', () => {
+        it('should prefer the gateway flagged for the purpose', async () => {
+            vi.mocked(prisma.paymentGateway.findFirst).mockResolvedValueOnce(gatewayOf({ id: 'gw-pppoe', type: 'AIRTEL_MONEY' }));
+
+            const selected = await paymentProviderService.getProviderForPurpose('tenant-1', 'PPPOE');
+
+            expect(selected?.gateway.id).toBe('gw-pppoe');
+            expect(selected?.provider.name).toBe('Airtel Money');
+            expect(prisma.paymentGateway.findFirst).toHaveBeenCalledWith({ where: { tenantId: 'tenant-1', forPppoe: true } });
+        });
+
+        it('should fall back to the default gateway', async () => {
+            vi.mocked(prisma.paymentGateway.findFirst)
+                .mockResolvedValueOnce(null)
+                .mockResolvedValueOnce(gatewayOf({ type: 'PAYSTACK' }));
+
+            const selected = await paymentProviderService.getProviderForPurpose('tenant-1', 'HOTSPOT');
+
+            expect(selected?.provider.name).toBe('Paystack');
+            expect(prisma.paymentGateway.findFirst).toHaveBeenLastCalledWith({ where: { tenantId: 'tenant-1', isDefault: true } });
+        });
+
+        it('should return null without a gateway', async () => {
+            vi.mocked(prisma.paymentGateway.findFirst).mockResolvedValue(null);
+
+            expect(await paymentProviderService.getProviderForPurpose('tenant-1', 'HOTSPOT')).toBeNull();
+        });
+    });
+
+    describe('M-Pesa', () => {
+        it('should start an STK push for the purpose and use the CheckoutRequestID as reference', async () => {
+            vi.mocked(initiateSTKPush).mockResolvedValue({
+                CheckoutRequestID: 'ws_CO_1',
+                MerchantRequestID: 'mr-1',
+                ResponseCode: '0',
+                ResponseDescription: 'Success',
+                CustomerMessage: 'Check your phone',
+            });
+            const provider = paymentProviderService.getAdapter(gatewayOf({}), 'PPPOE')!;
+
+            const result = await provider.initiatePayment({
+                phone: '0712345678',
+                amount: 1000,
+                accountReference: 'alice',
+                description: 'Renewal',
+            });
+
+            expect(result).toMatchObject({ success: true, reference: 'ws_CO_1', providerReference: 'mr-1' });
+            expect(initiateSTKPush).toHaveBeenCalledWith('tenant-1', '0712345678', 1000, 'alice', 'Renewal', { purpose: 'PPPOE' });
+        });
+
+        it('should map STK query result codes', async () => {
+            const provider = paymentProviderService.getAdapter(gatewayOf({}), 'HOTSPOT')!;
+
+            vi.mocked(querySTKStatus).mockResolvedValueOnce({ ResultCode: '0' } as any);
+            expect((await provider.queryPayment('ws_CO_1')).status).toBe('COMPLETED');
+
+            vi.mocked(querySTKStatus).mockResolvedValueOnce({ ResultCode: '1032', ResultDesc: 'Cancelled by user' } as any);
+            expect(await provider.queryPayment('ws_CO_1')).toMatchObject({ status: 'FAILED', message: 'Cancelled by user' });
+
+            vi.mocked(querySTKStatus).mockRejectedValueOnce(new Error('The transaction is being processed'));
+            expect(await provider.queryPayment('ws_CO_1')).toMatchObject({ success: false, status: 'PENDING' });
+            expect(querySTKStatus).toHaveBeenCalledWith('tenant-1', 'ws_CO_1', 'HOTSPOT');
+        });
+    });
+
+    describe('Airtel Money', () => {
+        const gateway = gatewayOf({ id: 'gw-airtel', type: 'AIRTEL_MONEY', config: { country: 'UG', currency: 'UGX' } });
+
+        it('should collect with a 9-digit msisdn and the configured country', async () => {
+            fetchMock
+                .mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'airtel-tok', expires_in: '180' })))
+                .mockResolvedValueOnce(new Response(JSON.stringify({
+                    data: { transaction: { id: 'ours', status: 'Success.' } },
+                    status: { success: true, message: 'SUCCESS' },
+                })));
+            const provider = paymentProviderService.getAdapter(gateway)!;
+
+            const result = await provider.initiatePayment({
+                phone: '+256701234567',
+                amount: 5000,
+                accountReference: 'alice',
+                description: 'Hotspot: Daily',
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.reference).toMatch(/^EIS/);
+
+            const [url, init] = fetchMock.mock.calls[1];
+            expect(url).toBe('https://openapiuat.airtel.africa/merchant/v1/payments/');
+            expect(init.headers).toMatchObject({ Authorization: 'Bearer airtel-tok', 'X-Country': 'UG', 'X-Currency': 'UGX' });
+            expect(JSON.parse(init.body)).toMatchObject({
+                subscriber: { msisdn: '701234567' },
+                transaction: { amount: 5000, id: result.reference },
+            });
+        });
+
+        it('should map transaction status codes', async () => {
+            const provider = paymentProviderService.getAdapter(gateway)!;
+            const status = (code: string) => new Response(JSON.stringify({
+                data: { transaction: { id: 'ours', status: code, airtel_money_id: 'AM123' } },
+                status: { success: true },
+            }));
+
+            // Token is cached from the previous test
+            fetchMock.mockResolvedValueOnce(status('TS'));
+            expect(await provider.queryPayment('ours')).toMatchObject({ status: 'COMPLETED', transactionId: 'AM123' });
+
+            fetchMock.mockResolvedValueOnce(status('TF'));
+            expect((await provider.queryPayment('ours')).status).toBe('FAILED');
+
+            fetchMock.mockResolvedValueOnce(status('TIP'));
+            expect((await provider.queryPayment('ours')).status).toBe('PENDING');
+        });
+
+        it('should parse the callback body', () => {
+            const provider = paymentProviderService.getAdapter(gateway)!;
+            const body = JSON.stringify({ transaction: { id: 'ours', status_code: 'TS', airtel_money_id: 'AM123' } });
+
+            expect(provider.parseCallback(body, {})).toMatchObject({ reference: 'ours', status: 'COMPLETED', transactionId: 'AM123' });
+            expect(provider.parseCallback('not json', {})).toBeNull();
+        });
+    });
+
+    describe('Paystack', () => {
+        const gateway = gatewayOf({ type: 'PAYSTACK', consumerKey: 'pk_test', consumerSecret: 'sk_test' });
+
+        it('should create a checkout in subunits and return the authorization URL', async () => {
+            fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+                status: true,
+                message: 'Authorization URL created',
+                data: { authorization_url: 'https://checkout.paystack.com/abc', access_code: 'abc' },
+            })));
+            const provider = paymentProviderService.getAdapter(gateway)!;
+
+            const result = await provider.initiatePayment({
+                phone: '0712345678',
+                amount: 250,
+                accountReference: 'alice',
+                description: 'Hotspot: Daily',
+                returnUrl: 'https://portal.example.com/done',
+            });
+
+            expect(result).toMatchObject({ success: true, redirectUrl: 'https://checkout.paystack.com/abc' });
+            const [url, init] = fetchMock.mock.calls[0];
+            expect(url).toBe('https://api.paystack.co/transaction/initialize');
+            expect(init.headers.Authorization).toBe('Bearer sk_test');
+            expect(JSON.parse(init.body)).toMatchObject({
+                amount: 25000,
+                reference: result.reference,
+                callback_url: 'https://portal.example.com/done',
+            });
+        });
+
+        it('should only accept webhooks signed with the secret key', () => {
+            const provider = paymentProviderService.getAdapter(gateway)!;
+            const body = JSON.stringify({ event: 'charge.success', data: { reference: 'EIS1', amount: 25000 } });
+            const signature = createHmac('sha512', 'sk_test').update(body).digest('hex');
+
+            expect(provider.parseCallback(body, { 'x-paystack-signature': signature }))
+                .toMatchObject({ reference: 'EIS1', status: 'COMPLETED', amount: 250 });
+            expect(provider.parseCallback(body, { 'x-paystack-signature': 'forged' })).toBeNull();
+            expect(provider.parseCallback(body, {})).toBeNull();
+        });
+
+        it('should treat an abandoned checkout as still pending', async () => {
+            fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ status: true, data: { status: 'abandoned' } })));
+            const provider = paymentProviderService.getAdapter(gateway)!;
+
+            expect((await provider.queryPayment('EIS1')).status).toBe('PENDING');
+        });
+    });
+
+    describe('Flutterwave', () => {
+        const gateway = gatewayOf({ type: 'FLUTTERWAVE', consumerSecret: 'FLWSECK_TEST', config: { secretHash: 'my-hash' } });
+
+        it('should verify by reference and keep the Flutterwave ID for refunds', async () => {
+            fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+                status: 'success',
+                data: { id: 987654, status: 'successful', amount: 250 },
+            })));
+            const provider = paymentProviderService.getAdapter(gateway)!;
+
+            expect(await provider.queryPayment('EIS1')).toMatchObject({ status: 'COMPLETED', transactionId: '987654', amount: 250 });
+            expect(fetchMock.mock.calls[0][0]).toBe('https://api.flutterwave.com/v3/transactions/verify_by_reference?tx_ref=EIS1');
+        });
+
+        it('should check the verif-hash header', () => {
+            const provider = paymentProviderService.getAdapter(gateway)!;
+            const body = JSON.stringify({ event: 'charge.completed', data: { id: 987654, tx_ref: 'EIS1', status: 'failed' } });
+
+            expect(provider.parseCallback(body, { 'verif-hash': 'my-hash' })).toMatchObject({ reference: 'EIS1', status: 'FAILED' });
+            expect(provider.parseCallback(body, { 'verif-hash': 'other' })).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,192 @@
+/**
+ * Payment Routes Tests
+ * Tests that Daraja's refund result callbacks reach their handlers without a
+ * user token while the rest of the payment API stays authenticated, that
+ * allocating suspense payments needs more than view access, and that clearing
+ * manual payments takes their wallet top-ups back out
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import jwt from 'jsonwebtoken';
+
+const tx = {
+    payment: {
+        findMany: vi.fn(),
+        updateMany: vi.fn(),
+    },
+    walletTransaction: {
+        findMany: vi.fn(),
+    },
+};
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        user: {
+            findUnique: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/config.js', () => ({
+    config: { jwtSecret: 'test-secret' },
+}));
+
+vi.mock('../lib/audit.js', () => ({
+    createAuditLog: vi.fn(),
+}));
+
+vi.mock('../services/renewal.service.js', () => ({
+    debitWallet: vi.fn(),
+    recordWalletPayment: vi.fn(),
+}));
+
+vi.mock('../services/ledger.service.js', () => ({
+    reverseEntriesForSource: vi.fn(),
+}));
+
+vi.mock('../services/suspense.service.js', () => ({
+    allocatePayment: vi.fn(),
+}));
+vi.mock('../services/reconciliation.service.js', () => ({}));
+vi.mock('../lib/spreadsheet.js', () => ({}));
+vi.mock('../services/document.service.js', () => ({}));
+
+vi.mock('../services/refund.service.js', () => ({
+    findRefundForCallback: vi.fn(),
+    handleRefundResult: vi.fn(),
+    handleRefundTimeout: vi.fn(),
+    requestRefund: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { allocatePayment } from '../services/suspense.service.js';
+import { debitWallet } from '../services/renewal.service.js';
+import { reverseEntriesForSource } from '../services/ledger.service.js';
+import { findRefundForCallback, handleRefundResult, handleRefundTimeout } from '../services/refund.service.js';
+import { paymentRoutes } from '../routes/payment.routes.js';
+
+const refund = { id: 'refund-1', status: 'PENDING', callbackToken: 'token-1' };
+
+const token = jwt.sign({ userId: 'user-1', tenantId: 'tenant-1' }, 'test-secret');
+
+const mockUser = (role: string) => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: 'user-1',
+        email: 'staff@example.com',
+        name: 'Staff',
+        role,
+        tenantId: 'tenant-1',
+        addedPermissions: [],
+        removedPermissions: [],
+        status: 'ACTIVE',
+    } as any);
+};
+
+describe('Payment Routes', () => {
+    let app: Hono;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        app = new Hono();
+        app.onError(errorHandler);
+        app.route('/api/payments', paymentRoutes);
+    });
+
+    describe('Refund result webhooks', () => {
+        it('should accept a Daraja result without an Authorization header', async () => {
+            vi.mocked(findRefundForCallback).mockResolvedValue(refund as any);
+
+            const res = await app.request('/api/payments/webhooks/refund/refund-1/token-1/result', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ Result: { ResultCode: 0, ConversationID: 'AG_1', TransactionID: 'SGL1' } }),
+            });
+
+            expect(res.status).toBe(200);
+            expect(await res.json()).toEqual({ ResultCode: 0, ResultDesc: 'Accepted' });
+            expect(findRefundForCallback).toHaveBeenCalledWith('refund-1', 'token-1');
+            expect(handleRefundResult).toHaveBeenCalledWith(refund, expect.objectContaining({ ResultCode: 0, ConversationID: 'AG_1' }));
+        });
+
+        it('should accept a queue timeout without an Authorization header', async () => {
+            vi.mocked(findRefundForCallback).mockResolvedValue(refund as any);
+
+            const res = await app.request('/api/payments/webhooks/refund/refund-1/token-1/timeout', { method: 'POST' });
+
+            expect(res.status).toBe(200);
+            expect(handleRefundTimeout).toHaveBeenCalledWith(refund);
+        });
+
+        it('should not apply a result when the URL token is wrong', async () => {
+            vi.mocked(findRefundForCallback).mockResolvedValue(null);
+
+            const res = await app.request('/api/payments/webhooks/refund/refund-1/wrong/result', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ Result: { ResultCode: 0 } }),
+            });
+
+            expect(res.status).toBe(200);
+            expect(handleRefundResult).not.toHaveBeenCalled();
+        });
+    });
+
+    it('should still require a token for the authenticated refund routes', async () => {
+        const res = await app.request('/api/payments/refund-1/refunds');
+
+        expect(res.status).toBe(401);
+    });
+
+    describe('Suspense allocation', () => {
+        const allocate = () => app.request('/api/payments/suspense/payment-1/allocate', {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ customerId: '5b0e7a2c-3f7e-4a51-9a6e-2f0c1d9b8e41' }),
+        });
+
+        it('should refuse operators who can only view electronic payments', async () => {
+            mockUser('CUSTOMER_CARE');
+
+            const res = await allocate();
+
+            expect(res.status).toBe(403);
+            expect(allocatePayment).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('DELETE /manual', () => {
+        it('should reverse the ledger and debit the wallets the payments were credited to', async () => {
+            mockUser('ADMIN');
+            vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(tx)) as any);
+            tx.payment.findMany.mockResolvedValue([{ id: 'pay-1' }, { id: 'pay-2' }]);
+            tx.walletTransaction.findMany.mockResolvedValue([{ customerId: 'cust-1', amount: 500, reference: 'pay-1' }]);
+            tx.payment.updateMany.mockResolvedValue({ count: 2 });
+
+            const res = await app.request('/api/payments/manual', {
+                method: 'DELETE',
+                headers: { Authorization: `Bearer ${token}` },
+            });
+
+            expect(res.status).toBe(200);
+            expect(tx.walletTransaction.findMany).toHaveBeenCalledWith({
+                where: { tenantId: 'tenant-1', type: 'CREDIT', reference: { in: ['pay-1', 'pay-2'] } },
+            });
+            expect(reverseEntriesForSource).toHaveBeenCalledTimes(2);
+            expect(debitWallet).toHaveBeenCalledTimes(1);
+            expect(debitWallet).toHaveBeenCalledWith(tx, 'cust-1', 500, 'pay-1', 'Manual payment cleared');
+        });
+    });
+});
@@ -0,0 +1,220 @@
+/**
+ * Portal Routes Tests
+ * Tests that the unauthenticated M-Pesa callback only settles payments Daraja
+ * confirms, and never credits more than the payment was started for, and that
+ * a voucher code is only redeemed (and earns commission) once
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        pendingHotspotPayment: {
+            findUnique: vi.fn(),
+            update: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        payment: {
+            findFirst: vi.fn(),
+        },
+        voucher: {
+            findFirst: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        session: {
+            create: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../services/mpesa.service.js', () => ({
+    parseMpesaSms: vi.fn(),
+    parseStkCallback: vi.fn(),
+    createHotspotCustomerFromPayment: vi.fn(),
+    formatPhoneNumber: vi.fn((phone: string) => phone),
+    getTenantMpesaConfig: vi.fn(),
+    validateBuyGoodsConfig: vi.fn(),
+}));
+
+vi.mock('../services/payment-provider.service.js', () => ({
+    paymentProviderService: {
+        getAdapter: vi.fn(),
+        getProviderForPurpose: vi.fn(),
+    },
+}));
+
+vi.mock('../services/renewal.service.js', () => ({
+    recordWalletPayment: vi.fn(),
+}));
+
+vi.mock('../services/reseller.service.js', () => ({
+    creditRedemptionCommission: vi.fn(),
+}));
+
+vi.mock('../services/credential.service.js', () => ({
+    createLoginToken: vi.fn(),
+    getValidLoginTokens: vi.fn(),
+    verifyCustomerPassword: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { parseStkCallback } from '../services/mpesa.service.js';
+import { paymentProviderService } from '../services/payment-provider.service.js';
+import { recordWalletPayment } from '../services/renewal.service.js';
+import { creditRedemptionCommission } from '../services/reseller.service.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { portalRoutes } from '../routes/portal.routes.js';
+
+const gateway = { id: 'gateway-1', type: 'MPESA_PAYBILL', tenantId: 'tenant-1' };
+
+const renewal = {
+    id: 'pending-1',
+    checkoutRequestId: 'ws_CO_1',
+    phone: '254712345678',
+    amount: 500,
+    status: 'PENDING',
+    purpose: 'RENEWAL',
+    customerId: 'customer-1',
+    packageId: 'pkg-1',
+    tenantId: 'tenant-1',
+    gateway,
+    package: { id: 'pkg-1', name: 'Home 10M', price: 500 },
+};
+
+const provider = {
+    name: 'M-Pesa',
+    method: 'MPESA',
+    queryPayment: vi.fn(),
+};
+
+describe('Portal Routes', () => {
+    let app: Hono;
+
+    const postCallback = () => app.request('/api/portal/mpesa/callback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ Body: { stkCallback: { CheckoutRequestID: 'ws_CO_1' } } }),
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        app = new Hono();
+        app.onError(errorHandler);
+        app.route('/api/portal', portalRoutes);
+
+        vi.mocked(parseStkCallback).mockReturnValue({
+            checkoutRequestId: 'ws_CO_1',
+            resultCode: 0,
+            receipt: 'SGL1ABCDEF',
+            amount: 1_000_000,
+            phone: '254712345678',
+        });
+        vi.mocked(prisma.pendingHotspotPayment.findUnique).mockResolvedValue(renewal as any);
+        vi.mocked(prisma.pendingHotspotPayment.updateMany).mockResolvedValue({ count: 1 });
+        vi.mocked(prisma.payment.findFirst).mockResolvedValue(null);
+        vi.mocked(paymentProviderService.getAdapter).mockReturnValue(provider as any);
+    });
+
+    describe('POST /mpesa/callback', () => {
+        it('should credit the renewal only up to the pending amount once Daraja confirms it', async () => {
+            provider.queryPayment.mockResolvedValue({ success: true, status: 'COMPLETED' });
+
+            const res = await postCallback();
+
+            expect(res.status).toBe(200);
+            expect(paymentProviderService.getAdapter).toHaveBeenCalledWith(gateway, 'PPPOE');
+            expect(provider.queryPayment).toHaveBeenCalledWith('ws_CO_1');
+            expect(recordWalletPayment).toHaveBeenCalledWith(expect.objectContaining({
+                customerId: 'customer-1',
+                amount: 500,
+                transactionId: 'SGL1ABCDEF',
+            }));
+        });
+
+        it('should ignore a success callback Daraja has not confirmed', async () => {
+            provider.queryPayment.mockResolvedValue({ success: true, status: 'PENDING' });
+
+            const res = await postCallback();
+
+            expect(res.status).toBe(200);
+            expect(prisma.pendingHotspotPayment.updateMany).not.toHaveBeenCalled();
+            expect(recordWalletPayment).not.toHaveBeenCalled();
+        });
+
+        it('should fail the pending payment when Daraja says it failed', async () => {
+            provider.queryPayment.mockResolvedValue({ success: true, status: 'FAILED', message: 'Request cancelled by user' });
+
+            await postCallback();
+
+            expect(prisma.pendingHotspotPayment.update).toHaveBeenCalledWith({
+                where: { id: 'pending-1' },
+                data: { status: 'FAILED' },
+            });
+            expect(recordWalletPayment).not.toHaveBeenCalled();
+        });
+
+        it('should not query the provider again for a payment that is already settled', async () => {
+            vi.mocked(prisma.pendingHotspotPayment.findUnique).mockResolvedValue({ ...renewal, status: 'COMPLETED' } as any);
+
+            await postCallback();
+
+            expect(provider.queryPayment).not.toHaveBeenCalled();
+            expect(recordWalletPayment).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('POST /voucher', () => {
+        const redeem = () => app.request('/api/portal/voucher', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ code: 'abcd1234', macAddress: 'AA:BB:CC:DD:EE:FF' }),
+        });
+
+        beforeEach(() => {
+            vi.mocked(prisma.voucher.findFirst).mockResolvedValue({
+                id: 'voucher-1',
+                code: 'ABCD1234',
+                status: 'AVAILABLE',
+                expiresAt: null,
+                tenantId: 'tenant-1',
+                package: { name: 'Daily 5M', sessionTime: 1440 },
+            } as any);
+            vi.mocked(prisma.session.create).mockResolvedValue({ sessionId: 'VCH-1' } as any);
+        });
+
+        it('should claim the code and pay commission once', async () => {
+            vi.mocked(prisma.voucher.updateMany).mockResolvedValue({ count: 1 });
+
+            const res = await redeem();
+
+            expect(res.status).toBe(200);
+            expect(prisma.voucher.updateMany).toHaveBeenCalledWith({
+                where: { id: 'voucher-1', status: 'AVAILABLE' },
+                data: { status: 'USED', usedAt: expect.any(Date) },
+            });
+            expect(creditRedemptionCommission).toHaveBeenCalledWith('voucher-1');
+            expect(prisma.session.create).toHaveBeenCalled();
+        });
+
+        it('should refuse a code a concurrent redemption or revoke claimed first', async () => {
+            vi.mocked(prisma.voucher.updateMany).mockResolvedValue({ count: 0 });
+
+            const res = await redeem();
+
+            expect(res.status).toBe(404);
+            expect(creditRedemptionCommission).not.toHaveBeenCalled();
+            expect(prisma.session.create).not.toHaveBeenCalled();
+        });
+    });
+});
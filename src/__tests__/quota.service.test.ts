@@ -0,0 +1,237 @@
+/**
+ * Quota Service Tests
+ * Tests for per-period quota accumulation, warnings and FUP enforcement
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        customer: {
+            findUnique: vi.fn(),
+        },
+        dataQuota: {
+            upsert: vi.fn(),
+            updateMany: vi.fn(),
+            findUnique: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/queue.js', () => ({
+    queue: { scheduleRecurring: vi.fn() },
+}));
+
+vi.mock('../radius/handlers/coa.js', () => ({
+    disconnectUser: vi.fn().mockResolvedValue({ success: true, message: 'Disconnected' }),
+    updateUserRateLimit: vi.fn().mockResolvedValue({ success: true, message: 'Updated' }),
+}));
+
+vi.mock('../services/sms.service.js', () => ({
+    smsService: {
+        sendSms: vi.fn().mockResolvedValue({ success: true }),
+    },
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { disconnectUser, updateUserRateLimit } from '../radius/handlers/coa.js';
+import { smsService } from '../services/sms.service.js';
+import { getQuotaPeriod, getRemainingQuota, addQuotaUsage } from '../services/quota.service.js';
+
+const GB = BigInt(1024 * 1024 * 1024);
+const now = new Date('2026-03-14T12:00:00Z');
+
+function mockCustomer(overrides: Record<string, unknown> = {}, tenant: Record<string, unknown> = {}) {
+    vi.mocked(prisma.customer.findUnique).mockResolvedValue({
+        id: 'customer-1',
+        username: 'john',
+        name: 'John',
+        phone: '254712345678',
+        connectionType: 'PPPOE',
+        tenantId: 'tenant-1',
+        expiresAt: new Date('2026-03-30T00:00:00Z'),
+        createdAt: new Date('2025-01-01T00:00:00Z'),
+        package: { sessionTime: 30 * 24 * 60, dataLimit: BigInt(10) * GB },
+        tenant: {
+            businessName: 'FastNet',
+            billingCycleEnabled: false,
+            billDay: null,
+            quotaAction: 'DISCONNECT',
+            fupRateLimit: '1M/1M',
+            ...tenant,
+        },
+        ...overrides,
+    } as any);
+}
+
+function mockQuota(usedOctets: bigint, fields: Record<string, unknown> = {}) {
+    vi.mocked(prisma.dataQuota.upsert).mockResolvedValue({
+        id: 'quota-1',
+        usedOctets,
+        limitOctets: BigInt(10) * GB,
+        warnedAt: null,
+        exhaustedAt: null,
+        action: null,
+        ...fields,
+    } as any);
+}
+
+describe('Quota Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.dataQuota.updateMany).mockResolvedValue({ count: 1 });
+    });
+
+    // =============================================
+    // Period
+    // =============================================
+    describe('getQuotaPeriod', () => {
+        const customer = {
+            id: 'customer-1',
+            connectionType: 'PPPOE',
+            createdAt: new Date('2025-01-10T00:00:00Z'),
+            package: { sessionTime: 30 * 24 * 60 },
+            tenant: { billingCycleEnabled: false, billDay: null },
+        };
+
+        it('should use the prepaid term ending at expiresAt', () => {
+            const period = getQuotaPeriod({ ...customer, expiresAt: new Date('2026-03-30T00:00:00Z') }, now);
+
+            expect(period).toEqual({
+                periodStart: new Date('2026-02-28T00:00:00Z'),
+                periodEnd: new Date('2026-03-30T00:00:00Z'),
+            });
+        });
+
+        it('should stay on the current term when the customer renewed ahead', () => {
+            const period = getQuotaPeriod({ ...customer, expiresAt: new Date('2026-04-29T00:00:00Z') }, now);
+
+            expect(period.periodEnd).toEqual(new Date('2026-03-30T00:00:00Z'));
+        });
+
+        it('should use the invoice period for invoice-billed customers', () => {
+            const period = getQuotaPeriod({
+                ...customer,
+                expiresAt: new Date('2026-04-05T00:00:00Z'),
+                tenant: { billingCycleEnabled: true, billDay: 5 },
+            }, now);
+
+            expect(period).toEqual({
+                periodStart: new Date('2026-03-05T00:00:00Z'),
+                periodEnd: new Date('2026-04-05T00:00:00Z'),
+            });
+        });
+    });
+
+    it('should report the bytes left, never below zero', () => {
+        expect(getRemainingQuota(null, BigInt(10) * GB)).toBe(BigInt(10) * GB);
+        expect(getRemainingQuota({ usedOctets: BigInt(3) * GB, limitOctets: BigInt(10) * GB }, BigInt(10) * GB)).toBe(BigInt(7) * GB);
+        expect(getRemainingQuota({ usedOctets: BigInt(12) * GB, limitOctets: BigInt(10) * GB }, BigInt(10) * GB)).toBe(BigInt(0));
+    });
+
+    // =============================================
+    // Accumulation and enforcement
+    // =============================================
+    describe('addQuotaUsage', () => {
+        it('should ignore customers on unlimited packages', async () => {
+            mockCustomer({ package: { sessionTime: null, dataLimit: null } });
+
+            expect(await addQuotaUsage('customer-1', GB, now)).toBeNull();
+            expect(prisma.dataQuota.upsert).not.toHaveBeenCalled();
+        });
+
+        it('should add the delta to the period row', async () => {
+            mockCustomer();
+            mockQuota(BigInt(2) * GB);
+
+            const result = await addQuotaUsage('customer-1', GB, now);
+
+            expect(prisma.dataQuota.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                where: { customerId_periodStart: { customerId: 'customer-1', periodStart: new Date('2026-02-28T00:00:00Z') } },
+                update: { usedOctets: { increment: GB } },
+            }));
+            expect(result).toMatchObject({ warned: false, exhausted: false });
+            expect(smsService.sendSms).not.toHaveBeenCalled();
+        });
+
+        it('should warn once at 80%', async () => {
+            mockCustomer();
+            mockQuota(BigInt(8) * GB);
+
+            const result = await addQuotaUsage('customer-1', GB, now);
+
+            expect(result).toMatchObject({ warned: true, exhausted: false });
+            expect(prisma.dataQuota.updateMany).toHaveBeenCalledWith({
+                where: { id: 'quota-1', warnedAt: null },
+                data: { warnedAt: now },
+            });
+            expect(smsService.sendSms).toHaveBeenCalledWith(
+                'tenant-1',
+                '254712345678',
+                expect.stringContaining('80% of your 10.0 GB'),
+                'quota',
+                'PPPOE'
+            );
+            expect(disconnectUser).not.toHaveBeenCalled();
+        });
+
+        it('should disconnect at the limit by default', async () => {
+            mockCustomer();
+            mockQuota(BigInt(10) * GB, { warnedAt: now });
+
+            const result = await addQuotaUsage('customer-1', GB, now);
+
+            expect(result).toMatchObject({ exhausted: true });
+            expect(disconnectUser).toHaveBeenCalledWith('john', 'tenant-1');
+            expect(updateUserRateLimit).not.toHaveBeenCalled();
+            expect(smsService.sendSms).toHaveBeenCalledWith(
+                'tenant-1', '254712345678', expect.stringContaining('disconnected'), 'quota', 'PPPOE'
+            );
+        });
+
+        it('should throttle to the FUP rate when the tenant chose THROTTLE', async () => {
+            mockCustomer({}, { quotaAction: 'THROTTLE', fupRateLimit: '512k/512k' });
+            mockQuota(BigInt(11) * GB);
+
+            await addQuotaUsage('customer-1', GB, now);
+
+            expect(prisma.dataQuota.updateMany).toHaveBeenCalledWith({
+                where: { id: 'quota-1', exhaustedAt: null },
+                data: { exhaustedAt: now, warnedAt: now, action: 'THROTTLE' },
+            });
+            expect(updateUserRateLimit).toHaveBeenCalledWith('john', 'tenant-1', '512k/512k');
+            expect(disconnectUser).not.toHaveBeenCalled();
+            expect(smsService.sendSms).toHaveBeenCalledWith(
+                'tenant-1', '254712345678', expect.stringContaining('reduced to 512k/512k'), 'quota', 'PPPOE'
+            );
+        });
+
+        it('should not act twice when another update already claimed the limit', async () => {
+            mockCustomer();
+            mockQuota(BigInt(10) * GB);
+            vi.mocked(prisma.dataQuota.updateMany).mockResolvedValue({ count: 0 });
+
+            const result = await addQuotaUsage('customer-1', GB, now);
+
+            expect(result).toMatchObject({ exhausted: false });
+            expect(disconnectUser).not.toHaveBeenCalled();
+            expect(smsService.sendSms).not.toHaveBeenCalled();
+        });
+
+        it('should not fail accounting when the quota update errors', async () => {
+            vi.mocked(prisma.customer.findUnique).mockRejectedValue(new Error('db down'));
+
+            expect(await addQuotaUsage('customer-1', GB, now)).toBeNull();
+        });
+    });
+});
@@ -5,6 +5,30 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
+vi.mock('../lib/prisma.js', () => ({ prisma: {} }));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/queue.js', () => ({
+    queue: { scheduleRecurring: vi.fn() },
+}));
+
+vi.mock('../lib/config.js', () => ({
+    config: { credentialKey: 'test-credential-key' },
+}));
+
+// Import after mocks
+import { getSessionTimeout, getDataLimitAttributes } from '../radius/handlers/access.js';
+import { MikroTikAttribute } from '../radius/dictionary.js';
+import { encodeAttributes } from '../radius/packet.js';
+
 // =============================================
 // Authentication Decision Logic Tests
 // =============================================
@@ -534,3 +558,67 @@ describe('Rate Limiting Logic', () => {
         expect(limiter.getCount('192.168.1.1')).toBe(3);
     });
 });
+
+// =============================================
+// Remaining Time and Quota Attributes
+// =============================================
+describe('Accept Attributes From Remaining Entitlement', () => {
+    const now = new Date('2026-03-14T12:00:00Z');
+
+    it('should cap a hotspot Session-Timeout at the time left before expiry', () => {
+        const customer = {
+            connectionType: 'HOTSPOT',
+            expiresAt: new Date('2026-03-14T12:10:00Z'),
+            package: { sessionTime: 180 }, // 3 hours
+        };
+        expect(getSessionTimeout(customer, now)).toBe(600);
+    });
+
+    it('should use the package session time when it ends first', () => {
+        const customer = {
+            connectionType: 'HOTSPOT',
+            expiresAt: new Date('2026-03-20T12:00:00Z'),
+            package: { sessionTime: 60 },
+        };
+        expect(getSessionTimeout(customer, now)).toBe(3600);
+    });
+
+    it('should time PPPoE sessions out at expiry', () => {
+        const customer = {
+            connectionType: 'PPPOE',
+            expiresAt: new Date('2026-03-15T12:00:00Z'),
+            package: { sessionTime: 30 * 24 * 60 },
+        };
+        expect(getSessionTimeout(customer, now)).toBe(86400);
+    });
+
+    it('should never send less than a minute', () => {
+        const customer = { connectionType: 'PPPOE', expiresAt: new Date('2026-03-14T12:00:05Z'), package: null };
+        expect(getSessionTimeout(customer, now)).toBe(60);
+    });
+
+    it('should send only the remaining bytes', () => {
+        const attributes = getDataLimitAttributes(BigInt(500 * 1024 * 1024));
+
+        expect(attributes).toHaveLength(1);
+        expect(attributes[0]).toMatchObject({ vendorType: MikroTikAttribute.TOTAL_LIMIT, value: 524288000 });
+    });
+
+    it('should carry 4GB multiples in gigawords', () => {
+        const remaining = BigInt(4294967296) * BigInt(2) + BigInt(1000); // Just over 8GB
+
+        const attributes = getDataLimitAttributes(remaining);
+
+        expect(attributes).toEqual([
+            expect.objectContaining({ vendorType: MikroTikAttribute.TOTAL_LIMIT, value: 1000 }),
+            expect.objectContaining({ vendorType: MikroTikAttribute.TOTAL_LIMIT_GIGAWORDS, value: 2 }),
+        ]);
+    });
+
+    it('should encode the gigawords as a 4-byte integer', () => {
+        const encoded = encodeAttributes(getDataLimitAttributes(BigInt(4294967296) * BigInt(2)));
+
+        // Second VSA: 26, len 12, vendor 14988, type 18, len 6, value 2
+        expect(encoded.subarray(12).toString('hex')).toBe('1a0c00003a8c120600000002');
+    });
+});
@@ -5,6 +5,38 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        nAS: { findFirst: vi.fn(), update: vi.fn() },
+        customer: { findFirst: vi.fn() },
+        session: { findUnique: vi.fn(), upsert: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../services/usage.service.js', () => ({
+    recordUsage: vi.fn().mockResolvedValue({ inputOctets: BigInt(0), outputOctets: BigInt(0) }),
+}));
+
+vi.mock('../services/quota.service.js', () => ({
+    addQuotaUsage: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { recordUsage } from '../services/usage.service.js';
+import { handleAccountingRequest, retroactiveStartTime, type AccountingContext } from '../radius/handlers/accounting.js';
+import { createRequest, parsePacket } from '../radius/packet.js';
+import { RadiusCode, RadiusAttributeType, AcctStatusType as StatusType } from '../radius/dictionary.js';
+
 // =============================================
 // Accounting Status Type Handling Tests
 // =============================================
@@ -506,3 +538,113 @@ describe('Session ID Handling', () => {
         expect(normalizeSessionId('abc123')).toBe('abc123');
     });
 });
+
+// =============================================
+// Sessions Without a Start Tests
+// =============================================
+describe('Accounting for unknown sessions', () => {
+    const SECRET = 'nassecret';
+
+    function accountingPacket(statusType: number, sessionTime: number) {
+        return parsePacket(createRequest(RadiusCode.ACCOUNTING_REQUEST, 1, [
+            { type: RadiusAttributeType.USER_NAME, value: 'john' },
+            { type: RadiusAttributeType.ACCT_STATUS_TYPE, value: statusType },
+            { type: RadiusAttributeType.ACCT_SESSION_ID, value: '81a00042' },
+            { type: RadiusAttributeType.ACCT_SESSION_TIME, value: sessionTime },
+            { type: RadiusAttributeType.ACCT_INPUT_OCTETS, value: 5000 },
+            { type: RadiusAttributeType.ACCT_OUTPUT_OCTETS, value: 9000 },
+        ], SECRET));
+    }
+
+    const recovered = {
+        sessionId: '81a00042',
+        customerId: 'cust-1',
+        nasId: 'nas-1',
+        tenantId: 'tenant-1',
+        inputOctets: BigInt(0),
+        outputOctets: BigInt(0),
+        sessionTime: 0,
+        customer: null,
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.session.findUnique).mockResolvedValue(null);
+        vi.mocked(prisma.nAS.findFirst).mockResolvedValue({ id: 'nas-1', tenantId: 'tenant-1' } as any);
+        vi.mocked(prisma.customer.findFirst).mockResolvedValue({ id: 'cust-1' } as any);
+        vi.mocked(prisma.session.upsert).mockResolvedValue(recovered as any);
+    });
+
+    it('should back-date the start by Acct-Session-Time', () => {
+        const now = new Date('2026-03-01T12:00:00Z');
+        const context = { sessionTime: 3600 } as AccountingContext;
+
+        expect(retroactiveStartTime(context, now)).toEqual(new Date('2026-03-01T11:00:00Z'));
+        expect(retroactiveStartTime({ ...context, eventTimestamp: now.getTime() / 1000 - 60 }, new Date()))
+            .toEqual(new Date('2026-03-01T10:59:00Z'));
+    });
+
+    it('should create the session from an Interim-Update and record its usage so far', async () => {
+        const before = Date.now();
+        await handleAccountingRequest(accountingPacket(StatusType.INTERIM_UPDATE, 600), SECRET, '10.0.0.1');
+
+        const upsert = vi.mocked(prisma.session.upsert).mock.calls[0][0] as any;
+        expect(upsert.where).toEqual({ sessionId: '81a00042' });
+        expect(upsert.create).toMatchObject({ username: 'john', customerId: 'cust-1', nasId: 'nas-1', tenantId: 'tenant-1' });
+        expect(upsert.create.startTime.getTime()).toBeLessThanOrEqual(before - 600 * 1000 + 1000);
+        expect(upsert.create.startTime.getTime()).toBeGreaterThanOrEqual(before - 600 * 1000 - 1000);
+
+        expect(recordUsage).toHaveBeenCalledWith(recovered, { inputOctets: BigInt(5000), outputOctets: BigInt(9000), sessionTime: 600 });
+        expect(prisma.session.update).toHaveBeenCalledWith(expect.objectContaining({
+            where: { sessionId: '81a00042' },
+        }));
+    });
+
+    it('should create and close the session from a Stop', async () => {
+        await handleAccountingRequest(accountingPacket(StatusType.STOP, 900), SECRET, '10.0.0.1');
+
+        expect(prisma.session.upsert).toHaveBeenCalledTimes(1);
+        const update = vi.mocked(prisma.session.update).mock.calls[0][0] as any;
+        expect(update.data.stopTime).toBeInstanceOf(Date);
+        expect(update.data.sessionTime).toBe(900);
+    });
+
+    it('should reopen a session closed as stale when a later Interim-Update arrives', async () => {
+        vi.mocked(prisma.session.findUnique).mockResolvedValue({
+            ...recovered,
+            username: 'john',
+            sessionTime: 300,
+            stopTime: new Date('2026-03-01T11:00:00Z'),
+            terminateCause: 'LOST_SERVICE',
+        } as any);
+
+        await handleAccountingRequest(accountingPacket(StatusType.INTERIM_UPDATE, 600), SECRET, '10.0.0.1');
+
+        const update = vi.mocked(prisma.session.update).mock.calls[0][0] as any;
+        expect(update.data).toMatchObject({ stopTime: null, terminateCause: null, sessionTime: 600 });
+    });
+
+    it('should not reopen a stopped session for a retransmitted Interim-Update', async () => {
+        vi.mocked(prisma.session.findUnique).mockResolvedValue({
+            ...recovered,
+            username: 'john',
+            sessionTime: 900,
+            stopTime: new Date('2026-03-01T11:00:00Z'),
+            terminateCause: 'User-Request',
+        } as any);
+
+        await handleAccountingRequest(accountingPacket(StatusType.INTERIM_UPDATE, 600), SECRET, '10.0.0.1');
+
+        const update = vi.mocked(prisma.session.update).mock.calls[0][0] as any;
+        expect(update.data).not.toHaveProperty('stopTime');
+    });
+
+    it('should skip sessions from an unknown NAS', async () => {
+        vi.mocked(prisma.nAS.findFirst).mockResolvedValue(null);
+
+        await handleAccountingRequest(accountingPacket(StatusType.INTERIM_UPDATE, 600), SECRET, '10.9.9.9');
+
+        expect(prisma.session.upsert).not.toHaveBeenCalled();
+        expect(prisma.session.update).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * RADIUS Duplicate Cache Tests
+ * Tests for retransmission detection and response replay
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DuplicateCache, duplicateKey, DUPLICATE_CACHE_TTL } from '../radius/duplicate-cache.js';
+import type { RadiusPacket } from '../radius/packet.js';
+
+function packet(identifier: number, authenticator: Buffer): RadiusPacket {
+    return {
+        code: 4,
+        identifier,
+        length: 20,
+        authenticator,
+        attributes: [],
+        raw: Buffer.alloc(20),
+    };
+}
+
+const source = { address: '10.0.0.1', port: 40000 };
+const authenticator = Buffer.alloc(16, 7);
+
+describe('RADIUS Duplicate Cache', () => {
+    it('should key requests on source, identifier and authenticator', () => {
+        const key = duplicateKey(source, packet(9, authenticator));
+
+        expect(duplicateKey(source, packet(9, Buffer.from(authenticator)))).toBe(key);
+        expect(duplicateKey(source, packet(10, authenticator))).not.toBe(key);
+        expect(duplicateKey(source, packet(9, Buffer.alloc(16, 8)))).not.toBe(key);
+        expect(duplicateKey({ ...source, port: 40001 }, packet(9, authenticator))).not.toBe(key);
+        expect(duplicateKey({ ...source, address: '10.0.0.2' }, packet(9, authenticator))).not.toBe(key);
+    });
+
+    it('should hold a request in flight, then the response to replay', () => {
+        const cache = new DuplicateCache();
+        const response = Buffer.from('response');
+
+        expect(cache.get('k', 0)).toBeUndefined();
+
+        cache.start('k', 0);
+        expect(cache.get('k', 100)).toEqual({ response: null, expires: DUPLICATE_CACHE_TTL });
+
+        cache.complete('k', response, 200);
+        expect(cache.get('k', 300)?.response).toBe(response);
+    });
+
+    it('should forget requests that produced no response', () => {
+        const cache = new DuplicateCache();
+
+        cache.start('k', 0);
+        cache.forget('k');
+
+        expect(cache.get('k', 1)).toBeUndefined();
+    });
+
+    it('should expire entries after the TTL', () => {
+        const cache = new DuplicateCache(1000);
+
+        cache.complete('a', Buffer.from('a'), 0);
+        cache.complete('b', Buffer.from('b'), 500);
+
+        expect(cache.get('a', 1000)).toBeUndefined();
+
+        cache.prune(1200);
+        expect(cache.size).toBe(1);
+        expect(cache.get('b', 1200)).toBeDefined();
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * MS-CHAPv2 Tests
+ * Tests against the RFC 2759 / RFC 3079 sample data and the RFC 2548 key encryption
+ */
+
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import {
+    md4,
+    ntPasswordHash,
+    challengeHash,
+    generateNtResponse,
+    generateAuthenticatorResponse,
+    getMppeKeys,
+    encryptMppeKey,
+    verifyMsChapV2,
+} from '../radius/mschap.js';
+import { encodeAttributes, parsePacket, getVendorAttribute } from '../radius/packet.js';
+import { MICROSOFT_VENDOR_ID, MicrosoftAttribute } from '../radius/dictionary.js';
+
+const hex = (value: string) => Buffer.from(value.replace(/ /g, ''), 'hex');
+
+// RFC 2759 section 9.2
+const USERNAME = 'User';
+const PASSWORD = 'clientPass';
+const AUTHENTICATOR_CHALLENGE = hex('5B 5D 7C 7D 7B 3F 2F 3E 3C 2C 60 21 32 26 26 28');
+const PEER_CHALLENGE = hex('21 40 23 24 25 5E 26 2A 28 29 5F 2B 3A 33 7C 7E');
+const NT_RESPONSE = hex('82 30 9E CD 8D 70 8B 5E A0 8F AA 39 81 CD 83 54 42 33 11 4A 3D 85 D6 DF');
+
+function chap2Response(ntResponse: Buffer): Buffer {
+    return Buffer.concat([Buffer.from([7, 0]), PEER_CHALLENGE, Buffer.alloc(8), ntResponse]);
+}
+
+describe('MS-CHAPv2', () => {
+    it('should compute MD4', () => {
+        expect(md4(Buffer.alloc(0)).toString('hex')).toBe('31d6cfe0d16ae931b73c59d7e0c089c0');
+        expect(md4(Buffer.from('abc')).toString('hex')).toBe('a448017aaf21d8525fc10ae87aa6729d');
+        expect(md4(Buffer.from('1234567890'.repeat(8))).toString('hex')).toBe('e33b4ddc9c38f2199c3e7b164fcc0536');
+    });
+
+    it('should match the RFC 2759 sample data', () => {
+        expect(ntPasswordHash(PASSWORD)).toEqual(hex('44 EB BA 8D 53 12 B8 D6 11 47 44 11 F5 69 89 AE'));
+        expect(challengeHash(PEER_CHALLENGE, AUTHENTICATOR_CHALLENGE, USERNAME)).toEqual(hex('D0 2E 43 86 BC E9 12 26'));
+        expect(generateNtResponse(AUTHENTICATOR_CHALLENGE, PEER_CHALLENGE, USERNAME, PASSWORD)).toEqual(NT_RESPONSE);
+        expect(generateAuthenticatorResponse(ntPasswordHash(PASSWORD), NT_RESPONSE, PEER_CHALLENGE, AUTHENTICATOR_CHALLENGE, USERNAME))
+            .toBe('S=407A5589115FD0D6209F510FE9C04566932CDA56');
+    });
+
+    it('should ignore a Windows domain in the user name', () => {
+        expect(challengeHash(PEER_CHALLENGE, AUTHENTICATOR_CHALLENGE, 'OFFICE\\User'))
+            .toEqual(challengeHash(PEER_CHALLENGE, AUTHENTICATOR_CHALLENGE, USERNAME));
+    });
+
+    it('should derive the RFC 3079 128-bit send key', () => {
+        const { sendKey, recvKey } = getMppeKeys(ntPasswordHash(PASSWORD), NT_RESPONSE);
+
+        expect(sendKey).toEqual(hex('8B 7C DC 14 9B 99 3A 1B A1 18 CB 15 3F 56 DC CB'));
+        expect(recvKey).toHaveLength(16);
+        expect(recvKey.equals(sendKey)).toBe(false);
+    });
+
+    it('should encrypt MPPE keys so the NAS can recover them', () => {
+        const key = crypto.randomBytes(16);
+        const salt = Buffer.from([0x80, 0x01]);
+        const requestAuthenticator = crypto.randomBytes(16);
+
+        const encrypted = encryptMppeKey(key, salt, requestAuthenticator, 'nassecret');
+        expect(encrypted).toHaveLength(34);
+        expect(encrypted.subarray(0, 2)).toEqual(salt);
+
+        // Decrypt as the NAS would (RFC 2548 section 2.4.2)
+        const b1 = crypto.createHash('md5').update('nassecret').update(requestAuthenticator).update(salt).digest();
+        const b2 = crypto.createHash('md5').update('nassecret').update(encrypted.subarray(2, 18)).digest();
+        const plain = Buffer.concat([
+            Buffer.from(encrypted.subarray(2, 18).map((byte, i) => byte ^ b1[i])),
+            Buffer.from(encrypted.subarray(18, 34).map((byte, i) => byte ^ b2[i])),
+        ]);
+        expect(plain[0]).toBe(16);
+        expect(plain.subarray(1, 17)).toEqual(key);
+    });
+
+    describe('verifyMsChapV2', () => {
+        const requestAuthenticator = crypto.randomBytes(16);
+
+        it('should accept the right password with MS-CHAP2-Success and MPPE keys', () => {
+            const result = verifyMsChapV2(AUTHENTICATOR_CHALLENGE, chap2Response(NT_RESPONSE), USERNAME, PASSWORD, requestAuthenticator, 'nassecret');
+
+            expect(result.valid).toBe(true);
+            const success = result.attributes.find((a) => a.vendorType === MicrosoftAttribute.CHAP2_SUCCESS)!;
+            expect(success.vendorId).toBe(MICROSOFT_VENDOR_ID);
+            expect((success.value as Buffer).toString('latin1')).toBe('\x07S=407A5589115FD0D6209F510FE9C04566932CDA56');
+            expect(result.attributes.map((a) => a.vendorType)).toEqual(expect.arrayContaining([
+                MicrosoftAttribute.MPPE_SEND_KEY,
+                MicrosoftAttribute.MPPE_RECV_KEY,
+                MicrosoftAttribute.MPPE_ENCRYPTION_POLICY,
+                MicrosoftAttribute.MPPE_ENCRYPTION_TYPES,
+            ]));
+        });
+
+        it('should reject a wrong password with MS-CHAP-Error 691', () => {
+            const result = verifyMsChapV2(AUTHENTICATOR_CHALLENGE, chap2Response(NT_RESPONSE), USERNAME, 'wrongPass', requestAuthenticator, 'nassecret');
+
+            expect(result.valid).toBe(false);
+            expect(result.attributes).toHaveLength(1);
+            expect((result.attributes[0].value as Buffer).toString('latin1')).toMatch(/^\x07E=691 R=0 C=5B5D7C7D7B3F2F3E3C2C602132262628 V=3$/);
+        });
+
+        it('should reject malformed responses', () => {
+            expect(verifyMsChapV2(AUTHENTICATOR_CHALLENGE, Buffer.alloc(10), USERNAME, PASSWORD, requestAuthenticator, 'nassecret'))
+                .toEqual({ valid: false, attributes: [] });
+        });
+    });
+
+    it('should parse Microsoft VSAs from a request', () => {
+        const attributes = encodeAttributes([
+            { type: MicrosoftAttribute.CHAP_CHALLENGE, value: AUTHENTICATOR_CHALLENGE, vendorId: MICROSOFT_VENDOR_ID, vendorType: MicrosoftAttribute.CHAP_CHALLENGE },
+            { type: MicrosoftAttribute.CHAP2_RESPONSE, value: chap2Response(NT_RESPONSE), vendorId: MICROSOFT_VENDOR_ID, vendorType: MicrosoftAttribute.CHAP2_RESPONSE },
+        ]);
+        const raw = Buffer.alloc(20 + attributes.length);
+        raw[0] = 1;
+        raw.writeUInt16BE(raw.length, 2);
+        attributes.copy(raw, 20);
+
+        const packet = parsePacket(raw);
+
+        const challenge = getVendorAttribute(packet, MICROSOFT_VENDOR_ID, MicrosoftAttribute.CHAP_CHALLENGE);
+        expect(challenge?.name).toBe('MS-CHAP-Challenge');
+        expect(challenge?.raw).toEqual(AUTHENTICATOR_CHALLENGE);
+        expect(getVendorAttribute(packet, MICROSOFT_VENDOR_ID, MicrosoftAttribute.CHAP2_RESPONSE)?.raw).toHaveLength(50);
+    });
+});
@@ -5,6 +5,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import crypto from 'crypto';
+import { createResponse } from '../radius/packet.js';
 
 // =============================================
 // RADIUS Packet Parsing Tests
@@ -541,3 +542,38 @@ describe('Message-Authenticator', () => {
         expect(recalculated.equals(hmac)).toBe(true);
     });
 });
+
+// =============================================
+// Response Signing Tests
+// =============================================
+describe('Response Message-Authenticator', () => {
+    const secret = 'testsecret';
+    const requestAuth = crypto.randomBytes(16);
+
+    it('should sign Access responses with Message-Authenticator as the first attribute', () => {
+        const response = createResponse(2, 7, requestAuth, [{ type: 18, value: 'Welcome' }], secret);
+
+        expect(response[20]).toBe(80);
+        expect(response[21]).toBe(18);
+        expect(response[38]).toBe(18); // Reply-Message follows
+
+        // HMAC-MD5 over the packet with the Request Authenticator and a zeroed value
+        const check = Buffer.from(response);
+        requestAuth.copy(check, 4);
+        check.fill(0, 22, 38);
+        const expectedHmac = crypto.createHmac('md5', secret).update(check).digest();
+        expect(response.subarray(22, 38).equals(expectedHmac)).toBe(true);
+
+        // Response Authenticator covers the signed attribute
+        const authInput = Buffer.from(response);
+        requestAuth.copy(authInput, 4);
+        const expectedAuth = crypto.createHash('md5').update(authInput).update(secret).digest();
+        expect(response.subarray(4, 20).equals(expectedAuth)).toBe(true);
+    });
+
+    it('should leave Accounting-Response unsigned', () => {
+        const response = createResponse(5, 7, requestAuth, [], secret);
+
+        expect(response.length).toBe(20);
+    });
+});
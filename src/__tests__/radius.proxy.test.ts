@@ -0,0 +1,282 @@
+/**
+ * RADIUS Proxy Tests
+ * Tests for realm forwarding against an in-process UDP upstream
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import dgram from 'dgram';
+import crypto from 'crypto';
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+// Import after mocks
+import { RadiusProxy, splitRealm, type ProxyUpstream } from '../radius/proxy.js';
+import {
+    type RadiusPacket,
+    type AttributeBuilder,
+    parsePacket,
+    encodeAttributes,
+    encryptPassword,
+    decryptPassword,
+    encryptSaltedValue,
+    decryptSaltedValue,
+    createRequest,
+    createResponse,
+    getAttribute,
+    getAttributeString,
+    verifyMessageAuthenticator,
+    verifyAccountingAuthenticator,
+    verifyResponseAuthenticator,
+} from '../radius/packet.js';
+import { RadiusCode, RadiusAttributeType, MICROSOFT_VENDOR_ID, MicrosoftAttribute } from '../radius/dictionary.js';
+
+const NAS_SECRET = 'nassecret';
+const UPSTREAM_SECRET = 'partnersecret';
+
+function accessRequest(username: string, password: string): RadiusPacket {
+    const authenticator = crypto.randomBytes(16);
+    const attributes = encodeAttributes([
+        { type: RadiusAttributeType.USER_NAME, value: username },
+        { type: RadiusAttributeType.USER_PASSWORD, value: encryptPassword(password, authenticator, NAS_SECRET) },
+        { type: RadiusAttributeType.NAS_IP_ADDRESS, value: '10.0.0.1' },
+    ]);
+    const raw = Buffer.alloc(20 + attributes.length);
+    raw.writeUInt8(RadiusCode.ACCESS_REQUEST, 0);
+    raw.writeUInt8(42, 1);
+    raw.writeUInt16BE(raw.length, 2);
+    authenticator.copy(raw, 4);
+    attributes.copy(raw, 20);
+    return parsePacket(raw);
+}
+
+/**
+ * Stand-in for a partner RADIUS server: hands each request to `answer` and
+ * sends back what it returns
+ */
+async function startUpstream(answer: (request: RadiusPacket) => { code: RadiusCode; attributes: AttributeBuilder[] } | null) {
+    const socket = dgram.createSocket('udp4');
+    const received: RadiusPacket[] = [];
+    const sourcePorts: number[] = [];
+
+    socket.on('message', (msg, rinfo) => {
+        const request = parsePacket(msg);
+        received.push(request);
+        sourcePorts.push(rinfo.port);
+
+        const reply = answer(request);
+        if (!reply) return;
+
+        // Upstreams echo Proxy-State unchanged
+        const proxyStates = request.attributes
+            .filter((attr) => attr.type === RadiusAttributeType.PROXY_STATE)
+            .map((attr) => ({ type: attr.type, value: attr.raw }));
+
+        const response = createResponse(
+            reply.code,
+            request.identifier,
+            request.authenticator,
+            [...reply.attributes, ...proxyStates],
+            UPSTREAM_SECRET
+        );
+        socket.send(response, rinfo.port, rinfo.address);
+    });
+
+    await new Promise<void>((resolve) => socket.bind(0, '127.0.0.1', () => resolve()));
+    const port = socket.address().port;
+
+    const upstream: ProxyUpstream = {
+        realm: 'partner',
+        host: '127.0.0.1',
+        authPort: port,
+        acctPort: port,
+        secret: UPSTREAM_SECRET,
+        stripRealm: true,
+    };
+
+    return { socket, received, sourcePorts, upstream };
+}
+
+describe('RADIUS Proxy', () => {
+    let proxy: RadiusProxy;
+    let upstreamSocket: dgram.Socket | null = null;
+
+    beforeEach(async () => {
+        proxy = new RadiusProxy(100, 1);
+        await proxy.start();
+    });
+
+    afterEach(() => {
+        proxy.stop();
+        upstreamSocket?.close();
+        upstreamSocket = null;
+    });
+
+    it('should split usernames on the last @', () => {
+        expect(splitRealm('john@Partner')).toEqual({ user: 'john', realm: 'partner' });
+        expect(splitRealm('john@home@partner')).toEqual({ user: 'john@home', realm: 'partner' });
+        expect(splitRealm('john')).toBeNull();
+        expect(splitRealm('john@')).toBeNull();
+        expect(splitRealm('@partner')).toBeNull();
+    });
+
+    it('should forward an Access-Request upstream and relay the Accept to the NAS', async () => {
+        const { socket, received, upstream } = await startUpstream(() => ({
+            code: RadiusCode.ACCESS_ACCEPT,
+            attributes: [{ type: RadiusAttributeType.REPLY_MESSAGE, value: 'Welcome from partner' }],
+        }));
+        upstreamSocket = socket;
+
+        const request = accessRequest('john@partner', 'secret123');
+        const response = await proxy.forward(request, NAS_SECRET, upstream);
+
+        // Upstream saw the stripped username and a password encrypted for its secret
+        const forwarded = received[0];
+        expect(getAttributeString(forwarded, RadiusAttributeType.USER_NAME)).toBe('john');
+        const password = getAttribute(forwarded, RadiusAttributeType.USER_PASSWORD)!.value as Buffer;
+        expect(decryptPassword(password, forwarded.authenticator, UPSTREAM_SECRET)).toBe('secret123');
+        expect(verifyMessageAuthenticator(forwarded, UPSTREAM_SECRET)).toBe(true);
+        expect(getAttribute(forwarded, RadiusAttributeType.PROXY_STATE)).toBeDefined();
+
+        // NAS gets a reply signed with its own secret, without our Proxy-State
+        const reply = parsePacket(response!);
+        expect(reply.code).toBe(RadiusCode.ACCESS_ACCEPT);
+        expect(reply.identifier).toBe(42);
+        expect(verifyResponseAuthenticator(response!, request.authenticator, NAS_SECRET)).toBe(true);
+        expect(getAttributeString(reply, RadiusAttributeType.REPLY_MESSAGE)).toBe('Welcome from partner');
+        expect(getAttribute(reply, RadiusAttributeType.PROXY_STATE)).toBeUndefined();
+        expect(reply.attributes[0].type).toBe(RadiusAttributeType.MESSAGE_AUTHENTICATOR);
+    });
+
+    it('should re-encrypt Tunnel-Password and MPPE keys for the NAS', async () => {
+        const sendKey = crypto.randomBytes(16);
+        const { socket, upstream } = await startUpstream((forwarded) => {
+            const mppe = encryptSaltedValue(sendKey, Buffer.from([0x80, 0x01]), forwarded.authenticator, UPSTREAM_SECRET);
+            const vsa = Buffer.alloc(6 + mppe.length);
+            vsa.writeUInt32BE(MICROSOFT_VENDOR_ID, 0);
+            vsa.writeUInt8(MicrosoftAttribute.MPPE_SEND_KEY, 4);
+            vsa.writeUInt8(2 + mppe.length, 5);
+            mppe.copy(vsa, 6);
+
+            const tunnelPassword = encryptSaltedValue(Buffer.from('tunnel-pw'), Buffer.from([0x80, 0x02]), forwarded.authenticator, UPSTREAM_SECRET);
+            return {
+                code: RadiusCode.ACCESS_ACCEPT,
+                attributes: [
+                    { type: RadiusAttributeType.TUNNEL_PASSWORD, value: Buffer.concat([Buffer.from([0x01]), tunnelPassword]) },
+                    { type: RadiusAttributeType.VENDOR_SPECIFIC, value: vsa },
+                ],
+            };
+        });
+        upstreamSocket = socket;
+
+        const request = accessRequest('john@partner', 'secret123');
+        const reply = parsePacket((await proxy.forward(request, NAS_SECRET, upstream))!);
+
+        const tunnel = getAttribute(reply, RadiusAttributeType.TUNNEL_PASSWORD)!.raw;
+        expect(tunnel[0]).toBe(0x01);
+        expect(decryptSaltedValue(tunnel.subarray(1), request.authenticator, NAS_SECRET)!.toString()).toBe('tunnel-pw');
+
+        const key = reply.attributes.find((attr) => attr.vendorId === MICROSOFT_VENDOR_ID && attr.vendorType === MicrosoftAttribute.MPPE_SEND_KEY)!;
+        expect(decryptSaltedValue(key.raw, request.authenticator, NAS_SECRET)).toEqual(sendKey);
+    });
+
+    it('should keep more than 256 concurrent requests apart', async () => {
+        const slowProxy = new RadiusProxy(5000, 0);
+        await slowProxy.start();
+        const total = 300;
+
+        // Hold every reply until all requests are in flight, then answer in small
+        // bursts so no socket buffer overflows
+        const held: { request: RadiusPacket; port: number }[] = [];
+        const { socket, received, sourcePorts, upstream } = await startUpstream(() => null);
+        upstreamSocket = socket;
+        socket.on('message', (msg, rinfo) => {
+            held.push({ request: parsePacket(msg), port: rinfo.port });
+            if (held.length < total) return;
+
+            held.forEach(({ request, port }, i) => setTimeout(() => {
+                const proxyState = getAttribute(request, RadiusAttributeType.PROXY_STATE)!.raw;
+                socket.send(createResponse(RadiusCode.ACCESS_ACCEPT, request.identifier, request.authenticator, [
+                    { type: RadiusAttributeType.REPLY_MESSAGE, value: `Hello ${getAttributeString(request, RadiusAttributeType.USER_NAME)}` },
+                    { type: RadiusAttributeType.PROXY_STATE, value: proxyState },
+                ], UPSTREAM_SECRET), port, '127.0.0.1');
+            }, Math.floor(i / 20) * 5));
+        });
+
+        const users = Array.from({ length: total }, (_, i) => `user${i}`);
+        const pending: Promise<Buffer | null>[] = [];
+        for (let i = 0; i < total; i += 20) {
+            pending.push(...users.slice(i, i + 20).map((user) =>
+                slowProxy.forward(accessRequest(`${user}@partner`, 'secret123'), NAS_SECRET, upstream)
+            ));
+            await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+        const responses = await Promise.all(pending);
+        slowProxy.stop();
+
+        responses.forEach((response, i) => {
+            expect(getAttributeString(parsePacket(response!), RadiusAttributeType.REPLY_MESSAGE)).toBe(`Hello ${users[i]}`);
+        });
+
+        // No identifier reused on one source port while in flight
+        const seen = new Set(received.map((request, i) => `${sourcePorts[i]}:${request.identifier}`));
+        expect(seen.size).toBe(total);
+        expect(new Set(sourcePorts).size).toBe(2);
+    });
+
+    it('should forward accounting with an authenticator for the upstream secret', async () => {
+        const { socket, received, upstream } = await startUpstream(() => ({
+            code: RadiusCode.ACCOUNTING_RESPONSE,
+            attributes: [],
+        }));
+        upstreamSocket = socket;
+
+        const request = parsePacket(createRequest(RadiusCode.ACCOUNTING_REQUEST, 7, [
+            { type: RadiusAttributeType.USER_NAME, value: 'john@partner' },
+            { type: RadiusAttributeType.ACCT_STATUS_TYPE, value: 1 },
+            { type: RadiusAttributeType.ACCT_SESSION_ID, value: '81a00001' },
+        ], NAS_SECRET));
+
+        const response = await proxy.forward(request, NAS_SECRET, upstream);
+
+        expect(verifyAccountingAuthenticator(received[0], UPSTREAM_SECRET)).toBe(true);
+        expect(getAttributeString(received[0], RadiusAttributeType.ACCT_SESSION_ID)).toBe('81a00001');
+
+        const reply = parsePacket(response!);
+        expect(reply.code).toBe(RadiusCode.ACCOUNTING_RESPONSE);
+        expect(reply.identifier).toBe(7);
+        expect(verifyResponseAuthenticator(response!, request.authenticator, NAS_SECRET)).toBe(true);
+    });
+
+    it('should retransmit, then give up when the upstream stays silent', async () => {
+        const { socket, received, upstream } = await startUpstream(() => null);
+        upstreamSocket = socket;
+
+        const response = await proxy.forward(accessRequest('john@partner', 'secret123'), NAS_SECRET, upstream);
+
+        expect(response).toBeNull();
+        expect(received).toHaveLength(2);
+    });
+
+    it('should ignore replies that fail the authenticator check', async () => {
+        const { socket, upstream } = await startUpstream(() => ({
+            code: RadiusCode.ACCESS_ACCEPT,
+            attributes: [],
+        }));
+        upstreamSocket = socket;
+
+        const response = await proxy.forward(
+            accessRequest('john@partner', 'secret123'),
+            NAS_SECRET,
+            { ...upstream, secret: 'wrongsecret' }
+        );
+
+        expect(response).toBeNull();
+    });
+});
@@ -0,0 +1,278 @@
+/**
+ * Statement Reconciliation Tests
+ * Tests for reading M-Pesa org portal statements (CSV/XLSX), matching receipts and importing missing ones
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { deflateRawSync } from 'zlib';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        payment: {
+            findMany: vi.fn(),
+        },
+        pendingHotspotPayment: {
+            findMany: vi.fn(),
+        },
+        mpesaStatementImport: {
+            create: vi.fn(),
+            findFirst: vi.fn(),
+            update: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../services/c2b.service.js', () => ({
+    handleC2BConfirmation: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { handleC2BConfirmation } from '../services/c2b.service.js';
+import { readSpreadsheet, SpreadsheetLimitError } from '../lib/spreadsheet.js';
+import {
+    parseStatementTime,
+    parseStatement,
+    reconcileStatement,
+    importMissingEntries,
+    type StatementEntry,
+} from '../services/reconciliation.service.js';
+
+const csv = [
+    'Account Holder:,EASY ISP LTD',
+    'Short Code:,600100',
+    '',
+    'Receipt No.,Completion Time,Initiation Time,Details,Transaction Status,Paid In,Withdrawn,Balance,Other Party Info,A/C No.',
+    'SGL1AAA111,2026-03-01 10:15:32,2026-03-01 10:15:30,Pay Bill from 254712345678 - JOHN DOE,Completed,"1,500.00",,9500.00,254712345678 - JOHN DOE,john',
+    'SGL1BBB222,01-03-2026 11:00:00,01-03-2026 11:00:00,Pay Bill Online,Completed,500.00,,10000.00,2547****678 - MARY W,acc-9',
+    'SGL1CCC333,2026-03-01 12:00:00,2026-03-01 12:00:00,Pay Bill,Failed,800.00,,10000.00,254700000000 - X,',
+    'SGL1DDD444,2026-03-01 13:00:00,2026-03-01 13:00:00,Business Charge,Completed,,30.00,9970.00,,',
+].join('\r\n');
+
+/**
+ * Minimal zip writer (deflate) for building XLSX fixtures
+ */
+function zip(files: Record<string, string>): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const [name, content] of Object.entries(files)) {
+        const data = deflateRawSync(Buffer.from(content));
+        const nameBuf = Buffer.from(name);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(Buffer.byteLength(content), 22);
+        local.writeUInt16LE(nameBuf.length, 26);
+        locals.push(local, nameBuf, data);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(Buffer.byteLength(content), 24);
+        central.writeUInt16LE(nameBuf.length, 28);
+        central.writeUInt32LE(offset, 42);
+        centrals.push(central, nameBuf);
+
+        offset += 30 + nameBuf.length + data.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Object.keys(files).length, 8);
+    end.writeUInt16LE(Object.keys(files).length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, end]);
+}
+
+function entry(receiptNo: string, amount: number, completedAt = '2026-03-01T07:00:00.000Z'): StatementEntry {
+    return { receiptNo, completedAt, amount, billRef: null, phone: null, payer: null, details: null };
+}
+
+describe('Statement Reconciliation', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.payment.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.pendingHotspotPayment.findMany).mockResolvedValue([]);
+    });
+
+    describe('parseStatementTime', () => {
+        it('should read statement times as East Africa Time', () => {
+            expect(parseStatementTime('2026-03-01 10:15:32')).toEqual(new Date('2026-03-01T07:15:32Z'));
+            expect(parseStatementTime('01/03/2026 10:15')).toEqual(new Date('2026-03-01T07:15:00Z'));
+            expect(parseStatementTime('46082.5')).toEqual(new Date('2026-03-01T09:00:00Z'));
+            expect(parseStatementTime('yesterday')).toBeNull();
+        });
+    });
+
+    describe('parseStatement', () => {
+        it('should read incoming completed entries below the header row of a CSV export', () => {
+            const entries = parseStatement(readSpreadsheet(Buffer.from(csv)))!;
+
+            expect(entries.map((e) => e.receiptNo)).toEqual(['SGL1AAA111', 'SGL1BBB222']);
+            expect(entries[0]).toEqual({
+                receiptNo: 'SGL1AAA111',
+                completedAt: '2026-03-01T07:15:32.000Z',
+                amount: 1500,
+                billRef: 'john',
+                phone: '254712345678',
+                payer: 'JOHN DOE',
+                details: 'Pay Bill from 254712345678 - JOHN DOE',
+            });
+            // Masked numbers are dropped, the name is kept
+            expect(entries[1]).toMatchObject({ phone: null, payer: 'MARY W', billRef: 'acc-9' });
+        });
+
+        it('should read the first worksheet of an XLSX export', () => {
+            const xlsx = zip({
+                'xl/sharedStrings.xml': '<sst><si><t>Receipt No.</t></si><si><t>Paid In</t></si><si><r><t>Completion </t></r><r><t>Time</t></r></si><si><t>SGL1AAA111</t></si><si><t>Completed</t></si><si><t>Transaction Status</t></si></sst>',
+                'xl/worksheets/sheet1.xml': '<worksheet><sheetData>'
+                    + '<row r="1"><c r="A1" t="inlineStr"><is><t>Statement &amp; details</t></is></c></row>'
+                    + '<row r="3"><c r="A3" t="s"><v>0</v></c><c r="B3" t="s"><v>2</v></c><c r="D3" t="s"><v>1</v></c><c r="E3" t="s"><v>5</v></c></row>'
+                    + '<row r="4"><c r="A4" t="s"><v>3</v></c><c r="B4"><v>46082.5</v></c><c r="D4"><v>250</v></c><c r="E4" t="s"><v>4</v></c></row>'
+                    + '</sheetData></worksheet>',
+            });
+
+            expect(parseStatement(readSpreadsheet(xlsx))).toEqual([{
+                receiptNo: 'SGL1AAA111',
+                completedAt: '2026-03-01T09:00:00.000Z',
+                amount: 250,
+                billRef: null,
+                phone: null,
+                payer: null,
+                details: null,
+            }]);
+        });
+
+        it('should reject files without a receipt column', () => {
+            expect(parseStatement(readSpreadsheet(Buffer.from('name,amount\nfoo,10\n')))).toBeNull();
+        });
+
+        it('should refuse workbooks that inflate past the size limit', () => {
+            const bomb = zip({ 'xl/worksheets/sheet1.xml': '0'.repeat(51 * 1024 * 1024) });
+
+            expect(() => readSpreadsheet(bomb)).toThrow(SpreadsheetLimitError);
+        });
+
+        it('should refuse workbooks with too many parts', () => {
+            const files = Object.fromEntries(Array.from({ length: 1001 }, (_, i) => [`xl/part${i}.xml`, '<x/>']));
+
+            expect(() => readSpreadsheet(zip(files))).toThrow(SpreadsheetLimitError);
+        });
+    });
+
+    describe('reconcileStatement', () => {
+        it('should report missing receipts on either side and amount mismatches', async () => {
+            vi.mocked(prisma.payment.findMany)
+                .mockResolvedValueOnce([
+                    { id: 'pay-1', transactionId: 'R1', amount: 1000 },
+                    { id: 'pay-2', transactionId: 'R2', amount: 450 },
+                ] as any)
+                .mockResolvedValueOnce([
+                    { id: 'pay-9', transactionId: 'R9', amount: 700, createdAt: new Date('2026-03-01T08:00:00Z') },
+                ] as any);
+            vi.mocked(prisma.pendingHotspotPayment.findMany)
+                .mockResolvedValueOnce([{ id: 'hs-3', transactionCode: 'R3', amount: 50 }] as any)
+                .mockResolvedValueOnce([
+                    { id: 'hs-9', transactionCode: 'R9', amount: 700, createdAt: new Date('2026-03-01T08:00:00Z') },
+                    { id: 'hs-8', transactionCode: 'R8', amount: 20, createdAt: new Date('2026-03-01T08:30:00Z') },
+                ] as any);
+
+            const report = await reconcileStatement('tenant-1', [
+                entry('R1', 1000, '2026-03-01T07:00:00.000Z'),
+                entry('R2', 500),
+                entry('R3', 50),
+                entry('R4', 300, '2026-03-01T09:00:00.000Z'),
+            ]);
+
+            expect(report.summary).toEqual({
+                statementEntries: 4,
+                matched: 2,
+                missingInSystem: 1,
+                missingInSystemAmount: 300,
+                missingInStatement: 2,
+                amountMismatches: 1,
+            });
+            expect(report.missingInSystem.map((e) => e.receiptNo)).toEqual(['R4']);
+            expect(report.amountMismatches).toEqual([{ receiptNo: 'R2', statementAmount: 500, systemAmount: 450, source: 'PAYMENT', id: 'pay-2' }]);
+            // The hotspot sale R9 also has a Payment row and is listed once
+            expect(report.missingInStatement.map((m) => `${m.source}:${m.transactionId}`)).toEqual(['PAYMENT:R9', 'HOTSPOT:R8']);
+
+            const where = vi.mocked(prisma.payment.findMany).mock.calls[1][0]!.where as any;
+            expect(where.createdAt).toEqual({ gte: new Date('2026-03-01T07:00:00Z'), lte: new Date('2026-03-01T09:00:00Z') });
+            expect(where.transactionId).toEqual({ not: null, notIn: ['R1', 'R2', 'R3', 'R4'] });
+        });
+    });
+
+    describe('importMissingEntries', () => {
+        it('should credit only receipts that are still missing and refresh the report', async () => {
+            vi.mocked(prisma.mpesaStatementImport.findFirst).mockResolvedValue({
+                id: 'imp-1',
+                entries: [
+                    { ...entry('R1', 1000), billRef: 'john', phone: '254712345678', payer: 'JOHN DOE' },
+                    entry('R2', 500),
+                ],
+                gateway: { shortcode: '600100' },
+            } as any);
+            // R2 arrived after the upload
+            vi.mocked(prisma.payment.findMany).mockImplementation((async (args: any) =>
+                args.where.transactionId?.in ? [{ id: 'pay-2', transactionId: 'R2', amount: 500 }] : []) as any);
+            vi.mocked(handleC2BConfirmation).mockResolvedValue({ status: 'credited', paymentId: 'pay-1', customerId: 'cust-1' });
+
+            const result = await importMissingEntries('tenant-1', 'imp-1');
+
+            expect(handleC2BConfirmation).toHaveBeenCalledTimes(1);
+            expect(handleC2BConfirmation).toHaveBeenCalledWith({ tenantId: 'tenant-1' }, {
+                TransID: 'R1',
+                TransAmount: 1000,
+                BusinessShortCode: '600100',
+                BillRefNumber: 'john',
+                MSISDN: '254712345678',
+                FirstName: 'JOHN DOE',
+            }, 'M-Pesa payment imported from statement');
+            expect(result).toMatchObject({ imported: 1, failed: 0, results: [{ receiptNo: 'R1', status: 'credited' }] });
+            expect(prisma.mpesaStatementImport.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'imp-1' } }));
+        });
+
+        it('should import only the selected receipts and count failures', async () => {
+            vi.mocked(prisma.mpesaStatementImport.findFirst).mockResolvedValue({
+                id: 'imp-1',
+                entries: [entry('R1', 1000), entry('R2', 500), entry('R3', 20)],
+                gateway: { shortcode: '600100' },
+            } as any);
+            vi.mocked(handleC2BConfirmation)
+                .mockResolvedValueOnce({ status: 'suspense', paymentId: 'pay-2' })
+                .mockRejectedValueOnce(new Error('db down'));
+
+            const result = await importMissingEntries('tenant-1', 'imp-1', ['R2', 'R3']);
+
+            expect(result).toMatchObject({
+                imported: 1,
+                failed: 1,
+                results: [{ receiptNo: 'R2', status: 'suspense' }, { receiptNo: 'R3', status: 'failed', error: 'db down' }],
+            });
+        });
+
+        it('should return null for an unknown statement', async () => {
+            vi.mocked(prisma.mpesaStatementImport.findFirst).mockResolvedValue(null);
+
+            expect(await importMissingEntries('tenant-1', 'imp-x')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,426 @@
+/**
+ * M-Pesa Refund Service Tests
+ * Tests for B2C refunds and reversals against a local mock Daraja server, and
+ * for applying the asynchronous results to wallets, expiry and the ledger
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+const tx = {
+    paymentRefund: {
+        create: vi.fn(),
+        updateMany: vi.fn(),
+        update: vi.fn(),
+    },
+    payment: {
+        findUniqueOrThrow: vi.fn(),
+        update: vi.fn(),
+        updateMany: vi.fn(),
+    },
+    customer: {
+        findUnique: vi.fn(),
+        update: vi.fn(),
+    },
+    walletTransaction: {
+        create: vi.fn(),
+    },
+};
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        payment: {
+            findFirst: vi.fn(),
+        },
+        paymentGateway: {
+            findFirst: vi.fn(),
+        },
+        paymentRefund: {
+            findUnique: vi.fn(),
+            update: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/config.js', () => ({
+    config: { credentialKey: 'test-credential-key', mpesa: { apiUrl: '' } },
+}));
+
+vi.mock('../services/renewal.service.js', () => ({
+    getPackageValidityDays: () => 30,
+}));
+
+vi.mock('../services/ledger.service.js', () => ({
+    postPaymentRefund: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { config } from '../lib/config.js';
+import { postPaymentRefund } from '../services/ledger.service.js';
+import {
+    requestRefund,
+    findRefundForCallback,
+    handleRefundResult,
+    handleRefundTimeout,
+} from '../services/refund.service.js';
+
+// ============ MOCK DARAJA SERVER ============
+
+interface DarajaCall {
+    path: string;
+    authorization?: string;
+    body: any;
+}
+
+const calls: DarajaCall[] = [];
+let nextResponse: { status: number; body: unknown } = { status: 200, body: {} };
+let server: Server;
+
+const accepted = {
+    status: 200,
+    body: {
+        ConversationID: 'AG_20260301_000011',
+        OriginatorConversationID: '12345-67890-1',
+        ResponseCode: '0',
+        ResponseDescription: 'Accept the service request successfully.',
+    },
+};
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let raw = '';
+        req.on('data', (chunk) => { raw += chunk; });
+        req.on('end', () => {
+            const path = (req.url ?? '').split('?')[0];
+            calls.push({ path, authorization: req.headers.authorization, body: raw ? JSON.parse(raw) : null });
+
+            const reply = path === '/oauth/v1/generate'
+                ? { status: 200, body: { access_token: 'mock-token', expires_in: '3599' } }
+                : nextResponse;
+            res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(reply.body));
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    (config.mpesa as { apiUrl: string }).apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+// ============ FIXTURES ============
+
+const payment = {
+    id: 'pay-1',
+    amount: 1000,
+    refundedAmount: 0,
+    refundReserved: 0,
+    method: 'MPESA',
+    status: 'COMPLETED',
+    transactionId: 'SGL1ABC234',
+    phone: '0712345678',
+    customerId: 'cust-1',
+    tenantId: 'tenant-1',
+};
+
+const gateway = {
+    id: 'gw-1',
+    tenantId: 'tenant-1',
+    type: 'MPESA_API',
+    shortcode: '600100',
+    b2cShortcode: '600200',
+    consumerKey: 'key',
+    consumerSecret: 'secret',
+    initiatorName: 'apiop',
+    securityCredential: 'encrypted-credential',
+    env: 'sandbox',
+};
+
+const refund = {
+    id: 'ref-1',
+    method: 'B2C',
+    status: 'PENDING',
+    amount: 1000,
+    callbackToken: 'a'.repeat(48),
+    conversationId: 'AG_20260301_000011',
+    paymentId: 'pay-1',
+    tenantId: 'tenant-1',
+};
+
+const customer = {
+    id: 'cust-1',
+    username: 'john',
+    tenantId: 'tenant-1',
+    walletBalance: 400,
+    expiresAt: new Date('2026-03-31T00:00:00Z'),
+    package: { price: 1200, sessionTime: null },
+};
+
+describe('M-Pesa Refund Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        nextResponse = accepted;
+        vi.mocked(prisma.payment.findFirst).mockResolvedValue(payment as any);
+        vi.mocked(prisma.paymentGateway.findFirst).mockResolvedValue(gateway as any);
+        vi.mocked(prisma.paymentRefund.update).mockImplementation((async (args: any) => ({ ...refund, ...args.data })) as any);
+        tx.payment.updateMany.mockResolvedValue({ count: 1 });
+        tx.paymentRefund.create.mockImplementation(async (args: any) => ({ ...refund, ...args.data, id: 'ref-1' }));
+        tx.paymentRefund.update.mockImplementation(async (args: any) => ({ ...refund, ...args.data }));
+        vi.mocked(prisma.$transaction).mockImplementation(async (fn: any) => fn(tx));
+    });
+
+    describe('requestRefund', () => {
+        it('should send a B2C payout from the gateway\'s disbursement shortcode', async () => {
+            const result = await requestRefund('tenant-1', 'pay-1', { method: 'B2C', amount: 300, reason: 'Double payment' }, 'user-1');
+
+            expect(result.success).toBe(true);
+            expect(calls.map((c) => c.path)).toEqual(['/oauth/v1/generate', '/mpesa/b2c/v1/paymentrequest']);
+            expect(calls[1].authorization).toBe('Bearer mock-token');
+            expect(calls[1].body).toMatchObject({
+                InitiatorName: 'apiop',
+                SecurityCredential: 'encrypted-credential',
+                CommandID: 'BusinessPayment',
+                Amount: 300,
+                PartyA: '600200',
+                PartyB: '254712345678',
+                Remarks: 'Double payment',
+            });
+            expect(calls[1].body.ResultURL).toMatch(/\/api\/payments\/webhooks\/refund\/ref-1\/[0-9a-f]{48}\/result$/);
+            expect(tx.payment.updateMany).toHaveBeenCalledWith({
+                where: { id: 'pay-1', status: 'COMPLETED', refundedAmount: 0, refundReserved: 0 },
+                data: { refundReserved: 300 },
+            });
+            expect(tx.paymentRefund.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ method: 'B2C', amount: 300, phone: '254712345678', requestedBy: 'user-1' }),
+            });
+            expect(prisma.paymentRefund.update).toHaveBeenCalledWith({
+                where: { id: 'ref-1' },
+                data: { conversationId: 'AG_20260301_000011', originatorConversationId: '12345-67890-1' },
+            });
+        });
+
+        it('should reverse the original receipt in full', async () => {
+            const result = await requestRefund('tenant-1', 'pay-1', { method: 'REVERSAL' });
+
+            expect(result.success).toBe(true);
+            const reversal = calls.find((c) => c.path === '/mpesa/reversal/v1/request')!;
+            expect(reversal.body).toMatchObject({
+                Initiator: 'apiop',
+                CommandID: 'TransactionReversal',
+                TransactionID: 'SGL1ABC234',
+                Amount: 1000,
+                ReceiverParty: '600100',
+                RecieverIdentifierType: '11',
+            });
+        });
+
+        it('should mark the refund failed when Daraja rejects the request', async () => {
+            nextResponse = { status: 400, body: { requestId: 'r-1', errorCode: '400.002.02', errorMessage: 'Bad Request - Invalid Initiator' } };
+
+            const result = await requestRefund('tenant-1', 'pay-1', { method: 'B2C' });
+
+            expect(result).toMatchObject({ success: false, message: 'Bad Request - Invalid Initiator' });
+            expect(tx.paymentRefund.update).toHaveBeenCalledWith({
+                where: { id: 'ref-1' },
+                data: expect.objectContaining({ status: 'FAILED', resultDesc: 'Bad Request - Invalid Initiator' }),
+            });
+            expect(tx.payment.update).toHaveBeenCalledWith({
+                where: { id: 'pay-1' },
+                data: { refundReserved: 0 },
+            });
+        });
+
+        it('should not pay out when a concurrent refund or allocation changed the payment first', async () => {
+            tx.payment.updateMany.mockResolvedValue({ count: 0 });
+
+            const result = await requestRefund('tenant-1', 'pay-1', { method: 'B2C' });
+
+            expect(result).toEqual({ success: false, message: 'The payment is being refunded or allocated; try again' });
+            expect(tx.paymentRefund.create).not.toHaveBeenCalled();
+            expect(calls).toHaveLength(0);
+        });
+
+        it('should refuse refunds Daraja could not carry out', async () => {
+            expect((await requestRefund('tenant-1', 'pay-1', { method: 'B2C', amount: 1500 })).message).toBe('At most KES 1000 can be refunded');
+            expect((await requestRefund('tenant-1', 'pay-1', { method: 'REVERSAL', amount: 500 })).success).toBe(false);
+            expect((await requestRefund('tenant-1', 'pay-1', { method: 'B2C', phone: '2547****678' })).message).toBe('A valid phone number is required for a B2C refund');
+
+            vi.mocked(prisma.payment.findFirst).mockResolvedValueOnce({ ...payment, refundReserved: 500 } as any);
+            expect((await requestRefund('tenant-1', 'pay-1', { method: 'B2C' })).message).toBe('A refund of this payment is already in progress');
+
+            vi.mocked(prisma.paymentGateway.findFirst).mockResolvedValueOnce({ ...gateway, initiatorName: null } as any);
+            expect((await requestRefund('tenant-1', 'pay-1', { method: 'B2C' })).message).toBe('Gateway has no initiator credentials for refunds');
+
+            vi.mocked(prisma.payment.findFirst).mockResolvedValueOnce({ ...payment, status: 'REFUNDED' } as any);
+            expect((await requestRefund('tenant-1', 'pay-1', { method: 'B2C' })).success).toBe(false);
+
+            expect(tx.paymentRefund.create).not.toHaveBeenCalled();
+            expect(calls).toHaveLength(0);
+        });
+    });
+
+    describe('findRefundForCallback', () => {
+        it('should only accept the refund\'s own callback token', async () => {
+            vi.mocked(prisma.paymentRefund.findUnique).mockResolvedValue(refund as any);
+
+            expect(await findRefundForCallback('ref-1', 'a'.repeat(48))).toEqual(refund);
+            expect(await findRefundForCallback('ref-1', 'b'.repeat(48))).toBeNull();
+            expect(await findRefundForCallback('ref-1', 'short')).toBeNull();
+        });
+    });
+
+    describe('handleRefundResult', () => {
+        beforeEach(() => {
+            tx.paymentRefund.updateMany.mockResolvedValue({ count: 1 });
+            tx.payment.findUniqueOrThrow.mockResolvedValue({ ...payment, allocations: [] });
+            tx.customer.findUnique.mockResolvedValue(customer);
+            tx.customer.update.mockImplementation(async (args: any) => ({
+                ...customer,
+                walletBalance: 0,
+                expiresAt: args.data.expiresAt ?? customer.expiresAt,
+            }));
+        });
+
+        it('should take the refund from the wallet, then from the expiry, and post it to the ledger', async () => {
+            const status = await handleRefundResult(refund as any, {
+                ResultType: 0,
+                ResultCode: 0,
+                ResultDesc: 'The service request is processed successfully.',
+                ConversationID: 'AG_20260301_000011',
+                TransactionID: 'SGL2XYZ999',
+            });
+
+            expect(status).toBe('COMPLETED');
+            expect(tx.paymentRefund.updateMany).toHaveBeenCalledWith({
+                where: { id: 'ref-1', status: 'PENDING' },
+                data: expect.objectContaining({ status: 'COMPLETED', transactionId: 'SGL2XYZ999' }),
+            });
+
+            // KES 400 from the wallet, the other 600 bought 15 of the package's 30 days
+            expect(tx.customer.update).toHaveBeenCalledWith({
+                where: { id: 'cust-1' },
+                data: {
+                    totalSpent: { decrement: 1000 },
+                    walletBalance: { decrement: 400 },
+                    expiresAt: new Date('2026-03-16T00:00:00Z'),
+                },
+            });
+            expect(tx.walletTransaction.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ type: 'DEBIT', amount: 400, reference: 'ref-1' }),
+            });
+            expect(tx.payment.update).toHaveBeenCalledWith({
+                where: { id: 'pay-1' },
+                data: { refundedAmount: 1000, refundReserved: 0, status: 'REFUNDED' },
+            });
+            expect(postPaymentRefund).toHaveBeenCalledWith({
+                id: 'ref-1',
+                tenantId: 'tenant-1',
+                fromWallets: 400,
+                fromRevenue: 600,
+                fromUnallocated: 0,
+                description: 'Refund of payment SGL1ABC234',
+            }, tx);
+        });
+
+        it('should keep a partly refunded payment completed and split refunds across allocations', async () => {
+            tx.payment.findUniqueOrThrow.mockResolvedValue({
+                ...payment,
+                customerId: null,
+                allocations: [{ customerId: 'cust-1', amount: 600 }, { customerId: 'cust-2', amount: 400 }],
+            });
+            tx.customer.findUnique.mockImplementation(async (args: any) => ({ ...customer, id: args.where.id, walletBalance: 1000 }));
+
+            await handleRefundResult({ ...refund, amount: 500 } as any, { ResultCode: 0 });
+
+            expect(tx.customer.update.mock.calls.map((call) => [call[0].where.id, call[0].data.walletBalance])).toEqual([
+                ['cust-1', { decrement: 300 }],
+                ['cust-2', { decrement: 200 }],
+            ]);
+            expect(tx.payment.update).toHaveBeenCalledWith({
+                where: { id: 'pay-1' },
+                data: { refundedAmount: 500, refundReserved: 0, status: 'COMPLETED' },
+            });
+        });
+
+        it('should split a refund by allocation after an earlier refund of the suspense payment', async () => {
+            tx.payment.findUniqueOrThrow.mockResolvedValue({
+                ...payment,
+                refundedAmount: 200,
+                customerId: null,
+                allocations: [{ customerId: 'cust-1', amount: 600 }, { customerId: 'cust-2', amount: 200 }],
+            });
+            tx.customer.findUnique.mockImplementation(async (args: any) => ({ ...customer, id: args.where.id, walletBalance: 1000 }));
+
+            await handleRefundResult({ ...refund, amount: 800 } as any, { ResultCode: 0 });
+
+            expect(tx.customer.update.mock.calls.map((call) => [call[0].where.id, call[0].data.walletBalance])).toEqual([
+                ['cust-1', { decrement: 600 }],
+                ['cust-2', { decrement: 200 }],
+            ]);
+        });
+
+        it('should refund a suspense payment out of Unallocated Receipts without touching customers', async () => {
+            tx.payment.findUniqueOrThrow.mockResolvedValue({ ...payment, status: 'UNALLOCATED', customerId: null, allocations: [] });
+
+            await handleRefundResult({ ...refund, method: 'REVERSAL' } as any, { ResultCode: '0' });
+
+            expect(tx.customer.update).not.toHaveBeenCalled();
+            expect(postPaymentRefund).toHaveBeenCalledWith(expect.objectContaining({ fromUnallocated: 1000, fromWallets: 0, fromRevenue: 0 }), tx);
+        });
+
+        it('should record a failed payout and release the reservation without adjusting anything else', async () => {
+            const status = await handleRefundResult(refund as any, { ResultCode: 2001, ResultDesc: 'The initiator information is invalid.' });
+
+            expect(status).toBe('FAILED');
+            expect(tx.paymentRefund.updateMany).toHaveBeenCalledWith({
+                where: { id: 'ref-1', status: 'PENDING' },
+                data: expect.objectContaining({ status: 'FAILED', resultCode: 2001 }),
+            });
+            expect(tx.payment.update).toHaveBeenCalledWith({
+                where: { id: 'pay-1' },
+                data: { refundReserved: 0 },
+            });
+            expect(tx.customer.update).not.toHaveBeenCalled();
+            expect(postPaymentRefund).not.toHaveBeenCalled();
+        });
+
+        it('should apply a repeated result only once', async () => {
+            expect(await handleRefundResult({ ...refund, status: 'COMPLETED' } as any, { ResultCode: 0 })).toBeNull();
+
+            tx.paymentRefund.updateMany.mockResolvedValue({ count: 0 });
+            expect(await handleRefundResult(refund as any, { ResultCode: 0 })).toBeNull();
+            expect(tx.customer.update).not.toHaveBeenCalled();
+            expect(postPaymentRefund).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('handleRefundTimeout', () => {
+        it('should fail a refund that timed out in the queue', async () => {
+            tx.paymentRefund.updateMany.mockResolvedValue({ count: 1 });
+
+            expect(await handleRefundTimeout(refund as any)).toBe('FAILED');
+            expect(tx.paymentRefund.updateMany).toHaveBeenCalledWith({
+                where: { id: 'ref-1', status: 'PENDING' },
+                data: expect.objectContaining({ status: 'FAILED', resultDesc: 'Request timed out in the M-Pesa queue' }),
+            });
+            expect(tx.payment.update).toHaveBeenCalledWith({
+                where: { id: 'pay-1' },
+                data: { refundReserved: 0 },
+            });
+        });
+    });
+});
@@ -0,0 +1,273 @@
+/**
+ * Wallet Renewal Service Tests
+ * Tests for wallet-funded subscription renewal, partial payments and reconnects
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const tx = {
+    customer: {
+        update: vi.fn(),
+        updateMany: vi.fn(),
+        findUniqueOrThrow: vi.fn(),
+    },
+    payment: {
+        create: vi.fn(),
+    },
+    walletTransaction: {
+        create: vi.fn(),
+    },
+};
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        customer: {
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/queue.js', () => ({
+    queue: { scheduleRecurring: vi.fn() },
+}));
+
+vi.mock('../radius/handlers/coa.js', () => ({
+    disconnectUser: vi.fn(),
+}));
+
+vi.mock('../services/ledger.service.js', () => ({
+    postWalletDeposit: vi.fn(),
+    postWalletRenewal: vi.fn(),
+}));
+
+vi.mock('../services/billing.service.js', () => ({
+    isInvoiceBilled: vi.fn((customer: any, tenant: any) => tenant.billingCycleEnabled && customer.connectionType === 'PPPOE'),
+    settleOpenInvoices: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { disconnectUser } from '../radius/handlers/coa.js';
+import { postWalletRenewal } from '../services/ledger.service.js';
+import { settleOpenInvoices } from '../services/billing.service.js';
+import {
+    renewIfDue,
+    processWalletRenewals,
+    recordWalletPayment,
+    isRenewalDue,
+    getPackageValidityDays,
+} from '../services/renewal.service.js';
+
+const NOW = new Date('2026-01-15T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function makeCustomer(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'cust-1',
+        username: 'john',
+        tenantId: 'tenant-1',
+        status: 'EXPIRED',
+        connectionType: 'PPPOE',
+        walletBalance: 1500,
+        expiresAt: new Date('2026-01-10T12:00:00Z'),
+        package: { id: 'pkg-1', name: 'Home 10M', price: 1500, sessionTime: null },
+        tenant: { billingCycleEnabled: false },
+        ...overrides,
+    };
+}
+
+describe('Wallet Renewal Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.$transaction).mockImplementation(async (fn: any) => fn(tx));
+        vi.mocked(disconnectUser).mockResolvedValue({ success: true, message: 'Disconnected' });
+        tx.customer.updateMany.mockResolvedValue({ count: 1 });
+        tx.customer.findUniqueOrThrow.mockResolvedValue({ walletBalance: 0 });
+        tx.walletTransaction.create.mockResolvedValue({ id: 'wtx-1' });
+        vi.mocked(settleOpenInvoices).mockResolvedValue({ settled: 0, reactivated: false });
+    });
+
+    // =============================================
+    // Package Validity & Due Check
+    // =============================================
+    describe('getPackageValidityDays', () => {
+        it('should default to 30 days when sessionTime is not set', () => {
+            expect(getPackageValidityDays({ sessionTime: null })).toBe(30);
+        });
+
+        it('should convert sessionTime minutes to whole days', () => {
+            expect(getPackageValidityDays({ sessionTime: 7 * 24 * 60 })).toBe(7);
+        });
+    });
+
+    describe('isRenewalDue', () => {
+        it('should be due for expired and suspended customers', () => {
+            const future = new Date('2026-02-01T00:00:00Z');
+            expect(isRenewalDue({ status: 'EXPIRED', expiresAt: future }, NOW)).toBe(true);
+            expect(isRenewalDue({ status: 'SUSPENDED', expiresAt: future }, NOW)).toBe(true);
+        });
+
+        it('should be due for active customers past expiry only', () => {
+            expect(isRenewalDue({ status: 'ACTIVE', expiresAt: new Date('2026-01-15T11:00:00Z') }, NOW)).toBe(true);
+            expect(isRenewalDue({ status: 'ACTIVE', expiresAt: new Date('2026-01-16T00:00:00Z') }, NOW)).toBe(false);
+        });
+
+        it('should never renew disabled customers', () => {
+            expect(isRenewalDue({ status: 'DISABLED', expiresAt: new Date(0) }, NOW)).toBe(false);
+        });
+    });
+
+    // =============================================
+    // Renewing From Wallet
+    // =============================================
+    describe('renewIfDue', () => {
+        it('should leave partial balances in the wallet', async () => {
+            vi.mocked(prisma.customer.findUnique).mockResolvedValue(makeCustomer({ walletBalance: 500 }) as any);
+
+            const result = await renewIfDue('cust-1', NOW);
+
+            expect(result.renewed).toBe(false);
+            expect(result.walletBalance).toBe(500);
+            expect(tx.customer.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('should not renew active customers before expiry', async () => {
+            vi.mocked(prisma.customer.findUnique).mockResolvedValue(makeCustomer({
+                status: 'ACTIVE',
+                expiresAt: new Date('2026-01-20T12:00:00Z'),
+            }) as any);
+
+            const result = await renewIfDue('cust-1', NOW);
+
+            expect(result.renewed).toBe(false);
+        });
+
+        it('should debit the wallet, extend from now, write a ledger entry and reconnect', async () => {
+            vi.mocked(prisma.customer.findUnique).mockResolvedValue(makeCustomer() as any);
+
+            const result = await renewIfDue('cust-1', NOW);
+
+            expect(result.renewed).toBe(true);
+            expect(result.expiresAt.getTime()).toBe(NOW.getTime() + 30 * DAY_MS);
+            expect(tx.customer.updateMany).toHaveBeenCalledWith({
+                where: { id: 'cust-1', expiresAt: new Date('2026-01-10T12:00:00Z'), walletBalance: { gte: 1500 } },
+                data: expect.objectContaining({
+                    walletBalance: { decrement: 1500 },
+                    status: 'ACTIVE',
+                    graceStartedAt: null,
+                }),
+            });
+            expect(tx.walletTransaction.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ type: 'DEBIT', amount: 1500, balanceAfter: 0 }),
+            });
+            expect(postWalletRenewal).toHaveBeenCalledWith(
+                expect.objectContaining({ walletTransactionId: 'wtx-1', amount: 1500 }),
+                tx
+            );
+            expect(disconnectUser).toHaveBeenCalledWith('john', 'tenant-1');
+        });
+
+        it('should leave invoice-billed PPPoE customers to the billing engine', async () => {
+            vi.mocked(prisma.customer.findUnique).mockResolvedValue(makeCustomer({
+                tenant: { billingCycleEnabled: true },
+            }) as any);
+
+            const result = await renewIfDue('cust-1', NOW);
+
+            expect(result.renewed).toBe(false);
+            expect(tx.customer.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('should not renew when a concurrent renewal already spent the balance', async () => {
+            vi.mocked(prisma.customer.findUnique).mockResolvedValue(makeCustomer() as any);
+            tx.customer.updateMany.mockResolvedValue({ count: 0 });
+
+            const result = await renewIfDue('cust-1', NOW);
+
+            expect(result.renewed).toBe(false);
+            expect(tx.walletTransaction.create).not.toHaveBeenCalled();
+            expect(disconnectUser).not.toHaveBeenCalled();
+        });
+        it('should renew only once when two renewals race for a balance covering two periods', async () => {
+            // Both callers read the same row before either writes
+            const row = { expiresAt: new Date('2026-01-10T12:00:00Z'), walletBalance: 3000 };
+            vi.mocked(prisma.customer.findUnique).mockResolvedValue(makeCustomer({ ...row }) as any);
+            tx.customer.updateMany.mockImplementation(async ({ where, data }: any) => {
+                if (where.expiresAt.getTime() !== row.expiresAt.getTime() || row.walletBalance < where.walletBalance.gte) {
+                    return { count: 0 };
+                }
+                row.walletBalance -= data.walletBalance.decrement;
+                row.expiresAt = data.expiresAt;
+                return { count: 1 };
+            });
+            tx.customer.findUniqueOrThrow.mockImplementation(async () => ({ ...row }));
+
+            const results = await Promise.all([renewIfDue('cust-1', NOW), renewIfDue('cust-1', NOW)]);
+
+            expect(results.filter((r) => r.renewed)).toHaveLength(1);
+            expect(row.walletBalance).toBe(1500);
+            expect(row.expiresAt.getTime()).toBe(NOW.getTime() + 30 * DAY_MS);
+            expect(tx.walletTransaction.create).toHaveBeenCalledTimes(1);
+            expect(disconnectUser).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // =============================================
+    // Scheduled Renewals
+    // =============================================
+    describe('processWalletRenewals', () => {
+        it('should page past customers who cannot afford their package', async () => {
+            // A full first batch of partial balances must not hide the affordable customer behind it
+            const shortfalls = Array.from({ length: 500 }, (_, i) => ({
+                id: `cust-${String(i).padStart(3, '0')}`,
+                walletBalance: 100,
+                package: { price: 1500 },
+            }));
+            vi.mocked(prisma.customer.findMany)
+                .mockResolvedValueOnce(shortfalls as any)
+                .mockResolvedValueOnce([{ id: 'cust-900', walletBalance: 1500, package: { price: 1500 } }] as any);
+            vi.mocked(prisma.customer.findUnique).mockResolvedValue(makeCustomer({ id: 'cust-900' }) as any);
+
+            const result = await processWalletRenewals(NOW);
+
+            expect(result).toEqual({ checked: 501, renewed: 1 });
+            expect(prisma.customer.findMany).toHaveBeenCalledTimes(2);
+            expect(vi.mocked(prisma.customer.findMany).mock.calls[0][0]).toMatchObject({ orderBy: { id: 'asc' } });
+            expect(vi.mocked(prisma.customer.findMany).mock.calls[1][0]?.where).toMatchObject({ id: { gt: 'cust-499' } });
+            expect(prisma.customer.findUnique).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // =============================================
+    // Recording Payments
+    // =============================================
+    describe('recordWalletPayment', () => {
+        it('should record the payment and credit the wallet ledger', async () => {
+            vi.mocked(prisma.customer.findUnique)
+                .mockResolvedValueOnce(makeCustomer({ walletBalance: 0 }) as any)
+                .mockResolvedValueOnce(makeCustomer({ walletBalance: 700 }) as any);
+            tx.payment.create.mockResolvedValue({ id: 'pay-1' });
+            tx.customer.update.mockResolvedValue({ walletBalance: 700, tenantId: 'tenant-1' });
+
+            const result = await recordWalletPayment({ customerId: 'cust-1', amount: 700, method: 'CASH' });
+
+            expect(result.paymentId).toBe('pay-1');
+            expect(result.walletBalance).toBe(700);
+            expect(tx.walletTransaction.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ type: 'CREDIT', amount: 700, balanceAfter: 700, reference: 'pay-1' }),
+            });
+            expect(settleOpenInvoices).toHaveBeenCalledWith('cust-1');
+        });
+    });
+});
@@ -0,0 +1,236 @@
+/**
+ * Reseller Service Tests
+ * Tests for float top-ups, discounted batch purchases, batch revocation refunds
+ * and redemption commission
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        voucher: {
+            findUnique: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../services/voucher.service.js', () => ({
+    generateVoucherBatch: vi.fn(),
+    getBatchStats: vi.fn(),
+    revokeBatch: vi.fn(),
+}));
+
+vi.mock('../services/ledger.service.js', () => ({
+    postResellerFloatTopUp: vi.fn(),
+    postResellerBatchSale: vi.fn(),
+    postResellerBatchRefund: vi.fn(),
+    postResellerCommission: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { generateVoucherBatch, revokeBatch } from '../services/voucher.service.js';
+import {
+    postResellerBatchRefund,
+    postResellerBatchSale,
+    postResellerCommission,
+    postResellerFloatTopUp,
+} from '../services/ledger.service.js';
+import {
+    getResellerUnitPrice,
+    topUpFloat,
+    purchaseResellerBatch,
+    revokeResellerBatch,
+    creditRedemptionCommission,
+} from '../services/reseller.service.js';
+
+const tx = {
+    reseller: {
+        update: vi.fn(),
+        updateMany: vi.fn(),
+        findUniqueOrThrow: vi.fn(),
+    },
+    resellerTransaction: {
+        create: vi.fn(),
+    },
+};
+
+const reseller = {
+    id: 'reseller-1',
+    userId: 'user-9',
+    phone: null,
+    floatBalance: 1000,
+    discountPercent: 20,
+    commissionPercent: 5,
+    tenantId: 'tenant-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+};
+
+describe('Reseller Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(tx)) as any);
+        tx.resellerTransaction.create.mockImplementation(async (args: any) => ({ id: 'rtx-1', ...args.data }));
+    });
+
+    it('should apply the reseller discount to the package price', () => {
+        expect(getResellerUnitPrice({ discountPercent: 20 }, 50)).toBe(40);
+        expect(getResellerUnitPrice({ discountPercent: 12.5 }, 33)).toBe(28.88);
+    });
+
+    // =============================================
+    // Float
+    // =============================================
+    describe('topUpFloat', () => {
+        it('should credit the float and post the deposit to the ledger', async () => {
+            tx.reseller.findUniqueOrThrow.mockResolvedValue({ floatBalance: 1500 });
+
+            const transaction = await topUpFloat(reseller, 500, 'MPESA', 'QKX123');
+
+            expect(tx.reseller.update).toHaveBeenCalledWith({
+                where: { id: 'reseller-1' },
+                data: { floatBalance: { increment: 500 } },
+            });
+            expect(transaction).toMatchObject({ type: 'FLOAT_TOPUP', amount: 500, balanceAfter: 1500, reference: 'QKX123' });
+            expect(postResellerFloatTopUp).toHaveBeenCalledWith(
+                { transactionId: 'rtx-1', tenantId: 'tenant-1', amount: 500, method: 'MPESA' },
+                tx
+            );
+        });
+    });
+
+    describe('purchaseResellerBatch', () => {
+        const pkg = { id: 'pkg-1', name: 'Daily 5M', price: 50 };
+
+        it('should draw the discounted cost from the float and tag the batch', async () => {
+            tx.reseller.updateMany.mockResolvedValue({ count: 1 });
+            tx.reseller.findUniqueOrThrow.mockResolvedValue({ floatBalance: 600 });
+            vi.mocked(generateVoucherBatch).mockResolvedValue({
+                batch: { id: 'batch-1', name: 'Daily 5M x10' },
+                codes: Array.from({ length: 10 }, (_, i) => `CODE${i}`),
+            } as any);
+
+            const result = await purchaseResellerBatch(reseller, { quantity: 10, createdById: 'user-9', package: pkg });
+
+            expect(tx.reseller.updateMany).toHaveBeenCalledWith({
+                where: { id: 'reseller-1', floatBalance: { gte: 400 } },
+                data: { floatBalance: { decrement: 400 } },
+            });
+            expect(generateVoucherBatch).toHaveBeenCalledWith(
+                expect.objectContaining({ packageId: 'pkg-1', resellerId: 'reseller-1', unitPrice: 40, tenantId: 'tenant-1' }),
+                pkg,
+                tx
+            );
+            expect(tx.resellerTransaction.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ type: 'BATCH_PURCHASE', amount: -400, balanceAfter: 600, reference: 'batch-1' }),
+            });
+            expect(postResellerBatchSale).toHaveBeenCalledWith(
+                expect.objectContaining({ transactionId: 'rtx-1', amount: 400 }),
+                tx
+            );
+            expect(result).toMatchObject({ cost: 400, floatBalance: 600 });
+        });
+
+        it('should refuse a batch the float cannot cover', async () => {
+            tx.reseller.updateMany.mockResolvedValue({ count: 0 });
+
+            const result = await purchaseResellerBatch(reseller, { quantity: 100, createdById: 'user-9', package: pkg });
+
+            expect(result).toBeNull();
+            expect(generateVoucherBatch).not.toHaveBeenCalled();
+            expect(postResellerBatchSale).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('revokeResellerBatch', () => {
+        const batch = { id: 'batch-1', name: 'Daily 5M x10', tenantId: 'tenant-1', resellerId: 'reseller-1', unitPrice: 40 };
+
+        it('should refund the unused codes to the float in the revoking transaction', async () => {
+            vi.mocked(revokeBatch).mockResolvedValue(6);
+            tx.reseller.findUniqueOrThrow.mockResolvedValue({ floatBalance: 840 });
+
+            const result = await revokeResellerBatch(batch);
+
+            expect(revokeBatch).toHaveBeenCalledWith('batch-1', tx);
+            expect(tx.reseller.update).toHaveBeenCalledWith({
+                where: { id: 'reseller-1' },
+                data: { floatBalance: { increment: 240 } },
+            });
+            expect(tx.resellerTransaction.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ type: 'BATCH_REFUND', amount: 240, balanceAfter: 840, reference: 'batch-1' }),
+            });
+            expect(postResellerBatchRefund).toHaveBeenCalledWith(
+                expect.objectContaining({ transactionId: 'rtx-1', tenantId: 'tenant-1', amount: 240 }),
+                tx
+            );
+            expect(result).toEqual({ revoked: 6, refund: 240 });
+        });
+
+        it('should not touch the float when no codes were left to revoke', async () => {
+            vi.mocked(revokeBatch).mockResolvedValue(0);
+
+            const result = await revokeResellerBatch(batch);
+
+            expect(result).toEqual({ revoked: 0, refund: 0 });
+            expect(tx.reseller.update).not.toHaveBeenCalled();
+            expect(postResellerBatchRefund).not.toHaveBeenCalled();
+        });
+    });
+
+    // =============================================
+    // Commission
+    // =============================================
+    describe('creditRedemptionCommission', () => {
+        it('should credit commission on the package price to the selling reseller', async () => {
+            vi.mocked(prisma.voucher.findUnique).mockResolvedValue({
+                id: 'voucher-1',
+                code: 'AB12CD34',
+                package: { price: 50 },
+                batch: { reseller },
+            } as any);
+            tx.reseller.findUniqueOrThrow.mockResolvedValue({ floatBalance: 1002.5 });
+
+            expect(await creditRedemptionCommission('voucher-1')).toBe(2.5);
+            expect(tx.reseller.update).toHaveBeenCalledWith({
+                where: { id: 'reseller-1' },
+                data: { floatBalance: { increment: 2.5 } },
+            });
+            expect(tx.resellerTransaction.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ type: 'COMMISSION', amount: 2.5, reference: 'voucher-1' }),
+            });
+            expect(postResellerCommission).toHaveBeenCalledWith(
+                expect.objectContaining({ transactionId: 'rtx-1', amount: 2.5 }),
+                tx
+            );
+        });
+
+        it('should skip vouchers the ISP sold directly', async () => {
+            vi.mocked(prisma.voucher.findUnique).mockResolvedValue({
+                id: 'voucher-2',
+                code: 'EF56GH78',
+                package: { price: 50 },
+                batch: { reseller: null },
+            } as any);
+
+            expect(await creditRedemptionCommission('voucher-2')).toBe(0);
+            expect(prisma.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should not fail the redemption when crediting errors', async () => {
+            vi.mocked(prisma.voucher.findUnique).mockRejectedValue(new Error('db down'));
+
+            expect(await creditRedemptionCommission('voucher-3')).toBe(0);
+        });
+    });
+});
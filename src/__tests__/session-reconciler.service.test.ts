@@ -0,0 +1,165 @@
+/**
+ * Session Reconciler Tests
+ * Tests for closing open sessions the router no longer reports
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        nAS: {
+            findMany: vi.fn(),
+        },
+        session: {
+            findMany: vi.fn(),
+            updateMany: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/queue.js', () => ({
+    queue: { scheduleRecurring: vi.fn() },
+}));
+
+vi.mock('../services/mikrotik.service.js', () => ({
+    mikrotikService: {
+        getActiveSessions: vi.fn(),
+        getActiveHotspotUsers: vi.fn(),
+    },
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { mikrotikService } from '../services/mikrotik.service.js';
+import {
+    STALE_TERMINATE_CAUSE,
+    findStaleSessions,
+    staleStopTime,
+    reconcileNasSessions,
+    reconcileAllSessions,
+} from '../services/session-reconciler.service.js';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+function openSession(id: string, username: string, sessionTime = 0, framedIp: string | null = null) {
+    return { id, sessionId: `acct-${id}`, username, framedIp, startTime: new Date('2026-03-01T10:00:00Z'), sessionTime };
+}
+
+describe('Session Reconciler', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(mikrotikService.getActiveHotspotUsers).mockResolvedValue([]);
+        vi.mocked(prisma.session.updateMany).mockResolvedValue({ count: 1 });
+    });
+
+    describe('findStaleSessions', () => {
+        it('should match PPPoE by session id and Hotspot by username', () => {
+            const sessions = [openSession('1', 'alice'), openSession('2', 'bob'), openSession('3', 'Carol'), openSession('4', 'dave')];
+
+            const stale = findStaleSessions(
+                sessions,
+                [{ name: 'alice', sessionId: 'acct-1', address: '' }, { name: 'bob', sessionId: 'acct-99', address: '' }],
+                [{ name: 'carol' }]
+            );
+
+            // bob reconnected under a new session id, dave is gone
+            expect(stale.map((s) => s.id)).toEqual(['2', '4']);
+        });
+
+        it('should fall back to the username for PPPoE entries without a session id', () => {
+            expect(findStaleSessions([openSession('1', 'alice')], [{ name: 'ALICE', sessionId: '', address: '' }], [])).toEqual([]);
+        });
+
+        it('should match session ids regardless of 0x prefix and case', () => {
+            const sessions = [{ ...openSession('1', 'alice'), sessionId: '81a0000b' }, { ...openSession('2', 'bob'), sessionId: '0X81A0000C' }];
+
+            const stale = findStaleSessions(
+                sessions,
+                [{ name: 'alice', sessionId: '0x81A0000B', address: '' }, { name: 'bob', sessionId: '81a0000c', address: '' }],
+                []
+            );
+
+            expect(stale).toEqual([]);
+        });
+
+        it('should fall back to username and framed IP when the session ids differ', () => {
+            const sessions = [openSession('1', 'alice', 0, '10.0.0.5'), openSession('2', 'bob', 0, '10.0.0.6')];
+
+            const stale = findStaleSessions(
+                sessions,
+                [{ name: 'Alice', sessionId: '0x1', address: '10.0.0.5' }, { name: 'bob', sessionId: '0x2', address: '10.0.0.7' }],
+                []
+            );
+
+            expect(stale.map((s) => s.id)).toEqual(['2']);
+        });
+    });
+
+    describe('staleStopTime', () => {
+        it('should end the session at its last reported Session-Time', () => {
+            expect(staleStopTime(openSession('1', 'alice', 1800), now)).toEqual(new Date('2026-03-01T10:30:00Z'));
+        });
+
+        it('should use now without any update, or when Session-Time runs past it', () => {
+            expect(staleStopTime(openSession('1', 'alice'), now)).toEqual(now);
+            expect(staleStopTime(openSession('1', 'alice', 86400), now)).toEqual(now);
+        });
+    });
+
+    describe('reconcileNasSessions', () => {
+        const nas = { id: 'nas-1', name: 'Core' } as any;
+
+        it('should close sessions missing from the router', async () => {
+            vi.mocked(prisma.session.findMany).mockResolvedValue([openSession('1', 'alice'), openSession('2', 'bob', 600)] as any);
+            vi.mocked(mikrotikService.getActiveSessions).mockResolvedValue([{ name: 'alice', sessionId: 'acct-1' }] as any);
+
+            expect(await reconcileNasSessions(nas, now)).toBe(1);
+
+            expect(prisma.session.updateMany).toHaveBeenCalledTimes(1);
+            expect(prisma.session.updateMany).toHaveBeenCalledWith({
+                where: { id: '2', stopTime: null },
+                data: { stopTime: new Date('2026-03-01T10:10:00Z'), terminateCause: STALE_TERMINATE_CAUSE },
+            });
+            expect(STALE_TERMINATE_CAUSE).toBe('LOST_SERVICE');
+        });
+
+        it('should only consider sessions older than the grace period', async () => {
+            vi.mocked(prisma.session.findMany).mockResolvedValue([]);
+
+            expect(await reconcileNasSessions(nas, now)).toBe(0);
+
+            const where = vi.mocked(prisma.session.findMany).mock.calls[0][0]!.where as any;
+            expect(where.startTime.lt).toEqual(new Date('2026-03-01T11:55:00Z'));
+            expect(mikrotikService.getActiveSessions).not.toHaveBeenCalled();
+        });
+
+        it('should close nothing when the router cannot be reached', async () => {
+            vi.mocked(prisma.session.findMany).mockResolvedValue([openSession('1', 'alice')] as any);
+            vi.mocked(mikrotikService.getActiveSessions).mockRejectedValue(new Error('timeout'));
+
+            await expect(reconcileNasSessions(nas, now)).rejects.toThrow('timeout');
+            expect(prisma.session.updateMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('reconcileAllSessions', () => {
+        it('should count checked, closed and failed routers', async () => {
+            vi.mocked(prisma.nAS.findMany).mockResolvedValue([{ id: 'nas-1' }, { id: 'nas-2' }] as any);
+            vi.mocked(prisma.session.findMany).mockResolvedValue([openSession('1', 'alice')] as any);
+            vi.mocked(mikrotikService.getActiveSessions)
+                .mockResolvedValueOnce([])
+                .mockRejectedValueOnce(new Error('unreachable'));
+
+            expect(await reconcileAllSessions(now)).toEqual({ checked: 1, closed: 1, failed: 1 });
+        });
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * Simultaneous-Use Service Tests
+ * Tests for per-customer session limits, router confirmation and kicking the oldest session
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        session: {
+            findMany: vi.fn(),
+            updateMany: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/queue.js', () => ({
+    queue: { scheduleRecurring: vi.fn() },
+}));
+
+vi.mock('../radius/handlers/coa.js', () => ({
+    disconnectSession: vi.fn().mockResolvedValue({ success: true, message: 'User disconnected' }),
+}));
+
+vi.mock('../services/mikrotik.service.js', () => ({
+    mikrotikService: {
+        getActiveSessions: vi.fn(),
+        getActiveHotspotUsers: vi.fn(),
+    },
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { disconnectSession } from '../radius/handlers/coa.js';
+import { mikrotikService } from '../services/mikrotik.service.js';
+import { getSessionLimit, checkSimultaneousUse, kickSessions } from '../services/simultaneous-use.service.js';
+
+const nas = {
+    id: 'nas-1',
+    ipAddress: '203.0.113.1',
+    vpnIp: '10.10.0.2',
+    coaPort: 3799,
+    secret: 'nassecret',
+    apiUsername: 'api',
+    apiPassword: 'apipass',
+};
+
+function openSession(id: string, macAddress: string, startedMinutesAgo: number) {
+    return {
+        id,
+        sessionId: `acct-${id}`,
+        username: 'john',
+        framedIp: null as string | null,
+        macAddress,
+        startTime: new Date(Date.now() - startedMinutesAgo * 60 * 1000),
+        sessionTime: 0,
+        nasId: nas.id,
+        nas,
+    };
+}
+
+const customer = {
+    id: 'cust-1',
+    username: 'john',
+    connectionType: 'PPPOE',
+    maxSessions: null,
+    package: { maxSessions: 1 },
+};
+
+const rejectSettings = { simultaneousUseAction: 'REJECT' as const, verifySessionsOnRouter: false };
+const kickSettings = { simultaneousUseAction: 'KICK_OLDEST' as const, verifySessionsOnRouter: false };
+
+describe('Simultaneous-Use Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.session.updateMany).mockResolvedValue({ count: 1 });
+    });
+
+    describe('getSessionLimit', () => {
+        it('should prefer the customer override over the package', () => {
+            expect(getSessionLimit({ maxSessions: 3, package: { maxSessions: 1 } })).toBe(3);
+            expect(getSessionLimit({ maxSessions: null, package: { maxSessions: 2 } })).toBe(2);
+            expect(getSessionLimit({ maxSessions: null, package: { maxSessions: null } })).toBeNull();
+            expect(getSessionLimit({ maxSessions: null, package: null })).toBeNull();
+        });
+    });
+
+    describe('checkSimultaneousUse', () => {
+        it('should not look at sessions without a limit', async () => {
+            const result = await checkSimultaneousUse({ ...customer, package: null }, rejectSettings);
+
+            expect(result.allowed).toBe(true);
+            expect(prisma.session.findMany).not.toHaveBeenCalled();
+        });
+
+        it('should allow logins under the limit', async () => {
+            vi.mocked(prisma.session.findMany).mockResolvedValue([]);
+
+            expect(await checkSimultaneousUse(customer, rejectSettings)).toMatchObject({ allowed: true, active: 0 });
+        });
+
+        it('should reject a login over the limit', async () => {
+            vi.mocked(prisma.session.findMany).mockResolvedValue([openSession('1', 'AA:AA:AA:AA:AA:01', 30)] as any);
+
+            expect(await checkSimultaneousUse(customer, rejectSettings, 'BB:BB:BB:BB:BB:02'))
+                .toMatchObject({ allowed: false, limit: 1, active: 1, kick: [] });
+        });
+
+        it('should not count a session from the same device reconnecting', async () => {
+            vi.mocked(prisma.session.findMany).mockResolvedValue([openSession('1', 'AA:AA:AA:AA:AA:01', 30)] as any);
+
+            expect(await checkSimultaneousUse(customer, rejectSettings, 'aa-aa-aa-aa-aa-01')).toMatchObject({ allowed: true });
+        });
+
+        it('should pick the oldest sessions to kick', async () => {
+            vi.mocked(prisma.session.findMany).mockResolvedValue([
+                openSession('1', 'AA:AA:AA:AA:AA:01', 90),
+                openSession('2', 'AA:AA:AA:AA:AA:02', 30),
+            ] as any);
+
+            const result = await checkSimultaneousUse({ ...customer, maxSessions: 2 }, kickSettings, 'CC:CC:CC:CC:CC:03');
+
+            expect(result.allowed).toBe(true);
+            expect(result.kick.map((s) => s.id)).toEqual(['1']);
+        });
+
+        it('should drop sessions the router no longer has when confirming', async () => {
+            vi.mocked(prisma.session.findMany).mockResolvedValue([openSession('1', 'AA:AA:AA:AA:AA:01', 30)] as any);
+            vi.mocked(mikrotikService.getActiveSessions).mockResolvedValue([]);
+
+            const result = await checkSimultaneousUse(customer, { ...rejectSettings, verifySessionsOnRouter: true }, 'BB:BB:BB:BB:BB:02');
+
+            expect(result).toMatchObject({ allowed: true, active: 0 });
+            expect(prisma.session.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: '1', stopTime: null },
+            }));
+        });
+
+        it('should keep sessions the router lists under a differently formatted session id', async () => {
+            vi.mocked(prisma.session.findMany).mockResolvedValue([
+                { ...openSession('1', 'AA:AA:AA:AA:AA:01', 30), sessionId: '81a0000b' },
+                { ...openSession('2', 'AA:AA:AA:AA:AA:02', 20), sessionId: '81a0000c', framedIp: '10.0.0.9' },
+            ] as any);
+            vi.mocked(mikrotikService.getActiveSessions).mockResolvedValue([
+                { name: 'john', sessionId: '0x81A0000B', address: '10.0.0.8' },
+                { name: 'john', sessionId: '0x81A0FFFF', address: '10.0.0.9' },
+            ] as any);
+
+            const result = await checkSimultaneousUse({ ...customer, maxSessions: 2 }, { ...rejectSettings, verifySessionsOnRouter: true }, 'BB:BB:BB:BB:BB:02');
+
+            expect(result).toMatchObject({ allowed: false, active: 2 });
+            expect(prisma.session.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('should keep counting sessions when the router cannot be reached', async () => {
+            vi.mocked(prisma.session.findMany).mockResolvedValue([openSession('1', 'AA:AA:AA:AA:AA:01', 30)] as any);
+            vi.mocked(mikrotikService.getActiveSessions).mockRejectedValue(new Error('timeout'));
+
+            const result = await checkSimultaneousUse(customer, { ...rejectSettings, verifySessionsOnRouter: true }, 'BB:BB:BB:BB:BB:02');
+
+            expect(result.allowed).toBe(false);
+            expect(prisma.session.updateMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('kickSessions', () => {
+        it('should send a Disconnect-Request to the session NAS over the VPN', async () => {
+            vi.mocked(disconnectSession)
+                .mockResolvedValueOnce({ success: true, message: 'User disconnected' })
+                .mockResolvedValueOnce({ success: false, message: 'Request timed out' });
+
+            const kicked = await kickSessions([openSession('1', '', 90), openSession('2', '', 60)] as any);
+
+            expect(kicked).toBe(1);
+            expect(disconnectSession).toHaveBeenCalledWith('10.10.0.2', 3799, 'nassecret', 'acct-1', 'john');
+        });
+    });
+});
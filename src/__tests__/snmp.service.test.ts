@@ -0,0 +1,312 @@
+/**
+ * SNMP Service Tests
+ * Polls an in-process net-snmp agent that stands in for a MikroTik snmpd,
+ * covering v2c and v3 sessions, MIB decoding and interface rate calculation.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import snmp from 'net-snmp';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        nAS: {
+            findMany: vi.fn(),
+            update: vi.fn(),
+        },
+        snmpSample: {
+            findFirst: vi.fn(),
+            create: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/queue.js', () => ({
+    queue: { scheduleRecurring: vi.fn() },
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import {
+    createSnmpSession,
+    readDevice,
+    pollNas,
+    pollAllDevices,
+    pruneSamples,
+    toBigInt,
+    counterRate,
+    formatUptime,
+} from '../services/snmp.service.js';
+
+const AGENT_PORT = 16100 + Math.floor(Math.random() * 800);
+const V3_USER = { name: 'poller', authKey: 'authpass123', privKey: 'privpass123' };
+
+// ============================================
+// Stand-in agent
+// ============================================
+
+function counter64(value: bigint): Buffer {
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64BE(value);
+    return buffer;
+}
+
+function startAgent() {
+    const agent = snmp.createAgent({ port: AGENT_PORT, address: '127.0.0.1' }, () => undefined);
+    const authorizer = agent.getAuthorizer();
+    authorizer.addCommunity('s3cret');
+    authorizer.addUser({
+        name: V3_USER.name,
+        level: snmp.SecurityLevel.authPriv,
+        authProtocol: snmp.AuthProtocols.sha,
+        authKey: V3_USER.authKey,
+        privProtocol: snmp.PrivProtocols.aes,
+        privKey: V3_USER.privKey,
+    });
+
+    const mib = agent.getMib();
+    const ro = snmp.MaxAccess['read-only'];
+    const na = snmp.MaxAccess['not-accessible'];
+
+    const scalars: [string, string, snmp.ObjectType, unknown][] = [
+        ['sysDescr', '1.3.6.1.2.1.1.1', snmp.ObjectType.OctetString, 'RouterOS RB5009'],
+        ['sysUpTime', '1.3.6.1.2.1.1.3', snmp.ObjectType.TimeTicks, 27030500], // 3d3h5m5s
+        ['sysName', '1.3.6.1.2.1.1.5', snmp.ObjectType.OctetString, 'core-router'],
+        ['mtxrHlVoltage', '1.3.6.1.4.1.14988.1.1.3.8', snmp.ObjectType.Integer, 241],
+        ['mtxrHlTemperature', '1.3.6.1.4.1.14988.1.1.3.10', snmp.ObjectType.Integer, 425],
+    ];
+    for (const [name, oid, type, value] of scalars) {
+        mib.registerProvider({ name, type: snmp.MibProviderType.Scalar, oid, scalarType: type, maxAccess: ro });
+        mib.setScalarValue(name, value);
+    }
+
+    mib.registerProvider({
+        name: 'ifTable',
+        type: snmp.MibProviderType.Table,
+        oid: '1.3.6.1.2.1.2.2.1',
+        maxAccess: na,
+        tableColumns: [
+            { number: 1, name: 'ifIndex', type: snmp.ObjectType.Integer, maxAccess: ro },
+            { number: 2, name: 'ifDescr', type: snmp.ObjectType.OctetString, maxAccess: ro },
+            { number: 8, name: 'ifOperStatus', type: snmp.ObjectType.Integer, maxAccess: ro },
+        ],
+        tableIndex: [{ columnName: 'ifIndex' }],
+    });
+    mib.registerProvider({
+        name: 'ifXTable',
+        type: snmp.MibProviderType.Table,
+        oid: '1.3.6.1.2.1.31.1.1.1',
+        maxAccess: na,
+        tableColumns: [
+            { number: 1, name: 'ifName', type: snmp.ObjectType.OctetString, maxAccess: ro },
+            { number: 6, name: 'ifHCInOctets', type: snmp.ObjectType.Counter64, maxAccess: ro },
+            { number: 10, name: 'ifHCOutOctets', type: snmp.ObjectType.Counter64, maxAccess: ro },
+            { number: 15, name: 'ifHighSpeed', type: snmp.ObjectType.Gauge, maxAccess: ro },
+        ],
+        tableAugments: 'ifTable',
+    });
+    mib.addTableRow('ifTable', [1, 'ether1', 1]);
+    mib.addTableRow('ifTable', [2, 'ether2', 7]);
+    mib.addTableRow('ifXTable', [1, 'ether1-wan', counter64(5_000_000_000n), counter64(1_000_000n), 1000]);
+    mib.addTableRow('ifXTable', [2, 'ether2', counter64(0n), counter64(0n), 0]);
+
+    mib.registerProvider({
+        name: 'hrProcessorTable',
+        type: snmp.MibProviderType.Table,
+        oid: '1.3.6.1.2.1.25.3.3.1',
+        maxAccess: na,
+        tableColumns: [
+            { number: 1, name: 'hrProcessorIndex', type: snmp.ObjectType.Integer, maxAccess: ro },
+            { number: 2, name: 'hrProcessorLoad', type: snmp.ObjectType.Integer, maxAccess: ro },
+        ],
+        tableIndex: [{ columnName: 'hrProcessorIndex' }],
+    });
+    mib.addTableRow('hrProcessorTable', [1, 20]);
+    mib.addTableRow('hrProcessorTable', [2, 31]);
+
+    mib.registerProvider({
+        name: 'hrStorageTable',
+        type: snmp.MibProviderType.Table,
+        oid: '1.3.6.1.2.1.25.2.3.1',
+        maxAccess: na,
+        tableColumns: [
+            { number: 1, name: 'hrStorageIndex', type: snmp.ObjectType.Integer, maxAccess: ro },
+            { number: 2, name: 'hrStorageType', type: snmp.ObjectType.OID, maxAccess: ro },
+            { number: 4, name: 'hrStorageAllocationUnits', type: snmp.ObjectType.Integer, maxAccess: ro },
+            { number: 5, name: 'hrStorageSize', type: snmp.ObjectType.Integer, maxAccess: ro },
+            { number: 6, name: 'hrStorageUsed', type: snmp.ObjectType.Integer, maxAccess: ro },
+        ],
+        tableIndex: [{ columnName: 'hrStorageIndex' }],
+    });
+    mib.addTableRow('hrStorageTable', [65536, '1.3.6.1.2.1.25.2.1.2', 1024, 1048576, 262144]); // 1 GiB RAM, 25% used
+    mib.addTableRow('hrStorageTable', [131072, '1.3.6.1.2.1.25.2.1.4', 4096, 32768, 8192]); // Disk
+
+    return agent;
+}
+
+function makeNas(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'nas-1',
+        tenantId: 'tenant-1',
+        name: 'Core',
+        ipAddress: '127.0.0.1',
+        vpnIp: null,
+        snmpEnabled: true,
+        snmpVersion: 'v2c',
+        snmpPort: AGENT_PORT,
+        snmpCommunity: 's3cret',
+        snmpUsername: null,
+        snmpAuthProtocol: null,
+        snmpAuthKey: null,
+        snmpPrivProtocol: null,
+        snmpPrivKey: null,
+        ...overrides,
+    } as any;
+}
+
+describe('SNMP Service', () => {
+    let agent: ReturnType<typeof snmp.createAgent>;
+
+    beforeAll(() => {
+        agent = startAgent();
+    });
+
+    afterAll(() => {
+        agent.close();
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.snmpSample.create).mockImplementation((async (args: any) => ({
+            ...args.data,
+            interfaces: args.data.interfaces.create,
+        })) as any);
+    });
+
+    // =============================================
+    // Decoding helpers
+    // =============================================
+    describe('helpers', () => {
+        it('should decode Counter64 buffers of any length', () => {
+            expect(toBigInt(Buffer.from('0100000000', 'hex'))).toBe(4294967296n);
+            expect(toBigInt(Buffer.alloc(0))).toBe(0n);
+            expect(toBigInt(42)).toBe(42n);
+        });
+
+        it('should return no rate across a counter reset', () => {
+            expect(counterRate(2_000n, 1_000n, 10)).toBe(800);
+            expect(counterRate(500n, 1_000n, 10)).toBeNull();
+        });
+
+        it('should format uptime like RouterOS', () => {
+            expect(formatUptime(270305)).toBe('3d3h5m5s');
+            expect(formatUptime(45)).toBe('45s');
+        });
+    });
+
+    // =============================================
+    // Agent polling
+    // =============================================
+    describe('readDevice', () => {
+        it('should read IF-MIB, HOST-RESOURCES and MikroTik health over v2c', async () => {
+            const session = createSnmpSession(makeNas());
+            try {
+                const reading = await readDevice(session);
+
+                expect(reading.system).toEqual({ descr: 'RouterOS RB5009', name: 'core-router', uptimeSeconds: 270305 });
+                expect(reading.cpuLoad).toBe(26);
+                expect(reading.memory).toEqual({ used: 268435456n, total: 1073741824n });
+                expect(reading.health).toEqual({ temperature: 42.5, cpuTemperature: null, voltage: 24.1 });
+                expect(reading.interfaces).toEqual([
+                    { ifIndex: 1, name: 'ether1-wan', operStatus: 'up', speedMbps: 1000, inOctets: 5_000_000_000n, outOctets: 1_000_000n },
+                    { ifIndex: 2, name: 'ether2', operStatus: 'lowerLayerDown', speedMbps: 0, inOctets: 0n, outOctets: 0n },
+                ]);
+            } finally {
+                session.close();
+            }
+        });
+
+        it('should authenticate and decrypt with SNMPv3 credentials', async () => {
+            const session = createSnmpSession(makeNas({
+                snmpVersion: 'v3',
+                snmpUsername: V3_USER.name,
+                snmpAuthProtocol: 'SHA',
+                snmpAuthKey: V3_USER.authKey,
+                snmpPrivProtocol: 'AES',
+                snmpPrivKey: V3_USER.privKey,
+            }));
+            try {
+                const reading = await readDevice(session);
+                expect(reading.system.name).toBe('core-router');
+            } finally {
+                session.close();
+            }
+        });
+    });
+
+    describe('pollNas', () => {
+        it('should store the sample with rates against the previous poll', async () => {
+            vi.mocked(prisma.snmpSample.findFirst).mockResolvedValue({
+                polledAt: new Date(Date.now() - 60_000),
+                interfaces: [{ ifIndex: 1, inOctets: 4_250_000_000n, outOctets: 250_000n }],
+            } as any);
+
+            const { sample } = await pollNas(makeNas());
+
+            const [wan, lan] = sample.interfaces as any[];
+            expect(wan.inBps).toBeCloseTo(100_000_000, -6); // 750 MB in ~60s
+            expect(wan.outBps).toBeCloseTo(100_000, -3);
+            expect(lan.inBps).toBeNull();
+            expect(prisma.nAS.update).toHaveBeenCalledWith({
+                where: { id: 'nas-1' },
+                data: expect.objectContaining({
+                    cpuLoad: 26,
+                    memoryUsage: 25,
+                    memoryTotal: 1073741824,
+                    uptime: '3d3h5m5s',
+                    lastPollError: null,
+                }),
+            });
+        });
+
+        it('should record the error on the NAS when polling fails', async () => {
+            await expect(pollNas(makeNas({ snmpVersion: 'v3', snmpUsername: null }))).rejects.toThrow();
+
+            expect(prisma.snmpSample.create).not.toHaveBeenCalled();
+            expect(prisma.nAS.update).toHaveBeenCalledWith({
+                where: { id: 'nas-1' },
+                data: { lastPolledAt: expect.any(Date), lastPollError: 'SNMPv3 username is not configured' },
+            });
+        });
+    });
+
+    describe('scheduled jobs', () => {
+        it('should keep polling the remaining devices when one fails', async () => {
+            vi.mocked(prisma.nAS.findMany).mockResolvedValue([
+                makeNas({ id: 'nas-bad', snmpVersion: 'v3', snmpUsername: null }),
+                makeNas(),
+            ]);
+            vi.mocked(prisma.snmpSample.findFirst).mockResolvedValue(null);
+
+            expect(await pollAllDevices()).toEqual({ polled: 1, failed: 1 });
+        });
+
+        it('should prune samples beyond the retention window', async () => {
+            vi.mocked(prisma.snmpSample.deleteMany).mockResolvedValue({ count: 12 });
+
+            expect(await pruneSamples(new Date('2026-03-10T00:00:00Z'))).toBe(12);
+            expect(prisma.snmpSample.deleteMany).toHaveBeenCalledWith({
+                where: { polledAt: { lt: new Date('2026-03-03T00:00:00Z') } },
+            });
+        });
+    });
+});
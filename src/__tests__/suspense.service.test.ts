@@ -0,0 +1,239 @@
+/**
+ * Payment Suspense Service Tests
+ * Tests for holding unmatched payments, finding candidate customers and allocating or splitting payments
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const tx = {
+    payment: {
+        create: vi.fn(),
+        updateMany: vi.fn(),
+    },
+    paymentAllocation: {
+        create: vi.fn(),
+    },
+};
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        payment: {
+            findFirst: vi.fn(),
+        },
+        customer: {
+            findMany: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../services/renewal.service.js', () => ({
+    creditWallet: vi.fn(),
+    settleAndRenew: vi.fn(),
+}));
+
+vi.mock('../services/ledger.service.js', () => ({
+    postUnallocatedReceipt: vi.fn(),
+    postReceiptAllocation: vi.fn(),
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import { creditWallet, settleAndRenew } from '../services/renewal.service.js';
+import { postReceiptAllocation, postUnallocatedReceipt } from '../services/ledger.service.js';
+import {
+    recordUnallocatedPayment,
+    findAllocationCandidates,
+    allocationsMatchAmount,
+    allocatePayment,
+} from '../services/suspense.service.js';
+
+const payment = {
+    id: 'pay-1',
+    amount: 1000,
+    refundedAmount: 0,
+    refundReserved: 0,
+    transactionId: 'SGL1ABC234',
+    status: 'UNALLOCATED',
+    tenantId: 'tenant-1',
+};
+const customer = { id: 'cust-1', username: 'john', tenantId: 'tenant-1', expiresAt: new Date('2026-03-01') };
+const sibling = { id: 'cust-2', username: 'mary', tenantId: 'tenant-1', expiresAt: new Date('2026-03-05') };
+
+describe('Payment Suspense Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.$transaction).mockImplementation(async (fn: any) => fn(tx));
+        vi.mocked(settleAndRenew).mockResolvedValue({
+            invoicesSettled: 0,
+            renewal: { renewed: true, walletBalance: 0, expiresAt: new Date('2026-04-01'), reconnected: true },
+        });
+    });
+
+    describe('recordUnallocatedPayment', () => {
+        it('should create an UNALLOCATED payment without a customer and book it to suspense', async () => {
+            tx.payment.create.mockResolvedValue(payment);
+
+            await recordUnallocatedPayment({ tenantId: 'tenant-1', amount: 1000, transactionId: 'SGL1ABC234', account: 'typo' });
+
+            expect(tx.payment.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ status: 'UNALLOCATED', account: 'typo', method: 'MPESA', tenantId: 'tenant-1' }),
+            });
+            expect(tx.payment.create.mock.calls[0][0].data.customerId).toBeUndefined();
+            expect(postUnallocatedReceipt).toHaveBeenCalledWith(payment, tx);
+        });
+    });
+
+    describe('findAllocationCandidates', () => {
+        it('should suggest customers from the account reference and payer phone', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([]);
+
+            await findAllocationCandidates('tenant-1', { account: ' jon ', phone: '254712345678' });
+
+            expect(vi.mocked(prisma.customer.findMany).mock.calls[0][0]!.where).toEqual({
+                tenantId: 'tenant-1',
+                deletedAt: null,
+                OR: [
+                    { username: { contains: 'jon', mode: 'insensitive' } },
+                    { accountNumber: { contains: 'jon', mode: 'insensitive' } },
+                    { phone: { endsWith: '712345678' } },
+                ],
+            });
+        });
+
+        it('should search by the staff search term instead when given', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([]);
+
+            await findAllocationCandidates('tenant-1', { account: 'jon', phone: null }, 'Mary');
+
+            const where = vi.mocked(prisma.customer.findMany).mock.calls[0][0]!.where as any;
+            expect(where.OR).toContainEqual({ name: { contains: 'Mary', mode: 'insensitive' } });
+            expect(where.OR).not.toContainEqual({ username: { contains: 'jon', mode: 'insensitive' } });
+        });
+
+        it('should not list every customer when there is nothing to match on', async () => {
+            expect(await findAllocationCandidates('tenant-1', { account: null, phone: 'hashed' })).toEqual([]);
+            expect(prisma.customer.findMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('allocationsMatchAmount', () => {
+        it('should require positive shares adding up to the payment to the cent', () => {
+            expect(allocationsMatchAmount([{ customerId: 'a', amount: 333.33 }, { customerId: 'b', amount: 666.67 }], 1000)).toBe(true);
+            expect(allocationsMatchAmount([{ customerId: 'a', amount: 600 }], 1000)).toBe(false);
+            expect(allocationsMatchAmount([{ customerId: 'a', amount: 1200 }, { customerId: 'b', amount: -200 }], 1000)).toBe(false);
+        });
+    });
+
+    describe('allocatePayment', () => {
+        beforeEach(() => {
+            vi.mocked(prisma.payment.findFirst).mockResolvedValue(payment as any);
+            tx.payment.updateMany.mockResolvedValue({ count: 1 });
+        });
+
+        it('should credit the wallet, move the ledger balance and renew', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([customer] as any);
+            vi.mocked(creditWallet).mockResolvedValue({ walletBalance: 1000 } as any);
+
+            const result = await allocatePayment('tenant-1', 'pay-1', [{ customerId: 'cust-1', amount: 1000 }], 'user-1');
+
+            expect(tx.payment.updateMany).toHaveBeenCalledWith({
+                where: { id: 'pay-1', status: 'UNALLOCATED', refundedAmount: 0, refundReserved: 0 },
+                data: { status: 'COMPLETED', customerId: 'cust-1' },
+            });
+            expect(tx.paymentAllocation.create).toHaveBeenCalledWith({
+                data: { amount: 1000, paymentId: 'pay-1', customerId: 'cust-1', tenantId: 'tenant-1', allocatedBy: 'user-1' },
+            });
+            expect(creditWallet).toHaveBeenCalledWith(tx, 'cust-1', 1000, 'pay-1', 'Allocated payment SGL1ABC234');
+            expect(postReceiptAllocation).toHaveBeenCalledWith(expect.objectContaining({ paymentId: 'pay-1', amount: 1000 }), tx);
+            expect(settleAndRenew).toHaveBeenCalledWith(customer, 1000);
+            expect(result).toMatchObject({
+                paymentId: 'pay-1',
+                amount: 1000,
+                allocations: [{ customerId: 'cust-1', username: 'john', amount: 1000, renewed: true }],
+            });
+        });
+
+        it('should split a payment across customers', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([customer, sibling] as any);
+            vi.mocked(creditWallet)
+                .mockResolvedValueOnce({ walletBalance: 600 } as any)
+                .mockResolvedValueOnce({ walletBalance: 450 } as any);
+
+            const result = await allocatePayment('tenant-1', 'pay-1', [
+                { customerId: 'cust-1', amount: 600 },
+                { customerId: 'cust-2', amount: 400 },
+            ]);
+
+            // A split payment has no single owner
+            expect(tx.payment.updateMany.mock.calls[0][0].data).toEqual({ status: 'COMPLETED', customerId: null });
+            expect(tx.paymentAllocation.create).toHaveBeenCalledTimes(2);
+            expect(creditWallet).toHaveBeenCalledWith(tx, 'cust-2', 400, 'pay-1', 'Allocated payment SGL1ABC234');
+            expect(postReceiptAllocation).toHaveBeenCalledWith(expect.objectContaining({ amount: 400, description: 'Allocated payment SGL1ABC234 to mary' }), tx);
+            expect(settleAndRenew).toHaveBeenCalledWith(sibling, 450);
+            expect(result!.allocations.map((a) => a.username)).toEqual(['john', 'mary']);
+        });
+
+        it('should only allocate what partial refunds left of the payment', async () => {
+            vi.mocked(prisma.payment.findFirst).mockResolvedValue({ ...payment, refundedAmount: 300 } as any);
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([customer] as any);
+            vi.mocked(creditWallet).mockResolvedValue({ walletBalance: 700 } as any);
+
+            expect(await allocatePayment('tenant-1', 'pay-1', [{ customerId: 'cust-1', amount: 1000 }])).toBeNull();
+
+            const result = await allocatePayment('tenant-1', 'pay-1', [{ customerId: 'cust-1', amount: 700 }]);
+
+            expect(tx.payment.updateMany.mock.calls[0][0].where).toMatchObject({ refundedAmount: 300, refundReserved: 0 });
+            expect(creditWallet).toHaveBeenCalledWith(tx, 'cust-1', 700, 'pay-1', 'Allocated payment SGL1ABC234');
+            expect(postReceiptAllocation).toHaveBeenCalledWith(expect.objectContaining({ amount: 700 }), tx);
+            expect(result).toMatchObject({ amount: 700 });
+        });
+
+        it('should not allocate a payment while a refund of it is in progress', async () => {
+            vi.mocked(prisma.payment.findFirst).mockResolvedValue({ ...payment, refundReserved: 1000 } as any);
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([customer] as any);
+
+            expect(await allocatePayment('tenant-1', 'pay-1', [{ customerId: 'cust-1', amount: 1000 }])).toBeNull();
+            expect(prisma.$transaction).not.toHaveBeenCalled();
+            expect(creditWallet).not.toHaveBeenCalled();
+        });
+
+        it('should return null when the shares do not add up', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([customer] as any);
+
+            expect(await allocatePayment('tenant-1', 'pay-1', [{ customerId: 'cust-1', amount: 900 }])).toBeNull();
+            expect(prisma.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should return null when the payment is not in suspense or a customer is unknown', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([customer] as any);
+
+            expect(await allocatePayment('tenant-1', 'pay-1', [
+                { customerId: 'cust-1', amount: 500 },
+                { customerId: 'cust-9', amount: 500 },
+            ])).toBeNull();
+
+            vi.mocked(prisma.payment.findFirst).mockResolvedValue(null);
+            expect(await allocatePayment('tenant-1', 'pay-1', [{ customerId: 'cust-1', amount: 1000 }])).toBeNull();
+            expect(prisma.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should not credit twice when another allocation won the race', async () => {
+            vi.mocked(prisma.customer.findMany).mockResolvedValue([customer] as any);
+            tx.payment.updateMany.mockResolvedValue({ count: 0 });
+
+            expect(await allocatePayment('tenant-1', 'pay-1', [{ customerId: 'cust-1', amount: 1000 }])).toBeNull();
+            expect(creditWallet).not.toHaveBeenCalled();
+            expect(settleAndRenew).not.toHaveBeenCalled();
+        });
+    });
+});
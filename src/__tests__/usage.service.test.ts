@@ -0,0 +1,226 @@
+/**
+ * Usage Service Tests
+ * Tests for accounting delta computation, rollup bucketing and retention
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        usageSample: {
+            deleteMany: vi.fn(),
+        },
+        usageRollup: {
+            findMany: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../lib/queue.js', () => ({
+    queue: { scheduleRecurring: vi.fn() },
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import {
+    octetDelta,
+    bucketStart,
+    recordUsage,
+    getCustomerUsageSeries,
+    getPeakHours,
+    pruneUsage,
+} from '../services/usage.service.js';
+
+const GIGAWORD = BigInt(4294967296);
+
+const tx = {
+    usageSample: {
+        create: vi.fn(),
+    },
+    usageRollup: {
+        upsert: vi.fn(),
+    },
+};
+
+const session = {
+    sessionId: '81a00003',
+    customerId: 'customer-1',
+    nasId: 'nas-1',
+    tenantId: 'tenant-1',
+    inputOctets: BigInt(1000),
+    outputOctets: BigInt(5000),
+    sessionTime: 300,
+};
+
+describe('Usage Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(tx)) as any);
+    });
+
+    // =============================================
+    // Delta computation
+    // =============================================
+    describe('octetDelta', () => {
+        it('should subtract the previous total', () => {
+            expect(octetDelta(BigInt(7500), BigInt(5000), false)).toBe(BigInt(2500));
+        });
+
+        it('should carry across a gigaword boundary', () => {
+            const previous = GIGAWORD - BigInt(100);
+            const current = GIGAWORD + BigInt(400); // Acct-Output-Gigawords went to 1
+            expect(octetDelta(current, previous, false)).toBe(BigInt(500));
+        });
+
+        it('should treat a backwards step as a 32-bit wrap when gigawords are missing', () => {
+            const previous = GIGAWORD - BigInt(100);
+            expect(octetDelta(BigInt(400), previous, false)).toBe(BigInt(500));
+        });
+
+        it('should count from zero after a counter reset', () => {
+            expect(octetDelta(BigInt(400), BigInt(9000), true)).toBe(BigInt(400));
+        });
+    });
+
+    it('should bucket timestamps to the UTC hour and day', () => {
+        const at = new Date('2026-03-14T15:42:10Z');
+        expect(bucketStart(at, 'HOURLY')).toEqual(new Date('2026-03-14T15:00:00Z'));
+        expect(bucketStart(at, 'DAILY')).toEqual(new Date('2026-03-14T00:00:00Z'));
+    });
+
+    // =============================================
+    // Recording
+    // =============================================
+    describe('recordUsage', () => {
+        const recordedAt = new Date('2026-03-14T15:42:10Z');
+
+        it('should store the interval delta and add it to both rollups', async () => {
+            const result = await recordUsage(
+                session,
+                { inputOctets: BigInt(1800), outputOctets: BigInt(9000), sessionTime: 600 },
+                recordedAt
+            );
+
+            expect(result).toEqual({ inputOctets: BigInt(800), outputOctets: BigInt(4000) });
+            expect(tx.usageSample.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    customerId: 'customer-1',
+                    intervalSeconds: 300,
+                    inputOctets: BigInt(800),
+                    outputOctets: BigInt(4000),
+                }),
+            });
+            expect(tx.usageRollup.upsert).toHaveBeenCalledTimes(2);
+            expect(tx.usageRollup.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                where: {
+                    customerId_period_bucketStart: {
+                        customerId: 'customer-1',
+                        period: 'HOURLY',
+                        bucketStart: new Date('2026-03-14T15:00:00Z'),
+                    },
+                },
+                update: {
+                    inputOctets: { increment: BigInt(800) },
+                    outputOctets: { increment: BigInt(4000) },
+                    samples: { increment: 1 },
+                },
+            }));
+        });
+
+        it('should treat a shorter Session-Time as a reset', async () => {
+            const result = await recordUsage(
+                session,
+                { inputOctets: BigInt(200), outputOctets: BigInt(300), sessionTime: 60 },
+                recordedAt
+            );
+
+            expect(result).toEqual({ inputOctets: BigInt(200), outputOctets: BigInt(300) });
+            expect(tx.usageSample.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ intervalSeconds: 60 }),
+            });
+        });
+
+        it('should skip updates that carry no new traffic', async () => {
+            const result = await recordUsage(session, { inputOctets: BigInt(1000), outputOctets: BigInt(5000), sessionTime: 600 });
+
+            expect(result).toBeNull();
+            expect(prisma.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should skip sessions without a customer', async () => {
+            const result = await recordUsage(
+                { ...session, customerId: null },
+                { inputOctets: BigInt(1800), outputOctets: BigInt(9000), sessionTime: 600 }
+            );
+
+            expect(result).toBeNull();
+            expect(prisma.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should not fail accounting when the write errors', async () => {
+            vi.mocked(prisma.$transaction).mockRejectedValue(new Error('db down'));
+
+            const result = await recordUsage(session, { inputOctets: BigInt(1800), outputOctets: BigInt(9000), sessionTime: 600 });
+
+            expect(result).toBeNull();
+        });
+    });
+
+    // =============================================
+    // Queries
+    // =============================================
+    it('should return a gap-free hourly series', async () => {
+        vi.mocked(prisma.usageRollup.findMany).mockResolvedValue([
+            { bucketStart: new Date('2026-03-14T13:00:00Z'), inputOctets: BigInt(100), outputOctets: BigInt(900) },
+        ] as any);
+
+        const series = await getCustomerUsageSeries('customer-1', '24h', new Date('2026-03-14T15:42:10Z'));
+
+        expect(series).toHaveLength(24);
+        expect(series[0]?.timestamp).toEqual(new Date('2026-03-13T16:00:00Z'));
+        expect(series[23]?.timestamp).toEqual(new Date('2026-03-14T15:00:00Z'));
+        expect(series[21]).toMatchObject({ inputOctets: 100, outputOctets: 900, totalOctets: 1000 });
+        expect(series[22]?.totalOctets).toBe(0);
+    });
+
+    it('should find the busiest hour of day', async () => {
+        vi.mocked(prisma.usageRollup.findMany).mockResolvedValue([
+            { bucketStart: new Date('2026-03-13T20:00:00Z'), inputOctets: BigInt(100), outputOctets: BigInt(4000) },
+            { bucketStart: new Date('2026-03-14T20:00:00Z'), inputOctets: BigInt(100), outputOctets: BigInt(3000) },
+            { bucketStart: new Date('2026-03-14T09:00:00Z'), inputOctets: BigInt(100), outputOctets: BigInt(5000) },
+        ] as any);
+
+        const result = await getPeakHours('customer-1', 30, new Date('2026-03-14T23:00:00Z'));
+
+        expect(result.peakHour).toBe(20);
+        expect(result.hours[20]?.totalOctets).toBe(7200);
+        expect(result.hours[9]?.totalOctets).toBe(5100);
+    });
+
+    it('should prune each tier with its own retention window', async () => {
+        vi.mocked(prisma.usageSample.deleteMany).mockResolvedValue({ count: 12 });
+        vi.mocked(prisma.usageRollup.deleteMany).mockResolvedValue({ count: 3 });
+        const now = new Date('2026-03-14T03:45:00Z');
+
+        const result = await pruneUsage(now);
+
+        expect(result).toEqual({ samples: 12, hourly: 3, daily: 3 });
+        expect(prisma.usageSample.deleteMany).toHaveBeenCalledWith({
+            where: { recordedAt: { lt: new Date('2026-03-07T03:45:00Z') } },
+        });
+        expect(prisma.usageRollup.deleteMany).toHaveBeenCalledWith({
+            where: { period: 'HOURLY', bucketStart: { lt: new Date('2025-12-14T03:45:00Z') } },
+        });
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * Voucher Batch Service Tests
+ * Tests for batch generation, expiry policies, analytics and bulk lifecycle actions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({
+    prisma: {
+        voucher: {
+            findMany: vi.fn(),
+            groupBy: vi.fn(),
+            count: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+// Import after mocks
+import { prisma } from '../lib/prisma.js';
+import {
+    resolveBatchExpiry,
+    generateVoucherBatch,
+    getBatchStats,
+    getRedemptionTimeline,
+    revokeBatch,
+    extendBatchExpiry,
+} from '../services/voucher.service.js';
+
+const tx = {
+    voucherBatch: {
+        create: vi.fn(),
+        update: vi.fn(),
+    },
+    voucher: {
+        createMany: vi.fn(),
+        updateMany: vi.fn(),
+    },
+};
+
+describe('Voucher Batch Service', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(tx)) as any);
+    });
+
+    // =============================================
+    // Expiry Policies
+    // =============================================
+    describe('resolveBatchExpiry', () => {
+        const createdAt = new Date('2026-03-01T00:00:00Z');
+
+        it('should never expire codes without a policy', () => {
+            expect(resolveBatchExpiry('NONE', { validDays: 5 }, createdAt)).toBeNull();
+        });
+
+        it('should use the fixed date as-is', () => {
+            const expiresAt = new Date('2026-06-30T00:00:00Z');
+            expect(resolveBatchExpiry('FIXED_DATE', { expiresAt }, createdAt)).toEqual(expiresAt);
+        });
+
+        it('should count days from batch creation', () => {
+            expect(resolveBatchExpiry('DAYS_AFTER_CREATION', { validDays: 30 }, createdAt))
+                .toEqual(new Date('2026-03-31T00:00:00Z'));
+        });
+    });
+
+    describe('generateVoucherBatch', () => {
+        it('should create the batch and stamp its expiry on every code', async () => {
+            vi.mocked(prisma.voucher.findMany).mockResolvedValue([]);
+            tx.voucherBatch.create.mockImplementation(async (args: any) => ({ id: 'batch-1', ...args.data }));
+
+            const { batch, codes } = await generateVoucherBatch({
+                tenantId: 'tenant-1',
+                createdById: 'user-1',
+                packageId: 'pkg-1',
+                quantity: 3,
+                prefix: 'HS',
+                expiryPolicy: 'DAYS_AFTER_CREATION',
+                validDays: 7,
+            }, { name: 'Daily 5M' });
+
+            expect(codes).toHaveLength(3);
+            expect(new Set(codes).size).toBe(3);
+            codes.forEach((code) => expect(code).toMatch(/^HS[0-9A-F]{8}$/));
+            expect(batch.name).toMatch(/^Daily 5M x3 \(\d{4}-\d{2}-\d{2}\)$/);
+            expect(batch.validDays).toBe(7);
+
+            const created = tx.voucher.createMany.mock.calls[0][0].data;
+            expect(created).toHaveLength(3);
+            created.forEach((v: any) => {
+                expect(v.batchId).toBe('batch-1');
+                expect(v.expiresAt).toEqual(batch.expiresAt);
+            });
+        });
+    });
+
+    // =============================================
+    // Analytics
+    // =============================================
+    describe('getBatchStats', () => {
+        it('should split redeemed codes into sold and used, and count lapsed codes as expired', async () => {
+            const now = new Date('2026-03-10T12:00:00Z');
+            vi.mocked(prisma.voucher.groupBy as any)
+                .mockResolvedValueOnce([
+                    { batchId: 'batch-1', status: 'AVAILABLE', _count: 5 },
+                    { batchId: 'batch-1', status: 'USED', _count: 4 },
+                    { batchId: 'batch-1', status: 'EXPIRED', _count: 1 },
+                    { batchId: 'batch-1', status: 'REVOKED', _count: 2 },
+                ])
+                .mockResolvedValueOnce([{ batchId: 'batch-1', _count: 2 }]);
+            vi.mocked(prisma.voucher.count).mockResolvedValue(3);
+
+            const stats = await getBatchStats([{ id: 'batch-1', package: { price: 50, sessionTime: 1440 } }], now);
+
+            expect(stats.get('batch-1')).toEqual({
+                available: 3,
+                sold: 4,
+                used: 3,
+                expired: 3,
+                revoked: 2,
+                revenue: 200,
+            });
+            // Used once a day's validity has run out since redemption
+            expect(prisma.voucher.count).toHaveBeenCalledWith({
+                where: { batchId: 'batch-1', status: 'USED', usedAt: { lte: new Date('2026-03-09T12:00:00Z') } },
+            });
+        });
+    });
+
+    describe('getRedemptionTimeline', () => {
+        it('should bucket redemptions by day in date order', async () => {
+            vi.mocked(prisma.voucher.findMany).mockResolvedValue([
+                { usedAt: new Date('2026-03-02T18:00:00Z') },
+                { usedAt: new Date('2026-03-01T09:00:00Z') },
+                { usedAt: new Date('2026-03-02T07:30:00Z') },
+            ] as any);
+
+            expect(await getRedemptionTimeline('batch-1')).toEqual([
+                { date: '2026-03-01', count: 1 },
+                { date: '2026-03-02', count: 2 },
+            ]);
+        });
+    });
+
+    // =============================================
+    // Lifecycle
+    // =============================================
+    describe('revokeBatch', () => {
+        it('should only revoke codes that have not been redeemed', async () => {
+            tx.voucher.updateMany.mockResolvedValue({ count: 6 });
+
+            expect(await revokeBatch('batch-1')).toBe(6);
+            expect(tx.voucher.updateMany).toHaveBeenCalledWith({
+                where: { batchId: 'batch-1', status: { in: ['AVAILABLE', 'EXPIRED'] } },
+                data: { status: 'REVOKED' },
+            });
+            expect(tx.voucherBatch.update).toHaveBeenCalledWith({
+                where: { id: 'batch-1' },
+                data: { revokedAt: expect.any(Date) },
+            });
+        });
+    });
+
+    describe('extendBatchExpiry', () => {
+        it('should move the batch to a fixed date and revive expired codes', async () => {
+            const expiresAt = new Date('2026-12-31T00:00:00Z');
+            tx.voucher.updateMany.mockResolvedValue({ count: 4 });
+
+            expect(await extendBatchExpiry('batch-1', expiresAt)).toBe(4);
+            expect(tx.voucherBatch.update).toHaveBeenCalledWith({
+                where: { id: 'batch-1' },
+                data: { expiryPolicy: 'FIXED_DATE', expiresAt, validDays: null },
+            });
+            expect(tx.voucher.updateMany).toHaveBeenCalledWith({
+                where: { batchId: 'batch-1', status: { in: ['AVAILABLE', 'EXPIRED'] } },
+                data: { status: 'AVAILABLE', expiresAt },
+            });
+        });
+    });
+});
@@ -16,10 +16,12 @@ import { packageRoutes } from './routes/package.routes.js';
 import { financeRoutes } from './routes/finance.routes.js';
 import { paymentRoutes } from './routes/payment.routes.js';
 import { pgRoutes } from './routes/payment-gateway.routes.js';
+import { c2bRoutes } from './routes/c2b.routes.js';
 import { nasRoutes } from './routes/nas.routes.js';
 import { mikrotikRoutes } from './routes/mikrotik.routes.js';
 import { wizardRoutes } from './routes/wizard.routes.js';
 import { voucherRoutes } from './routes/voucher.routes.js';
+import { resellerRoutes } from './routes/reseller.routes.js';
 import { smsRoutes } from './routes/sms.routes.js';
 import { smsGatewayRoutes } from './routes/sms-gateway.routes.js';
 import { mapRoutes } from './routes/map.routes.js';
@@ -33,6 +35,7 @@ import { sessionRoutes } from './routes/session.routes.js';
 // Temporarily disabled - Ticket model not in Prisma schema
 // import { ticketRoutes } from './routes/ticket.routes.js';
 import { provisionRoutes } from './routes/provision.routes.js';
+import { documentRoutes } from './routes/document.routes.js';
 
 import { serveStatic } from '@hono/node-server/serve-static';
 
@@ -65,6 +68,9 @@ app.route('/health', healthRoutes);
 // Provision route (no auth - routers call this directly)
 app.route('/provision', provisionRoutes);
 
+// Invoice/receipt download links texted to customers (no auth - short-lived codes)
+app.route('/d', documentRoutes);
+
 // API routes
 const api = new Hono();
 api.route('/auth', authRoutes);
@@ -75,10 +81,12 @@ api.route('/packages', packageRoutes);
 api.route('/finance', financeRoutes);
 api.route('/payment-gateways', pgRoutes);
 api.route('/payments', paymentRoutes);
+api.route('/c2b', c2bRoutes);
 api.route('/nas', nasRoutes);
 api.route('/mikrotik', mikrotikRoutes);
 api.route('/wizard', wizardRoutes);
 api.route('/vouchers', voucherRoutes);
+api.route('/resellers', resellerRoutes);
 api.route('/sms', smsRoutes);
 api.route('/sms-gateways', smsGatewayRoutes);
 api.route('/map', mapRoutes);
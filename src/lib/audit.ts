@@ -32,8 +32,15 @@ export type AuditAction =
     | 'ROUTER_UPDATE'
     | 'ROUTER_DELETE'
     | 'ROUTER_REBOOT'
+    | 'REALM_CREATE'
+    | 'REALM_UPDATE'
+    | 'REALM_DELETE'
     | 'VOUCHER_GENERATE'
+    | 'VOUCHER_UPDATE'
     | 'VOUCHER_DELETE'
+    | 'RESELLER_CREATE'
+    | 'RESELLER_UPDATE'
+    | 'RESELLER_FLOAT_TOPUP'
     | 'SMS_SEND'
     | 'SETTINGS_UPDATE'
     | 'VPN_PEER_CREATE'
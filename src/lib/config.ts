@@ -55,6 +55,9 @@ export const config = {
     jwtSecret: getEnv('JWT_SECRET'),
     jwtExpiresIn: getEnv('JWT_EXPIRES_IN', '7d'),
 
+    // Customer credentials (reversible encryption for CHAP/MS-CHAP, portal login tokens)
+    credentialKey: getEnv('CREDENTIAL_ENCRYPTION_KEY'),
+
     // Queue
     queueDriver: getEnv('QUEUE_DRIVER', 'pgboss') as 'pgboss' | 'redis',
     redisUrl: process.env['REDIS_URL'],
@@ -68,6 +71,7 @@ export const config = {
         passkey: getEnv('MPESA_PASSKEY', ''),
         callbackUrl: getEnv('MPESA_CALLBACK_URL', ''),
         webhookKey: getEnv('MPESA_WEBHOOK_KEY', ''),
+        apiUrl: getEnv('MPESA_API_URL', ''), // Overrides the Daraja host (e.g. a local mock)
     },
 
     // SMS
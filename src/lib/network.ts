@@ -0,0 +1,136 @@
+/**
+ * Network Address Checks
+ * Tenants configure hosts the server itself connects to (RADIUS proxy
+ * upstreams, logo URLs). Those must not point back at the server or into the
+ * private networks it sits on.
+ */
+
+import { BlockList, isIP, type LookupFunction } from 'net';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+
+export interface PublicFetchOptions {
+    timeoutMs: number;
+    maxBytes: number;
+}
+
+const internal = new BlockList();
+
+// IPv4: this network, RFC 1918, CGNAT, loopback, link-local, IETF, multicast and reserved/broadcast
+internal.addSubnet('0.0.0.0', 8, 'ipv4');
+internal.addSubnet('10.0.0.0', 8, 'ipv4');
+internal.addSubnet('100.64.0.0', 10, 'ipv4');
+internal.addSubnet('127.0.0.0', 8, 'ipv4');
+internal.addSubnet('169.254.0.0', 16, 'ipv4');
+internal.addSubnet('172.16.0.0', 12, 'ipv4');
+internal.addSubnet('192.0.0.0', 24, 'ipv4');
+internal.addSubnet('192.168.0.0', 16, 'ipv4');
+internal.addSubnet('198.18.0.0', 15, 'ipv4');
+internal.addSubnet('224.0.0.0', 4, 'ipv4');
+internal.addSubnet('240.0.0.0', 4, 'ipv4');
+
+// IPv6: unspecified, loopback, unique local, link-local and multicast
+internal.addAddress('::', 'ipv6');
+internal.addAddress('::1', 'ipv6');
+internal.addSubnet('fc00::', 7, 'ipv6');
+internal.addSubnet('fe80::', 10, 'ipv6');
+internal.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Whether an IP address is publicly routable. Anything that isn't an IP
+ * address counts as not public.
+ */
+export function isPublicAddress(address: string): boolean {
+    const version = isIP(address);
+    if (version === 0) {
+        return false;
+    }
+
+    if (version === 6) {
+        // IPv4-mapped (::ffff:10.0.0.1) is checked as the IPv4 address it carries
+        const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+        if (mapped) {
+            return isPublicAddress(mapped[1]);
+        }
+        return !internal.check(address, 'ipv6');
+    }
+
+    return !internal.check(address, 'ipv4');
+}
+
+/**
+ * Resolve like dns.lookup, but fail when any address of the host is internal
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) {
+            callback(err, '', 0);
+            return;
+        }
+        if (addresses.length === 0 || addresses.some((a) => !isPublicAddress(a.address))) {
+            callback(new Error(`${hostname} does not resolve to a public address`), '', 0);
+            return;
+        }
+        if (options.all) {
+            (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+/**
+ * GET an http(s) URL on a public host. The address is checked as the
+ * connection is made, so DNS can't swap in an internal one afterwards.
+ * Redirects are not followed. Resolves to null on a non-200 answer; throws
+ * for rejected URLs, timeouts and bodies over maxBytes.
+ */
+export function fetchPublicUrl(url: string, options: PublicFetchOptions): Promise<Buffer | null> {
+    const target = new URL(url);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        return Promise.reject(new Error(`Unsupported URL protocol ${target.protocol}`));
+    }
+
+    // IP literals connect without a lookup
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host) && !isPublicAddress(host)) {
+        return Promise.reject(new Error(`${host} is not a public address`));
+    }
+
+    const client = target.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+        const request = client.get(target, {
+            lookup: publicLookup,
+            signal: AbortSignal.timeout(options.timeoutMs),
+        }, (response) => {
+            if (response.statusCode !== 200) {
+                response.resume();
+                resolve(null);
+                return;
+            }
+            if (Number(response.headers['content-length'] ?? 0) > options.maxBytes) {
+                response.destroy();
+                reject(new Error(`Response is larger than ${options.maxBytes} bytes`));
+                return;
+            }
+
+            const chunks: Buffer[] = [];
+            let size = 0;
+            response.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > options.maxBytes) {
+                    response.destroy();
+                    reject(new Error(`Response is larger than ${options.maxBytes} bytes`));
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            response.on('end', () => resolve(Buffer.concat(chunks)));
+            response.on('error', reject);
+        });
+
+        request.on('error', reject);
+    });
+}
@@ -42,9 +42,18 @@ export const PERMISSIONS = {
     HOTSPOT_RESET_COUNTERS: 'hotspot:reset_counters',
     HOTSPOT_CHANGE_PACKAGE: 'hotspot:change_package',
 
+    // Resellers
+    RESELLERS_VIEW: 'resellers:view',
+    RESELLERS_MANAGE: 'resellers:manage',
+    RESELLERS_FLOAT: 'resellers:float',
+
+    // Reseller self-service (agent accounts)
+    RESELLER_PORTAL: 'reseller:portal',
+
     // Payments
     PAYMENTS_VIEW_ELECTRONIC: 'payments:view_electronic',
     PAYMENTS_VIEW_MANUAL: 'payments:view_manual',
+    PAYMENTS_ALLOCATE: 'payments:allocate',
 
     // SMS
     SMS_VIEW: 'sms:view',
@@ -164,6 +173,11 @@ export const ROLE_PERMISSIONS: Record<string, string[]> = {
         PERMISSIONS.PACKAGES_DETAILS_VIEW,
         PERMISSIONS.SETTINGS_PASSWORD,
     ],
+
+    RESELLER: [
+        PERMISSIONS.RESELLER_PORTAL,
+        PERMISSIONS.SETTINGS_PASSWORD,
+    ],
 };
 
 /**
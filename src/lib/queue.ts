@@ -34,6 +34,28 @@ class Queue {
         }
     }
 
+    /**
+     * Register a recurring job: creates the queue, sets its cron schedule and attaches the worker
+     */
+    async scheduleRecurring(name: string, cron: string, handler: () => Promise<void>) {
+        if (!this.boss) {
+            throw new Error('Queue system disabled');
+        }
+
+        await this.boss.createQueue(name);
+        await this.boss.schedule(name, cron);
+        await this.boss.work(name, async () => {
+            try {
+                await handler();
+            } catch (error) {
+                logger.error({ error, job: name }, 'Recurring job failed');
+                throw error;
+            }
+        });
+
+        logger.info({ job: name, cron }, 'Recurring job scheduled');
+    }
+
     get instance() {
         return this.boss;
     }
@@ -3,6 +3,13 @@ import { queue } from './queue.js';
 import { radiusServer } from '../radius/index.js';
 import { logger } from './logger.js';
 import { startVpnStatusMonitor, stopVpnStatusMonitor } from '../services/vpn-status.service.js';
+import { startExpiryEngine } from '../services/expiry.service.js';
+import { startRenewalScheduler } from '../services/renewal.service.js';
+import { startBillingEngine } from '../services/billing.service.js';
+import { startSnmpPoller } from '../services/snmp.service.js';
+import { startUsageRetention } from '../services/usage.service.js';
+import { startBandwidthScheduler } from '../services/bandwidth-schedule.service.js';
+import { startSessionReconciler } from '../services/session-reconciler.service.js';
 
 class ServiceManager {
     async startAll() {
@@ -13,6 +20,13 @@ class ServiceManager {
             { name: 'Queue System', start: () => queue.start() },
             { name: 'RADIUS Auth', start: () => radiusServer.start() },
             { name: 'VPN Monitor', start: () => { startVpnStatusMonitor(); return Promise.resolve(); } },
+            { name: 'Expiry Engine', start: () => startExpiryEngine() },
+            { name: 'Wallet Renewal', start: () => startRenewalScheduler() },
+            { name: 'Billing Engine', start: () => startBillingEngine() },
+            { name: 'SNMP Poller', start: () => startSnmpPoller() },
+            { name: 'Usage Retention', start: () => startUsageRetention() },
+            { name: 'Bandwidth Scheduler', start: () => startBandwidthScheduler() },
+            { name: 'Session Reconciler', start: () => startSessionReconciler() },
         ];
 
         const results = [];
@@ -0,0 +1,231 @@
+/**
+ * Spreadsheet Reader
+ * Reads uploaded CSV and XLSX files into rows of cell strings. XLSX files
+ * are zip archives of XML parts; only the first worksheet and the shared
+ * strings are read, which is all an exported statement needs.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export type SheetRow = string[];
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+
+// Limits against zip bombs: a statement workbook has a handful of small parts
+const MAX_ZIP_ENTRIES = 1000;
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+/**
+ * An uploaded file is over the size or entry limits
+ */
+export class SpreadsheetLimitError extends Error {}
+
+const TOO_LARGE_MESSAGE = `Workbook is larger than ${MAX_UNCOMPRESSED_BYTES / (1024 * 1024)} MB uncompressed`;
+
+/**
+ * Inflate a zip entry, refusing to produce more than `limit` bytes
+ */
+function inflateWithin(data: Buffer, limit: number): Buffer {
+    try {
+        return inflateRawSync(data, { maxOutputLength: Math.max(1, limit) });
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw new SpreadsheetLimitError(TOO_LARGE_MESSAGE);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Parse CSV text (quoted fields, escaped quotes, CRLF line endings)
+ */
+export function parseCsv(text: string): SheetRow[] {
+    const rows: SheetRow[] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+
+        if (quoted) {
+            if (ch === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Files in a zip archive, by path
+ */
+function readZip(buffer: Buffer): Map<string, Buffer> {
+    let end = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+        if (buffer.readUInt32LE(i) === ZIP_END_OF_DIRECTORY) {
+            end = i;
+            break;
+        }
+    }
+    if (end < 0) {
+        throw new Error('Not a zip archive');
+    }
+
+    const files = new Map<string, Buffer>();
+    const count = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+    let remaining = MAX_UNCOMPRESSED_BYTES;
+
+    if (count > MAX_ZIP_ENTRIES) {
+        throw new SpreadsheetLimitError(`Workbook has more than ${MAX_ZIP_ENTRIES} parts`);
+    }
+
+    for (let n = 0; n < count; n++) {
+        if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+            throw new Error('Corrupt zip directory');
+        }
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+        if (buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+            throw new Error('Corrupt zip entry');
+        }
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+        const content = method === 0 ? data : method === 8 ? inflateWithin(data, remaining) : null;
+        if (content) {
+            remaining -= content.length;
+            if (remaining < 0) {
+                throw new SpreadsheetLimitError(TOO_LARGE_MESSAGE);
+            }
+            files.set(name, content);
+        }
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return files;
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&#x([0-9a-fA-F]+);/g, (_, code) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Text of all <t> runs inside an XML fragment
+ */
+function textRuns(xml: string): string {
+    return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((m) => decodeXml(m[1])).join('');
+}
+
+function columnIndex(ref: string): number {
+    const letters = ref.replace(/\d+$/, '').toUpperCase();
+    let index = 0;
+    for (const ch of letters) {
+        index = index * 26 + (ch.charCodeAt(0) - 64);
+    }
+    return index - 1;
+}
+
+/**
+ * Rows of the first worksheet of an XLSX workbook. Numbers (including
+ * dates, which Excel stores as serial days) are returned as written.
+ */
+export function parseXlsx(buffer: Buffer): SheetRow[] {
+    const files = readZip(buffer);
+
+    const sheetName = files.has('xl/worksheets/sheet1.xml')
+        ? 'xl/worksheets/sheet1.xml'
+        : [...files.keys()].filter((name) => /^xl\/worksheets\/[^/]+\.xml$/.test(name)).sort()[0];
+    if (!sheetName) {
+        throw new Error('Workbook has no worksheet');
+    }
+
+    const sharedXml = files.get('xl/sharedStrings.xml')?.toString('utf8') ?? '';
+    const shared = [...sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) => textRuns(m[1]));
+
+    const rows: SheetRow[] = [];
+    const sheetXml = files.get(sheetName)!.toString('utf8');
+
+    for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+        const row: string[] = [];
+
+        for (const cell of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const attrs = cell[1];
+            const body = cell[2] ?? '';
+            const ref = /\br="([A-Z]+\d+)"/.exec(attrs)?.[1];
+            const type = /\bt="(\w+)"/.exec(attrs)?.[1];
+            const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+            let value = '';
+            if (type === 's') {
+                value = shared[Number(raw)] ?? '';
+            } else if (type === 'inlineStr') {
+                value = textRuns(body);
+            } else if (raw !== undefined) {
+                value = decodeXml(raw);
+            }
+
+            const index = ref ? columnIndex(ref) : row.length;
+            while (row.length < index) row.push('');
+            row[index] = value;
+        }
+
+        if (row.some((v) => v.trim() !== '')) {
+            rows.push(row);
+        }
+    }
+
+    return rows;
+}
+
+/**
+ * Rows of an uploaded CSV or XLSX file (XLSX is recognised by its zip signature)
+ */
+export function readSpreadsheet(buffer: Buffer): SheetRow[] {
+    if (buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER) {
+        return parseXlsx(buffer);
+    }
+    return parseCsv(buffer.toString('utf8'));
+}
@@ -15,6 +15,14 @@ export interface AuthUser {
     removedPermissions: string[];
 }
 
+// Reseller (agent) accounts only use their self-service portal and their own
+// login session; every other tenant route is closed to them, including the
+// ones that rely on authentication alone.
+const RESELLER_ALLOWED_PATHS = ['/api/resellers/me', '/api/auth'];
+
+const isResellerPath = (path: string) =>
+    RESELLER_ALLOWED_PATHS.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+
 declare module 'hono' {
     interface ContextVariableMap {
         user: AuthUser;
@@ -60,6 +68,10 @@ export const authMiddleware = async (c: Context, next: Next) => {
             throw new AppError(403, 'Account is suspended or inactive');
         }
 
+        if (user.role === 'RESELLER' && !isResellerPath(c.req.path)) {
+            throw new AppError(403, 'Reseller accounts can only use the reseller portal');
+        }
+
         // Set user in context
         c.set('user', {
             id: user.id,
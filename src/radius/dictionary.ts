@@ -1,6 +1,6 @@
 /**
  * RADIUS Attribute Dictionary
- * RFC 2865 (Authentication) + RFC 2866 (Accounting) + MikroTik Vendor Specific
+ * RFC 2865 (Authentication) + RFC 2866 (Accounting) + MikroTik and Microsoft (RFC 2548) Vendor Specific
  */
 
 // RADIUS Packet Types (RFC 2865)
@@ -248,6 +248,22 @@ export enum MikroTikAttribute {
     WIRELESS_MAXSIGNAL = 29,
 }
 
+// Microsoft Vendor ID (RFC 2548)
+export const MICROSOFT_VENDOR_ID = 311;
+
+// Microsoft Vendor-Specific Attributes used by MS-CHAPv2 and MPPE
+export enum MicrosoftAttribute {
+    CHAP_RESPONSE = 1,
+    CHAP_ERROR = 2,
+    MPPE_ENCRYPTION_POLICY = 7,  // 1 = allowed, 2 = required
+    MPPE_ENCRYPTION_TYPES = 8,   // Bitmask: 2 = 40-bit, 4 = 128-bit
+    CHAP_CHALLENGE = 11,
+    MPPE_SEND_KEY = 16,
+    MPPE_RECV_KEY = 17,
+    CHAP2_RESPONSE = 25,
+    CHAP2_SUCCESS = 26,
+}
+
 // Attribute definition for encoding/decoding
 export interface AttributeDefinition {
     type: number;
@@ -312,6 +328,26 @@ export const MIKROTIK_DICTIONARY: Map<number, AttributeDefinition> = new Map([
     [MikroTikAttribute.ADVERTISE_URL, { type: 12, name: 'Mikrotik-Advertise-URL', dataType: 'string', vendorId: MIKROTIK_VENDOR_ID }],
     [MikroTikAttribute.ADVERTISE_INTERVAL, { type: 13, name: 'Mikrotik-Advertise-Interval', dataType: 'integer', vendorId: MIKROTIK_VENDOR_ID }],
     [MikroTikAttribute.TOTAL_LIMIT, { type: 17, name: 'Mikrotik-Total-Limit', dataType: 'integer', vendorId: MIKROTIK_VENDOR_ID }],
+    [MikroTikAttribute.TOTAL_LIMIT_GIGAWORDS, { type: 18, name: 'Mikrotik-Total-Limit-Gigawords', dataType: 'integer', vendorId: MIKROTIK_VENDOR_ID }],
     [MikroTikAttribute.ADDRESS_LIST, { type: 19, name: 'Mikrotik-Address-List', dataType: 'string', vendorId: MIKROTIK_VENDOR_ID }],
     [MikroTikAttribute.DELEGATED_IPV6_POOL, { type: 22, name: 'Mikrotik-Delegated-IPv6-Pool', dataType: 'string', vendorId: MIKROTIK_VENDOR_ID }],
 ]);
+
+// Microsoft VSA Dictionary
+export const MICROSOFT_DICTIONARY: Map<number, AttributeDefinition> = new Map([
+    [MicrosoftAttribute.CHAP_RESPONSE, { type: 1, name: 'MS-CHAP-Response', dataType: 'octets', vendorId: MICROSOFT_VENDOR_ID }],
+    [MicrosoftAttribute.CHAP_ERROR, { type: 2, name: 'MS-CHAP-Error', dataType: 'octets', vendorId: MICROSOFT_VENDOR_ID }],
+    [MicrosoftAttribute.MPPE_ENCRYPTION_POLICY, { type: 7, name: 'MS-MPPE-Encryption-Policy', dataType: 'integer', vendorId: MICROSOFT_VENDOR_ID }],
+    [MicrosoftAttribute.MPPE_ENCRYPTION_TYPES, { type: 8, name: 'MS-MPPE-Encryption-Types', dataType: 'integer', vendorId: MICROSOFT_VENDOR_ID }],
+    [MicrosoftAttribute.CHAP_CHALLENGE, { type: 11, name: 'MS-CHAP-Challenge', dataType: 'octets', vendorId: MICROSOFT_VENDOR_ID }],
+    [MicrosoftAttribute.MPPE_SEND_KEY, { type: 16, name: 'MS-MPPE-Send-Key', dataType: 'octets', vendorId: MICROSOFT_VENDOR_ID }],
+    [MicrosoftAttribute.MPPE_RECV_KEY, { type: 17, name: 'MS-MPPE-Recv-Key', dataType: 'octets', vendorId: MICROSOFT_VENDOR_ID }],
+    [MicrosoftAttribute.CHAP2_RESPONSE, { type: 25, name: 'MS-CHAP2-Response', dataType: 'octets', vendorId: MICROSOFT_VENDOR_ID }],
+    [MicrosoftAttribute.CHAP2_SUCCESS, { type: 26, name: 'MS-CHAP2-Success', dataType: 'octets', vendorId: MICROSOFT_VENDOR_ID }],
+]);
+
+// VSA dictionaries by vendor
+export const VENDOR_DICTIONARIES: Map<number, Map<number, AttributeDefinition>> = new Map([
+    [MIKROTIK_VENDOR_ID, MIKROTIK_DICTIONARY],
+    [MICROSOFT_VENDOR_ID, MICROSOFT_DICTIONARY],
+]);
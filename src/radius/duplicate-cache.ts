@@ -0,0 +1,79 @@
+/**
+ * RADIUS Duplicate Request Cache
+ * NAS devices retransmit when a response is late or lost. A retransmission
+ * carries the same source, identifier and authenticator, so we replay the
+ * response we already sent instead of running the handlers again (RFC 5080
+ * section 2.2.2) - otherwise a retransmitted Accounting-Request would be
+ * counted twice.
+ */
+
+import type { RadiusPacket } from './packet.js';
+
+// Configuration
+export const DUPLICATE_CACHE_TTL = 30000; // 30 seconds, longer than a NAS retry cycle
+
+export interface DuplicateEntry {
+    response: Buffer | null; // null while the original request is still being handled
+    expires: number;
+}
+
+/**
+ * Cache key for a request: source address and port, code, identifier and authenticator
+ */
+export function duplicateKey(source: { address: string; port: number }, packet: RadiusPacket): string {
+    return `${source.address}:${source.port}:${packet.code}:${packet.identifier}:${packet.authenticator.toString('hex')}`;
+}
+
+export class DuplicateCache {
+    private entries = new Map<string, DuplicateEntry>();
+
+    constructor(private readonly ttl: number = DUPLICATE_CACHE_TTL) {}
+
+    /**
+     * The live entry for a request, if it has been seen before
+     */
+    get(key: string, now: number = Date.now()): DuplicateEntry | undefined {
+        const entry = this.entries.get(key);
+        if (entry && now >= entry.expires) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    /**
+     * Mark a request as in flight so retransmissions arriving meanwhile are dropped
+     */
+    start(key: string, now: number = Date.now()): void {
+        this.entries.set(key, { response: null, expires: now + this.ttl });
+    }
+
+    /**
+     * Store the response sent for a request
+     */
+    complete(key: string, response: Buffer, now: number = Date.now()): void {
+        this.entries.set(key, { response, expires: now + this.ttl });
+    }
+
+    /**
+     * Drop a request that produced no response, so a retransmission is handled afresh
+     */
+    forget(key: string): void {
+        this.entries.delete(key);
+    }
+
+    /**
+     * Remove expired entries
+     */
+    prune(now: number = Date.now()): void {
+        for (const [key, entry] of this.entries.entries()) {
+            if (now >= entry.expires) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+}
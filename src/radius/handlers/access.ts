@@ -11,6 +11,7 @@ import {
     type AttributeBuilder,
     getAttribute,
     getAttributeString,
+    getVendorAttribute,
     decryptPassword,
     verifyChapPassword,
     createResponse,
@@ -20,8 +21,29 @@ import {
     RadiusAttributeType,
     MikroTikAttribute,
     MIKROTIK_VENDOR_ID,
+    MICROSOFT_VENDOR_ID,
+    MicrosoftAttribute,
     ServiceType,
 } from '../dictionary.js';
+import { verifyMsChapV2 } from '../mschap.js';
+import {
+    decryptCredential,
+    getValidLoginTokens,
+    verifyCustomerPassword,
+    type StoredCredential,
+} from '../../services/credential.service.js';
+import {
+    getGraceEndsAt,
+    isWithinGracePeriod,
+    WALLED_GARDEN_ADDRESS_LIST,
+    WALLED_GARDEN_RATE_LIMIT,
+} from '../../services/expiry.service.js';
+import { getCurrentQuota, getRemainingQuota } from '../../services/quota.service.js';
+import { formatRateLimit, getActiveProfile } from '../../services/bandwidth-schedule.service.js';
+import { checkSimultaneousUse, kickSessions } from '../../services/simultaneous-use.service.js';
+
+const GIGAWORD = BigInt(4294967296); // 2^32
+const MAX_INTEGER_ATTRIBUTE = 4294967295;
 
 export interface AccessResult {
     code: RadiusCode.ACCESS_ACCEPT | RadiusCode.ACCESS_REJECT;
@@ -155,7 +177,23 @@ async function authenticateUser(
             deletedAt: null,
         },
         include: {
-            package: true,
+            package: {
+                include: { schedules: { orderBy: { createdAt: 'asc' } } },
+            },
+            tenant: {
+                select: {
+                    gracePeriodMinutes: true,
+                    graceRateLimit: true,
+                    expiredWalledGarden: true,
+                    billingCycleEnabled: true,
+                    billDay: true,
+                    quotaAction: true,
+                    fupRateLimit: true,
+                    timezone: true,
+                    simultaneousUseAction: true,
+                    verifySessionsOnRouter: true,
+                },
+            },
         },
     });
 
@@ -164,11 +202,13 @@ async function authenticateUser(
         return reject('Invalid username or password');
     }
 
-    // Verify password (PAP or CHAP)
-    const passwordValid = await verifyPassword(packet, secret, customer.password);
-    if (!passwordValid) {
+    // Verify password (PAP, CHAP or MS-CHAPv2)
+    const password = await verifyPassword(packet, secret, customer, context.username);
+    if (!password.valid) {
         logger.info({ username: context.username }, 'Invalid password');
-        return reject('Invalid username or password');
+        const result = reject('Invalid username or password');
+        result.attributes.push(...password.attributes);
+        return result;
     }
 
     // Check customer status
@@ -182,12 +222,32 @@ async function authenticateUser(
         return reject('Account disabled');
     }
 
-    // Check expiration
-    if (customer.expiresAt && new Date(customer.expiresAt) < new Date()) {
+    // Check expiration (expired users inside the tenant's grace period are let in throttled)
+    const now = new Date();
+    const inGracePeriod = customer.status !== 'EXPIRED' && isWithinGracePeriod(customer.expiresAt, customer.tenant, now);
+    const expired = customer.status === 'EXPIRED' || (new Date(customer.expiresAt) < now && !inGracePeriod);
+
+    // Expired PPPoE users can be let into a payment-only walled garden instead of rejected
+    const walledGarden = expired && customer.connectionType === 'PPPOE' && customer.tenant.expiredWalledGarden;
+
+    if (expired && !walledGarden) {
         logger.info({ username: context.username, expiresAt: customer.expiresAt }, 'Account expired');
         return reject('Account expired. Please renew your subscription.');
     }
 
+    // Quota used up for this billing period: reject, or let them in at the fair-use rate
+    const quota = customer.package?.dataLimit && !walledGarden ? await getCurrentQuota(customer, now) : null;
+    const remainingOctets = customer.package?.dataLimit && !walledGarden
+        ? getRemainingQuota(quota, customer.package.dataLimit)
+        : null;
+    // A limit reached since the last interim counts too, before accounting marks it
+    const quotaExhausted = !!quota?.exhaustedAt || remainingOctets === BigInt(0);
+
+    if (quotaExhausted && customer.tenant.quotaAction === 'DISCONNECT') {
+        logger.info({ username: context.username, periodEnd: quota?.periodEnd }, 'Data quota exhausted');
+        return reject('Data quota exhausted. Please renew your subscription.');
+    }
+
     // Check MAC Address Lock for Hotspot
     if (customer.connectionType === 'HOTSPOT' && customer.lastMac) {
         const reqMac = context.callingStationId?.replace(/[^A-Fa-f0-9]/g, '').toUpperCase();
@@ -199,8 +259,25 @@ async function authenticateUser(
         }
     }
 
-    // Build Accept response with attributes
-    const attributes: AttributeBuilder[] = [];
+    // Simultaneous-Use: reject over the limit, or kick the oldest sessions in the background
+    const simultaneousUse = await checkSimultaneousUse(customer, customer.tenant, context.callingStationId);
+    if (!simultaneousUse.allowed) {
+        logger.info({ username: context.username, limit: simultaneousUse.limit, active: simultaneousUse.active }, 'Simultaneous-Use limit reached');
+        return reject('Maximum number of sessions reached');
+    }
+    if (simultaneousUse.kick.length > 0) {
+        logger.info({
+            username: context.username,
+            limit: simultaneousUse.limit,
+            sessionIds: simultaneousUse.kick.map((s) => s.sessionId),
+        }, 'Simultaneous-Use limit reached - kicking oldest sessions');
+        kickSessions(simultaneousUse.kick).catch((error) => {
+            logger.error({ error, username: context.username }, 'Failed to kick sessions');
+        });
+    }
+
+    // Build Accept response with attributes (MS-CHAP2-Success and MPPE keys first, if any)
+    const attributes: AttributeBuilder[] = [...password.attributes];
 
     // Add Service-Type
     attributes.push({
@@ -216,58 +293,61 @@ async function authenticateUser(
         });
     }
 
-    // Add rate limiting (MikroTik-Rate-Limit)
-    if (customer.package) {
-        const rateLimit = `${customer.package.uploadSpeed}M/${customer.package.downloadSpeed}M`;
+    if (walledGarden) {
+        // Tiny rate limit + address list that the router redirects to the renewal page
         attributes.push({
             type: MikroTikAttribute.RATE_LIMIT,
-            value: rateLimit,
+            value: WALLED_GARDEN_RATE_LIMIT,
             vendorId: MIKROTIK_VENDOR_ID,
             vendorType: MikroTikAttribute.RATE_LIMIT,
         });
+        attributes.push({
+            type: MikroTikAttribute.ADDRESS_LIST,
+            value: WALLED_GARDEN_ADDRESS_LIST,
+            vendorId: MIKROTIK_VENDOR_ID,
+            vendorType: MikroTikAttribute.ADDRESS_LIST,
+        });
+        logger.info({ username: context.username, expiresAt: customer.expiresAt }, 'Account expired - accepted into walled garden');
+    }
 
-        // Add burst if configured
-        if (customer.package.burstDownload && customer.package.burstUpload) {
-            const burstRate = `${customer.package.uploadSpeed}M/${customer.package.downloadSpeed}M ${customer.package.burstUpload}M/${customer.package.burstDownload}M 0/0 1/1 5`;
-            // Override with burst format: rx/tx rx-burst/tx-burst threshold-rx/tx time-rx/tx priority
-            attributes[attributes.length - 1].value = burstRate;
-        }
+    // Add rate limiting (MikroTik-Rate-Limit) from the package's speed schedule at login
+    if (customer.package && !walledGarden) {
+        attributes.push({
+            type: MikroTikAttribute.RATE_LIMIT,
+            value: formatRateLimit(getActiveProfile(customer.package, customer.tenant.timezone, now)),
+            vendorId: MIKROTIK_VENDOR_ID,
+            vendorType: MikroTikAttribute.RATE_LIMIT,
+        });
     }
 
-    // Add session timeout for hotspot (based on sessionTime)
-    if (customer.connectionType === 'HOTSPOT' && customer.package?.sessionTime) {
-        // sessionTime is in minutes, RADIUS expects seconds
+    // Grace period: override the package speed and end the session when grace runs out
+    if (inGracePeriod) {
+        const graceEndsAt = getGraceEndsAt(customer.expiresAt, customer.tenant)!;
+        overrideRateLimit(attributes, customer.tenant.graceRateLimit);
         attributes.push({
             type: RadiusAttributeType.SESSION_TIMEOUT,
-            value: customer.package.sessionTime * 60,
+            value: Math.max(60, Math.ceil((graceEndsAt.getTime() - now.getTime()) / 1000)),
         });
+        logger.info({ username: context.username, graceEndsAt }, 'Account in grace period - throttled');
     }
 
-    // Add data limit (bytes)
-    if (customer.package?.dataLimit) {
-        // MikroTik uses Recv-Limit (download) and Xmit-Limit (upload)
-        // For simplicity, apply total limit to both
-        const limitBytes = Number(customer.package.dataLimit);
-
-        // Handle gigawords (values > 4GB)
-        const gigawords = Math.floor(limitBytes / (4 * 1024 * 1024 * 1024));
-        const remainingBytes = limitBytes % (4 * 1024 * 1024 * 1024);
+    // Fair-use throttle after the quota ran out (grace is slower still, so it wins)
+    if (quotaExhausted && !inGracePeriod) {
+        overrideRateLimit(attributes, customer.tenant.fupRateLimit);
+        logger.info({ username: context.username, periodEnd: quota?.periodEnd }, 'Data quota exhausted - throttled');
+    }
 
+    // End the session when the subscription runs out (grace sets its own timeout)
+    if (!inGracePeriod && !walledGarden) {
         attributes.push({
-            type: MikroTikAttribute.TOTAL_LIMIT,
-            value: remainingBytes,
-            vendorId: MIKROTIK_VENDOR_ID,
-            vendorType: MikroTikAttribute.TOTAL_LIMIT,
+            type: RadiusAttributeType.SESSION_TIMEOUT,
+            value: getSessionTimeout(customer, now),
         });
+    }
 
-        if (gigawords > 0) {
-            attributes.push({
-                type: MikroTikAttribute.TOTAL_LIMIT_GIGAWORDS,
-                value: gigawords,
-                vendorId: MIKROTIK_VENDOR_ID,
-                vendorType: MikroTikAttribute.TOTAL_LIMIT_GIGAWORDS,
-            });
-        }
+    // Cap the session at the quota still unused this period
+    if (remainingOctets !== null && !quotaExhausted) {
+        attributes.push(...getDataLimitAttributes(remainingOctets));
     }
 
     // Add idle timeout (5 minutes default)
@@ -294,18 +374,49 @@ async function authenticateUser(
     return {
         code: RadiusCode.ACCESS_ACCEPT,
         attributes,
-        replyMessage: 'Welcome!',
+        replyMessage: walledGarden ? 'Account expired. Please renew your subscription.' : 'Welcome!',
     };
 }
 
 /**
- * Verify user password (PAP or CHAP)
+ * Verify user password (PAP, CHAP or MS-CHAPv2). The customer's password or a
+ * current portal login token is accepted. MS-CHAPv2 also returns the
+ * attributes the reply must carry.
  */
 async function verifyPassword(
     packet: RadiusPacket,
     secret: string,
-    storedPassword: string
-): Promise<boolean> {
+    customer: StoredCredential & { id: string },
+    username: string
+): Promise<{ valid: boolean; attributes: AttributeBuilder[] }> {
+    const loginTokens = getValidLoginTokens(customer.id);
+
+    // Challenge-based methods need the plain password
+    const challengeSecrets = (): string[] => {
+        const plain = decryptCredential(customer.password);
+        return plain === null ? loginTokens : [plain, ...loginTokens];
+    };
+
+    // Check for MS-CHAPv2 authentication
+    const msChapChallenge = getVendorAttribute(packet, MICROSOFT_VENDOR_ID, MicrosoftAttribute.CHAP_CHALLENGE);
+    const msChap2Response = getVendorAttribute(packet, MICROSOFT_VENDOR_ID, MicrosoftAttribute.CHAP2_RESPONSE);
+
+    if (msChapChallenge && msChap2Response) {
+        let result: { valid: boolean; attributes: AttributeBuilder[] } = { valid: false, attributes: [] };
+        for (const candidate of challengeSecrets()) {
+            result = verifyMsChapV2(
+                msChapChallenge.raw,
+                msChap2Response.raw,
+                username,
+                candidate,
+                packet.authenticator,
+                secret
+            );
+            if (result.valid) break;
+        }
+        return result;
+    }
+
     // Check for CHAP authentication
     const chapPassword = getAttribute(packet, RadiusAttributeType.CHAP_PASSWORD);
     const chapChallenge = getAttribute(packet, RadiusAttributeType.CHAP_CHALLENGE);
@@ -314,20 +425,83 @@ async function verifyPassword(
         // CHAP authentication
         const challenge = chapChallenge?.raw || packet.authenticator;
         if (!Buffer.isBuffer(challenge)) {
-            return false;
+            return { valid: false, attributes: [] };
         }
-        return verifyChapPassword(chapPassword.raw, challenge, storedPassword);
+        const valid = challengeSecrets().some((candidate) => verifyChapPassword(chapPassword.raw, challenge, candidate));
+        return { valid, attributes: [] };
     }
 
     // PAP authentication
     const userPassword = getAttribute(packet, RadiusAttributeType.USER_PASSWORD);
     if (userPassword && Buffer.isBuffer(userPassword.raw)) {
         const decrypted = decryptPassword(userPassword.raw, packet.authenticator, secret);
-        return decrypted === storedPassword;
+        const valid = loginTokens.includes(decrypted) || await verifyCustomerPassword(customer, decrypted);
+        return { valid, attributes: [] };
     }
 
     // No password provided
-    return false;
+    return { valid: false, attributes: [] };
+}
+
+/**
+ * Seconds until the subscription expires, and for hotspot packages no longer
+ * than the package session time (sessionTime is in minutes)
+ */
+export function getSessionTimeout(
+    customer: { connectionType: string; expiresAt: Date; package: { sessionTime: number | null } | null },
+    now: Date = new Date()
+): number {
+    const untilExpiry = Math.min(
+        MAX_INTEGER_ATTRIBUTE,
+        Math.max(60, Math.ceil((customer.expiresAt.getTime() - now.getTime()) / 1000))
+    );
+
+    if (customer.connectionType === 'HOTSPOT' && customer.package?.sessionTime) {
+        return Math.min(customer.package.sessionTime * 60, untilExpiry);
+    }
+    return untilExpiry;
+}
+
+/**
+ * Mikrotik-Total-Limit for a byte count, with the 4GB multiples carried in
+ * Mikrotik-Total-Limit-Gigawords
+ */
+export function getDataLimitAttributes(bytes: bigint): AttributeBuilder[] {
+    const gigawords = bytes / GIGAWORD;
+    const attributes: AttributeBuilder[] = [{
+        type: MikroTikAttribute.TOTAL_LIMIT,
+        value: Number(bytes % GIGAWORD),
+        vendorId: MIKROTIK_VENDOR_ID,
+        vendorType: MikroTikAttribute.TOTAL_LIMIT,
+    }];
+
+    if (gigawords > BigInt(0)) {
+        attributes.push({
+            type: MikroTikAttribute.TOTAL_LIMIT_GIGAWORDS,
+            value: Number(gigawords),
+            vendorId: MIKROTIK_VENDOR_ID,
+            vendorType: MikroTikAttribute.TOTAL_LIMIT_GIGAWORDS,
+        });
+    }
+
+    return attributes;
+}
+
+/**
+ * Replace the package rate limit (or add one) with a raw MikroTik rate-limit string
+ */
+function overrideRateLimit(attributes: AttributeBuilder[], rateLimit: string): void {
+    const rateLimitAttr = attributes.find(a => a.vendorId === MIKROTIK_VENDOR_ID && a.vendorType === MikroTikAttribute.RATE_LIMIT);
+    if (rateLimitAttr) {
+        rateLimitAttr.value = rateLimit;
+    } else {
+        attributes.push({
+            type: MikroTikAttribute.RATE_LIMIT,
+            value: rateLimit,
+            vendorId: MIKROTIK_VENDOR_ID,
+            vendorType: MikroTikAttribute.RATE_LIMIT,
+        });
+    }
 }
 
 /**
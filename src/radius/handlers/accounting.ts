@@ -1,6 +1,8 @@
 /**
  * RADIUS Accounting-Request Handler
- * Handles session tracking from MikroTik routers
+ * Handles session tracking from MikroTik routers. Interim and Stop packets for
+ * a session we never saw start (lost Start packet, server restart) create the
+ * session retroactively, back-dated by Acct-Session-Time.
  */
 
 import { prisma } from '../../lib/prisma.js';
@@ -19,6 +21,8 @@ import {
     AcctStatusType,
     AcctTerminateCause,
 } from '../dictionary.js';
+import { recordUsage } from '../../services/usage.service.js';
+import { addQuotaUsage } from '../../services/quota.service.js';
 
 export interface AccountingContext {
     username: string;
@@ -149,18 +153,83 @@ function extractAccountingContext(packet: RadiusPacket, nasIp: string): Accounti
 }
 
 /**
- * Handle Accounting-Start: Create new session
+ * Find the NAS a packet came from, by public or VPN address
  */
-async function handleAccountingStart(context: AccountingContext, secret: string): Promise<void> {
-    // Find NAS
-    const nas = await prisma.nAS.findFirst({
+async function findNas(nasIp: string) {
+    return prisma.nAS.findFirst({
         where: {
             OR: [
-                { ipAddress: context.nasIp },
-                { vpnIp: context.nasIp },
+                { ipAddress: nasIp },
+                { vpnIp: nasIp },
             ],
         },
     });
+}
+
+/**
+ * When a session started: Acct-Session-Time seconds before the packet's
+ * Event-Timestamp, or before now when the NAS doesn't send one
+ */
+export function retroactiveStartTime(context: AccountingContext, now: Date = new Date()): Date {
+    const eventTime = context.eventTimestamp ? context.eventTimestamp * 1000 : now.getTime();
+    return new Date(eventTime - (context.sessionTime ?? 0) * 1000);
+}
+
+/**
+ * Create the session for an Interim or Stop whose Start we never received.
+ * Counters start at zero so the first update records everything used so far.
+ * Returns null when the NAS is unknown.
+ */
+async function recoverSession(context: AccountingContext) {
+    const nas = await findNas(context.nasIp);
+    if (!nas) {
+        logger.warn({ nasIp: context.nasIp, sessionId: context.sessionId }, 'Accounting for unknown session from unknown NAS');
+        return null;
+    }
+
+    const customer = await prisma.customer.findFirst({
+        where: {
+            username: context.username,
+            tenantId: nas.tenantId,
+            deletedAt: null,
+        },
+    });
+
+    const startTime = retroactiveStartTime(context);
+
+    // Upsert: a retransmitted or concurrent update may have created it already
+    const session = await prisma.session.upsert({
+        where: { sessionId: context.sessionId },
+        create: {
+            sessionId: context.sessionId,
+            username: context.username,
+            nasIpAddress: context.nasIp,
+            framedIp: context.framedIp,
+            macAddress: context.macAddress,
+            startTime,
+            customerId: customer?.id,
+            nasId: nas.id,
+            tenantId: nas.tenantId,
+        },
+        update: {},
+        include: { customer: true },
+    });
+
+    logger.info({
+        sessionId: context.sessionId,
+        username: context.username,
+        startTime,
+        statusType: AcctStatusType[context.statusType],
+    }, 'Session recovered from accounting update');
+
+    return session;
+}
+
+/**
+ * Handle Accounting-Start: Create new session
+ */
+async function handleAccountingStart(context: AccountingContext, secret: string): Promise<void> {
+    const nas = await findNas(context.nasIp);
 
     if (!nas) {
         logger.warn({ nasIp: context.nasIp }, 'Accounting-Start: Unknown NAS');
@@ -211,26 +280,30 @@ async function handleAccountingStart(context: AccountingContext, secret: string)
     }, 'Session started');
 }
 
-import { disconnectUser } from './coa.js';
-
 /**
  * Handle Accounting-Interim-Update: Update session data and enforce quotas
  */
 async function handleAccountingInterim(context: AccountingContext): Promise<void> {
     const session = await prisma.session.findUnique({
         where: { sessionId: context.sessionId },
-        include: {
-            customer: {
-                include: { package: true }
-            }
-        }
-    });
+    }) ?? await recoverSession(context);
 
     if (!session) {
-        logger.warn({ sessionId: context.sessionId }, 'Interim update for unknown session');
         return;
     }
 
+    // Store the delta against the previous totals before they are overwritten
+    const usage = await recordUsage(session, {
+        inputOctets: context.inputOctets ?? BigInt(0),
+        outputOctets: context.outputOctets ?? BigInt(0),
+        sessionTime: context.sessionTime ?? session.sessionTime,
+    });
+
+    // A session closed by the reconciler (or a lost Stop/NAS restart guess) that
+    // reports further progress is still up on the router: reopen it. Interims
+    // retransmitted after a real Stop don't get past the Session-Time check.
+    const reopen = !!session.stopTime && (context.sessionTime ?? 0) > session.sessionTime;
+
     // Update database
     await prisma.session.update({
         where: { sessionId: context.sessionId },
@@ -239,30 +312,17 @@ async function handleAccountingInterim(context: AccountingContext): Promise<void
             inputOctets: context.inputOctets,
             outputOctets: context.outputOctets,
             sessionTime: context.sessionTime ?? session.sessionTime,
+            ...(reopen ? { stopTime: null, terminateCause: null } : {}),
         },
     });
 
-    // Enforce Data Quota
-    if (session.customer?.package?.dataLimit) {
-        const input = context.inputOctets ?? BigInt(0);
-        const output = context.outputOctets ?? BigInt(0);
-        const totalUsage = input + output;
-
-        if (totalUsage > session.customer.package.dataLimit) {
-            logger.info({
-                username: context.username,
-                usage: totalUsage.toString(),
-                limit: session.customer.package.dataLimit.toString()
-            }, 'Data quota exceeded, disconnecting user');
-
-            try {
-                // Determine tenantId from session/nas
-                // We have session.tenantId available
-                await disconnectUser(context.username, session.tenantId);
-            } catch (err) {
-                logger.error({ err, username: context.username }, 'Failed to disconnect user after quota exceeded');
-            }
-        }
+    if (reopen) {
+        logger.info({ sessionId: context.sessionId, username: session.username }, 'Reopened closed session on Interim-Update');
+    }
+
+    // Count the delta against the customer's quota for the billing period
+    if (usage && session.customerId) {
+        await addQuotaUsage(session.customerId, usage.inputOctets + usage.outputOctets);
     }
 
     logger.debug({
@@ -280,13 +340,21 @@ async function handleAccountingStop(context: AccountingContext): Promise<void> {
     const session = await prisma.session.findUnique({
         where: { sessionId: context.sessionId },
         include: { customer: true },
-    });
+    }) ?? await recoverSession(context);
 
     if (!session) {
-        logger.warn({ sessionId: context.sessionId }, 'Stop for unknown session');
         return;
     }
 
+    const usage = await recordUsage(session, {
+        inputOctets: context.inputOctets ?? BigInt(0),
+        outputOctets: context.outputOctets ?? BigInt(0),
+        sessionTime: context.sessionTime ?? session.sessionTime,
+    });
+    if (usage && session.customerId) {
+        await addQuotaUsage(session.customerId, usage.inputOctets + usage.outputOctets);
+    }
+
     // Update session with final values
     await prisma.session.update({
         where: { sessionId: context.sessionId },
@@ -319,14 +387,7 @@ async function handleAccountingStop(context: AccountingContext): Promise<void> {
  * Handle NAS restart: Close all active sessions for this NAS
  */
 async function handleNasRestart(nasIp: string): Promise<void> {
-    const nas = await prisma.nAS.findFirst({
-        where: {
-            OR: [
-                { ipAddress: nasIp },
-                { vpnIp: nasIp },
-            ],
-        },
-    });
+    const nas = await findNas(nasIp);
 
     if (!nas) return;
 
@@ -275,6 +275,17 @@ export async function updateUserSpeed(
     tenantId: string,
     uploadMbps: number,
     downloadMbps: number
+): Promise<DisconnectResult> {
+    return updateUserRateLimit(username, tenantId, `${uploadMbps}M/${downloadMbps}M`);
+}
+
+/**
+ * Apply a raw MikroTik rate-limit string (e.g. "256k/256k") to a user's active session
+ */
+export async function updateUserRateLimit(
+    username: string,
+    tenantId: string,
+    rateLimit: string
 ): Promise<DisconnectResult> {
     // Find active session
     const session = await prisma.session.findFirst({
@@ -297,7 +308,6 @@ export async function updateUserSpeed(
     }
 
     const nasIp = session.nas.vpnIp || session.nas.ipAddress;
-    const rateLimit = `${uploadMbps}M/${downloadMbps}M`;
 
     return updateSession(
         nasIp,
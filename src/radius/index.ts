@@ -1,13 +1,23 @@
 /**
  * EasyISP RADIUS Server
- * Custom implementation for MikroTik Hotspot and PPPoE authentication
+ * Custom implementation for MikroTik Hotspot and PPPoE authentication,
+ * with forwarding of partner realms to their own RADIUS servers
  */
 
 import dgram from 'dgram';
 import { prisma } from '../lib/prisma.js';
 import { logger } from '../lib/logger.js';
-import { parsePacket, verifyRequestAuthenticator, verifyAccountingAuthenticator } from './packet.js';
-import { RadiusCode } from './dictionary.js';
+import {
+    parsePacket,
+    getAttribute,
+    getAttributeString,
+    verifyRequestAuthenticator,
+    verifyAccountingAuthenticator,
+    type RadiusPacket,
+} from './packet.js';
+import { RadiusCode, RadiusAttributeType } from './dictionary.js';
+import { DuplicateCache, duplicateKey } from './duplicate-cache.js';
+import { RadiusProxy, splitRealm, type ProxyUpstream } from './proxy.js';
 import { handleAccessRequest } from './handlers/access.js';
 import { handleAccountingRequest } from './handlers/accounting.js';
 
@@ -32,8 +42,13 @@ interface RateLimitEntry {
     resetTime: number;
 }
 
-interface NasCacheEntry {
+interface NasPolicy {
+    tenantId: string;
     secret: string;
+    requireMessageAuthenticator: boolean;
+}
+
+interface NasCacheEntry extends NasPolicy {
     expires: number;
 }
 
@@ -43,17 +58,23 @@ export class RadiusServer {
     private config: RadiusServerConfig;
     private isRunning = false;
 
-    // NAS Secret Cache
+    // NAS Secret and Policy Cache
     private nasCache = new Map<string, NasCacheEntry>();
     private readonly NAS_CACHE_TTL = 300000; // 5 minutes in ms
 
     // Rate Limiter
     private rateLimitMap = new Map<string, RateLimitEntry>();
 
+    // Retransmitted requests and the responses we sent for them
+    private duplicates = new DuplicateCache();
+
+    // Forwarding to partner realms
+    private proxy = new RadiusProxy();
+
     constructor(config: Partial<RadiusServerConfig> = {}) {
         this.config = { ...DEFAULT_CONFIG, ...config };
 
-        // Clean up rate limit map periodically
+        // Clean up rate limit map and duplicate cache periodically
         setInterval(() => {
             const now = Date.now();
             for (const [ip, entry] of this.rateLimitMap.entries()) {
@@ -61,6 +82,7 @@ export class RadiusServer {
                     this.rateLimitMap.delete(ip);
                 }
             }
+            this.duplicates.prune(now);
         }, 60000); // Check every minute
     }
 
@@ -79,6 +101,9 @@ export class RadiusServer {
         // Start Accounting Server (UDP 1813)
         await this.startAcctServer();
 
+        // Socket for forwarding to partner realms
+        await this.proxy.start();
+
         this.isRunning = true;
         logger.info({
             authPort: this.config.authPort,
@@ -102,6 +127,8 @@ export class RadiusServer {
             this.acctSocket = null;
         }
 
+        this.proxy.stop();
+
         this.isRunning = false;
         logger.info('RADIUS server stopped');
     }
@@ -196,21 +223,23 @@ export class RadiusServer {
                 return;
             }
 
-            // Get shared secret for this NAS
-            const secret = await this.getSecret(nasIp);
-            if (!secret) {
-                logger.warn({ nasIp }, 'Access-Request from unknown NAS');
+            // Retransmission: replay our response instead of authenticating again
+            const key = duplicateKey(rinfo, packet);
+            if (this.replayDuplicate(key, this.authSocket, rinfo)) {
                 return;
             }
 
-            // Verify Authenticator
-            if (!verifyRequestAuthenticator(packet, secret)) {
-                logger.warn({ nasIp }, 'Access-Request authenticator verification failed (Message-Authenticator invalid)');
+            this.duplicates.start(key);
+            const response = await this.processAccessRequest(packet, nasIp)
+                .catch((error) => {
+                    this.duplicates.forget(key);
+                    throw error;
+                });
+            if (!response) {
+                this.duplicates.forget(key);
                 return;
             }
-
-            // Process request
-            const response = await handleAccessRequest(packet, secret, nasIp);
+            this.duplicates.complete(key, response);
 
             // Send response
             this.authSocket?.send(response, rinfo.port, nasIp, (err) => {
@@ -244,21 +273,23 @@ export class RadiusServer {
                 return;
             }
 
-            // Get shared secret for this NAS
-            const secret = await this.getSecret(nasIp);
-            if (!secret) {
-                logger.warn({ nasIp }, 'Accounting-Request from unknown NAS');
+            // Retransmission: replay our response so usage is not counted twice
+            const key = duplicateKey(rinfo, packet);
+            if (this.replayDuplicate(key, this.acctSocket, rinfo)) {
                 return;
             }
 
-            // Verify Authenticator
-            if (!verifyAccountingAuthenticator(packet, secret)) {
-                logger.warn({ nasIp }, 'Accounting-Request authenticator verification failed');
+            this.duplicates.start(key);
+            const response = await this.processAccountingRequest(packet, nasIp)
+                .catch((error) => {
+                    this.duplicates.forget(key);
+                    throw error;
+                });
+            if (!response) {
+                this.duplicates.forget(key);
                 return;
             }
-
-            // Process request
-            const response = await handleAccountingRequest(packet, secret, nasIp);
+            this.duplicates.complete(key, response);
 
             // Send response
             this.acctSocket?.send(response, rinfo.port, nasIp, (err) => {
@@ -272,14 +303,118 @@ export class RadiusServer {
     }
 
     /**
-     * Get shared secret for a NAS with Caching
+     * Verify an Access-Request against the NAS policy and run the handler.
+     * Returns null when the packet is dropped.
+     */
+    private async processAccessRequest(packet: RadiusPacket, nasIp: string): Promise<Buffer | null> {
+        // Get shared secret and policy for this NAS
+        const nas = await this.getNasPolicy(nasIp);
+        if (!nas) {
+            logger.warn({ nasIp }, 'Access-Request from unknown NAS');
+            return null;
+        }
+
+        // Without a Message-Authenticator the request is only protected by MD5,
+        // which BlastRADIUS forges; EAP requests must always carry one (RFC 3579)
+        const hasMessageAuthenticator = !!getAttribute(packet, RadiusAttributeType.MESSAGE_AUTHENTICATOR);
+        if (!hasMessageAuthenticator) {
+            if (nas.requireMessageAuthenticator) {
+                logger.warn({ nasIp }, 'Access-Request without Message-Authenticator dropped by NAS policy');
+                return null;
+            }
+            if (getAttribute(packet, RadiusAttributeType.EAP_MESSAGE)) {
+                logger.warn({ nasIp }, 'EAP Access-Request without Message-Authenticator dropped');
+                return null;
+            }
+        }
+
+        // Verify Authenticator
+        if (!verifyRequestAuthenticator(packet, nas.secret)) {
+            logger.warn({ nasIp }, 'Access-Request authenticator verification failed (Message-Authenticator invalid)');
+            return null;
+        }
+
+        // Partner realm users are authenticated upstream
+        const upstream = await this.findRealm(nas.tenantId, packet);
+        if (upstream) {
+            return this.proxy.forward(packet, nas.secret, upstream);
+        }
+
+        return handleAccessRequest(packet, nas.secret, nasIp);
+    }
+
+    /**
+     * Verify an Accounting-Request and run the handler. Returns null when the packet is dropped.
      */
-    private async getSecret(nasIp: string): Promise<string | null> {
+    private async processAccountingRequest(packet: RadiusPacket, nasIp: string): Promise<Buffer | null> {
+        // Get shared secret for this NAS
+        const nas = await this.getNasPolicy(nasIp);
+        if (!nas) {
+            logger.warn({ nasIp }, 'Accounting-Request from unknown NAS');
+            return null;
+        }
+
+        // Verify Authenticator
+        if (!verifyAccountingAuthenticator(packet, nas.secret)) {
+            logger.warn({ nasIp }, 'Accounting-Request authenticator verification failed');
+            return null;
+        }
+
+        const upstream = await this.findRealm(nas.tenantId, packet);
+        if (upstream) {
+            return this.proxy.forward(packet, nas.secret, upstream);
+        }
+
+        return handleAccountingRequest(packet, nas.secret, nasIp);
+    }
+
+    /**
+     * The tenant's active upstream for the realm in User-Name, if any
+     */
+    private async findRealm(tenantId: string, packet: RadiusPacket): Promise<ProxyUpstream | null> {
+        const realm = splitRealm(getAttributeString(packet, RadiusAttributeType.USER_NAME) ?? '');
+        if (!realm) {
+            return null;
+        }
+
+        return prisma.radiusRealm.findFirst({
+            where: { tenantId, realm: realm.realm, isActive: true },
+            select: { realm: true, host: true, authPort: true, acctPort: true, secret: true, stripRealm: true },
+        });
+    }
+
+    /**
+     * Resend the cached response for a retransmitted request, or drop it while
+     * the original is still being handled. Returns false for a new request.
+     */
+    private replayDuplicate(key: string, socket: dgram.Socket | null, rinfo: dgram.RemoteInfo): boolean {
+        const entry = this.duplicates.get(key);
+        if (!entry) {
+            return false;
+        }
+
+        if (entry.response) {
+            logger.debug({ nasIp: rinfo.address }, 'Duplicate RADIUS request, replaying response');
+            socket?.send(entry.response, rinfo.port, rinfo.address, (err) => {
+                if (err) {
+                    logger.error({ err, nasIp: rinfo.address }, 'Failed to replay RADIUS response');
+                }
+            });
+        } else {
+            logger.debug({ nasIp: rinfo.address }, 'Duplicate RADIUS request still in progress, dropping');
+        }
+        return true;
+    }
+
+    /**
+     * Get shared secret and Message-Authenticator policy for a NAS with Caching
+     */
+    private async getNasPolicy(nasIp: string): Promise<NasPolicy | null> {
         // Check cache
         const now = Date.now();
         const cached = this.nasCache.get(nasIp);
         if (cached && now < cached.expires) {
-            return cached.secret;
+            return cached;
         }
 
         // Find in DB
@@ -290,16 +425,19 @@ export class RadiusServer {
                     { vpnIp: nasIp },
                 ],
             },
-            select: { secret: true },
+            select: { tenantId: true, secret: true, requireMessageAuthenticator: true },
         });
 
         if (nas?.secret) {
             // Update cache
-            this.nasCache.set(nasIp, {
+            const entry = {
+                tenantId: nas.tenantId,
                 secret: nas.secret,
+                requireMessageAuthenticator: nas.requireMessageAuthenticator,
                 expires: now + this.NAS_CACHE_TTL,
-            });
-            return nas.secret;
+            };
+            this.nasCache.set(nasIp, entry);
+            return entry;
         }
 
         return null;
@@ -323,4 +461,4 @@ export const radiusServer = new RadiusServer();
 // Re-export types and utilities
 export { RadiusCode } from './dictionary.js';
 export { parsePacket, type RadiusPacket, type RadiusAttribute } from './packet.js';
-export { disconnectUser, updateUserSpeed } from './handlers/coa.js';
+export { disconnectUser, updateUserSpeed, updateUserRateLimit } from './handlers/coa.js';
@@ -0,0 +1,284 @@
+/**
+ * MS-CHAPv2 (RFC 2759) and MPPE key derivation (RFC 3079)
+ * Verifies the peer's NT-Response against the stored password and builds the
+ * MS-CHAP2-Success and encrypted MS-MPPE keys (RFC 2548) for the Access-Accept.
+ * OpenSSL 3 no longer ships MD4 or single DES by default, so MD4 is done here
+ * and DES goes through 3DES-EDE with the same key three times.
+ */
+
+import { createCipheriv, createHash, randomBytes } from 'crypto';
+import { type AttributeBuilder, encryptSaltedValue } from './packet.js';
+import { MICROSOFT_VENDOR_ID, MicrosoftAttribute } from './dictionary.js';
+
+// RFC 2759 section 8.7
+const MAGIC1 = Buffer.from('Magic server to client signing constant');
+const MAGIC2 = Buffer.from('Pad to make it do more than one iteration');
+
+// RFC 3079 section 3.4
+const MASTER_KEY_MAGIC = Buffer.from('This is the MPPE Master Key');
+const SEND_KEY_MAGIC = Buffer.from('On the client side, this is the receive key; on the server side, it is the send key.');
+const RECV_KEY_MAGIC = Buffer.from('On the client side, this is the send key; on the server side, it is the receive key.');
+const SHS_PAD1 = Buffer.alloc(40, 0x00);
+const SHS_PAD2 = Buffer.alloc(40, 0xf2);
+
+const MPPE_POLICY_ALLOWED = 1;
+const MPPE_TYPES_40_128 = 6;
+
+export interface MsChapV2Response {
+    ident: number;
+    peerChallenge: Buffer;
+    ntResponse: Buffer;
+}
+
+export interface MsChapV2Result {
+    valid: boolean;
+    attributes: AttributeBuilder[]; // MS-CHAP2-Success and MPPE keys, or MS-CHAP-Error
+}
+
+/**
+ * MD4 (RFC 1320)
+ */
+export function md4(input: Buffer): Buffer {
+    const paddedLength = (((input.length + 8) >> 6) + 1) * 64;
+    const message = Buffer.alloc(paddedLength);
+    input.copy(message);
+    message[input.length] = 0x80;
+    const bits = input.length * 8;
+    message.writeUInt32LE(bits >>> 0, paddedLength - 8);
+    message.writeUInt32LE(Math.floor(bits / 0x100000000), paddedLength - 4);
+
+    const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+    const f = (x: number, y: number, z: number) => (x & y) | (~x & z);
+    const g = (x: number, y: number, z: number) => (x & y) | (x & z) | (y & z);
+    const h = (x: number, y: number, z: number) => x ^ y ^ z;
+
+    const rounds: [typeof f, number[], number[], number][] = [
+        [f, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15], [3, 7, 11, 19], 0],
+        [g, [0, 4, 8, 12, 1, 5, 9, 13, 2, 6, 10, 14, 3, 7, 11, 15], [3, 5, 9, 13], 0x5a827999],
+        [h, [0, 8, 4, 12, 2, 10, 6, 14, 1, 9, 5, 13, 3, 11, 7, 15], [3, 9, 11, 15], 0x6ed9eba1],
+    ];
+
+    let a = 0x67452301;
+    let b = 0xefcdab89;
+    let c = 0x98badcfe;
+    let d = 0x10325476;
+
+    for (let offset = 0; offset < paddedLength; offset += 64) {
+        const x = Array.from({ length: 16 }, (_, i) => message.readUInt32LE(offset + i * 4));
+        const [aa, bb, cc, dd] = [a, b, c, d];
+
+        for (const [fn, order, shifts, constant] of rounds) {
+            for (let i = 0; i < 16; i++) {
+                const rotated = rotl((a + fn(b, c, d) + x[order[i]] + constant) | 0, shifts[i % 4]);
+                [a, b, c, d] = [d, rotated, b, c];
+            }
+        }
+
+        a = (a + aa) | 0;
+        b = (b + bb) | 0;
+        c = (c + cc) | 0;
+        d = (d + dd) | 0;
+    }
+
+    const digest = Buffer.alloc(16);
+    [a, b, c, d].forEach((word, i) => digest.writeUInt32LE(word >>> 0, i * 4));
+    return digest;
+}
+
+/**
+ * NtPasswordHash: MD4 of the UTF-16LE password
+ */
+export function ntPasswordHash(password: string): Buffer {
+    return md4(Buffer.from(password, 'utf16le'));
+}
+
+/**
+ * First 8 bytes of SHA1(PeerChallenge + AuthenticatorChallenge + UserName).
+ * The user name is taken without any Windows domain prefix.
+ */
+export function challengeHash(peerChallenge: Buffer, authenticatorChallenge: Buffer, username: string): Buffer {
+    const user = username.slice(username.lastIndexOf('\\') + 1);
+    return createHash('sha1')
+        .update(peerChallenge)
+        .update(authenticatorChallenge)
+        .update(Buffer.from(user))
+        .digest()
+        .subarray(0, 8);
+}
+
+/**
+ * DES-encrypt one block with a 7-byte key, spreading it over 8 bytes with parity bits
+ */
+function desEncrypt(block: Buffer, key7: Buffer): Buffer {
+    const key = Buffer.alloc(8);
+    key[0] = key7[0];
+    for (let i = 1; i < 7; i++) {
+        key[i] = ((key7[i - 1] << (8 - i)) | (key7[i] >> i)) & 0xff;
+    }
+    key[7] = (key7[6] << 1) & 0xff;
+    for (let i = 0; i < 8; i++) {
+        key[i] &= 0xfe;
+    }
+
+    // 3DES-EDE with K1 = K2 = K3 is single DES
+    const cipher = createCipheriv('des-ede3-ecb', Buffer.concat([key, key, key]), null);
+    cipher.setAutoPadding(false);
+    return Buffer.concat([cipher.update(block), cipher.final()]);
+}
+
+/**
+ * ChallengeResponse: the challenge DES-encrypted under each third of the zero-padded hash
+ */
+export function challengeResponse(challenge: Buffer, passwordHash: Buffer): Buffer {
+    const zHash = Buffer.alloc(21);
+    passwordHash.copy(zHash);
+    return Buffer.concat([
+        desEncrypt(challenge, zHash.subarray(0, 7)),
+        desEncrypt(challenge, zHash.subarray(7, 14)),
+        desEncrypt(challenge, zHash.subarray(14, 21)),
+    ]);
+}
+
+/**
+ * The 24-byte NT-Response a peer with this password would send
+ */
+export function generateNtResponse(
+    authenticatorChallenge: Buffer,
+    peerChallenge: Buffer,
+    username: string,
+    password: string
+): Buffer {
+    return challengeResponse(challengeHash(peerChallenge, authenticatorChallenge, username), ntPasswordHash(password));
+}
+
+/**
+ * "S=<40 hex digits>" proving to the peer that we know the password too
+ */
+export function generateAuthenticatorResponse(
+    passwordHash: Buffer,
+    ntResponse: Buffer,
+    peerChallenge: Buffer,
+    authenticatorChallenge: Buffer,
+    username: string
+): string {
+    const passwordHashHash = md4(passwordHash);
+    const digest = createHash('sha1').update(passwordHashHash).update(ntResponse).update(MAGIC1).digest();
+    const response = createHash('sha1')
+        .update(digest)
+        .update(challengeHash(peerChallenge, authenticatorChallenge, username))
+        .update(MAGIC2)
+        .digest();
+
+    return `S=${response.toString('hex').toUpperCase()}`;
+}
+
+/**
+ * Server-side 128-bit MPPE send and receive keys
+ */
+export function getMppeKeys(passwordHash: Buffer, ntResponse: Buffer): { sendKey: Buffer; recvKey: Buffer } {
+    const masterKey = createHash('sha1')
+        .update(md4(passwordHash))
+        .update(ntResponse)
+        .update(MASTER_KEY_MAGIC)
+        .digest()
+        .subarray(0, 16);
+
+    const startKey = (magic: Buffer) => createHash('sha1')
+        .update(masterKey)
+        .update(SHS_PAD1)
+        .update(magic)
+        .update(SHS_PAD2)
+        .digest()
+        .subarray(0, 16);
+
+    return { sendKey: startKey(SEND_KEY_MAGIC), recvKey: startKey(RECV_KEY_MAGIC) };
+}
+
+/**
+ * Encrypt an MS-MPPE key for the Access-Accept (RFC 2548 section 2.4.2):
+ * Salt + (KeyLength + Key + padding) XOR'd with an MD5 chain over the secret
+ */
+export function encryptMppeKey(key: Buffer, salt: Buffer, requestAuthenticator: Buffer, secret: string): Buffer {
+    return encryptSaltedValue(key, salt, requestAuthenticator, secret);
+}
+
+/**
+ * Split an MS-CHAP2-Response value: Ident, Flags, Peer-Challenge, Reserved, NT-Response
+ */
+export function parseMsChapV2Response(value: Buffer): MsChapV2Response | null {
+    if (value.length !== 50) {
+        return null;
+    }
+    return {
+        ident: value[0],
+        peerChallenge: value.subarray(2, 18),
+        ntResponse: value.subarray(26, 50),
+    };
+}
+
+function microsoftAttribute(type: MicrosoftAttribute, value: Buffer | number): AttributeBuilder {
+    return { type, value, vendorId: MICROSOFT_VENDOR_ID, vendorType: type };
+}
+
+/**
+ * Verify an MS-CHAPv2 exchange against the stored password. On success the
+ * attributes carry MS-CHAP2-Success and the encrypted MPPE keys; on failure
+ * they carry MS-CHAP-Error 691 (authentication failure).
+ */
+export function verifyMsChapV2(
+    authenticatorChallenge: Buffer,
+    responseValue: Buffer,
+    username: string,
+    storedPassword: string,
+    requestAuthenticator: Buffer,
+    secret: string
+): MsChapV2Result {
+    const response = parseMsChapV2Response(responseValue);
+    if (!response || authenticatorChallenge.length !== 16) {
+        return { valid: false, attributes: [] };
+    }
+
+    const passwordHash = ntPasswordHash(storedPassword);
+    const expected = challengeResponse(
+        challengeHash(response.peerChallenge, authenticatorChallenge, username),
+        passwordHash
+    );
+
+    if (!expected.equals(response.ntResponse)) {
+        const error = `E=691 R=0 C=${authenticatorChallenge.toString('hex').toUpperCase()} V=3`;
+        return {
+            valid: false,
+            attributes: [
+                microsoftAttribute(MicrosoftAttribute.CHAP_ERROR, Buffer.concat([Buffer.from([response.ident]), Buffer.from(error)])),
+            ],
+        };
+    }
+
+    const authenticatorResponse = generateAuthenticatorResponse(
+        passwordHash,
+        response.ntResponse,
+        response.peerChallenge,
+        authenticatorChallenge,
+        username
+    );
+    const { sendKey, recvKey } = getMppeKeys(passwordHash, response.ntResponse);
+
+    // Salts must have the high bit set and differ between the two keys
+    const sendSalt = randomBytes(2);
+    sendSalt[0] |= 0x80;
+    const recvSalt = Buffer.from([sendSalt[0], sendSalt[1] ^ 0x01]);
+
+    return {
+        valid: true,
+        attributes: [
+            microsoftAttribute(
+                MicrosoftAttribute.CHAP2_SUCCESS,
+                Buffer.concat([Buffer.from([response.ident]), Buffer.from(authenticatorResponse)])
+            ),
+            microsoftAttribute(MicrosoftAttribute.MPPE_SEND_KEY, encryptMppeKey(sendKey, sendSalt, requestAuthenticator, secret)),
+            microsoftAttribute(MicrosoftAttribute.MPPE_RECV_KEY, encryptMppeKey(recvKey, recvSalt, requestAuthenticator, secret)),
+            microsoftAttribute(MicrosoftAttribute.MPPE_ENCRYPTION_POLICY, MPPE_POLICY_ALLOWED),
+            microsoftAttribute(MicrosoftAttribute.MPPE_ENCRYPTION_TYPES, MPPE_TYPES_40_128),
+        ],
+    };
+}
@@ -21,7 +21,7 @@ import {
     RadiusAttributeType,
     ATTRIBUTE_DICTIONARY,
     MIKROTIK_VENDOR_ID,
-    MIKROTIK_DICTIONARY,
+    VENDOR_DICTIONARIES,
     type AttributeDefinition,
 } from './dictionary.js';
 
@@ -108,9 +108,10 @@ function parseAttributes(buffer: Buffer): RadiusAttribute[] {
             const vendorLength = valueBuffer.readUInt8(5);
             const vendorValue = valueBuffer.subarray(6, 4 + vendorLength);
 
-            // Parse MikroTik VSAs
-            if (vendorId === MIKROTIK_VENDOR_ID) {
-                const vsaDef = MIKROTIK_DICTIONARY.get(vendorType);
+            // Parse VSAs of vendors we have a dictionary for (MikroTik, Microsoft)
+            const vendorDictionary = VENDOR_DICTIONARIES.get(vendorId);
+            if (vendorDictionary) {
+                const vsaDef = vendorDictionary.get(vendorType);
                 attributes.push({
                     type: vendorType,
                     name: vsaDef?.name || `Vendor-${vendorId}-Attr-${vendorType}`,
@@ -170,6 +171,11 @@ function decodeAttributeValue(buffer: Buffer, dataType: string): string | number
  * Encode an attribute value to buffer
  */
 function encodeAttributeValue(value: string | number | Buffer, dataType: string): Buffer {
+    // Raw values (relayed attributes) are sent as-is
+    if (Buffer.isBuffer(value)) {
+        return value;
+    }
+
     switch (dataType) {
         case 'string':
             return Buffer.from(value as string, 'utf8');
@@ -202,7 +208,7 @@ export function encodeAttributes(attributes: AttributeBuilder[]): Buffer {
     for (const attr of attributes) {
         if (attr.vendorId !== undefined && attr.vendorType !== undefined) {
             // Vendor-Specific Attribute
-            const vsaDef = MIKROTIK_DICTIONARY.get(attr.vendorType);
+            const vsaDef = VENDOR_DICTIONARIES.get(attr.vendorId)?.get(attr.vendorType);
             const valueBuffer = encodeAttributeValue(attr.value, vsaDef?.dataType || 'octets');
 
             // VSA format: Type(1) + Length(1) + VendorId(4) + VendorType(1) + VendorLength(1) + Value
@@ -233,6 +239,8 @@ export function encodeAttributes(attributes: AttributeBuilder[]): Buffer {
 
 /**
  * Create a RADIUS response packet
+ * Access-Accept/Reject/Challenge carry a Message-Authenticator as their first
+ * attribute (RFC 3579, BlastRADIUS mitigation)
  */
 export function createResponse(
     code: RadiusCode,
@@ -241,7 +249,12 @@ export function createResponse(
     attributes: AttributeBuilder[],
     secret: string
 ): Buffer {
-    const attributeBuffer = encodeAttributes(attributes);
+    const signed = isAccessResponse(code);
+    const attributeBuffer = encodeAttributes(
+        signed
+            ? [{ type: RadiusAttributeType.MESSAGE_AUTHENTICATOR, value: Buffer.alloc(16) }, ...attributes]
+            : attributes
+    );
     const length = 20 + attributeBuffer.length;
 
     // Build packet without authenticator first
@@ -254,6 +267,12 @@ export function createResponse(
     requestAuthenticator.copy(packet, 4);
     attributeBuffer.copy(packet, 20);
 
+    // Message-Authenticator uses the Request Authenticator in the header, and
+    // must be filled in before the Response Authenticator
+    if (signed) {
+        signMessageAuthenticator(packet, secret);
+    }
+
     // Calculate Response Authenticator
     // ResponseAuth = MD5(Code + ID + Length + RequestAuth + Attributes + Secret)
     const hash = createHash('md5');
@@ -265,6 +284,32 @@ export function createResponse(
     return packet;
 }
 
+/**
+ * Fill in the Message-Authenticator attribute of an encoded packet:
+ * HMAC-MD5 over the packet as it stands, with the attribute value zeroed
+ */
+export function signMessageAuthenticator(packet: Buffer, secret: string): void {
+    let offset = 20;
+    while (offset + 2 <= packet.length) {
+        const type = packet.readUInt8(offset);
+        const len = packet.readUInt8(offset + 1);
+        if (len < 2) return;
+
+        if (type === RadiusAttributeType.MESSAGE_AUTHENTICATOR) {
+            packet.fill(0, offset + 2, offset + len);
+            createHmac('md5', secret).update(packet).digest().copy(packet, offset + 2);
+            return;
+        }
+        offset += len;
+    }
+}
+
+function isAccessResponse(code: RadiusCode): boolean {
+    return code === RadiusCode.ACCESS_ACCEPT
+        || code === RadiusCode.ACCESS_REJECT
+        || code === RadiusCode.ACCESS_CHALLENGE;
+}
+
 /**
  * Create a CoA/Disconnect Request packet
  */
@@ -390,6 +435,51 @@ export function verifyAccountingAuthenticator(packet: RadiusPacket, secret: stri
     return expectedAuth.equals(packet.authenticator);
 }
 
+/**
+ * Verify the Response Authenticator of a reply to a request we sent
+ * ResponseAuth = MD5(Code + ID + Length + RequestAuth + Attributes + Secret)
+ */
+export function verifyResponseAuthenticator(response: Buffer, requestAuthenticator: Buffer, secret: string): boolean {
+    if (response.length < 20) return false;
+
+    const testPacket = Buffer.from(response);
+    requestAuthenticator.copy(testPacket, 4);
+
+    const hash = createHash('md5');
+    hash.update(testPacket);
+    hash.update(Buffer.from(secret));
+
+    return hash.digest().equals(response.subarray(4, 20));
+}
+
+/**
+ * Encrypt User-Password (PAP), the inverse of decryptPassword
+ */
+export function encryptPassword(password: string, authenticator: Buffer, secret: string): Buffer {
+    const plain = Buffer.from(password, 'utf8');
+    const padded = Buffer.alloc(Math.max(16, Math.ceil(plain.length / 16) * 16));
+    plain.copy(padded);
+
+    const secretBuffer = Buffer.from(secret);
+    const result = Buffer.alloc(padded.length);
+    let prev = authenticator;
+
+    for (let i = 0; i < padded.length; i += 16) {
+        const hash = createHash('md5');
+        hash.update(secretBuffer);
+        hash.update(prev);
+        const key = hash.digest();
+
+        for (let j = 0; j < 16; j++) {
+            result[i + j] = padded[i + j] ^ key[j];
+        }
+
+        prev = result.subarray(i, i + 16);
+    }
+
+    return result;
+}
+
 /**
  * Decrypt User-Password (PAP)
  * Password is XOR'd with MD5(secret + authenticator) in 16-byte chunks
@@ -419,6 +509,62 @@ export function decryptPassword(encryptedPassword: Buffer, authenticator: Buffer
     return decoded.subarray(0, nullIndex === -1 ? decoded.length : nullIndex).toString('utf8');
 }
 
+/**
+ * Salt-encrypt a value (RFC 2548 section 2.4.2, RFC 2868 section 3.5), as used
+ * by MS-MPPE-Send/Recv-Key and Tunnel-Password: (Length + Value + padding)
+ * XOR'd with an MD5 chain over the secret, the request authenticator and the
+ * two-byte salt. Returns Salt + ciphertext.
+ */
+export function encryptSaltedValue(value: Buffer, salt: Buffer, requestAuthenticator: Buffer, secret: string): Buffer {
+    const plain = Buffer.alloc(Math.ceil((value.length + 1) / 16) * 16);
+    plain[0] = value.length;
+    value.copy(plain, 1);
+
+    const secretBuffer = Buffer.from(secret);
+    const result = Buffer.alloc(plain.length);
+    let prev = Buffer.concat([requestAuthenticator, salt]);
+
+    for (let i = 0; i < plain.length; i += 16) {
+        const b = createHash('md5').update(secretBuffer).update(prev).digest();
+        for (let j = 0; j < 16; j++) {
+            result[i + j] = plain[i + j] ^ b[j];
+        }
+        prev = result.subarray(i, i + 16);
+    }
+
+    return Buffer.concat([salt, result]);
+}
+
+/**
+ * Decrypt a salt-encrypted value (Salt + ciphertext), the inverse of
+ * encryptSaltedValue. Returns null when it doesn't decrypt to a valid length.
+ */
+export function decryptSaltedValue(encrypted: Buffer, requestAuthenticator: Buffer, secret: string): Buffer | null {
+    const salt = encrypted.subarray(0, 2);
+    const cipher = encrypted.subarray(2);
+    if (cipher.length === 0 || cipher.length % 16 !== 0) {
+        return null;
+    }
+
+    const secretBuffer = Buffer.from(secret);
+    const plain = Buffer.alloc(cipher.length);
+    let prev: Buffer = Buffer.concat([requestAuthenticator, salt]);
+
+    for (let i = 0; i < cipher.length; i += 16) {
+        const b = createHash('md5').update(secretBuffer).update(prev).digest();
+        for (let j = 0; j < 16; j++) {
+            plain[i + j] = cipher[i + j] ^ b[j];
+        }
+        prev = cipher.subarray(i, i + 16);
+    }
+
+    const length = plain[0];
+    if (length > plain.length - 1) {
+        return null;
+    }
+    return plain.subarray(1, 1 + length);
+}
+
 /**
  * Verify CHAP password
  * CHAP-Password = CHAP-Id + MD5(CHAP-Id + Password + Challenge)
@@ -449,6 +595,25 @@ export function getAttribute(packet: RadiusPacket, type: number): RadiusAttribut
     return packet.attributes.find(attr => attr.type === type && !attr.vendorId);
 }
 
+/**
+ * Attributes of a packet exactly as received (VSAs kept whole), for relaying
+ */
+export function getRawAttributes(packet: RadiusPacket): AttributeBuilder[] {
+    const attributes: AttributeBuilder[] = [];
+    let offset = 20;
+
+    while (offset + 2 <= packet.raw.length) {
+        const type = packet.raw.readUInt8(offset);
+        const len = packet.raw.readUInt8(offset + 1);
+        if (len < 2 || offset + len > packet.raw.length) break;
+
+        attributes.push({ type, value: Buffer.from(packet.raw.subarray(offset + 2, offset + len)) });
+        offset += len;
+    }
+
+    return attributes;
+}
+
 /**
  * Get a MikroTik VSA from parsed packet
  */
@@ -456,6 +621,13 @@ export function getMikroTikAttribute(packet: RadiusPacket, type: number): Radius
     return packet.attributes.find(attr => attr.vendorId === MIKROTIK_VENDOR_ID && attr.vendorType === type);
 }
 
+/**
+ * Get a VSA of any vendor from parsed packet
+ */
+export function getVendorAttribute(packet: RadiusPacket, vendorId: number, type: number): RadiusAttribute | undefined {
+    return packet.attributes.find(attr => attr.vendorId === vendorId && attr.vendorType === type);
+}
+
 /**
  * Get attribute value as string
  */
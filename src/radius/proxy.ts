@@ -0,0 +1,449 @@
+/**
+ * RADIUS Proxy
+ * Forwards requests for partner realms (user@partner) to the partner's own
+ * RADIUS server and relays the answer back to the NAS (RFC 2865 section 2.3).
+ * Each forwarded request carries a Proxy-State we check the reply against; the
+ * User-Password is re-encrypted and the authenticators recomputed with the
+ * upstream secret. Reply attributes the upstream encrypted for its own secret
+ * (Tunnel-Password, MS-MPPE-Send/Recv-Key) are decrypted and re-encrypted for
+ * the NAS, or dropped when they don't decrypt.
+ *
+ * A RADIUS identifier is only 8 bits, so a socket can have at most 256
+ * requests in flight; more concurrent requests open further sockets.
+ */
+
+import dgram from 'dgram';
+import { createHash, randomBytes } from 'crypto';
+import { logger } from '../lib/logger.js';
+import {
+    type RadiusPacket,
+    type AttributeBuilder,
+    parsePacket,
+    encodeAttributes,
+    getRawAttributes,
+    createResponse,
+    decryptPassword,
+    encryptPassword,
+    encryptSaltedValue,
+    decryptSaltedValue,
+    signMessageAuthenticator,
+    verifyResponseAuthenticator,
+} from './packet.js';
+import { RadiusCode, RadiusAttributeType, MICROSOFT_VENDOR_ID, MicrosoftAttribute } from './dictionary.js';
+
+// Configuration
+export const PROXY_TIMEOUT = 3000; // Per attempt
+export const PROXY_RETRIES = 2;    // Retransmissions after the first attempt
+const MAX_PROXY_SOCKETS = 16;      // 256 requests in flight each
+
+export interface ProxyUpstream {
+    realm: string;
+    host: string;
+    authPort: number;
+    acctPort: number;
+    secret: string;
+    stripRealm: boolean;
+}
+
+interface PendingRequest {
+    proxyState: Buffer;
+    requestAuthenticator: Buffer;
+    secret: string;
+    timer: NodeJS.Timeout | null;
+    resolve: (reply: RadiusPacket | null) => void;
+}
+
+interface ProxySocket {
+    socket: dgram.Socket;
+    pending: Map<number, PendingRequest>; // By RADIUS identifier
+    nextIdentifier: number;
+}
+
+/**
+ * Keys of the upstream request and of the NAS request, for re-encrypting
+ * salt-encrypted reply attributes
+ */
+interface EncryptionContext {
+    requestAuthenticator: Buffer;
+    secret: string;
+}
+
+/**
+ * Split "user@realm" on the last "@". Returns null for usernames without a realm.
+ */
+export function splitRealm(username: string): { user: string; realm: string } | null {
+    const at = username.lastIndexOf('@');
+    if (at <= 0 || at === username.length - 1) {
+        return null;
+    }
+    return { user: username.slice(0, at), realm: username.slice(at + 1).toLowerCase() };
+}
+
+/**
+ * Build the request sent upstream: same attributes as the NAS sent, with the
+ * password and authenticators redone for the upstream secret and our
+ * Proxy-State appended
+ */
+export function buildProxyRequest(
+    packet: RadiusPacket,
+    nasSecret: string,
+    upstream: ProxyUpstream,
+    identifier: number,
+    proxyState: Buffer
+): { request: Buffer; authenticator: Buffer } {
+    const isAccess = packet.code === RadiusCode.ACCESS_REQUEST;
+    const authenticator = isAccess ? randomBytes(16) : Buffer.alloc(16);
+    const attributes: AttributeBuilder[] = isAccess
+        ? [{ type: RadiusAttributeType.MESSAGE_AUTHENTICATOR, value: Buffer.alloc(16) }]
+        : [];
+    let hasChapPassword = false;
+    let hasChapChallenge = false;
+
+    for (const attr of getRawAttributes(packet)) {
+        const value = attr.value as Buffer;
+
+        switch (attr.type) {
+            case RadiusAttributeType.MESSAGE_AUTHENTICATOR:
+                continue;
+            case RadiusAttributeType.USER_NAME: {
+                const realm = upstream.stripRealm ? splitRealm(value.toString('utf8')) : null;
+                attributes.push({ type: attr.type, value: realm ? Buffer.from(realm.user) : value });
+                continue;
+            }
+            case RadiusAttributeType.USER_PASSWORD:
+                if (isAccess) {
+                    const password = decryptPassword(value, packet.authenticator, nasSecret);
+                    attributes.push({ type: attr.type, value: encryptPassword(password, authenticator, upstream.secret) });
+                    continue;
+                }
+                break;
+            case RadiusAttributeType.CHAP_PASSWORD:
+                hasChapPassword = true;
+                break;
+            case RadiusAttributeType.CHAP_CHALLENGE:
+                hasChapChallenge = true;
+                break;
+        }
+        attributes.push(attr);
+    }
+
+    // Without CHAP-Challenge the NAS used its Request Authenticator as the challenge
+    if (hasChapPassword && !hasChapChallenge) {
+        attributes.push({ type: RadiusAttributeType.CHAP_CHALLENGE, value: Buffer.from(packet.authenticator) });
+    }
+    attributes.push({ type: RadiusAttributeType.PROXY_STATE, value: proxyState });
+
+    const attributeBuffer = encodeAttributes(attributes);
+    const request = Buffer.alloc(20 + attributeBuffer.length);
+    request.writeUInt8(packet.code, 0);
+    request.writeUInt8(identifier, 1);
+    request.writeUInt16BE(request.length, 2);
+    authenticator.copy(request, 4);
+    attributeBuffer.copy(request, 20);
+
+    if (isAccess) {
+        signMessageAuthenticator(request, upstream.secret);
+        return { request, authenticator };
+    }
+
+    // Accounting-Request: MD5(Code + ID + Length + 16 zero octets + Attributes + Secret)
+    const hash = createHash('md5');
+    hash.update(request);
+    hash.update(Buffer.from(upstream.secret));
+    const requestAuth = hash.digest();
+    requestAuth.copy(request, 4);
+
+    return { request, authenticator: requestAuth };
+}
+
+/**
+ * Re-encrypt a salt-encrypted value from the upstream's keys to the NAS's.
+ * The salt is kept: it only has to be unique within the reply.
+ */
+function reencryptSalted(value: Buffer, from: EncryptionContext, to: EncryptionContext): Buffer | null {
+    const plain = decryptSaltedValue(value, from.requestAuthenticator, from.secret);
+    if (!plain) {
+        return null;
+    }
+    return encryptSaltedValue(plain, value.subarray(0, 2), to.requestAuthenticator, to.secret);
+}
+
+/**
+ * Re-encrypt the MS-MPPE keys inside a Microsoft Vendor-Specific attribute.
+ * Other vendors' attributes are returned unchanged; keys that don't decrypt
+ * are dropped.
+ */
+function reencryptVendorSpecific(value: Buffer, from: EncryptionContext, to: EncryptionContext): Buffer | null {
+    if (value.length < 4 || value.readUInt32BE(0) !== MICROSOFT_VENDOR_ID) {
+        return value;
+    }
+
+    const parts: Buffer[] = [value.subarray(0, 4)];
+    let offset = 4;
+    while (offset + 2 <= value.length) {
+        const type = value[offset];
+        const len = value[offset + 1];
+        if (len < 2 || offset + len > value.length) {
+            return null;
+        }
+
+        const data = value.subarray(offset + 2, offset + len);
+        offset += len;
+
+        if (type !== MicrosoftAttribute.MPPE_SEND_KEY && type !== MicrosoftAttribute.MPPE_RECV_KEY) {
+            parts.push(Buffer.from([type, len]), data);
+            continue;
+        }
+
+        const key = reencryptSalted(data, from, to);
+        if (key) {
+            parts.push(Buffer.from([type, key.length + 2]), key);
+        }
+    }
+
+    return parts.length > 1 ? Buffer.concat(parts) : null;
+}
+
+/**
+ * Build the reply for the NAS from the upstream reply: our Proxy-State removed,
+ * salt-encrypted attributes re-encrypted for the NAS, identifier and
+ * authenticators redone for the NAS secret
+ */
+export function buildNasResponse(
+    reply: RadiusPacket,
+    request: RadiusPacket,
+    nasSecret: string,
+    proxyState: Buffer,
+    upstream: EncryptionContext
+): Buffer {
+    const nas: EncryptionContext = { requestAuthenticator: request.authenticator, secret: nasSecret };
+    const attributes: AttributeBuilder[] = [];
+
+    for (const attr of getRawAttributes(reply)) {
+        const value = attr.value as Buffer;
+
+        switch (attr.type) {
+            case RadiusAttributeType.MESSAGE_AUTHENTICATOR:
+                continue;
+            case RadiusAttributeType.PROXY_STATE:
+                if (proxyState.equals(value)) continue;
+                break;
+            case RadiusAttributeType.TUNNEL_PASSWORD: {
+                // Tag + Salt + ciphertext
+                const password = value.length > 1 ? reencryptSalted(value.subarray(1), upstream, nas) : null;
+                if (password) {
+                    attributes.push({ type: attr.type, value: Buffer.concat([value.subarray(0, 1), password]) });
+                }
+                continue;
+            }
+            case RadiusAttributeType.VENDOR_SPECIFIC: {
+                const vsa = reencryptVendorSpecific(value, upstream, nas);
+                if (vsa) {
+                    attributes.push({ type: attr.type, value: vsa });
+                }
+                continue;
+            }
+        }
+        attributes.push(attr);
+    }
+
+    return createResponse(reply.code, request.identifier, request.authenticator, attributes, nasSecret);
+}
+
+export class RadiusProxy {
+    private sockets: ProxySocket[] = [];
+    private opening: Promise<ProxySocket> | null = null;
+
+    constructor(
+        private readonly timeout: number = PROXY_TIMEOUT,
+        private readonly retries: number = PROXY_RETRIES
+    ) {}
+
+    /**
+     * Open the first socket used to talk to upstream servers
+     */
+    async start(): Promise<void> {
+        if (this.sockets.length > 0) return;
+        await this.openSocket();
+    }
+
+    /**
+     * Close the sockets and give up on requests still waiting
+     */
+    stop(): void {
+        for (const proxySocket of this.sockets) {
+            for (const entry of proxySocket.pending.values()) {
+                if (entry.timer) clearTimeout(entry.timer);
+                entry.resolve(null);
+            }
+            proxySocket.pending.clear();
+            proxySocket.socket.close();
+        }
+        this.sockets = [];
+    }
+
+    /**
+     * Forward a request upstream and return the reply for the NAS, or null when
+     * the upstream never answers (the NAS will retry or fail over)
+     */
+    async forward(packet: RadiusPacket, nasSecret: string, upstream: ProxyUpstream): Promise<Buffer | null> {
+        if (this.sockets.length === 0) {
+            logger.warn({ realm: upstream.realm }, 'RADIUS proxy not started, dropping request');
+            return null;
+        }
+
+        let slot = this.takeIdentifier();
+        while (!slot && this.sockets.length < MAX_PROXY_SOCKETS) {
+            await this.addSocket();
+            slot = this.takeIdentifier();
+        }
+        if (!slot) {
+            logger.warn({ realm: upstream.realm }, 'Too many proxied RADIUS requests in flight, dropping request');
+            return null;
+        }
+
+        const port = packet.code === RadiusCode.ACCESS_REQUEST ? upstream.authPort : upstream.acctPort;
+        const proxyState = randomBytes(8);
+
+        const { request, authenticator } = buildProxyRequest(packet, nasSecret, upstream, slot.identifier, proxyState);
+        const reply = await this.exchange(slot.proxySocket, slot.identifier, request, proxyState, authenticator, upstream.secret, upstream.host, port);
+
+        if (!reply) {
+            logger.warn({ realm: upstream.realm, host: upstream.host, port }, 'Upstream RADIUS server did not respond');
+            return null;
+        }
+
+        logger.info({ realm: upstream.realm, code: reply.code }, 'Proxied RADIUS request answered');
+        return buildNasResponse(reply, packet, nasSecret, proxyState, {
+            requestAuthenticator: authenticator,
+            secret: upstream.secret,
+        });
+    }
+
+    /**
+     * Bind another socket on an ephemeral port
+     */
+    private openSocket(): Promise<ProxySocket> {
+        return new Promise((resolve) => {
+            const proxySocket: ProxySocket = {
+                socket: dgram.createSocket('udp4'),
+                pending: new Map(),
+                nextIdentifier: 0,
+            };
+
+            proxySocket.socket.on('error', (err) => {
+                logger.error({ err }, 'RADIUS proxy socket error');
+            });
+
+            proxySocket.socket.on('message', (msg) => this.handleReply(proxySocket, msg));
+
+            proxySocket.socket.bind(0, '0.0.0.0', () => {
+                this.sockets.push(proxySocket);
+                resolve(proxySocket);
+            });
+        });
+    }
+
+    /**
+     * Open one more socket; concurrent callers share the socket being opened
+     */
+    private addSocket(): Promise<ProxySocket> {
+        if (!this.opening) {
+            this.opening = this.openSocket().finally(() => {
+                this.opening = null;
+            });
+        }
+        return this.opening;
+    }
+
+    /**
+     * Pick a socket and an identifier not in flight on it. The caller must
+     * register the request before its next await, or the identifier can be
+     * handed out twice.
+     */
+    private takeIdentifier(): { proxySocket: ProxySocket; identifier: number } | null {
+        for (const proxySocket of this.sockets) {
+            if (proxySocket.pending.size >= 256) continue;
+
+            let identifier = proxySocket.nextIdentifier;
+            while (proxySocket.pending.has(identifier)) {
+                identifier = (identifier + 1) % 256;
+            }
+            proxySocket.nextIdentifier = (identifier + 1) % 256;
+            return { proxySocket, identifier };
+        }
+        return null;
+    }
+
+    /**
+     * Send a request, retransmitting until a verified reply arrives or the retries run out
+     */
+    private exchange(
+        proxySocket: ProxySocket,
+        identifier: number,
+        request: Buffer,
+        proxyState: Buffer,
+        requestAuthenticator: Buffer,
+        secret: string,
+        host: string,
+        port: number
+    ): Promise<RadiusPacket | null> {
+        return new Promise((resolve) => {
+            const entry: PendingRequest = { proxyState, requestAuthenticator, secret, timer: null, resolve };
+            let attempts = 0;
+
+            const send = () => {
+                attempts++;
+                proxySocket.socket.send(request, port, host, (err) => {
+                    if (err) {
+                        logger.warn({ err, host, port }, 'Failed to send proxied RADIUS request');
+                    }
+                });
+
+                entry.timer = setTimeout(() => {
+                    if (attempts > this.retries) {
+                        proxySocket.pending.delete(identifier);
+                        resolve(null);
+                        return;
+                    }
+                    send();
+                }, this.timeout);
+            };
+
+            proxySocket.pending.set(identifier, entry);
+            send();
+        });
+    }
+
+    /**
+     * Match an upstream reply to its request by identifier on the socket it
+     * arrived on, then check it carries that request's Proxy-State
+     */
+    private handleReply(proxySocket: ProxySocket, msg: Buffer): void {
+        try {
+            const reply = parsePacket(msg);
+            const entry = proxySocket.pending.get(reply.identifier);
+            const matches = entry && reply.attributes.some((attr) =>
+                attr.type === RadiusAttributeType.PROXY_STATE &&
+                !attr.vendorId &&
+                entry.proxyState.equals(attr.raw)
+            );
+
+            if (!entry || !matches) {
+                logger.debug({ identifier: reply.identifier }, 'Unmatched reply on RADIUS proxy socket');
+                return;
+            }
+
+            if (!verifyResponseAuthenticator(reply.raw, entry.requestAuthenticator, entry.secret)) {
+                logger.warn({ identifier: reply.identifier }, 'Upstream RADIUS reply failed authenticator check');
+                return;
+            }
+
+            proxySocket.pending.delete(reply.identifier);
+            if (entry.timer) clearTimeout(entry.timer);
+            entry.resolve(reply);
+        } catch (error) {
+            logger.warn({ error }, 'Invalid packet on RADIUS proxy socket');
+        }
+    }
+}
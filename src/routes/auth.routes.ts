@@ -10,6 +10,7 @@ import { prisma } from '../lib/prisma.js';
 import { config } from '../lib/config.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { seedDefaultAccounts } from '../services/ledger.service.js';
 
 export const authRoutes = new Hono();
 
@@ -161,6 +162,9 @@ authRoutes.post('/register', async (c) => {
             },
         });
 
+        // Seed the system chart of accounts for the general ledger
+        await seedDefaultAccounts(tx, tenant.id);
+
         return { tenant, user };
     });
 
@@ -0,0 +1,66 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { logger } from '../lib/logger.js';
+import { findC2BGateway, handleC2BConfirmation, validateC2BPayment, type C2BPayload } from '../services/c2b.service.js';
+
+// M-Pesa C2B callbacks (no auth - the per-gateway token in the URL is the credential)
+export const c2bRoutes = new Hono();
+
+const c2bPayloadSchema = z.object({
+    TransactionType: z.string().optional(),
+    TransID: z.string().min(1),
+    TransTime: z.string().optional(),
+    TransAmount: z.union([z.string(), z.number()]),
+    BusinessShortCode: z.union([z.string(), z.number()]).transform(String),
+    BillRefNumber: z.string().optional(),
+    InvoiceNumber: z.string().optional(),
+    MSISDN: z.union([z.string(), z.number()]).transform(String).optional(),
+    FirstName: z.string().optional(),
+    MiddleName: z.string().optional(),
+    LastName: z.string().optional(),
+});
+
+// POST /api/c2b/:gatewayId/:token/validation - Daraja asks whether to accept a payment
+c2bRoutes.post('/:gatewayId/:token/validation', async (c) => {
+    const { gatewayId, token } = c.req.param();
+
+    try {
+        const payload = c2bPayloadSchema.parse(await c.req.json()) as C2BPayload;
+        const gateway = await findC2BGateway(gatewayId, token, payload.BusinessShortCode);
+
+        if (!gateway) {
+            logger.warn({ gatewayId, shortcode: payload.BusinessShortCode }, 'C2B validation for unknown gateway');
+            return c.json({ ResultCode: 'C2B00016', ResultDesc: 'Rejected' });
+        }
+
+        return c.json(validateC2BPayment(payload));
+    } catch (error) {
+        // Never bounce a subscriber's payment because of our own error
+        logger.error({ error, gatewayId }, 'C2B validation error');
+        return c.json({ ResultCode: '0', ResultDesc: 'Accepted' });
+    }
+});
+
+// POST /api/c2b/:gatewayId/:token/confirmation - A completed PayBill/Till payment
+c2bRoutes.post('/:gatewayId/:token/confirmation', async (c) => {
+    const { gatewayId, token } = c.req.param();
+
+    try {
+        const rawBody = await c.req.json();
+        logger.info({ body: rawBody, gatewayId }, 'M-Pesa C2B confirmation received');
+
+        const payload = c2bPayloadSchema.parse(rawBody) as C2BPayload;
+        const gateway = await findC2BGateway(gatewayId, token, payload.BusinessShortCode);
+
+        if (!gateway) {
+            logger.warn({ gatewayId, shortcode: payload.BusinessShortCode }, 'C2B confirmation for unknown gateway');
+            return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+        }
+
+        await handleC2BConfirmation(gateway, payload);
+        return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+    } catch (error) {
+        logger.error({ error, gatewayId }, 'C2B confirmation processing error');
+        return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+    }
+});
@@ -5,6 +5,10 @@ import { authMiddleware, requirePermission } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { createAuditLog } from '../lib/audit.js';
 import { mikrotikService } from '../services/mikrotik.service.js';
+import { recordWalletPayment } from '../services/renewal.service.js';
+import { getCurrentQuota, getQuotaPeriod, getRemainingQuota } from '../services/quota.service.js';
+import { USAGE_RANGES, getCustomerUsageSeries, getPeakHours, type UsageRange } from '../services/usage.service.js';
+import { protectPassword } from '../services/credential.service.js';
 import type { ConnectionType, CustomerStatus } from '@prisma/client';
 
 export const customerRoutes = new Hono();
@@ -28,6 +32,8 @@ const createCustomerSchema = z.object({
     longitude: z.number().optional(),
     apartmentNumber: z.string().optional(),
     houseNumber: z.string().optional(),
+    maxSessions: z.number().int().min(1).nullable().optional(), // Overrides the package's limit
+    accountNumber: z.string().min(1).nullable().optional(), // PayBill account reference besides the username
 });
 
 const updateCustomerSchema = createCustomerSchema.omit({ password: true }).partial();
@@ -158,6 +164,8 @@ customerRoutes.get('/:id', async (c) => {
         longitude: customer.longitude,
         apartmentNumber: customer.apartmentNumber,
         houseNumber: customer.houseNumber,
+        maxSessions: customer.maxSessions,
+        accountNumber: customer.accountNumber,
         // Session/Network info
         isOnline: !!activeSession,
         ipAddress: activeSession?.framedIp || lastSession?.framedIp || customer.lastIp,
@@ -205,7 +213,7 @@ customerRoutes.post('/', requirePermission('pppoe:add_user'), async (c) => {
     const customer = await prisma.customer.create({
         data: {
             username: data.username,
-            password: data.password, // Plain text for RADIUS (consider hashing strategy)
+            ...(await protectPassword(data.password)),
             name: data.name,
             email: data.email,
             phone: data.phone,
@@ -218,6 +226,8 @@ customerRoutes.post('/', requirePermission('pppoe:add_user'), async (c) => {
             longitude: data.longitude,
             apartmentNumber: data.apartmentNumber,
             houseNumber: data.houseNumber,
+            maxSessions: data.maxSessions,
+            accountNumber: data.accountNumber,
             tenantId,
         },
         include: {
@@ -236,7 +246,8 @@ customerRoutes.post('/', requirePermission('pppoe:add_user'), async (c) => {
         ipAddress: c.req.header('x-forwarded-for') ?? c.req.header('x-real-ip'),
     });
 
-    return c.json(customer, 201);
+    const { password: _password, passwordHash: _passwordHash, ...created } = customer;
+    return c.json(created, 201);
 });
 
 // PUT /api/customers/:id
@@ -272,6 +283,7 @@ customerRoutes.put('/:id', requirePermission('pppoe:edit'), async (c) => {
             expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
         },
     });
+    const { password: _password, passwordHash: _passwordHash, ...updated } = customer;
 
     // Build details of what was changed
     const changedFields: string[] = [];
@@ -292,7 +304,7 @@ customerRoutes.put('/:id', requirePermission('pppoe:edit'), async (c) => {
         user,
     });
 
-    return c.json(customer);
+    return c.json(updated);
 });
 
 // DELETE /api/customers/:id
@@ -493,26 +505,13 @@ customerRoutes.post('/:id/recharge', requirePermission('pppoe:edit'), async (c)
         throw new AppError(404, 'Customer not found');
     }
 
-    // Update wallet and create payment record
-    const [updatedCustomer, payment] = await prisma.$transaction([
-        prisma.customer.update({
-            where: { id: customerId },
-            data: {
-                walletBalance: { increment: amount },
-                totalSpent: { increment: amount },
-            },
-        }),
-        prisma.payment.create({
-            data: {
-                amount,
-                method: 'CASH',
-                status: 'COMPLETED',
-                description: description ?? 'Manual recharge',
-                customerId,
-                tenantId,
-            },
-        }),
-    ]);
+    // Create payment, credit wallet and renew if due
+    const result = await recordWalletPayment({
+        customerId,
+        amount,
+        method: 'CASH',
+        description: description ?? 'Manual recharge',
+    });
 
     // Audit log
     await createAuditLog({
@@ -526,8 +525,11 @@ customerRoutes.post('/:id/recharge', requirePermission('pppoe:edit'), async (c)
 
     return c.json({
         success: true,
-        newBalance: updatedCustomer.walletBalance,
-        paymentId: payment.id,
+        newBalance: result.walletBalance,
+        paymentId: result.paymentId,
+        renewed: result.renewal.renewed,
+        expiresAt: result.renewal.expiresAt,
+        invoicesSettled: result.invoicesSettled,
     });
 });
 
@@ -720,6 +722,42 @@ customerRoutes.get('/:id/transactions', async (c) => {
     });
 });
 
+// GET /api/customers/:id/wallet - Wallet balance and ledger (credits and renewals)
+customerRoutes.get('/:id/wallet', async (c) => {
+    const tenantId = c.get('tenantId');
+    const customerId = c.req.param('id');
+
+    const customer = await prisma.customer.findFirst({
+        where: { id: customerId, tenantId, deletedAt: null },
+        include: { package: { select: { name: true, price: true } } },
+    });
+
+    if (!customer) {
+        throw new AppError(404, 'Customer not found');
+    }
+
+    const entries = await prisma.walletTransaction.findMany({
+        where: { customerId, tenantId },
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+    });
+
+    return c.json({
+        walletBalance: customer.walletBalance,
+        renewalPrice: customer.package?.price ?? null,
+        shortfall: customer.package ? Math.max(0, customer.package.price - customer.walletBalance) : null,
+        entries: entries.map(e => ({
+            id: e.id,
+            type: e.type,
+            amount: e.amount,
+            balanceAfter: e.balanceAfter,
+            reference: e.reference,
+            description: e.description,
+            createdAt: e.createdAt,
+        })),
+    });
+});
+
 // ==================== MikroTik API Integration ====================
 
 // Helper to get NAS info for MikroTik connection
@@ -940,28 +978,98 @@ customerRoutes.post('/:id/assign-ip', requirePermission('pppoe:static_ip'), asyn
     return c.json({ success: true, message: `Static IP ${ipAddress} assigned` });
 });
 
-// GET /api/customers/:id/bandwidth - Live bandwidth stats
+// GET /api/customers/:id/bandwidth - Live rate plus stored usage history
 customerRoutes.get('/:id/bandwidth', async (c) => {
     const tenantId = c.get('tenantId');
     const customerId = c.req.param('id');
+    const range = (c.req.query('range') ?? '24h') as UsageRange; // 24h, 7d, 30d, 90d
 
-    const { customer, nas } = await getNasForCustomer(customerId, tenantId);
+    if (!(range in USAGE_RANGES)) {
+        throw new AppError(400, `Invalid range. Use one of: ${Object.keys(USAGE_RANGES).join(', ')}`);
+    }
 
-    const bandwidth = await mikrotikService.getUserBandwidth(nas, customer.username);
+    const customer = await prisma.customer.findFirst({
+        where: { id: customerId, tenantId, deletedAt: null },
+        include: { nas: true },
+    });
 
-    if (!bandwidth) {
-        return c.json({
-            online: false,
-            message: 'User is not currently connected'
-        });
+    if (!customer) {
+        throw new AppError(404, 'Customer not found');
     }
 
+    // History is still served when the router can't be reached for a live rate
+    const [usage, peak, bandwidth] = await Promise.all([
+        getCustomerUsageSeries(customer.id, range),
+        getPeakHours(customer.id, 30),
+        customer.nas
+            ? mikrotikService.getUserBandwidth(customer.nas, customer.username).catch(() => null)
+            : Promise.resolve(null),
+    ]);
+
+    const inputOctets = usage.reduce((sum, point) => sum + point.inputOctets, 0);
+    const outputOctets = usage.reduce((sum, point) => sum + point.outputOctets, 0);
+
+    return c.json({
+        online: !!bandwidth,
+        downloadBps: bandwidth?.rxBps ?? 0,
+        uploadBps: bandwidth?.txBps ?? 0,
+        downloadMbps: ((bandwidth?.rxBps ?? 0) * 8 / 1000000).toFixed(2),
+        uploadMbps: ((bandwidth?.txBps ?? 0) * 8 / 1000000).toFixed(2),
+        range,
+        // RADIUS Input is what the customer uploaded, Output what they downloaded
+        usage: usage.map((point) => ({
+            timestamp: point.timestamp,
+            downloadBytes: point.outputOctets,
+            uploadBytes: point.inputOctets,
+            totalBytes: point.totalOctets,
+        })),
+        totals: {
+            downloadBytes: outputOctets,
+            uploadBytes: inputOctets,
+            totalBytes: inputOctets + outputOctets,
+        },
+        peakHour: peak.peakHour, // UTC hour of day over the last 30 days
+        hourlyProfile: peak.hours.map((h) => ({ hour: h.hour, totalBytes: h.totalOctets })),
+    });
+});
+
+// GET /api/customers/:id/quota - Data used against the package limit this billing period
+customerRoutes.get('/:id/quota', async (c) => {
+    const tenantId = c.get('tenantId');
+    const customerId = c.req.param('id');
+
+    const customer = await prisma.customer.findFirst({
+        where: { id: customerId, tenantId, deletedAt: null },
+        include: {
+            package: true,
+            tenant: { select: { billingCycleEnabled: true, billDay: true } },
+        },
+    });
+
+    if (!customer) {
+        throw new AppError(404, 'Customer not found');
+    }
+
+    if (!customer.package?.dataLimit) {
+        return c.json({ limited: false });
+    }
+
+    const { periodStart, periodEnd } = getQuotaPeriod(customer);
+    const quota = await getCurrentQuota(customer);
+    const usedBytes = Number(quota?.usedOctets ?? 0);
+    const limitBytes = Number(quota?.limitOctets ?? customer.package.dataLimit);
+
     return c.json({
-        online: true,
-        downloadBps: bandwidth.rxBps,
-        uploadBps: bandwidth.txBps,
-        downloadMbps: (bandwidth.rxBps * 8 / 1000000).toFixed(2),
-        uploadMbps: (bandwidth.txBps * 8 / 1000000).toFixed(2),
+        limited: true,
+        periodStart,
+        periodEnd,
+        usedBytes,
+        limitBytes,
+        remainingBytes: Number(getRemainingQuota(quota, customer.package.dataLimit)),
+        percentUsed: Math.min(100, Math.round((usedBytes / limitBytes) * 100)),
+        warnedAt: quota?.warnedAt ?? null,
+        exhaustedAt: quota?.exhaustedAt ?? null,
+        action: quota?.action ?? null,
     });
 });
 
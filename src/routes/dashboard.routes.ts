@@ -168,21 +168,45 @@ dashboardRoutes.get('/revenue', requirePermission('dashboard:payments'), async (
     });
 });
 
-// GET /api/dashboard/network-usage (placeholder)
+// GET /api/dashboard/network-usage - Subscriber traffic from RADIUS accounting rollups
 dashboardRoutes.get('/network-usage', requirePermission('dashboard:network_usage'), async (c) => {
-    // TODO: Implement actual network usage from SNMP/RADIUS
+    const tenantId = c.get('tenantId');
+    const now = new Date();
     const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
+    // Daily buckets are UTC midnights
+    const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const startOfWeek = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - now.getUTCDay()));
+    const startOfMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const startOfYear = new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+
+    const days = await prisma.usageRollup.groupBy({
+        by: ['bucketStart'],
+        where: { tenantId, period: 'DAILY', bucketStart: { gte: startOfYear } },
+        _sum: { inputOctets: true, outputOctets: true },
+    });
+
+    const monthlyData: Record<string, number> = {};
+    const totals = { today: 0, thisWeek: 0, thisMonth: 0, thisYear: 0 };
+
+    days.forEach((day) => {
+        const bytes = Number((day._sum.inputOctets ?? BigInt(0)) + (day._sum.outputOctets ?? BigInt(0)));
+        const month = months[day.bucketStart.getUTCMonth()];
+        if (month) {
+            monthlyData[month] = (monthlyData[month] ?? 0) + bytes;
+        }
+
+        totals.thisYear += bytes;
+        if (day.bucketStart >= startOfMonth) totals.thisMonth += bytes;
+        if (day.bucketStart >= startOfWeek) totals.thisWeek += bytes;
+        if (day.bucketStart >= startOfDay) totals.today += bytes;
+    });
+
     return c.json({
         usageTrend: months.map((month) => ({
             month,
-            usage: 0, // Placeholder - will be populated from RADIUS accounting
+            usage: monthlyData[month] ?? 0, // Bytes
         })),
-        totalByPeriod: {
-            today: 0,
-            thisWeek: 0,
-            thisMonth: 0,
-            thisYear: 0,
-        },
+        totalByPeriod: totals,
     });
 });
@@ -0,0 +1,25 @@
+import { Hono } from 'hono';
+import { logger } from '../lib/logger.js';
+import { renderLinkedDocument } from '../services/document.service.js';
+
+export const documentRoutes = new Hono();
+
+// GET /d/:code - Public invoice/receipt download from an SMS link (no auth - the code is the credential)
+documentRoutes.get('/:code', async (c) => {
+    const code = c.req.param('code');
+
+    try {
+        const file = await renderLinkedDocument(code);
+        if (!file) {
+            return c.text('This link is invalid or has expired', 404);
+        }
+
+        c.header('Content-Type', 'application/pdf');
+        c.header('Content-Disposition', `inline; filename="${file.filename}"`);
+        c.header('Cache-Control', 'no-store');
+        return c.body(new Uint8Array(file.content));
+    } catch (error) {
+        logger.error({ error, code }, 'Failed to render linked document');
+        return c.text('Document unavailable', 500);
+    }
+});
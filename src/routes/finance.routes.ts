@@ -1,8 +1,24 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
+import type { InvoiceStatus } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
 import { authMiddleware, requirePermission } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { createAuditLog } from '../lib/audit.js';
+import {
+    ACCOUNT_CODES,
+    accountForPaymentMethod,
+    postDirectSale,
+    postExpense,
+    postInvoiceIssued,
+    postInvoicePayment,
+    reverseEntriesForSource,
+    getTrialBalance,
+    getProfitAndLoss,
+    getBalanceSheet,
+} from '../services/ledger.service.js';
+import { nextInvoiceNo, restoreIfSettled } from '../services/billing.service.js';
+import { renderInvoicePdf, sendDocumentLink } from '../services/document.service.js';
 
 export const financeRoutes = new Hono();
 
@@ -123,17 +139,21 @@ financeRoutes.post('/income', requirePermission('finance:income_create'), async
         'Other': 'OTHER',
     };
 
-    const payment = await prisma.payment.create({
-        data: {
-            amount: data.amount,
-            method: (methodMap[data.method] ?? 'OTHER') as 'MPESA' | 'CASH' | 'BANK_TRANSFER' | 'CARD' | 'OTHER',
-            status: 'COMPLETED',
-            description: data.description ?? `Income from ${data.customerName}`,
-            transactionId: data.reference,
-            account: data.customerName,
-            tenantId,
-            createdAt: data.date ? new Date(data.date) : new Date(),
-        },
+    const payment = await prisma.$transaction(async (tx) => {
+        const payment = await tx.payment.create({
+            data: {
+                amount: data.amount,
+                method: (methodMap[data.method] ?? 'OTHER') as 'MPESA' | 'CASH' | 'BANK_TRANSFER' | 'CARD' | 'OTHER',
+                status: 'COMPLETED',
+                description: data.description ?? `Income from ${data.customerName}`,
+                transactionId: data.reference,
+                account: data.customerName,
+                tenantId,
+                createdAt: data.date ? new Date(data.date) : new Date(),
+            },
+        });
+        await postDirectSale(payment, payment.description ?? 'Income', ACCOUNT_CODES.OTHER_INCOME, tx);
+        return payment;
     });
 
     return c.json(payment, 201);
@@ -231,18 +251,22 @@ financeRoutes.post('/expenses', requirePermission('finance:expenses_create'), as
     const body = await c.req.json();
     const data = createExpenseSchema.parse(body);
 
-    const expense = await prisma.expense.create({
-        data: {
-            description: data.description,
-            category: data.category,
-            vendor: data.vendor,
-            amount: data.amount,
-            date: new Date(data.date),
-            paymentMethod: data.paymentMethod,
-            isRecurring: data.isRecurring ?? false,
-            notes: data.notes,
-            tenantId,
-        },
+    const expense = await prisma.$transaction(async (tx) => {
+        const expense = await tx.expense.create({
+            data: {
+                description: data.description,
+                category: data.category,
+                vendor: data.vendor,
+                amount: data.amount,
+                date: new Date(data.date),
+                paymentMethod: data.paymentMethod,
+                isRecurring: data.isRecurring ?? false,
+                notes: data.notes,
+                tenantId,
+            },
+        });
+        await postExpense(expense, tx);
+        return expense;
     });
 
     return c.json(expense, 201);
@@ -340,12 +364,20 @@ const createInvoiceSchema = z.object({
     dueDate: z.string(),
     items: z.array(z.object({
         description: z.string(),
+        quantity: z.number().positive().optional(),
         amount: z.number(),
     })),
 });
 
+const sendDocumentSchema = z.object({
+    phone: z.string().min(9).optional(),
+});
+
+const invoiceStatusSchema = z.enum(['pending', 'paid', 'overdue', 'cancelled']);
+
 const updateInvoiceStatusSchema = z.object({
-    status: z.enum(['pending', 'paid', 'overdue', 'cancelled']),
+    status: invoiceStatusSchema,
+    paymentMethod: z.enum(['MPESA', 'CASH', 'BANK_TRANSFER', 'CARD', 'OTHER']).optional(),
 });
 
 // GET /api/finance/invoices
@@ -358,7 +390,7 @@ financeRoutes.get('/invoices', requirePermission('finance:dashboard_view'), asyn
 
     interface InvoiceWhere {
         tenantId: string;
-        status?: string;
+        status?: InvoiceStatus;
         OR?: Array<{
             invoiceNo?: { contains: string; mode: 'insensitive' };
             customer?: { name?: { contains: string; mode: 'insensitive' } };
@@ -367,7 +399,7 @@ financeRoutes.get('/invoices', requirePermission('finance:dashboard_view'), asyn
 
     const where: InvoiceWhere = { tenantId };
 
-    if (status) where.status = status;
+    if (status) where.status = invoiceStatusSchema.parse(status);
 
     if (search) {
         where.OR = [
@@ -436,22 +468,22 @@ financeRoutes.post('/invoices', requirePermission('finance:dashboard_view'), asy
     const body = await c.req.json();
     const data = createInvoiceSchema.parse(body);
 
-    // Generate invoice number
-    const count = await prisma.invoice.count({ where: { tenantId } });
-    const invoiceNo = `INV-${new Date().getFullYear()}${String(count + 1).padStart(4, '0')}`;
-
-    const invoice = await prisma.invoice.create({
-        data: {
-            invoiceNo,
-            amount: data.amount,
-            dueDate: new Date(data.dueDate),
-            items: data.items,
-            customerId: data.customerId,
-            tenantId,
-        },
-        include: {
-            customer: { select: { name: true } },
-        },
+    const invoice = await prisma.$transaction(async (tx) => {
+        const invoice = await tx.invoice.create({
+            data: {
+                invoiceNo: await nextInvoiceNo(tx, tenantId),
+                amount: data.amount,
+                dueDate: new Date(data.dueDate),
+                items: data.items,
+                customerId: data.customerId,
+                tenantId,
+            },
+            include: {
+                customer: { select: { name: true } },
+            },
+        });
+        await postInvoiceIssued(invoice, tx);
+        return invoice;
     });
 
     return c.json(
@@ -471,7 +503,7 @@ financeRoutes.put('/invoices/:id/status', requirePermission('finance:dashboard_v
     const tenantId = c.get('tenantId');
     const invoiceNo = c.req.param('id');
     const body = await c.req.json();
-    const { status } = updateInvoiceStatusSchema.parse(body);
+    const { status, paymentMethod } = updateInvoiceStatusSchema.parse(body);
 
     const invoice = await prisma.invoice.findFirst({
         where: { invoiceNo, tenantId },
@@ -481,17 +513,195 @@ financeRoutes.put('/invoices/:id/status', requirePermission('finance:dashboard_v
         throw new AppError(404, 'Invoice not found');
     }
 
-    const updated = await prisma.invoice.update({
-        where: { id: invoice.id },
-        data: {
-            status,
-            paidAt: status === 'paid' ? new Date() : undefined,
-        },
+    if (invoice.status === 'cancelled' && status !== 'cancelled') {
+        throw new AppError(400, 'Cancelled invoices cannot be reopened');
+    }
+
+    // The payment is already in the ledger (and may have come out of the wallet);
+    // only cancelling reverses it
+    if (invoice.status === 'paid' && status !== 'paid' && status !== 'cancelled') {
+        throw new AppError(400, 'Paid invoices can only be cancelled');
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+        const updated = await tx.invoice.update({
+            where: { id: invoice.id },
+            data: {
+                status,
+                paidAt: status === 'paid' ? new Date() : undefined,
+            },
+        });
+
+        // Settle the receivable when first marked paid; reverse everything on cancellation
+        if (status === 'paid' && invoice.status !== 'paid') {
+            await postInvoicePayment(invoice, accountForPaymentMethod(paymentMethod ?? 'CASH'), tx);
+        } else if (status === 'cancelled' && invoice.status !== 'cancelled') {
+            await reverseEntriesForSource(tenantId, 'INVOICE', invoice.id, 'Invoice cancelled', tx);
+            await reverseEntriesForSource(tenantId, 'INVOICE_PAYMENT', invoice.id, 'Invoice cancelled', tx);
+        }
+
+        return updated;
     });
 
+    // Lift a dunning suspension once nothing is overdue any more
+    if (status === 'paid' && invoice.customerId) {
+        await restoreIfSettled(invoice.customerId);
+    }
+
     return c.json({
         id: updated.invoiceNo,
         status: updated.status,
         paidAt: updated.paidAt,
     });
 });
+
+// GET /api/finance/invoices/:id/pdf
+financeRoutes.get('/invoices/:id/pdf', requirePermission('finance:dashboard_view'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const file = await renderInvoicePdf(tenantId, c.req.param('id'));
+
+    if (!file) {
+        throw new AppError(404, 'Invoice not found');
+    }
+
+    c.header('Content-Type', 'application/pdf');
+    c.header('Content-Disposition', `inline; filename="${file.filename}"`);
+    return c.body(new Uint8Array(file.content));
+});
+
+// POST /api/finance/invoices/:id/send - Text the customer a download link
+financeRoutes.post('/invoices/:id/send', requirePermission('finance:dashboard_view'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const invoiceNo = c.req.param('id');
+    const { phone } = sendDocumentSchema.parse(await c.req.json().catch(() => ({})));
+
+    const invoice = await prisma.invoice.findFirst({
+        where: { invoiceNo, tenantId },
+        include: { customer: { select: { phone: true } } },
+    });
+
+    if (!invoice) {
+        throw new AppError(404, 'Invoice not found');
+    }
+
+    const recipient = phone ?? invoice.customer?.phone;
+    if (!recipient) {
+        throw new AppError(400, 'Customer has no phone number');
+    }
+
+    const result = await sendDocumentLink('INVOICE', invoice.invoiceNo, tenantId, recipient, invoice.invoiceNo);
+    if (!result.success) {
+        throw new AppError(502, result.error ?? 'Failed to send SMS');
+    }
+
+    await createAuditLog({
+        action: 'SMS_SEND',
+        targetType: 'Invoice',
+        targetId: invoice.id,
+        targetName: invoice.invoiceNo,
+        details: `Invoice link sent to ${recipient}`,
+        user,
+    });
+
+    return c.json({ success: true, url: result.url });
+});
+
+// ============ GENERAL LEDGER & REPORTS ============
+
+const parseDateQuery = (value: string | undefined, endOfDay = false): Date | undefined => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new AppError(400, `Invalid date: ${value}`);
+    }
+    // Plain YYYY-MM-DD end dates include the whole day
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+};
+
+// GET /api/finance/journal
+financeRoutes.get('/journal', requirePermission('finance:reports_view'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const page = parseInt(c.req.query('page') ?? '1');
+    const pageSize = parseInt(c.req.query('pageSize') ?? '20');
+    const sourceType = c.req.query('sourceType');
+    const from = parseDateQuery(c.req.query('startDate'));
+    const to = parseDateQuery(c.req.query('endDate'), true);
+
+    const where: { tenantId: string; sourceType?: string; date?: { gte?: Date; lte?: Date } } = { tenantId };
+    if (sourceType) where.sourceType = sourceType;
+    if (from || to) {
+        where.date = {};
+        if (from) where.date.gte = from;
+        if (to) where.date.lte = to;
+    }
+
+    const [entries, total] = await Promise.all([
+        prisma.journalEntry.findMany({
+            where,
+            include: {
+                lines: { include: { account: { select: { code: true, name: true } } } },
+            },
+            orderBy: { date: 'desc' },
+            skip: (page - 1) * pageSize,
+            take: pageSize,
+        }),
+        prisma.journalEntry.count({ where }),
+    ]);
+
+    return c.json({
+        entries: entries.map((e) => ({
+            id: e.id,
+            date: e.date,
+            description: e.description,
+            sourceType: e.sourceType,
+            sourceId: e.sourceId,
+            reversalOf: e.reversalOf,
+            lines: e.lines.map((l) => ({
+                accountCode: l.account.code,
+                accountName: l.account.name,
+                debit: l.debit,
+                credit: l.credit,
+                description: l.description,
+            })),
+        })),
+        total,
+        page,
+        pageSize,
+    });
+});
+
+// GET /api/finance/reports/trial-balance
+financeRoutes.get('/reports/trial-balance', requirePermission('finance:reports_view'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const from = parseDateQuery(c.req.query('startDate'));
+    const to = parseDateQuery(c.req.query('endDate'), true);
+
+    const report = await getTrialBalance(tenantId, from, to);
+
+    return c.json({ startDate: from ?? null, endDate: to ?? null, ...report });
+});
+
+// GET /api/finance/reports/profit-loss
+financeRoutes.get('/reports/profit-loss', requirePermission('finance:reports_view'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const from = parseDateQuery(c.req.query('startDate'));
+    const to = parseDateQuery(c.req.query('endDate'), true);
+
+    const report = await getProfitAndLoss(tenantId, from, to);
+
+    return c.json({ startDate: from ?? null, endDate: to ?? null, ...report });
+});
+
+// GET /api/finance/reports/balance-sheet
+financeRoutes.get('/reports/balance-sheet', requirePermission('finance:reports_view'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const asOf = parseDateQuery(c.req.query('asOf'), true);
+
+    const report = await getBalanceSheet(tenantId, asOf);
+
+    return c.json(report);
+});
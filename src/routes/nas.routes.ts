@@ -16,6 +16,7 @@ const createNasSchema = z.object({
     ipAddress: z.string().ip(),
     secret: z.string().min(4),
     coaPort: z.number().optional().default(3799),
+    requireMessageAuthenticator: z.boolean().optional(),
     apiUsername: z.string().optional(),
     apiPassword: z.string().optional(),
     apiPort: z.number().optional().default(8728),
@@ -116,6 +117,7 @@ nasRoutes.get('/:id', requirePermission('routers:details_view'), async (c) => {
         ipAddress: nas.ipAddress,
         secret: '********', // Hide secret
         coaPort: nas.coaPort,
+        requireMessageAuthenticator: nas.requireMessageAuthenticator,
         apiUsername: nas.apiUsername,
         apiPort: nas.apiPort,
         status: nas.status,
@@ -154,6 +156,7 @@ nasRoutes.post('/', requirePermission('routers:add'), async (c) => {
             ipAddress: data.ipAddress,
             secret: data.secret,
             coaPort: data.coaPort ?? 3799,
+            requireMessageAuthenticator: data.requireMessageAuthenticator ?? false,
             apiUsername: data.apiUsername,
             apiPassword: data.apiPassword,
             apiPort: data.apiPort ?? 8728,
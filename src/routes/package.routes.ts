@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { prisma } from '../lib/prisma.js';
 import { authMiddleware, requirePermission } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { isValidClock } from '../services/bandwidth-schedule.service.js';
 import type { ConnectionType } from '@prisma/client';
 
 export const packageRoutes = new Hono();
@@ -11,6 +12,17 @@ export const packageRoutes = new Hono();
 packageRoutes.use('*', authMiddleware);
 
 // Validation schemas
+const scheduleSchema = z.object({
+    name: z.string().min(1),
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).max(7).default([]), // 0 = Sunday; empty = every day
+    startTime: z.string().refine(isValidClock, 'Time must be HH:MM'),
+    endTime: z.string().refine(isValidClock, 'Time must be HH:MM'),
+    downloadSpeed: z.number().int().positive(),
+    uploadSpeed: z.number().int().positive(),
+    burstDownload: z.number().int().positive().nullable().optional(),
+    burstUpload: z.number().int().positive().nullable().optional(),
+});
+
 const createPackageSchema = z.object({
     name: z.string().min(2),
     type: z.enum(['PPPOE', 'HOTSPOT']),
@@ -21,12 +33,27 @@ const createPackageSchema = z.object({
     burstUpload: z.number().positive().nullable().optional(),
     sessionTime: z.number().positive().nullable().optional(), // Minutes (for hotspot)
     dataLimit: z.number().positive().nullable().optional(), // Bytes
+    maxSessions: z.number().int().min(1).nullable().optional(), // Concurrent sessions per customer; null = unlimited
     routerIds: z.array(z.string().uuid()).optional(),
+    schedules: z.array(scheduleSchema).max(10).optional(), // Earlier entries win where windows overlap
     isActive: z.boolean().optional(),
 });
 
 const updatePackageSchema = createPackageSchema.partial();
 
+function toScheduleData(schedule: z.infer<typeof scheduleSchema>) {
+    return {
+        name: schedule.name,
+        daysOfWeek: schedule.daysOfWeek,
+        startTime: schedule.startTime,
+        endTime: schedule.endTime,
+        downloadSpeed: schedule.downloadSpeed,
+        uploadSpeed: schedule.uploadSpeed,
+        burstDownload: schedule.burstDownload,
+        burstUpload: schedule.burstUpload,
+    };
+}
+
 // GET /api/packages
 packageRoutes.get('/', requirePermission('packages:view'), async (c) => {
     const tenantId = c.get('tenantId');
@@ -56,6 +83,7 @@ packageRoutes.get('/', requirePermission('packages:view'), async (c) => {
                     nas: { select: { id: true, name: true } },
                 },
             },
+            schedules: { orderBy: { createdAt: 'asc' } },
         },
         orderBy: { name: 'asc' },
     });
@@ -72,10 +100,12 @@ packageRoutes.get('/', requirePermission('packages:view'), async (c) => {
             burstUpload: pkg.burstUpload,
             sessionTime: pkg.sessionTime,
             dataLimit: pkg.dataLimit ? pkg.dataLimit.toString() : null,
+            maxSessions: pkg.maxSessions,
             isActive: pkg.isActive,
             customerCount: pkg._count.customers,
             voucherCount: pkg._count.vouchers,
             routers: pkg.routers.map((r) => r.nas),
+            schedules: pkg.schedules,
             createdAt: pkg.createdAt,
         }))
     );
@@ -100,6 +130,7 @@ packageRoutes.get('/:id', requirePermission('packages:details_view'), async (c)
                     nas: { select: { id: true, name: true, ipAddress: true } },
                 },
             },
+            schedules: { orderBy: { createdAt: 'asc' } },
         },
     });
 
@@ -118,10 +149,12 @@ packageRoutes.get('/:id', requirePermission('packages:details_view'), async (c)
         burstUpload: pkg.burstUpload,
         sessionTime: pkg.sessionTime,
         dataLimit: pkg.dataLimit ? pkg.dataLimit.toString() : null,
+        maxSessions: pkg.maxSessions,
         isActive: pkg.isActive,
         customerCount: pkg._count.customers,
         voucherCount: pkg._count.vouchers,
         routers: pkg.routers.map((r) => r.nas),
+        schedules: pkg.schedules,
         createdAt: pkg.createdAt,
     });
 });
@@ -143,6 +176,7 @@ packageRoutes.post('/', requirePermission('packages:add_pppoe'), async (c) => {
             burstUpload: data.burstUpload,
             sessionTime: data.sessionTime,
             dataLimit: data.dataLimit ? BigInt(data.dataLimit) : undefined,
+            maxSessions: data.maxSessions,
             isActive: data.isActive ?? true,
             tenantId,
             routers: data.routerIds
@@ -150,11 +184,17 @@ packageRoutes.post('/', requirePermission('packages:add_pppoe'), async (c) => {
                     create: data.routerIds.map((nasId) => ({ nasId })),
                 }
                 : undefined,
+            schedules: data.schedules
+                ? {
+                    create: data.schedules.map(toScheduleData),
+                }
+                : undefined,
         },
         include: {
             routers: {
                 include: { nas: { select: { id: true, name: true } } },
             },
+            schedules: { orderBy: { createdAt: 'asc' } },
         },
     });
 
@@ -168,6 +208,7 @@ packageRoutes.post('/', requirePermission('packages:add_pppoe'), async (c) => {
             uploadSpeed: pkg.uploadSpeed,
             isActive: pkg.isActive,
             routers: pkg.routers.map((r) => r.nas),
+            schedules: pkg.schedules,
         },
         201
     );
@@ -200,6 +241,16 @@ packageRoutes.put('/:id', requirePermission('packages:edit'), async (c) => {
         }
     }
 
+    // Schedules are replaced as a set, like router associations
+    if (data.schedules !== undefined) {
+        await prisma.packageSchedule.deleteMany({ where: { packageId } });
+        if (data.schedules.length > 0) {
+            await prisma.packageSchedule.createMany({
+                data: data.schedules.map((schedule) => ({ ...toScheduleData(schedule), packageId })),
+            });
+        }
+    }
+
     // Prevent disabling if active customers exist
     if (data.isActive === false && existing.isActive) {
         const activeUsers = await prisma.customer.count({
@@ -226,12 +277,14 @@ packageRoutes.put('/:id', requirePermission('packages:edit'), async (c) => {
             burstUpload: data.burstUpload,
             sessionTime: data.sessionTime,
             dataLimit: data.dataLimit ? BigInt(data.dataLimit) : undefined,
+            maxSessions: data.maxSessions,
             isActive: data.isActive,
         },
         include: {
             routers: {
                 include: { nas: { select: { id: true, name: true } } },
             },
+            schedules: { orderBy: { createdAt: 'asc' } },
         },
     });
 
@@ -244,6 +297,7 @@ packageRoutes.put('/:id', requirePermission('packages:edit'), async (c) => {
         uploadSpeed: pkg.uploadSpeed,
         isActive: pkg.isActive,
         routers: pkg.routers.map((r) => r.nas),
+        schedules: pkg.schedules,
     });
 });
 
@@ -4,6 +4,8 @@ import { prisma } from '../lib/prisma.js';
 import { authMiddleware, requireRole } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { testGateway } from '../services/mpesa.service.js';
+import { registerC2BUrls } from '../services/c2b.service.js';
+import { paymentProviderService } from '../services/payment-provider.service.js';
 
 const pgRoutes = new Hono();
 
@@ -12,20 +14,29 @@ pgRoutes.use('*', authMiddleware);
 
 // Schema
 const gatewaySchema = z.object({
-    type: z.string().default('MPESA_API'),
+    type: z.enum(['MPESA_API', 'MPESA_NO_API', 'AIRTEL_MONEY', 'PAYSTACK', 'FLUTTERWAVE']).default('MPESA_API'),
     subType: z.enum(['PAYBILL', 'BUYGOODS', 'BANK']).default('PAYBILL'),
     name: z.string().optional(),
-    shortcode: z.string().min(3),
+    shortcode: z.string().default(''), // Required for M-Pesa only
     storeNumber: z.string().optional(),
     accountNumber: z.string().optional(),
     consumerKey: z.string().optional(),
     consumerSecret: z.string().optional(),
     passkey: z.string().optional(),
+    initiatorName: z.string().optional(),
+    securityCredential: z.string().optional(),
+    b2cShortcode: z.string().optional(),
+    config: z.record(z.any()).optional(), // Airtel country/currency, Flutterwave secretHash
     env: z.enum(['sandbox', 'production']).default('production'),
     forHotspot: z.boolean().default(false),
     forPppoe: z.boolean().default(false),
 });
 
+// SUPPORTED PROVIDERS
+pgRoutes.get('/providers', requireRole('ADMIN', 'SUPER_ADMIN'), async (c) => {
+    return c.json(paymentProviderService.getProviders());
+});
+
 // LIST
 pgRoutes.get('/', requireRole('ADMIN', 'SUPER_ADMIN'), async (c) => {
     const tenantId = c.get('tenantId');
@@ -70,6 +81,10 @@ pgRoutes.post('/', requireRole('ADMIN', 'SUPER_ADMIN'), async (c) => {
     const body = await c.req.json();
     const data = gatewaySchema.parse(body);
 
+    if (data.type.startsWith('MPESA') && data.shortcode.length < 3) {
+        throw new AppError(400, 'M-Pesa gateways need a PayBill, Till or bank shortcode');
+    }
+
     // Check if this is the first gateway -> make default
     const count = await prisma.paymentGateway.count({ where: { tenantId } });
     const isDefault = count === 0;
@@ -84,7 +99,11 @@ pgRoutes.post('/', requireRole('ADMIN', 'SUPER_ADMIN'), async (c) => {
         }
     });
 
-    return c.json(gw, 201);
+    // Airtel Money, Paystack and Flutterwave post payment results here
+    return c.json({
+        ...gw,
+        callbackUrl: gw.type.startsWith('MPESA') ? undefined : paymentProviderService.getCallbackUrl(gw.id),
+    }, 201);
 });
 
 // UPDATE
@@ -149,4 +168,20 @@ pgRoutes.post('/:id/test', requireRole('ADMIN', 'SUPER_ADMIN'), async (c) => {
     return c.json(result);
 });
 
+// REGISTER C2B URLS (PayBill/Till payments made from the phone menu)
+pgRoutes.post('/:id/register-c2b', requireRole('ADMIN', 'SUPER_ADMIN'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const { id } = c.req.param();
+
+    // verify ownership
+    const exists = await prisma.paymentGateway.count({ where: { id, tenantId } });
+    if (!exists) throw new AppError(404, 'Gateway not found');
+
+    const result = await registerC2BUrls(id);
+    if (!result.success) {
+        return c.json(result, 400);
+    }
+    return c.json(result);
+});
+
 export { pgRoutes };
@@ -1,10 +1,32 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma.js';
-import { authMiddleware, requirePermission } from '../middleware/auth.js';
+import { authMiddleware, requirePermission, requireRole } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { logger } from '../lib/logger.js';
 import { createAuditLog } from '../lib/audit.js';
+import { debitWallet, recordWalletPayment } from '../services/renewal.service.js';
+import { reverseEntriesForSource } from '../services/ledger.service.js';
+import {
+    allocatePayment,
+    allocationsMatchAmount,
+    findAllocationCandidates,
+    listUnallocatedPayments,
+    recordUnallocatedPayment,
+    unallocatedAmount,
+    type PaymentAllocationInput,
+} from '../services/suspense.service.js';
+import { createStatementImport, importMissingEntries, parseStatement } from '../services/reconciliation.service.js';
+import { readSpreadsheet, SpreadsheetLimitError } from '../lib/spreadsheet.js';
+import {
+    findRefundForCallback,
+    handleRefundResult,
+    handleRefundTimeout,
+    requestRefund,
+    type DarajaResult,
+    type RefundRequest,
+} from '../services/refund.service.js';
+import { getReceiptNo, renderReceiptPdf, sendDocumentLink } from '../services/document.service.js';
 
 export const paymentRoutes = new Hono();
 
@@ -75,6 +97,7 @@ const getMpesaTransactions = async (c: any) => {
             phone: t.phone,
             account: t.account,
             status: t.status.toLowerCase(),
+            refundedAmount: t.refundedAmount,
             customer: t.customer ? { id: t.customer.id, name: t.customer.name } : null,
             createdAt: t.createdAt,
         })),
@@ -215,32 +238,19 @@ authenticatedRoutes.post('/manual', requirePermission('payments:view_manual'), a
         throw new AppError(404, 'Customer not found');
     }
 
-    // Create payment and update customer wallet
-    const [payment] = await prisma.$transaction([
-        prisma.payment.create({
-            data: {
-                amount: data.amount,
-                method: data.method ?? 'CASH',
-                status: 'COMPLETED',
-                description: data.description ?? 'Manual payment',
-                customerId: customer.id,
-                tenantId,
-            },
-        }),
-        prisma.customer.update({
-            where: { id: customer.id },
-            data: {
-                walletBalance: { increment: data.amount },
-                totalSpent: { increment: data.amount },
-            },
-        }),
-    ]);
+    // Create payment, credit the customer wallet and renew if due
+    const result = await recordWalletPayment({
+        customerId: customer.id,
+        amount: data.amount,
+        method: data.method ?? 'CASH',
+        description: data.description ?? 'Manual payment',
+    });
 
     // Audit log
     await createAuditLog({
         action: 'PAYMENT_PROCESS',
         targetType: 'Payment',
-        targetId: payment.id,
+        targetId: result.paymentId,
         targetName: customer.username,
         details: `Amount: KES ${data.amount}`,
         user,
@@ -248,10 +258,14 @@ authenticatedRoutes.post('/manual', requirePermission('payments:view_manual'), a
 
     return c.json(
         {
-            id: payment.id,
-            amount: payment.amount,
-            method: payment.method,
-            status: payment.status,
+            id: result.paymentId,
+            amount: data.amount,
+            method: data.method ?? 'CASH',
+            status: 'COMPLETED',
+            walletBalance: result.walletBalance,
+            renewed: result.renewal.renewed,
+            expiresAt: result.renewal.expiresAt,
+            invoicesSettled: result.invoicesSettled,
         },
         201
     );
@@ -264,14 +278,33 @@ authenticatedRoutes.delete('/manual', requirePermission('payments:view_manual'),
 
     const manualMethods = ['CASH', 'BANK_TRANSFER', 'CARD', 'OTHER'] as ('CASH' | 'BANK_TRANSFER' | 'CARD' | 'OTHER')[];
 
-    // Soft delete by updating status
-    const result = await prisma.payment.updateMany({
-        where: {
-            tenantId,
-            method: { in: manualMethods },
-        },
-        data: { status: 'REFUNDED' }, // Mark as refunded/cleared
-    });
+    // Soft delete by updating status, reversing each payment's ledger postings and
+    // taking wallet top-ups back out so Customer Wallet Deposits matches the wallets
+    const result = await prisma.$transaction(async (tx) => {
+        const payments = await tx.payment.findMany({
+            where: { tenantId, method: { in: manualMethods }, status: 'COMPLETED' },
+            select: { id: true },
+        });
+
+        const walletCredits = await tx.walletTransaction.findMany({
+            where: { tenantId, type: 'CREDIT', reference: { in: payments.map((p) => p.id) } },
+        });
+
+        for (const payment of payments) {
+            await reverseEntriesForSource(tenantId, 'PAYMENT', payment.id, 'Manual payment cleared', tx);
+        }
+        for (const credit of walletCredits) {
+            await debitWallet(tx, credit.customerId, credit.amount, credit.reference ?? undefined, 'Manual payment cleared');
+        }
+
+        return tx.payment.updateMany({
+            where: {
+                tenantId,
+                method: { in: manualMethods },
+            },
+            data: { status: 'REFUNDED' }, // Mark as refunded/cleared
+        });
+    }, { timeout: 60000 });
 
     return c.json({
         success: true,
@@ -279,6 +312,420 @@ authenticatedRoutes.delete('/manual', requirePermission('payments:view_manual'),
     });
 });
 
+// ============ SUSPENSE (UNALLOCATED PAYMENTS) ============
+
+const allocatePaymentSchema = z.object({
+    customerId: z.string().uuid().optional(), // Whole payment to one customer
+    allocations: z.array(z.object({
+        customerId: z.string().uuid(),
+        amount: z.number().positive(),
+    })).min(1).optional(), // Or split across several
+}).refine((d) => !!d.customerId !== !!d.allocations, {
+    message: 'Provide either customerId or allocations',
+});
+
+// GET /api/payments/suspense - Payments no customer could be matched to
+authenticatedRoutes.get('/suspense', requirePermission('payments:view_electronic'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const result = await listUnallocatedPayments(tenantId, {
+        page: parseInt(c.req.query('page') ?? '1'),
+        pageSize: parseInt(c.req.query('pageSize') ?? '20'),
+        search: c.req.query('search'),
+    });
+
+    return c.json({
+        payments: result.payments.map((p) => ({
+            id: p.id,
+            transactionId: p.transactionId,
+            amount: p.amount,
+            refundedAmount: p.refundedAmount,
+            phone: p.phone,
+            account: p.account,
+            description: p.description,
+            createdAt: p.createdAt,
+        })),
+        total: result.total,
+        totalAmount: result.totalAmount,
+        page: result.page,
+        pageSize: result.pageSize,
+    });
+});
+
+// GET /api/payments/suspense/:id/candidates - Customers the payment may belong to
+authenticatedRoutes.get('/suspense/:id/candidates', requirePermission('payments:view_electronic'), async (c) => {
+    const tenantId = c.get('tenantId');
+
+    const payment = await prisma.payment.findFirst({
+        where: { id: c.req.param('id'), tenantId, status: 'UNALLOCATED' },
+    });
+    if (!payment) {
+        throw new AppError(404, 'Unallocated payment not found');
+    }
+
+    const candidates = await findAllocationCandidates(tenantId, payment, c.req.query('search'));
+
+    return c.json({
+        candidates: candidates.map((customer) => ({
+            ...customer,
+            walletBalance: Number(customer.walletBalance),
+        })),
+    });
+});
+
+// POST /api/payments/suspense/:id/allocate - Allocate an unallocated payment to one customer or split it
+authenticatedRoutes.post('/suspense/:id/allocate', requirePermission('payments:allocate'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const data = allocatePaymentSchema.parse(await c.req.json());
+
+    const payment = await prisma.payment.findFirst({
+        where: { id: c.req.param('id'), tenantId, status: 'UNALLOCATED' },
+    });
+    if (!payment) {
+        throw new AppError(404, 'Unallocated payment not found');
+    }
+    if (payment.refundReserved > 0) {
+        throw new AppError(409, 'A refund of this payment is in progress');
+    }
+
+    const amount = unallocatedAmount(payment);
+    const allocations: PaymentAllocationInput[] = data.allocations
+        ? data.allocations.map((a) => ({ customerId: a.customerId, amount: a.amount }))
+        : [{ customerId: data.customerId, amount }];
+
+    if (new Set(allocations.map((a) => a.customerId)).size !== allocations.length) {
+        throw new AppError(400, 'Each customer can only appear once');
+    }
+    if (!allocationsMatchAmount(allocations, amount)) {
+        throw new AppError(400, `Allocations must add up to KES ${amount}`);
+    }
+
+    const result = await allocatePayment(tenantId, payment.id, allocations, user.id);
+    if (!result) {
+        throw new AppError(404, 'Unallocated payment or customer not found');
+    }
+
+    await createAuditLog({
+        action: 'PAYMENT_PROCESS',
+        targetType: 'Payment',
+        targetId: result.paymentId,
+        targetName: payment.transactionId ?? result.paymentId,
+        details: `Allocated KES ${result.amount}: ${result.allocations.map((a) => `${a.username} KES ${a.amount}`).join(', ')}`,
+        user,
+    });
+
+    return c.json({
+        id: result.paymentId,
+        status: 'COMPLETED',
+        allocations: result.allocations,
+    });
+});
+
+// ============ M-PESA STATEMENT RECONCILIATION ============
+
+const MAX_STATEMENT_BYTES = 10 * 1024 * 1024;
+
+const importMissingSchema = z.object({
+    receiptNos: z.array(z.string().min(1)).min(1).optional(), // Defaults to every missing receipt
+});
+
+// POST /api/payments/reconciliation - Upload an M-Pesa org portal statement (CSV/XLSX) for a gateway
+authenticatedRoutes.post('/reconciliation', requirePermission('payments:view_electronic'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const body = await c.req.parseBody();
+    const file = body['file'];
+    const gatewayId = typeof body['gatewayId'] === 'string' ? body['gatewayId'] : '';
+
+    if (!(file instanceof File)) {
+        throw new AppError(400, 'No statement file uploaded');
+    }
+    if (file.size > MAX_STATEMENT_BYTES) {
+        throw new AppError(400, 'Statement file is too large');
+    }
+
+    const gateway = await prisma.paymentGateway.findFirst({ where: { id: gatewayId, tenantId } });
+    if (!gateway) {
+        throw new AppError(404, 'Gateway not found');
+    }
+
+    let entries: ReturnType<typeof parseStatement>;
+    try {
+        entries = parseStatement(readSpreadsheet(Buffer.from(await file.arrayBuffer())));
+    } catch (error) {
+        if (error instanceof SpreadsheetLimitError) {
+            throw new AppError(400, error.message);
+        }
+        logger.warn({ error, fileName: file.name }, 'Could not read statement file');
+        entries = null;
+    }
+    if (!entries) {
+        throw new AppError(400, 'Not an M-Pesa statement: no "Receipt No." column found');
+    }
+
+    const statement = await createStatementImport(tenantId, gateway.id, entries, {
+        fileName: file.name,
+        createdBy: user.id,
+    });
+
+    return c.json({
+        id: statement.id,
+        gatewayId: statement.gatewayId,
+        fileName: statement.fileName,
+        createdAt: statement.createdAt,
+        report: statement.report,
+    }, 201);
+});
+
+// GET /api/payments/reconciliation - Uploaded statements, newest first
+authenticatedRoutes.get('/reconciliation', requirePermission('payments:view_electronic'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const gatewayId = c.req.query('gatewayId');
+
+    const statements = await prisma.mpesaStatementImport.findMany({
+        where: { tenantId, ...(gatewayId ? { gatewayId } : {}) },
+        select: { id: true, gatewayId: true, fileName: true, periodFrom: true, periodTo: true, report: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+    });
+
+    return c.json({
+        statements: statements.map(({ report, ...statement }) => ({
+            ...statement,
+            summary: (report as { summary?: unknown })?.summary ?? null,
+        })),
+    });
+});
+
+// GET /api/payments/reconciliation/:id - Full reconciliation report of a statement
+authenticatedRoutes.get('/reconciliation/:id', requirePermission('payments:view_electronic'), async (c) => {
+    const tenantId = c.get('tenantId');
+
+    const statement = await prisma.mpesaStatementImport.findFirst({
+        where: { id: c.req.param('id'), tenantId },
+    });
+    if (!statement) {
+        throw new AppError(404, 'Statement not found');
+    }
+
+    return c.json({
+        id: statement.id,
+        gatewayId: statement.gatewayId,
+        fileName: statement.fileName,
+        createdAt: statement.createdAt,
+        report: statement.report,
+    });
+});
+
+// POST /api/payments/reconciliation/:id/import - Credit receipts the system is missing
+authenticatedRoutes.post('/reconciliation/:id/import', requirePermission('payments:view_electronic'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const { receiptNos } = importMissingSchema.parse(await c.req.json().catch(() => ({})));
+
+    const result = await importMissingEntries(tenantId, c.req.param('id'), receiptNos);
+    if (!result) {
+        throw new AppError(404, 'Statement not found');
+    }
+
+    await createAuditLog({
+        action: 'PAYMENT_PROCESS',
+        targetType: 'Payment',
+        targetId: c.req.param('id'),
+        targetName: 'M-Pesa statement',
+        details: `Imported ${result.imported} missing M-Pesa payment(s) from statement${result.failed ? `, ${result.failed} failed` : ''}`,
+        user,
+    });
+
+    return c.json(result);
+});
+
+// ============ REFUNDS ============
+
+const refundPaymentSchema = z.object({
+    method: z.enum(['B2C', 'REVERSAL']),
+    amount: z.number().int().positive().optional(), // M-Pesa only moves whole shillings
+    phone: z.string().optional(),
+    reason: z.string().max(100).optional(),
+    gatewayId: z.string().uuid().optional(),
+});
+
+// POST /api/payments/:id/refund - Refund an M-Pesa payment by B2C payout or reversal
+authenticatedRoutes.post('/:id/refund', requireRole('ADMIN', 'SUPER_ADMIN'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const data = refundPaymentSchema.parse(await c.req.json());
+
+    const payment = await prisma.payment.findFirst({
+        where: { id: c.req.param('id'), tenantId },
+        include: { customer: { select: { username: true } } },
+    });
+    if (!payment) {
+        throw new AppError(404, 'Payment not found');
+    }
+
+    const result = await requestRefund(tenantId, payment.id, data as RefundRequest, user.id);
+    if (!result.refund) {
+        throw new AppError(400, result.message);
+    }
+
+    await createAuditLog({
+        action: 'PAYMENT_REFUND',
+        targetType: 'Payment',
+        targetId: payment.id,
+        targetName: payment.customer?.username ?? payment.transactionId ?? payment.id,
+        details: `${data.method === 'REVERSAL' ? 'Reversal' : 'B2C refund'} of KES ${result.refund.amount}${result.success ? ' requested' : ` failed: ${result.message}`}${data.reason ? ` (${data.reason})` : ''}`,
+        user,
+    });
+
+    if (!result.success) {
+        throw new AppError(502, result.message);
+    }
+
+    const { callbackToken, ...refund } = result.refund;
+    return c.json({ message: result.message, refund }, 202);
+});
+
+// GET /api/payments/:id/refunds - Refunds of a payment
+authenticatedRoutes.get('/:id/refunds', requirePermission('payments:view_electronic'), async (c) => {
+    const tenantId = c.get('tenantId');
+
+    const payment = await prisma.payment.findFirst({
+        where: { id: c.req.param('id'), tenantId },
+        select: { id: true, amount: true, refundedAmount: true, status: true },
+    });
+    if (!payment) {
+        throw new AppError(404, 'Payment not found');
+    }
+
+    const refunds = await prisma.paymentRefund.findMany({
+        where: { paymentId: payment.id },
+        orderBy: { createdAt: 'desc' },
+    });
+
+    return c.json({
+        paymentId: payment.id,
+        amount: payment.amount,
+        refundedAmount: payment.refundedAmount,
+        status: payment.status.toLowerCase(),
+        refunds: refunds.map(({ callbackToken, ...refund }) => refund),
+    });
+});
+
+const sendReceiptSchema = z.object({
+    phone: z.string().min(9).optional(),
+});
+
+// GET /api/payments/:id/receipt - Printable PDF receipt
+authenticatedRoutes.get('/:id/receipt', requirePermission('payments:view_manual'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const file = await renderReceiptPdf(tenantId, c.req.param('id'));
+
+    if (!file) {
+        throw new AppError(404, 'Payment not found');
+    }
+
+    c.header('Content-Type', 'application/pdf');
+    c.header('Content-Disposition', `inline; filename="${file.filename}"`);
+    return c.body(new Uint8Array(file.content));
+});
+
+// POST /api/payments/:id/receipt/send - Text the payer a receipt download link
+authenticatedRoutes.post('/:id/receipt/send', requirePermission('payments:view_manual'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const { phone } = sendReceiptSchema.parse(await c.req.json().catch(() => ({})));
+
+    const payment = await prisma.payment.findFirst({
+        where: { id: c.req.param('id'), tenantId, status: 'COMPLETED' },
+        include: { customer: { select: { phone: true } } },
+    });
+
+    if (!payment) {
+        throw new AppError(404, 'Payment not found');
+    }
+
+    const recipient = phone ?? payment.customer?.phone ?? payment.phone;
+    if (!recipient) {
+        throw new AppError(400, 'No phone number to send the receipt to');
+    }
+
+    const receiptNo = getReceiptNo(payment);
+    const result = await sendDocumentLink('RECEIPT', payment.id, tenantId, recipient, receiptNo);
+    if (!result.success) {
+        throw new AppError(502, result.error ?? 'Failed to send SMS');
+    }
+
+    await createAuditLog({
+        action: 'SMS_SEND',
+        targetType: 'Payment',
+        targetId: payment.id,
+        targetName: receiptNo,
+        details: `Receipt link sent to ${recipient}`,
+        user,
+    });
+
+    return c.json({ success: true, url: result.url });
+});
+
+// ============ REFUND RESULT WEBHOOKS (No Auth - Token Based) ============
+// Registered before the authenticated routes: their '*' auth middleware would
+// otherwise answer Daraja's callbacks with a 401.
+
+const refundResultSchema = z.object({
+    Result: z.object({
+        ResultType: z.number().optional(),
+        ResultCode: z.union([z.number(), z.string()]),
+        ResultDesc: z.string().optional(),
+        OriginatorConversationID: z.string().optional(),
+        ConversationID: z.string().optional(),
+        TransactionID: z.string().optional(),
+    }),
+});
+
+// POST /api/payments/webhooks/refund/:id/:token/result - B2C/reversal result
+// (no auth - the per-refund token in the URL is the credential)
+paymentRoutes.post('/webhooks/refund/:id/:token/result', async (c) => {
+    const { id, token } = c.req.param();
+
+    try {
+        const rawBody = await c.req.json();
+        logger.info({ body: rawBody, refundId: id }, 'M-Pesa refund result received');
+
+        const refund = await findRefundForCallback(id, token);
+        if (!refund) {
+            logger.warn({ refundId: id }, 'M-Pesa refund result for unknown refund');
+            return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+        }
+
+        const { Result } = refundResultSchema.parse(rawBody);
+        await handleRefundResult(refund, Result as DarajaResult);
+        return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+    } catch (error) {
+        logger.error({ error, refundId: id }, 'M-Pesa refund result processing error');
+        return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+    }
+});
+
+// POST /api/payments/webhooks/refund/:id/:token/timeout - Refund timed out in the Daraja queue
+paymentRoutes.post('/webhooks/refund/:id/:token/timeout', async (c) => {
+    const { id, token } = c.req.param();
+
+    try {
+        const refund = await findRefundForCallback(id, token);
+        if (!refund) {
+            logger.warn({ refundId: id }, 'M-Pesa refund timeout for unknown refund');
+            return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+        }
+
+        await handleRefundTimeout(refund);
+        return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+    } catch (error) {
+        logger.error({ error, refundId: id }, 'M-Pesa refund timeout processing error');
+        return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+    }
+});
+
 // Mount authenticated routes
 paymentRoutes.route('/', authenticatedRoutes);
 
@@ -363,46 +810,40 @@ paymentRoutes.post('/webhooks/mpesa', async (c) => {
         });
 
         if (!customer) {
-            logger.warn({ phone }, 'M-Pesa payment received but no customer found');
-            // Still record the payment
-            await prisma.payment.create({
-                data: {
-                    amount,
-                    method: 'MPESA',
-                    status: 'COMPLETED',
-                    transactionId: mpesaReceiptNumber,
-                    phone,
-                    description: 'M-Pesa payment - customer not found',
-                    tenantId: process.env['DEFAULT_TENANT_ID'] ?? '',
-                },
+            // Hold the money in suspense so staff can allocate it by hand
+            const tenantId = process.env['DEFAULT_TENANT_ID'];
+            if (!tenantId) {
+                logger.error({ phone, transactionId: mpesaReceiptNumber }, 'M-Pesa payment has no customer and DEFAULT_TENANT_ID is not set');
+                return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+            }
+
+            await recordUnallocatedPayment({
+                tenantId,
+                amount,
+                method: 'MPESA',
+                transactionId: mpesaReceiptNumber,
+                phone,
+                description: 'M-Pesa payment - customer not found',
             });
             return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
         }
 
-        // Create payment and update customer wallet
-        await prisma.$transaction([
-            prisma.payment.create({
-                data: {
-                    amount,
-                    method: 'MPESA',
-                    status: 'COMPLETED',
-                    transactionId: mpesaReceiptNumber,
-                    phone,
-                    account: customer.username,
-                    customerId: customer.id,
-                    tenantId: customer.tenantId,
-                },
-            }),
-            prisma.customer.update({
-                where: { id: customer.id },
-                data: {
-                    walletBalance: { increment: amount },
-                    totalSpent: { increment: amount },
-                },
-            }),
-        ]);
-
-        logger.info({ customer: customer.username, amount }, 'M-Pesa payment processed successfully');
+        // Create payment, credit the customer wallet and renew if due
+        const result = await recordWalletPayment({
+            customerId: customer.id,
+            amount,
+            method: 'MPESA',
+            transactionId: mpesaReceiptNumber,
+            phone,
+            description: 'M-Pesa payment',
+        });
+
+        logger.info({
+            customer: customer.username,
+            amount,
+            walletBalance: result.walletBalance,
+            renewed: result.renewal.renewed,
+        }, 'M-Pesa payment processed successfully');
         return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
     } catch (error) {
         logger.error({ error }, 'M-Pesa webhook processing error');
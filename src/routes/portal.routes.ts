@@ -1,17 +1,21 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
+import type { PaymentMethod, Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { logger } from '../lib/logger.js';
 import {
-    initiateSTKPush,
-    querySTKStatus,
     parseMpesaSms,
+    parseStkCallback,
     createHotspotCustomerFromPayment,
     formatPhoneNumber,
     getTenantMpesaConfig,
     validateBuyGoodsConfig,
 } from '../services/mpesa.service.js';
+import { paymentProviderService } from '../services/payment-provider.service.js';
+import { recordWalletPayment } from '../services/renewal.service.js';
+import { creditRedemptionCommission } from '../services/reseller.service.js';
+import { createLoginToken, getValidLoginTokens, verifyCustomerPassword } from '../services/credential.service.js';
 
 export const portalRoutes = new Hono();
 
@@ -97,11 +101,15 @@ portalRoutes.get('/check-session', async (c) => {
         remainingMinutes
     }, 'Found active session for MAC');
 
+    // Short-lived token for auto-login, accepted by RADIUS in place of the password
+    const loginToken = createLoginToken(customer.id, now);
+
     return c.json({
         hasActiveSession: true,
         customer: {
             username: customer.username,
-            password: customer.password, // For auto-login
+            loginToken: loginToken.token,
+            tokenExpiresAt: loginToken.expiresAt,
             name: customer.name,
             packageName: customer.package?.name,
             expiresAt: customer.expiresAt,
@@ -138,6 +146,13 @@ portalRoutes.post('/login', async (c) => {
         throw new AppError(401, 'Invalid credentials');
     }
 
+    // Accept the password or a login token from check-session
+    const validPassword = getValidLoginTokens(customer.id).includes(password) ||
+        await verifyCustomerPassword(customer, password);
+    if (!validPassword) {
+        throw new AppError(401, 'Invalid credentials');
+    }
+
     // Check if customer is active
     if (customer.status !== 'ACTIVE') {
         throw new AppError(403, `Account ${customer.status.toLowerCase()}`);
@@ -148,9 +163,6 @@ portalRoutes.post('/login', async (c) => {
         throw new AppError(403, 'Subscription expired');
     }
 
-    // TODO: Verify password (would need password field or RADIUS auth)
-    // For now, just check if password matches username or phone (for demo)
-
     // Create or update session
     const session = await prisma.session.create({
         data: {
@@ -277,17 +289,29 @@ portalRoutes.post('/voucher', async (c) => {
         throw new AppError(404, 'Invalid or unavailable voucher');
     }
 
+    if (voucher.expiresAt && voucher.expiresAt < new Date()) {
+        await prisma.voucher.updateMany({
+            where: { id: voucher.id, status: 'AVAILABLE' },
+            data: { status: 'EXPIRED' },
+        });
+        throw new AppError(400, 'Voucher has expired');
+    }
+
     // Create a temporary customer/session for the voucher
     const username = `V-${code.toUpperCase()}`;
 
-    // Mark voucher as used
-    await prisma.voucher.update({
-        where: { id: voucher.id },
+    // Claim the voucher so a concurrent redemption or batch revoke can't use it too
+    const claimed = await prisma.voucher.updateMany({
+        where: { id: voucher.id, status: 'AVAILABLE' },
         data: {
             status: 'USED',
             usedAt: new Date(),
         },
     });
+    if (claimed.count === 0) {
+        throw new AppError(404, 'Invalid or unavailable voucher');
+    }
+    await creditRedemptionCommission(voucher.id);
 
     // Create session
     const session = await prisma.session.create({
@@ -369,6 +393,7 @@ const mpesaInitiateSchema = z.object({
     packageId: z.string().uuid(),
     macAddress: z.string().optional(),
     nasIp: z.string().optional(),
+    returnUrl: z.string().url().optional(), // Card checkouts come back here
 });
 
 const mpesaVerifySmsSchema = z.object({
@@ -379,6 +404,13 @@ const mpesaVerifySmsSchema = z.object({
     nasIp: z.string().optional(),
 });
 
+const expiredPaySchema = z.object({
+    tenantId: z.string().uuid(),
+    username: z.string().min(1),
+    phone: z.string().min(9),
+    returnUrl: z.string().url().optional(),
+});
+
 // GET /api/portal/mpesa/check - Check if tenant has M-Pesa configured
 portalRoutes.get('/mpesa/check', async (c) => {
     const tenantId = c.req.query('tenantId');
@@ -431,7 +463,7 @@ portalRoutes.get('/mpesa/validate', async (c) => {
     });
 });
 
-// POST /api/portal/mpesa/initiate - Initiate STK push for package purchase
+// POST /api/portal/mpesa/initiate - Start a package purchase on the tenant's hotspot payment provider
 portalRoutes.post('/mpesa/initiate', async (c) => {
     const body = await c.req.json();
     const data = mpesaInitiateSchema.parse(body);
@@ -445,51 +477,60 @@ portalRoutes.post('/mpesa/initiate', async (c) => {
         throw new AppError(404, 'Package not found');
     }
 
-    try {
-        // Use cleaned, stripped MAC address as Account Reference (max 12 chars) if available
-        const accountRef = data.macAddress
-            ? data.macAddress.replace(/[^A-Fa-f0-9]/g, '').substring(0, 12).toUpperCase()
-            : `HS-${pkg.name.substring(0, 9)}`;
+    const selected = await paymentProviderService.getProviderForPurpose(data.tenantId, 'HOTSPOT');
+    if (!selected) {
+        throw new AppError(400, 'No payment gateway configured for this tenant');
+    }
+    const { gateway, provider } = selected;
+
+    // Use cleaned, stripped MAC address as Account Reference (max 12 chars) if available
+    const accountRef = data.macAddress
+        ? data.macAddress.replace(/[^A-Fa-f0-9]/g, '').substring(0, 12).toUpperCase()
+        : `HS-${pkg.name.substring(0, 9)}`;
+
+    const response = await provider.initiatePayment({
+        phone: data.phone,
+        amount: pkg.price,
+        accountReference: accountRef,
+        description: `Hotspot: ${pkg.name}`,
+        returnUrl: data.returnUrl ?? paymentProviderService.getCallbackUrl(gateway.id),
+    });
 
-        // Initiate STK push
-        const response = await initiateSTKPush(
-            data.tenantId,
-            data.phone,
-            pkg.price,
-            accountRef,
-            `Hotspot: ${pkg.name}`
-        );
+    if (!response.success || !response.reference) {
+        logger.error({ error: response.error, tenantId: data.tenantId, provider: provider.name }, 'Failed to initiate hotspot payment');
+        throw new AppError(500, response.error || 'Failed to initiate payment');
+    }
 
-        // Create pending payment record
-        const pendingPayment = await prisma.pendingHotspotPayment.create({
-            data: {
-                checkoutRequestId: response.CheckoutRequestID,
-                merchantRequestId: response.MerchantRequestID,
-                phone: formatPhoneNumber(data.phone),
-                amount: pkg.price,
-                packageId: data.packageId,
-                macAddress: data.macAddress,
-                nasIp: data.nasIp,
-                tenantId: data.tenantId,
-                expiresAt: new Date(Date.now() + 5 * 60 * 1000), // 5 minutes
-            },
-        });
+    // Create pending payment record
+    await prisma.pendingHotspotPayment.create({
+        data: {
+            checkoutRequestId: response.reference,
+            merchantRequestId: response.providerReference ?? response.reference,
+            phone: formatPhoneNumber(data.phone),
+            amount: pkg.price,
+            packageId: data.packageId,
+            macAddress: data.macAddress,
+            nasIp: data.nasIp,
+            gatewayId: gateway.id,
+            tenantId: data.tenantId,
+            expiresAt: new Date(Date.now() + 5 * 60 * 1000), // 5 minutes
+        },
+    });
 
-        logger.info({
-            checkoutRequestId: response.CheckoutRequestID,
-            packageName: pkg.name,
-            phone: formatPhoneNumber(data.phone)
-        }, 'M-Pesa STK Push initiated for hotspot');
+    logger.info({
+        checkoutRequestId: response.reference,
+        provider: provider.name,
+        packageName: pkg.name,
+        phone: formatPhoneNumber(data.phone)
+    }, 'Hotspot payment initiated');
 
-        return c.json({
-            success: true,
-            checkoutRequestId: response.CheckoutRequestID,
-            message: response.CustomerMessage,
-        });
-    } catch (error) {
-        logger.error({ error, tenantId: data.tenantId }, 'Failed to initiate STK push');
-        throw new AppError(500, error instanceof Error ? error.message : 'Failed to initiate payment');
-    }
+    return c.json({
+        success: true,
+        checkoutRequestId: response.reference,
+        provider: provider.name,
+        redirectUrl: response.redirectUrl,
+        message: response.message,
+    });
 });
 
 // GET /api/portal/mpesa/status - Check payment status by CheckoutRequestID
@@ -504,13 +545,18 @@ portalRoutes.get('/mpesa/status', async (c) => {
     // First check our database
     const pendingPayment = await prisma.pendingHotspotPayment.findUnique({
         where: { checkoutRequestId },
-        include: { package: true },
+        include: { package: true, gateway: true },
     });
 
     if (!pendingPayment) {
         throw new AppError(404, 'Payment not found');
     }
 
+    // Renewals don't hand out credentials - the existing account is reconnected
+    if (pendingPayment.purpose === 'RENEWAL' && pendingPayment.status === 'COMPLETED') {
+        return c.json({ status: 'completed', package: pendingPayment.package.name });
+    }
+
     // If already completed, return success
     if (pendingPayment.status === 'COMPLETED' && pendingPayment.transactionCode) {
         return c.json({
@@ -537,89 +583,87 @@ portalRoutes.get('/mpesa/status', async (c) => {
         return c.json({ status: 'expired' });
     }
 
-    // Query M-Pesa for status (fallback if callback wasn't received)
-    try {
-        const mpesaStatus = await querySTKStatus(tenantId, checkoutRequestId);
+    // Query the provider for status (fallback if callback wasn't received)
+    const provider = await getPendingPaymentProvider(pendingPayment);
 
-        if (mpesaStatus.ResultCode === '0') {
-            // Payment successful! But first, re-check if callback already processed it
-            const freshPayment = await prisma.pendingHotspotPayment.findUnique({
-                where: { checkoutRequestId },
-                include: { package: true },
+    if (!provider) {
+        return c.json({ status: 'pending' });
+    }
+
+    const providerStatus = await provider.queryPayment(checkoutRequestId);
+
+    if (providerStatus.status === 'COMPLETED') {
+        // Payment successful! But first, re-check if callback already processed it
+        const freshPayment = await prisma.pendingHotspotPayment.findUnique({
+            where: { checkoutRequestId },
+            include: { package: true },
+        });
+
+        // If already completed by callback, return the existing credentials
+        if (freshPayment?.status === 'COMPLETED' && freshPayment.transactionCode) {
+            logger.info({ checkoutRequestId }, 'Payment already completed by callback - returning existing credentials');
+
+            // Get the customer that was created
+            const existingCustomer = freshPayment.customerId
+                ? await prisma.customer.findUnique({ where: { id: freshPayment.customerId } })
+                : null;
+
+            return c.json({
+                status: 'completed',
+                username: existingCustomer?.username || freshPayment.transactionCode,
+                password: existingCustomer ? createLoginToken(existingCustomer.id).token : freshPayment.transactionCode,
+                package: freshPayment.package.name,
             });
+        }
 
-            // If already completed by callback, return the existing credentials
-            if (freshPayment?.status === 'COMPLETED' && freshPayment.transactionCode) {
-                logger.info({ checkoutRequestId }, 'Payment already completed by callback - returning existing credentials');
-
-                // Get the customer that was created
-                const existingCustomer = freshPayment.customerId
-                    ? await prisma.customer.findUnique({ where: { id: freshPayment.customerId } })
-                    : null;
-
-                return c.json({
-                    status: 'completed',
-                    username: existingCustomer?.username || freshPayment.transactionCode,
-                    password: existingCustomer?.password || freshPayment.transactionCode,
-                    package: freshPayment.package.name,
-                });
-            }
+        // Callback may not have been received - complete the payment now
+        logger.info({ checkoutRequestId, providerStatus, provider: provider.name }, 'Provider query shows successful payment - completing via polling');
 
-            // Callback may not have been received - complete the payment now
-            logger.info({ checkoutRequestId, mpesaStatus }, 'M-Pesa query shows successful payment - completing via polling');
-
-            // Generate a receipt code from checkoutRequestId if not available
-            const generatedReceipt = `HP${Date.now().toString(36).toUpperCase()}`;
-
-            try {
-                // Create hotspot customer
-                const result = await createHotspotCustomerFromPayment(
-                    tenantId,
-                    generatedReceipt,
-                    pendingPayment.phone,
-                    pendingPayment.packageId,
-                    pendingPayment.amount,
-                    pendingPayment.macAddress || undefined
-                );
-
-                // Update pending payment
-                await prisma.pendingHotspotPayment.update({
-                    where: { id: pendingPayment.id },
-                    data: {
-                        status: 'COMPLETED',
-                        transactionCode: generatedReceipt,
-                        customerId: result.customerId,
-                    },
-                });
-
-                logger.info({
-                    checkoutRequestId,
-                    username: result.username,
-                    generatedReceipt
-                }, 'Payment completed via status polling');
-
-                return c.json({
-                    status: 'completed',
-                    username: result.username,
-                    password: result.password,
-                    package: pendingPayment.package.name,
-                });
-            } catch (createError) {
-                logger.error({ createError, checkoutRequestId }, 'Failed to create customer from status poll');
-                return c.json({ status: 'pending', message: 'Payment confirmed, processing...' });
+        // M-Pesa's STK query has no receipt number, so generate one
+        const transactionCode = providerStatus.transactionId ?? `HP${Date.now().toString(36).toUpperCase()}`;
+
+        try {
+            const settled = await settlePendingPayment(pendingPayment, {
+                transactionCode,
+                amount: providerStatus.amount ?? pendingPayment.amount,
+                phone: pendingPayment.phone,
+                method: provider.method,
+                provider: provider.name,
+            });
+
+            if (settled.outcome === 'UNDERPAID') {
+                return c.json({ status: 'failed', message: 'Payment amount is less than the package price' });
             }
-        } else if (mpesaStatus.ResultCode) {
-            // Payment failed
-            await prisma.pendingHotspotPayment.update({
-                where: { id: pendingPayment.id },
-                data: { status: 'FAILED' },
+            if (settled.outcome !== 'CREATED') {
+                return c.json({ status: settled.outcome === 'RENEWED' ? 'completed' : 'pending', package: pendingPayment.package.name });
+            }
+
+            logger.info({
+                checkoutRequestId,
+                username: settled.customer.username,
+                transactionCode
+            }, 'Payment completed via status polling');
+
+            return c.json({
+                status: 'completed',
+                username: settled.customer.username,
+                password: settled.customer.password,
+                package: pendingPayment.package.name,
             });
-            return c.json({ status: 'failed', message: mpesaStatus.ResultDesc });
+        } catch (createError) {
+            logger.error({ createError, checkoutRequestId }, 'Failed to create customer from status poll');
+            return c.json({ status: 'pending', message: 'Payment confirmed, processing...' });
         }
-    } catch {
-        // M-Pesa query failed, continue polling
+    } else if (providerStatus.status === 'FAILED') {
+        // Payment failed
+        await prisma.pendingHotspotPayment.update({
+            where: { id: pendingPayment.id },
+            data: { status: 'FAILED' },
+        });
+        return c.json({ status: 'failed', message: providerStatus.message });
     }
 
+    // Provider query failed or payment still in progress, continue polling
     return c.json({ status: 'pending' });
 });
 
@@ -726,17 +770,17 @@ portalRoutes.post('/mpesa/callback', async (c) => {
         const rawBody = await c.req.json();
         logger.info({ body: rawBody }, 'M-Pesa hotspot callback received');
 
-        const stkCallback = rawBody?.Body?.stkCallback;
-        if (!stkCallback) {
+        const callback = parseStkCallback(rawBody);
+        if (!callback) {
             return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
         }
 
-        const { CheckoutRequestID, ResultCode, CallbackMetadata } = stkCallback;
+        const CheckoutRequestID = callback.checkoutRequestId;
 
         // Find the pending payment
         const pendingPayment = await prisma.pendingHotspotPayment.findUnique({
             where: { checkoutRequestId: CheckoutRequestID },
-            include: { package: true },
+            include: { package: true, gateway: true },
         });
 
         if (!pendingPayment) {
@@ -744,108 +788,377 @@ portalRoutes.post('/mpesa/callback', async (c) => {
             return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
         }
 
+        if (pendingPayment.status !== 'PENDING') {
+            return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+        }
+
         // If payment failed
-        if (ResultCode !== 0) {
+        if (callback.resultCode !== 0) {
             await prisma.pendingHotspotPayment.update({
                 where: { id: pendingPayment.id },
                 data: { status: 'FAILED' },
             });
-            logger.info({ CheckoutRequestID, ResultCode }, 'M-Pesa hotspot payment failed');
+            logger.info({ CheckoutRequestID, ResultCode: callback.resultCode }, 'M-Pesa hotspot payment failed');
             return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
         }
 
-        // Extract transaction details from callback
-        const metadata = CallbackMetadata?.Item ?? [];
-        const getMetaValue = (name: string): string | number | undefined => {
-            const item = metadata.find((m: { Name: string }) => m.Name === name);
-            return item?.Value;
-        };
-
-        const mpesaReceiptNumber = String(getMetaValue('MpesaReceiptNumber') ?? '');
-        const amount = Number(getMetaValue('Amount')) || pendingPayment.amount;
-        const phone = String(getMetaValue('PhoneNumber') ?? pendingPayment.phone);
-        const transactionType = String(getMetaValue('TransactionType') ?? 'Unknown');
-
+        const mpesaReceiptNumber = callback.receipt;
         if (!mpesaReceiptNumber) {
             logger.error({ CheckoutRequestID }, 'No receipt number in callback');
             return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
         }
 
-        // Security: Check for duplicate receipt (replay attack prevention)
-        const existingPayment = await prisma.payment.findFirst({
-            where: { transactionId: mpesaReceiptNumber },
-        });
+        // The callback is unsigned and anyone holding a CheckoutRequestID can post one,
+        // so confirm with Daraja before handing out access or crediting a wallet
+        const provider = await getPendingPaymentProvider(pendingPayment);
+        const status = provider ? await provider.queryPayment(CheckoutRequestID) : null;
 
-        if (existingPayment) {
-            logger.warn({
-                CheckoutRequestID,
-                mpesaReceiptNumber,
-                existingPaymentId: existingPayment.id
-            }, 'Duplicate M-Pesa receipt detected - possible replay attack');
+        if (status?.status === 'FAILED') {
+            await prisma.pendingHotspotPayment.update({
+                where: { id: pendingPayment.id },
+                data: { status: 'FAILED' },
+            });
+            logger.warn({ CheckoutRequestID, message: status.message }, 'M-Pesa callback reported success but the STK query says it failed');
+            return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+        }
+
+        if (status?.status !== 'COMPLETED') {
+            // Status polling settles it once Daraja confirms
+            logger.warn({ CheckoutRequestID, error: status?.error }, 'M-Pesa callback could not be confirmed yet');
             return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
         }
 
-        // Security: Validate amount matches or exceeds package price
-        if (amount < pendingPayment.package.price) {
-            logger.error({
+        // The STK push asked for exactly the pending amount
+        const settled = await settlePendingPayment(pendingPayment, {
+            transactionCode: mpesaReceiptNumber,
+            amount: pendingPayment.amount,
+            phone: callback.phone ?? pendingPayment.phone,
+            method: 'MPESA',
+            provider: 'M-Pesa',
+        });
+
+        if (settled.outcome === 'CREATED') {
+            logger.info({
                 CheckoutRequestID,
                 mpesaReceiptNumber,
-                receivedAmount: amount,
-                requiredAmount: pendingPayment.package.price,
-                packageName: pendingPayment.package.name
-            }, 'Payment amount less than package price - rejecting');
+                username: settled.customer.username,
+                expiresAt: settled.customer.expiresAt,
+                transactionType: callback.transactionType ?? 'Unknown'
+            }, 'M-Pesa hotspot payment completed - customer created successfully');
+        } else if (settled.outcome === 'RENEWED') {
+            logger.info({ CheckoutRequestID, mpesaReceiptNumber, customerId: pendingPayment.customerId }, 'M-Pesa renewal payment completed');
+        }
+
+        return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+    } catch (error) {
+        logger.error({ error }, 'M-Pesa callback processing error');
+        return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+    }
+});
+
+// GET /api/portal/payments/callback/:gatewayId - Where card checkouts return without a portal returnUrl
+portalRoutes.get('/payments/callback/:gatewayId', async (c) => {
+    return c.json({ success: true, message: 'Payment received. Return to the portal to get connected.' });
+});
+
+// POST /api/portal/payments/callback/:gatewayId - Airtel Money, Paystack and Flutterwave webhooks
+portalRoutes.post('/payments/callback/:gatewayId', async (c) => {
+    const { gatewayId } = c.req.param();
+
+    try {
+        const rawBody = await c.req.text();
+
+        const gateway = await prisma.paymentGateway.findUnique({ where: { id: gatewayId } });
+        const provider = gateway ? paymentProviderService.getAdapter(gateway) : null;
+        if (!gateway || !provider) {
+            logger.warn({ gatewayId }, 'Payment callback for unknown gateway');
+            return c.json({ received: true });
+        }
 
+        // Null for unsigned/forged bodies and events we don't act on
+        const callback = provider.parseCallback(rawBody, c.req.header());
+        if (!callback) {
+            logger.warn({ gatewayId, provider: provider.name }, 'Payment callback ignored');
+            return c.json({ received: true });
+        }
+
+        const pendingPayment = await prisma.pendingHotspotPayment.findFirst({
+            where: { checkoutRequestId: callback.reference, gatewayId },
+            include: { package: true },
+        });
+
+        if (!pendingPayment || pendingPayment.status !== 'PENDING') {
+            return c.json({ received: true });
+        }
+
+        // Not every provider signs its callbacks - confirm with the provider before handing out access
+        const status = await provider.queryPayment(callback.reference);
+
+        if (status.status === 'FAILED') {
             await prisma.pendingHotspotPayment.update({
                 where: { id: pendingPayment.id },
                 data: { status: 'FAILED' },
             });
-            return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+            logger.info({ reference: callback.reference, provider: provider.name, message: status.message }, 'Portal payment failed');
+            return c.json({ received: true });
         }
 
-        logger.info({
-            CheckoutRequestID,
-            mpesaReceiptNumber,
-            amount,
-            phone,
-            transactionType,
-            packageName: pendingPayment.package.name,
-            tenantId: pendingPayment.tenantId
-        }, 'M-Pesa callback validated - creating hotspot customer');
+        if (status.status !== 'COMPLETED') {
+            return c.json({ received: true });
+        }
 
-        // Create hotspot customer
-        const result = await createHotspotCustomerFromPayment(
-            pendingPayment.tenantId,
-            mpesaReceiptNumber,
-            phone,
-            pendingPayment.packageId,
-            amount,
-            pendingPayment.macAddress || undefined
-        );
+        const settled = await settlePendingPayment(pendingPayment, {
+            transactionCode: status.transactionId ?? callback.transactionId ?? callback.reference,
+            amount: status.amount ?? pendingPayment.amount,
+            phone: callback.phone ?? pendingPayment.phone,
+            method: provider.method,
+            provider: provider.name,
+        });
+
+        logger.info({ reference: callback.reference, provider: provider.name, outcome: settled.outcome }, 'Portal payment callback processed');
+    } catch (error) {
+        logger.error({ error, gatewayId }, 'Payment callback processing error');
+    }
+
+    return c.json({ received: true });
+});
+
+// ============ EXPIRED PPPOE WALLED GARDEN ============
+
+// GET /api/portal/expired/account - Amount due for an expired subscriber
+// Anyone can look up any username here, so it returns only what the payment
+// page needs: no name, status, expiry or wallet balance.
+portalRoutes.get('/expired/account', async (c) => {
+    const tenantId = c.req.query('tenantId');
+    const username = c.req.query('username');
+
+    if (!tenantId || !username) {
+        throw new AppError(400, 'tenantId and username required');
+    }
+
+    const customer = await prisma.customer.findFirst({
+        where: { tenantId, username, deletedAt: null },
+        include: { package: { select: { name: true, price: true } } },
+    });
+
+    if (!customer) {
+        throw new AppError(404, 'Account not found');
+    }
+
+    const price = customer.package?.price ?? 0;
+
+    return c.json({
+        username: customer.username,
+        package: customer.package,
+        amountDue: Math.max(0, Math.ceil(price - customer.walletBalance)),
+    });
+});
+
+// POST /api/portal/expired/pay - Start a payment to renew an expired subscriber
+portalRoutes.post('/expired/pay', async (c) => {
+    const body = await c.req.json();
+    const data = expiredPaySchema.parse(body);
+
+    const customer = await prisma.customer.findFirst({
+        where: { tenantId: data.tenantId, username: data.username, deletedAt: null },
+        include: { package: true },
+    });
+
+    if (!customer || !customer.package) {
+        throw new AppError(404, 'Account not found');
+    }
+
+    const amountDue = Math.max(1, Math.ceil(customer.package.price - customer.walletBalance));
+
+    const selected = await paymentProviderService.getProviderForPurpose(data.tenantId, 'PPPOE');
+    if (!selected) {
+        throw new AppError(400, 'No payment gateway configured for this tenant');
+    }
+    const { gateway, provider } = selected;
+
+    const response = await provider.initiatePayment({
+        phone: data.phone,
+        amount: amountDue,
+        accountReference: customer.username.substring(0, 12),
+        description: `Renewal: ${customer.package.name}`,
+        returnUrl: data.returnUrl ?? paymentProviderService.getCallbackUrl(gateway.id),
+    });
+
+    if (!response.success || !response.reference) {
+        logger.error({ error: response.error, tenantId: data.tenantId, provider: provider.name }, 'Failed to initiate renewal payment');
+        throw new AppError(500, response.error || 'Failed to initiate payment');
+    }
+
+    await prisma.pendingHotspotPayment.create({
+        data: {
+            checkoutRequestId: response.reference,
+            merchantRequestId: response.providerReference ?? response.reference,
+            phone: formatPhoneNumber(data.phone),
+            amount: amountDue,
+            packageId: customer.package.id,
+            purpose: 'RENEWAL',
+            customerId: customer.id,
+            gatewayId: gateway.id,
+            tenantId: data.tenantId,
+            expiresAt: new Date(Date.now() + 5 * 60 * 1000), // 5 minutes
+        },
+    });
+
+    logger.info({
+        checkoutRequestId: response.reference,
+        provider: provider.name,
+        username: customer.username,
+        amount: amountDue,
+    }, 'Renewal payment initiated');
+
+    return c.json({
+        success: true,
+        checkoutRequestId: response.reference,
+        amount: amountDue,
+        provider: provider.name,
+        redirectUrl: response.redirectUrl,
+        message: response.message,
+    });
+});
+
+/**
+ * Credit a renewal payment to the customer's wallet, renew and reconnect them
+ */
+async function completeRenewalPayment(
+    pendingPaymentId: string,
+    customerId: string,
+    transactionCode: string,
+    amount: number,
+    phone: string,
+    method: PaymentMethod = 'MPESA',
+    provider: string = 'M-Pesa'
+): Promise<void> {
+    // Claim the pending payment first so callback and polling can't both credit it
+    const claimed = await prisma.pendingHotspotPayment.updateMany({
+        where: { id: pendingPaymentId, status: 'PENDING' },
+        data: { status: 'COMPLETED', transactionCode },
+    });
+
+    if (claimed.count === 0) {
+        return;
+    }
+
+    await recordWalletPayment({
+        customerId,
+        amount,
+        transactionId: transactionCode,
+        phone,
+        method,
+        description: `${provider} renewal (walled garden)`,
+    });
+}
+
+type PendingPortalPayment = Prisma.PendingHotspotPaymentGetPayload<{ include: { package: true } }>;
+
+/**
+ * Provider that can confirm a pending portal payment: the gateway it was
+ * started on, or the tenant's current one for older rows without a gateway
+ */
+async function getPendingPaymentProvider(
+    pendingPayment: Prisma.PendingHotspotPaymentGetPayload<{ include: { gateway: true } }>
+) {
+    const purpose = pendingPayment.purpose === 'RENEWAL' ? 'PPPOE' : 'HOTSPOT';
+    return pendingPayment.gateway
+        ? paymentProviderService.getAdapter(pendingPayment.gateway, purpose)
+        : (await paymentProviderService.getProviderForPurpose(pendingPayment.tenantId, purpose))?.provider;
+}
+
+/**
+ * Finish a pending portal payment the provider confirmed: renew the
+ * subscriber, or create the hotspot customer and hand out credentials
+ */
+async function settlePendingPayment(
+    pendingPayment: PendingPortalPayment,
+    paid: { transactionCode: string; amount: number; phone: string; method: PaymentMethod; provider: string }
+): Promise<
+    | { outcome: 'DUPLICATE' | 'UNDERPAID' | 'RENEWED' }
+    | { outcome: 'CREATED'; customer: Awaited<ReturnType<typeof createHotspotCustomerFromPayment>> }
+> {
+    // Security: Check for duplicate receipt (replay attack prevention)
+    const existingPayment = await prisma.payment.findFirst({
+        where: { transactionId: paid.transactionCode },
+    });
+
+    if (existingPayment) {
+        logger.warn({
+            checkoutRequestId: pendingPayment.checkoutRequestId,
+            transactionCode: paid.transactionCode,
+            existingPaymentId: existingPayment.id
+        }, 'Duplicate payment receipt detected - possible replay attack');
+        return { outcome: 'DUPLICATE' };
+    }
+
+    // Security: Validate amount matches or exceeds package price (renewals may top up an existing wallet)
+    if (pendingPayment.purpose !== 'RENEWAL' && paid.amount < pendingPayment.package.price) {
+        logger.error({
+            checkoutRequestId: pendingPayment.checkoutRequestId,
+            transactionCode: paid.transactionCode,
+            receivedAmount: paid.amount,
+            requiredAmount: pendingPayment.package.price,
+            packageName: pendingPayment.package.name
+        }, 'Payment amount less than package price - rejecting');
 
-        // Update pending payment
         await prisma.pendingHotspotPayment.update({
             where: { id: pendingPayment.id },
-            data: {
-                status: 'COMPLETED',
-                transactionCode: mpesaReceiptNumber,
-                customerId: result.customerId,
-            },
+            data: { status: 'FAILED' },
         });
+        return { outcome: 'UNDERPAID' };
+    }
 
-        logger.info({
-            CheckoutRequestID,
-            mpesaReceiptNumber,
-            username: result.username,
-            expiresAt: result.expiresAt,
-            transactionType
-        }, 'M-Pesa hotspot payment completed - customer created successfully');
+    // Never credit more than the payment was started for
+    const amount = Math.min(paid.amount, pendingPayment.amount);
 
-        return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
-    } catch (error) {
-        logger.error({ error }, 'M-Pesa callback processing error');
-        return c.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+    if (pendingPayment.purpose === 'RENEWAL' && pendingPayment.customerId) {
+        await completeRenewalPayment(
+            pendingPayment.id,
+            pendingPayment.customerId,
+            paid.transactionCode,
+            amount,
+            paid.phone,
+            paid.method,
+            paid.provider
+        );
+        return { outcome: 'RENEWED' };
     }
-});
+
+    logger.info({
+        checkoutRequestId: pendingPayment.checkoutRequestId,
+        transactionCode: paid.transactionCode,
+        amount,
+        phone: paid.phone,
+        provider: paid.provider,
+        packageName: pendingPayment.package.name,
+        tenantId: pendingPayment.tenantId
+    }, 'Payment validated - creating hotspot customer');
+
+    // Create hotspot customer
+    const customer = await createHotspotCustomerFromPayment(
+        pendingPayment.tenantId,
+        paid.transactionCode,
+        paid.phone,
+        pendingPayment.packageId,
+        amount,
+        pendingPayment.macAddress || undefined,
+        paid.method
+    );
+
+    // Update pending payment
+    await prisma.pendingHotspotPayment.update({
+        where: { id: pendingPayment.id },
+        data: {
+            status: 'COMPLETED',
+            transactionCode: paid.transactionCode,
+            customerId: customer.customerId,
+        },
+    });
+
+    return { outcome: 'CREATED', customer };
+}
 
 // Helper functions
 function formatDuration(minutes: number): string {
@@ -1,8 +1,12 @@
 import { Hono } from 'hono';
+import { z } from 'zod';
+import type { RadiusRealm } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, requirePermission } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { logger } from '../lib/logger.js';
+import { createAuditLog } from '../lib/audit.js';
+import { isPublicAddress } from '../lib/network.js';
 
 export const radiusRoutes = new Hono();
 
@@ -285,6 +289,154 @@ authenticatedRoutes.get('/stats', async (c) => {
     });
 });
 
+// =============================================
+// Proxy realms (partner ISPs with their own RADIUS server)
+// =============================================
+
+const realmSchema = z.object({
+    realm: z.string().min(1).regex(/^[a-zA-Z0-9.-]+$/, 'Realm may only contain letters, digits, dots and hyphens')
+        .transform((value) => value.toLowerCase()),
+    // The proxy socket is IPv4; internal addresses would let a tenant aim it at our own network
+    host: z.string().ip({ version: 'v4' })
+        .refine(isPublicAddress, 'Upstream host must be a public IPv4 address'),
+    authPort: z.number().int().min(1).max(65535).optional(),
+    acctPort: z.number().int().min(1).max(65535).optional(),
+    secret: z.string().min(4),
+    stripRealm: z.boolean().optional(),
+    isActive: z.boolean().optional(),
+});
+
+function formatRealm(realm: RadiusRealm) {
+    return {
+        id: realm.id,
+        realm: realm.realm,
+        host: realm.host,
+        authPort: realm.authPort,
+        acctPort: realm.acctPort,
+        secret: '********', // Hide secret
+        stripRealm: realm.stripRealm,
+        isActive: realm.isActive,
+        createdAt: realm.createdAt,
+        updatedAt: realm.updatedAt,
+    };
+}
+
+// GET /api/radius/realms - List proxy realms
+authenticatedRoutes.get('/realms', requirePermission('routers:view'), async (c) => {
+    const tenantId = c.get('tenantId');
+
+    const realms = await prisma.radiusRealm.findMany({
+        where: { tenantId },
+        orderBy: { realm: 'asc' },
+    });
+
+    return c.json({ realms: realms.map(formatRealm) });
+});
+
+// POST /api/radius/realms - Add a proxy realm
+authenticatedRoutes.post('/realms', requirePermission('routers:edit'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const body = await c.req.json();
+    const data = realmSchema.parse(body);
+
+    const existing = await prisma.radiusRealm.findFirst({
+        where: { tenantId, realm: data.realm },
+    });
+    if (existing) {
+        throw new AppError(409, 'Realm already exists');
+    }
+
+    const realm = await prisma.radiusRealm.create({
+        data: {
+            realm: data.realm,
+            host: data.host,
+            authPort: data.authPort ?? 1812,
+            acctPort: data.acctPort ?? 1813,
+            secret: data.secret,
+            stripRealm: data.stripRealm ?? false,
+            isActive: data.isActive ?? true,
+            tenantId,
+        },
+    });
+
+    await createAuditLog({
+        action: 'REALM_CREATE',
+        targetType: 'RadiusRealm',
+        targetId: realm.id,
+        targetName: realm.realm,
+        user,
+    });
+
+    return c.json(formatRealm(realm), 201);
+});
+
+// PUT /api/radius/realms/:id - Update a proxy realm
+authenticatedRoutes.put('/realms/:id', requirePermission('routers:edit'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const realmId = c.req.param('id');
+    const body = await c.req.json();
+    const data = realmSchema.partial().parse(body);
+
+    const existing = await prisma.radiusRealm.findFirst({
+        where: { id: realmId, tenantId },
+    });
+    if (!existing) {
+        throw new AppError(404, 'Realm not found');
+    }
+
+    if (data.realm && data.realm !== existing.realm) {
+        const taken = await prisma.radiusRealm.findFirst({
+            where: { tenantId, realm: data.realm, id: { not: realmId } },
+        });
+        if (taken) {
+            throw new AppError(409, 'Realm already exists');
+        }
+    }
+
+    const realm = await prisma.radiusRealm.update({
+        where: { id: realmId },
+        data,
+    });
+
+    await createAuditLog({
+        action: 'REALM_UPDATE',
+        targetType: 'RadiusRealm',
+        targetId: realm.id,
+        targetName: realm.realm,
+        user,
+    });
+
+    return c.json(formatRealm(realm));
+});
+
+// DELETE /api/radius/realms/:id - Remove a proxy realm
+authenticatedRoutes.delete('/realms/:id', requirePermission('routers:edit'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const realmId = c.req.param('id');
+
+    const realm = await prisma.radiusRealm.findFirst({
+        where: { id: realmId, tenantId },
+    });
+    if (!realm) {
+        throw new AppError(404, 'Realm not found');
+    }
+
+    await prisma.radiusRealm.delete({ where: { id: realmId } });
+
+    await createAuditLog({
+        action: 'REALM_DELETE',
+        targetType: 'RadiusRealm',
+        targetId: realm.id,
+        targetName: realm.realm,
+        user,
+    });
+
+    return c.json({ success: true });
+});
+
 // Mount authenticated routes
 radiusRoutes.route('/', authenticatedRoutes);
 
@@ -0,0 +1,363 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../lib/prisma.js';
+import { authMiddleware, requirePermission } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { createAuditLog } from '../lib/audit.js';
+import { renderVoucherCsv, renderVoucherSheetPdf } from '../services/document.service.js';
+import {
+    getResellerDashboard,
+    getResellerUnitPrice,
+    purchaseResellerBatch,
+    topUpFloat,
+} from '../services/reseller.service.js';
+
+const { hash } = bcrypt;
+
+export const resellerRoutes = new Hono();
+
+// Apply auth middleware to all routes
+resellerRoutes.use('*', authMiddleware);
+
+// Validation schemas
+const createResellerSchema = z.object({
+    name: z.string().min(2),
+    email: z.string().email(),
+    password: z.string().min(8),
+    phone: z.string().optional(),
+    discountPercent: z.number().min(0).max(100).optional().default(0),
+    commissionPercent: z.number().min(0).max(100).optional().default(0),
+});
+
+const updateResellerSchema = z.object({
+    name: z.string().min(2).optional(),
+    phone: z.string().optional(),
+    discountPercent: z.number().min(0).max(100).optional(),
+    commissionPercent: z.number().min(0).max(100).optional(),
+    status: z.enum(['ACTIVE', 'SUSPENDED']).optional(),
+});
+
+const topUpSchema = z.object({
+    amount: z.number().positive(),
+    method: z.enum(['CASH', 'MPESA', 'BANK_TRANSFER', 'CARD', 'OTHER']).optional().default('CASH'),
+    reference: z.string().max(100).optional(),
+});
+
+const purchaseBatchSchema = z.object({
+    packageId: z.string().uuid(),
+    quantity: z.number().int().min(1).max(500),
+    name: z.string().min(1).max(100).optional(),
+    prefix: z.string().max(10).optional(),
+});
+
+const resellerInclude = {
+    user: { select: { id: true, name: true, email: true, status: true } },
+} as const;
+
+function formatReseller(r: Awaited<ReturnType<typeof findReseller>>) {
+    return {
+        id: r.id,
+        name: r.user.name,
+        email: r.user.email,
+        phone: r.phone,
+        status: r.user.status,
+        floatBalance: r.floatBalance,
+        discountPercent: r.discountPercent,
+        commissionPercent: r.commissionPercent,
+        createdAt: r.createdAt,
+    };
+}
+
+async function findReseller(tenantId: string, id: string) {
+    const reseller = await prisma.reseller.findFirst({
+        where: { id, tenantId },
+        include: resellerInclude,
+    });
+    if (!reseller) {
+        throw new AppError(404, 'Reseller not found');
+    }
+    return reseller;
+}
+
+// The reseller account behind the logged-in agent
+async function findOwnReseller(userId: string) {
+    const reseller = await prisma.reseller.findUnique({ where: { userId } });
+    if (!reseller) {
+        throw new AppError(403, 'This account is not a reseller');
+    }
+    return reseller;
+}
+
+// ============ AGENT SELF-SERVICE ============
+
+// GET /api/resellers/me - Agent dashboard
+resellerRoutes.get('/me', requirePermission('reseller:portal'), async (c) => {
+    const reseller = await findOwnReseller(c.get('user').id);
+    return c.json(await getResellerDashboard(reseller));
+});
+
+// GET /api/resellers/me/packages - Hotspot packages with the agent's price
+resellerRoutes.get('/me/packages', requirePermission('reseller:portal'), async (c) => {
+    const reseller = await findOwnReseller(c.get('user').id);
+
+    const packages = await prisma.package.findMany({
+        where: { tenantId: reseller.tenantId, type: 'HOTSPOT', isActive: true },
+        select: { id: true, name: true, price: true, sessionTime: true, dataLimit: true },
+        orderBy: { price: 'asc' },
+    });
+
+    return c.json({
+        packages: packages.map((p) => ({
+            ...p,
+            dataLimit: p.dataLimit !== null ? Number(p.dataLimit) : null,
+            resellerPrice: getResellerUnitPrice(reseller, p.price),
+        })),
+    });
+});
+
+// POST /api/resellers/me/batches - Buy a voucher batch from the float
+resellerRoutes.post('/me/batches', requirePermission('reseller:portal'), async (c) => {
+    const user = c.get('user');
+    const reseller = await findOwnReseller(user.id);
+    const data = purchaseBatchSchema.parse(await c.req.json());
+
+    const pkg = await prisma.package.findFirst({
+        where: { id: data.packageId, tenantId: reseller.tenantId, type: 'HOTSPOT', isActive: true },
+    });
+    if (!pkg) {
+        throw new AppError(404, 'Package not found');
+    }
+
+    const result = await purchaseResellerBatch(reseller, {
+        ...data,
+        quantity: data.quantity,
+        createdById: user.id,
+        package: pkg,
+    });
+    if (!result) {
+        throw new AppError(400, 'Insufficient float balance');
+    }
+
+    await createAuditLog({
+        action: 'VOUCHER_GENERATE',
+        targetType: 'VoucherBatch',
+        targetId: result.batch.id,
+        targetName: `${result.batch.name} (${data.quantity} vouchers)`,
+        details: `Reseller purchase: ${result.cost}`,
+        user,
+    });
+
+    return c.json({
+        success: true,
+        batchId: result.batch.id,
+        count: result.codes.length,
+        cost: result.cost,
+        floatBalance: result.floatBalance,
+        codes: result.codes.slice(0, 50),
+    }, 201);
+});
+
+// GET /api/resellers/me/batches/:batchId/pdf - Print the agent's own voucher cards
+resellerRoutes.get('/me/batches/:batchId/pdf', requirePermission('reseller:portal'), async (c) => {
+    const reseller = await findOwnReseller(c.get('user').id);
+    const batch = await prisma.voucherBatch.findFirst({
+        where: { id: c.req.param('batchId'), resellerId: reseller.id },
+    });
+    if (!batch) {
+        throw new AppError(404, 'Voucher batch not found');
+    }
+
+    const file = await renderVoucherSheetPdf(reseller.tenantId, batch.id, {});
+    if (!file) {
+        throw new AppError(404, 'No unused vouchers found in this batch');
+    }
+
+    c.header('Content-Type', 'application/pdf');
+    c.header('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return c.body(new Uint8Array(file.content));
+});
+
+// GET /api/resellers/me/batches/:batchId/csv - Export the agent's own codes
+resellerRoutes.get('/me/batches/:batchId/csv', requirePermission('reseller:portal'), async (c) => {
+    const reseller = await findOwnReseller(c.get('user').id);
+    const batch = await prisma.voucherBatch.findFirst({
+        where: { id: c.req.param('batchId'), resellerId: reseller.id },
+    });
+    if (!batch) {
+        throw new AppError(404, 'Voucher batch not found');
+    }
+
+    const file = await renderVoucherCsv(reseller.tenantId, batch.id);
+    if (!file) {
+        throw new AppError(404, 'Voucher batch not found');
+    }
+
+    c.header('Content-Type', 'text/csv; charset=utf-8');
+    c.header('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return c.body(file.content);
+});
+
+// GET /api/resellers/me/transactions - Agent float statement
+resellerRoutes.get('/me/transactions', requirePermission('reseller:portal'), async (c) => {
+    const reseller = await findOwnReseller(c.get('user').id);
+    const page = parseInt(c.req.query('page') ?? '1');
+    const pageSize = parseInt(c.req.query('pageSize') ?? '20');
+
+    const [transactions, total] = await Promise.all([
+        prisma.resellerTransaction.findMany({
+            where: { resellerId: reseller.id },
+            orderBy: { createdAt: 'desc' },
+            skip: (page - 1) * pageSize,
+            take: pageSize,
+        }),
+        prisma.resellerTransaction.count({ where: { resellerId: reseller.id } }),
+    ]);
+
+    return c.json({ transactions, total, page, pageSize });
+});
+
+// ============ ADMIN ============
+
+// GET /api/resellers
+resellerRoutes.get('/', requirePermission('resellers:view'), async (c) => {
+    const tenantId = c.get('tenantId');
+
+    const resellers = await prisma.reseller.findMany({
+        where: { tenantId },
+        include: resellerInclude,
+        orderBy: { createdAt: 'desc' },
+    });
+
+    return c.json({
+        resellers: resellers.map(formatReseller),
+        total: resellers.length,
+    });
+});
+
+// POST /api/resellers - Create an agent account
+resellerRoutes.post('/', requirePermission('resellers:manage'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const data = createResellerSchema.parse(await c.req.json());
+
+    const existing = await prisma.user.findUnique({ where: { email: data.email } });
+    if (existing) {
+        throw new AppError(409, 'Email already registered');
+    }
+
+    const hashedPassword = await hash(data.password, 12);
+
+    const reseller = await prisma.reseller.create({
+        data: {
+            phone: data.phone,
+            discountPercent: data.discountPercent,
+            commissionPercent: data.commissionPercent,
+            tenant: { connect: { id: tenantId } },
+            user: {
+                create: {
+                    name: data.name,
+                    email: data.email,
+                    password: hashedPassword,
+                    role: 'RESELLER',
+                    tenantId,
+                },
+            },
+        },
+        include: resellerInclude,
+    });
+
+    await createAuditLog({
+        action: 'RESELLER_CREATE',
+        targetType: 'Reseller',
+        targetId: reseller.id,
+        targetName: data.name,
+        user,
+    });
+
+    return c.json(formatReseller(reseller), 201);
+});
+
+// GET /api/resellers/:id - Reseller sales dashboard (admin view)
+resellerRoutes.get('/:id', requirePermission('resellers:view'), async (c) => {
+    const reseller = await findReseller(c.get('tenantId'), c.req.param('id'));
+    const dashboard = await getResellerDashboard(reseller);
+
+    return c.json({ ...formatReseller(reseller), ...dashboard });
+});
+
+// PUT /api/resellers/:id
+resellerRoutes.put('/:id', requirePermission('resellers:manage'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const reseller = await findReseller(tenantId, c.req.param('id'));
+    const data = updateResellerSchema.parse(await c.req.json());
+
+    const updated = await prisma.reseller.update({
+        where: { id: reseller.id },
+        data: {
+            phone: data.phone,
+            discountPercent: data.discountPercent,
+            commissionPercent: data.commissionPercent,
+            ...((data.name || data.status) && {
+                user: { update: { name: data.name, status: data.status } },
+            }),
+        },
+        include: resellerInclude,
+    });
+
+    await createAuditLog({
+        action: 'RESELLER_UPDATE',
+        targetType: 'Reseller',
+        targetId: reseller.id,
+        targetName: updated.user.name,
+        details: JSON.stringify(data),
+        user,
+    });
+
+    return c.json(formatReseller(updated));
+});
+
+// POST /api/resellers/:id/float - Credit float after the agent pays
+resellerRoutes.post('/:id/float', requirePermission('resellers:float'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const reseller = await findReseller(tenantId, c.req.param('id'));
+    const data = topUpSchema.parse(await c.req.json());
+
+    const transaction = await topUpFloat(reseller, data.amount, data.method ?? 'CASH', data.reference);
+
+    await createAuditLog({
+        action: 'RESELLER_FLOAT_TOPUP',
+        targetType: 'Reseller',
+        targetId: reseller.id,
+        targetName: reseller.user.name,
+        details: `Amount: ${data.amount}, Method: ${data.method}`,
+        user,
+    });
+
+    return c.json({
+        success: true,
+        transactionId: transaction.id,
+        floatBalance: transaction.balanceAfter,
+    });
+});
+
+// GET /api/resellers/:id/transactions - Float statement
+resellerRoutes.get('/:id/transactions', requirePermission('resellers:view'), async (c) => {
+    const reseller = await findReseller(c.get('tenantId'), c.req.param('id'));
+    const page = parseInt(c.req.query('page') ?? '1');
+    const pageSize = parseInt(c.req.query('pageSize') ?? '20');
+
+    const [transactions, total] = await Promise.all([
+        prisma.resellerTransaction.findMany({
+            where: { resellerId: reseller.id },
+            orderBy: { createdAt: 'desc' },
+            skip: (page - 1) * pageSize,
+            take: pageSize,
+        }),
+        prisma.resellerTransaction.count({ where: { resellerId: reseller.id } }),
+    ]);
+
+    return c.json({ transactions, total, page, pageSize });
+});
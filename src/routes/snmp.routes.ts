@@ -1,19 +1,87 @@
 import { Hono } from 'hono';
+import { z } from 'zod';
 import { prisma } from '../lib/prisma.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, requirePermission } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { logger } from '../lib/logger.js';
+import { SNMP_POLL_INTERVAL_SECONDS, pollNas } from '../services/snmp.service.js';
 
 export const snmpRoutes = new Hono();
 
 // Apply auth middleware to all routes
 snmpRoutes.use('*', authMiddleware);
 
+// Validation schemas
+const snmpSettingsSchema = z.object({
+    nasId: z.string().uuid(),
+    enabled: z.boolean().optional(),
+    version: z.enum(['v2c', 'v3']).optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    community: z.string().min(1).max(64).optional(),
+    username: z.string().min(1).max(64).optional(),
+    authProtocol: z.enum(['MD5', 'SHA', 'SHA256']).optional(),
+    authKey: z.string().min(8).optional(),
+    privProtocol: z.enum(['DES', 'AES']).optional(),
+    privKey: z.string().min(8).optional(),
+});
+
+// Period -> window and graph bucket size
+const PERIODS: Record<string, { windowMs: number; bucketMs: number }> = {
+    '1h': { windowMs: 60 * 60 * 1000, bucketMs: 60 * 1000 },
+    '24h': { windowMs: 24 * 60 * 60 * 1000, bucketMs: 15 * 60 * 1000 },
+    '7d': { windowMs: 7 * 24 * 60 * 60 * 1000, bucketMs: 60 * 60 * 1000 },
+    '30d': { windowMs: 30 * 24 * 60 * 60 * 1000, bucketMs: 6 * 60 * 60 * 1000 },
+};
+
+// Devices that haven't answered for this long are reported as not responding
+const STALE_POLL_MS = 5 * 60 * 1000;
+
+function resolvePeriod(period: string) {
+    const resolved = PERIODS[period];
+    if (!resolved) {
+        throw new AppError(400, `Invalid period. Use one of: ${Object.keys(PERIODS).join(', ')}`);
+    }
+    return resolved;
+}
+
+function memoryPercent(used: bigint | null, total: bigint | null): number | null {
+    if (used === null || !total) return null;
+    return Math.round(Number(used * 1000n / total)) / 10;
+}
+
+function average(values: (number | null)[]): number | null {
+    const present = values.filter((v): v is number => v !== null);
+    return present.length > 0 ? Math.round(present.reduce((a, b) => a + b, 0) / present.length * 10) / 10 : null;
+}
+
+/**
+ * Group time-ordered rows into fixed buckets and average the picked fields
+ */
+function bucketize<T extends { polledAt: Date }>(
+    rows: T[],
+    bucketMs: number,
+    fields: Record<string, (row: T) => number | null>
+) {
+    const buckets = new Map<number, T[]>();
+    for (const row of rows) {
+        const key = Math.floor(row.polledAt.getTime() / bucketMs) * bucketMs;
+        if (!buckets.has(key)) buckets.set(key, []);
+        buckets.get(key)!.push(row);
+    }
+
+    return [...buckets.entries()].map(([key, bucketRows]) => {
+        const point: Record<string, number | null | Date> = { time: new Date(key) };
+        for (const [name, pick] of Object.entries(fields)) {
+            point[name] = average(bucketRows.map(pick));
+        }
+        return point;
+    });
+}
+
 // GET /api/snmp/status - Get SNMP polling status
-snmpRoutes.get('/status', async (c) => {
+snmpRoutes.get('/status', requirePermission('routers:view'), async (c) => {
     const tenantId = c.get('tenantId');
 
-    // Get NAS devices with SNMP enabled
     const nasDevices = await prisma.nAS.findMany({
         where: { tenantId },
         select: {
@@ -21,31 +89,40 @@ snmpRoutes.get('/status', async (c) => {
             name: true,
             ipAddress: true,
             status: true,
-            lastSeen: true,
+            snmpEnabled: true,
+            snmpVersion: true,
+            lastPolledAt: true,
+            lastPollError: true,
         },
     });
 
+    const enabled = nasDevices.filter((d) => d.snmpEnabled);
+
     return c.json({
-        enabled: true,
-        pollInterval: parseInt(process.env['SNMP_POLL_INTERVAL'] ?? '60'),
-        version: process.env['SNMP_VERSION'] ?? 'v2c',
+        enabled: enabled.length > 0,
+        pollInterval: SNMP_POLL_INTERVAL_SECONDS,
         devices: nasDevices.map((d) => ({
             id: d.id,
             name: d.name,
             ip: d.ipAddress,
             status: d.status,
-            lastPolled: d.lastSeen,
+            snmpEnabled: d.snmpEnabled,
+            version: d.snmpVersion,
+            lastPolled: d.lastPolledAt,
+            lastError: d.lastPollError,
         })),
         stats: {
             total: nasDevices.length,
+            polling: enabled.length,
+            failing: enabled.filter((d) => d.lastPollError).length,
             online: nasDevices.filter((d) => d.status === 'ONLINE').length,
             offline: nasDevices.filter((d) => d.status === 'OFFLINE').length,
         },
     });
 });
 
-// GET /api/snmp/poll/:nasId - Poll specific device
-snmpRoutes.get('/poll/:nasId', async (c) => {
+// GET /api/snmp/poll/:nasId - Poll specific device now
+snmpRoutes.get('/poll/:nasId', requirePermission('routers:test'), async (c) => {
     const tenantId = c.get('tenantId');
     const nasId = c.req.param('nasId');
 
@@ -57,130 +134,243 @@ snmpRoutes.get('/poll/:nasId', async (c) => {
         throw new AppError(404, 'Device not found');
     }
 
-    // TODO: Implement actual SNMP polling
-    // This would use net-snmp library to poll the device
+    if (!nas.snmpEnabled) {
+        throw new AppError(400, 'SNMP is not enabled for this device');
+    }
 
-    // For now, return mock/stored data
-    const mockData = {
-        system: {
-            sysDescr: nas.boardName ?? 'MikroTik RouterOS',
-            sysUpTime: nas.uptime ?? 'Unknown',
-            sysName: nas.name,
-        },
-        interfaces: [
-            { ifIndex: 1, ifDescr: 'ether1', ifOperStatus: 'up', ifInOctets: 1234567890, ifOutOctets: 9876543210 },
-            { ifIndex: 2, ifDescr: 'ether2', ifOperStatus: 'up', ifInOctets: 2345678901, ifOutOctets: 8765432109 },
-        ],
-        cpu: nas.cpuLoad ?? 0,
-        memory: {
-            used: nas.memoryUsage ?? 0,
-            total: nas.memoryTotal ?? 0,
-            percent: nas.memoryTotal ? Math.round((nas.memoryUsage ?? 0) / nas.memoryTotal * 100) : 0,
-        },
-    };
+    let result: Awaited<ReturnType<typeof pollNas>>;
+    try {
+        result = await pollNas(nas);
+    } catch (error) {
+        logger.warn({ nasId, error: (error as Error).message }, 'Manual SNMP poll failed');
+        throw new AppError(502, `SNMP poll failed: ${(error as Error).message}`);
+    }
 
-    // Update last seen
-    await prisma.nAS.update({
-        where: { id: nasId },
-        data: { lastSeen: new Date() },
-    });
+    const { reading, sample } = result;
 
     return c.json({
         nasId: nas.id,
         nasName: nas.name,
-        polledAt: new Date(),
-        data: mockData,
+        polledAt: sample.polledAt,
+        data: {
+            system: {
+                sysDescr: reading.system.descr,
+                sysUpTime: reading.system.uptimeSeconds,
+                sysName: reading.system.name,
+            },
+            interfaces: sample.interfaces.map((i) => ({
+                ifIndex: i.ifIndex,
+                ifDescr: i.name,
+                ifOperStatus: i.operStatus,
+                ifSpeedMbps: i.speedMbps,
+                ifInOctets: i.inOctets.toString(),
+                ifOutOctets: i.outOctets.toString(),
+                inBps: i.inBps,
+                outBps: i.outBps,
+            })),
+            cpu: sample.cpuLoad,
+            memory: {
+                used: sample.memoryUsed !== null ? Number(sample.memoryUsed) : null,
+                total: sample.memoryTotal !== null ? Number(sample.memoryTotal) : null,
+                percent: memoryPercent(sample.memoryUsed, sample.memoryTotal),
+            },
+            health: {
+                temperature: sample.temperature,
+                cpuTemperature: sample.cpuTemperature,
+                voltage: sample.voltage,
+            },
+        },
     });
 });
 
-// GET /api/snmp/metrics - Get aggregated metrics
-snmpRoutes.get('/metrics', async (c) => {
+// GET /api/snmp/metrics - CPU/memory history from stored samples
+snmpRoutes.get('/metrics', requirePermission('routers:view'), async (c) => {
     const tenantId = c.get('tenantId');
     const period = c.req.query('period') ?? '1h'; // 1h, 24h, 7d, 30d
+    const { windowMs, bucketMs } = resolvePeriod(period);
+    const since = new Date(Date.now() - windowMs);
 
-    // Get all NAS devices
-    const nasDevices = await prisma.nAS.findMany({
-        where: { tenantId },
-        select: {
-            id: true,
-            name: true,
-            cpuLoad: true,
-            memoryUsage: true,
-            memoryTotal: true,
+    const [nasDevices, samples] = await Promise.all([
+        prisma.nAS.findMany({
+            where: { tenantId, snmpEnabled: true },
+            select: { id: true, name: true },
+        }),
+        prisma.snmpSample.findMany({
+            where: { tenantId, polledAt: { gte: since } },
+            select: {
+                nasId: true,
+                polledAt: true,
+                cpuLoad: true,
+                memoryUsed: true,
+                memoryTotal: true,
+                temperature: true,
+            },
+            orderBy: { polledAt: 'asc' },
+        }),
+    ]);
+
+    const devices = nasDevices.map((d) => {
+        const rows = samples.filter((s) => s.nasId === d.id);
+        const latest = rows[rows.length - 1];
+        return {
+            id: d.id,
+            name: d.name,
+            cpu: latest?.cpuLoad ?? null,
+            memoryPercent: latest ? memoryPercent(latest.memoryUsed, latest.memoryTotal) : null,
+            temperature: latest?.temperature ?? null,
+            avgCpu: average(rows.map((r) => r.cpuLoad)),
+            maxCpu: rows.reduce<number | null>((max, r) => (r.cpuLoad !== null && (max === null || r.cpuLoad > max) ? r.cpuLoad : max), null),
+            samples: rows.length,
+            series: bucketize(rows, bucketMs, {
+                cpu: (r) => r.cpuLoad,
+                memoryPercent: (r) => memoryPercent(r.memoryUsed, r.memoryTotal),
+                temperature: (r) => r.temperature,
+            }),
+        };
+    });
+
+    return c.json({
+        period,
+        deviceCount: devices.length,
+        aggregated: {
+            avgCpuLoad: average(devices.map((d) => d.cpu)),
+            avgMemoryPercent: average(devices.map((d) => d.memoryPercent)),
         },
+        devices,
+    });
+});
+
+// GET /api/snmp/interfaces/:nasId - Interface traffic history
+snmpRoutes.get('/interfaces/:nasId', requirePermission('routers:details_view'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const nasId = c.req.param('nasId');
+    const period = c.req.query('period') ?? '1h';
+    const ifIndex = c.req.query('ifIndex');
+    const { windowMs, bucketMs } = resolvePeriod(period);
+
+    const nas = await prisma.nAS.findFirst({
+        where: { id: nasId, tenantId },
+        select: { id: true, name: true },
     });
 
-    // Calculate aggregated metrics
-    const totalCpu = nasDevices.reduce((sum, d) => sum + (d.cpuLoad ?? 0), 0);
-    const avgCpu = nasDevices.length > 0 ? Math.round(totalCpu / nasDevices.length) : 0;
+    if (!nas) {
+        throw new AppError(404, 'Device not found');
+    }
 
-    const totalMemUsed = nasDevices.reduce((sum, d) => sum + (d.memoryUsage ?? 0), 0);
-    const totalMemTotal = nasDevices.reduce((sum, d) => sum + (d.memoryTotal ?? 0), 0);
-    const avgMemPercent = totalMemTotal > 0 ? Math.round((totalMemUsed / totalMemTotal) * 100) : 0;
+    const rows = await prisma.snmpInterfaceSample.findMany({
+        where: {
+            nasId,
+            polledAt: { gte: new Date(Date.now() - windowMs) },
+            ...(ifIndex && { ifIndex: parseInt(ifIndex) }),
+        },
+        select: { ifIndex: true, name: true, operStatus: true, speedMbps: true, inBps: true, outBps: true, polledAt: true },
+        orderBy: { polledAt: 'asc' },
+    });
+
+    const byInterface = new Map<number, typeof rows>();
+    for (const row of rows) {
+        if (!byInterface.has(row.ifIndex)) byInterface.set(row.ifIndex, []);
+        byInterface.get(row.ifIndex)!.push(row);
+    }
 
     return c.json({
+        nasId: nas.id,
+        nasName: nas.name,
         period,
-        deviceCount: nasDevices.length,
-        aggregated: {
-            avgCpuLoad: avgCpu,
-            avgMemoryPercent: avgMemPercent,
-            totalMemoryUsed: totalMemUsed,
-            totalMemoryTotal: totalMemTotal,
-        },
-        devices: nasDevices.map((d) => ({
-            id: d.id,
-            name: d.name,
-            cpu: d.cpuLoad ?? 0,
-            memoryPercent: d.memoryTotal ? Math.round((d.memoryUsage ?? 0) / d.memoryTotal * 100) : 0,
-        })),
+        interfaces: [...byInterface.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([index, ifRows]) => {
+                const latest = ifRows[ifRows.length - 1];
+                return {
+                    ifIndex: index,
+                    name: latest.name,
+                    operStatus: latest.operStatus,
+                    speedMbps: latest.speedMbps,
+                    inBps: latest.inBps,
+                    outBps: latest.outBps,
+                    series: bucketize(ifRows, bucketMs, {
+                        inBps: (r) => r.inBps,
+                        outBps: (r) => r.outBps,
+                    }),
+                };
+            }),
     });
 });
 
 // POST /api/snmp/settings - Update SNMP settings for a device
-snmpRoutes.post('/settings', async (c) => {
+snmpRoutes.post('/settings', requirePermission('routers:edit'), async (c) => {
     const tenantId = c.get('tenantId');
-    const body = await c.req.json();
-    const { nasId, community, version, port } = body;
+    const data = snmpSettingsSchema.parse(await c.req.json());
 
     const nas = await prisma.nAS.findFirst({
-        where: { id: nasId, tenantId },
+        where: { id: data.nasId, tenantId },
     });
 
     if (!nas) {
         throw new AppError(404, 'Device not found');
     }
 
-    // TODO: Store SNMP settings (would need to add fields to NAS model)
-    // For now, just acknowledge
+    const version = data.version ?? nas.snmpVersion;
+    if (version === 'v3' && !(data.username ?? nas.snmpUsername)) {
+        throw new AppError(400, 'SNMPv3 requires a username');
+    }
+    if ((data.privKey ?? nas.snmpPrivKey) && !(data.authKey ?? nas.snmpAuthKey)) {
+        throw new AppError(400, 'SNMPv3 privacy requires an authentication key');
+    }
+
+    const updated = await prisma.nAS.update({
+        where: { id: nas.id },
+        data: {
+            snmpEnabled: data.enabled,
+            snmpVersion: data.version,
+            snmpPort: data.port,
+            snmpCommunity: data.community,
+            snmpUsername: data.username,
+            snmpAuthProtocol: data.authProtocol,
+            snmpAuthKey: data.authKey,
+            snmpPrivProtocol: data.privProtocol,
+            snmpPrivKey: data.privKey,
+            lastPollError: null,
+        },
+    });
 
-    logger.info({ nasId, version }, 'SNMP settings updated');
+    logger.info({ nasId: nas.id, version: updated.snmpVersion }, 'SNMP settings updated');
 
+    // Secrets are write-only
     return c.json({
         success: true,
-        nasId,
+        nasId: updated.id,
         settings: {
-            community: community ?? 'public',
-            version: version ?? 'v2c',
-            port: port ?? 161,
+            enabled: updated.snmpEnabled,
+            version: updated.snmpVersion,
+            port: updated.snmpPort,
+            community: updated.snmpCommunity ? '********' : null,
+            username: updated.snmpUsername,
+            authProtocol: updated.snmpAuthProtocol,
+            privProtocol: updated.snmpPrivProtocol,
         },
     });
 });
 
-// GET /api/snmp/alerts - Get SNMP-based alerts
-snmpRoutes.get('/alerts', async (c) => {
+// GET /api/snmp/alerts - Alerts from the latest stored samples
+snmpRoutes.get('/alerts', requirePermission('routers:view'), async (c) => {
     const tenantId = c.get('tenantId');
 
-    // Get devices with potential issues
     const nasDevices = await prisma.nAS.findMany({
         where: { tenantId },
         select: {
             id: true,
             name: true,
             status: true,
-            cpuLoad: true,
-            memoryUsage: true,
-            memoryTotal: true,
             lastSeen: true,
+            snmpEnabled: true,
+            lastPolledAt: true,
+            lastPollError: true,
+            snmpSamples: {
+                orderBy: { polledAt: 'desc' },
+                take: 1,
+                include: { interfaces: { select: { name: true, operStatus: true } } },
+            },
         },
     });
 
@@ -202,36 +392,66 @@ snmpRoutes.get('/alerts', async (c) => {
             });
         }
 
+        if (!nas.snmpEnabled) continue;
+
+        // Failing or stale polls
+        if (nas.lastPollError) {
+            alerts.push({
+                severity: 'warning',
+                device: nas.name,
+                message: `SNMP poll failing: ${nas.lastPollError}`,
+                timestamp: nas.lastPolledAt ?? new Date(),
+            });
+        } else if (!nas.lastPolledAt || Date.now() - nas.lastPolledAt.getTime() > STALE_POLL_MS) {
+            alerts.push({
+                severity: 'info',
+                device: nas.name,
+                message: 'Device not responding to polls',
+                timestamp: nas.lastPolledAt ?? new Date(),
+            });
+        }
+
+        const sample = nas.snmpSamples[0];
+        if (!sample) continue;
+
         // High CPU
-        if (nas.cpuLoad && nas.cpuLoad > 90) {
+        if (sample.cpuLoad !== null && sample.cpuLoad > 90) {
             alerts.push({
                 severity: 'warning',
                 device: nas.name,
-                message: `High CPU usage: ${nas.cpuLoad}%`,
-                timestamp: new Date(),
+                message: `High CPU usage: ${sample.cpuLoad}%`,
+                timestamp: sample.polledAt,
             });
         }
 
         // High memory
-        const memPercent = nas.memoryTotal
-            ? Math.round((nas.memoryUsage ?? 0) / nas.memoryTotal * 100)
-            : 0;
-        if (memPercent > 90) {
+        const memPercent = memoryPercent(sample.memoryUsed, sample.memoryTotal);
+        if (memPercent !== null && memPercent > 90) {
             alerts.push({
                 severity: 'warning',
                 device: nas.name,
                 message: `High memory usage: ${memPercent}%`,
-                timestamp: new Date(),
+                timestamp: sample.polledAt,
+            });
+        }
+
+        // Overheating
+        if (sample.temperature !== null && sample.temperature > 70) {
+            alerts.push({
+                severity: sample.temperature > 85 ? 'critical' : 'warning',
+                device: nas.name,
+                message: `High board temperature: ${sample.temperature}°C`,
+                timestamp: sample.polledAt,
             });
         }
 
-        // Not seen recently (> 5 minutes)
-        if (nas.lastSeen && (Date.now() - nas.lastSeen.getTime()) > 5 * 60 * 1000) {
+        // Links that have lost carrier
+        for (const iface of sample.interfaces.filter((i) => i.operStatus === 'lowerLayerDown')) {
             alerts.push({
                 severity: 'info',
                 device: nas.name,
-                message: 'Device not responding to polls',
-                timestamp: nas.lastSeen,
+                message: `Interface ${iface.name} is down`,
+                timestamp: sample.polledAt,
             });
         }
     }
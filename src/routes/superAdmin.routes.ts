@@ -419,14 +419,24 @@ superAdminRoutes.delete('/tenants/:id', authMiddleware, requireSaaSOwner, async
         // Delete in order of dependencies
         await tx.auditLog.deleteMany({ where: { tenantId: id } });
         await tx.sMSLog.deleteMany({ where: { tenantId: id } });
+        await tx.documentLink.deleteMany({ where: { tenantId: id } });
         await tx.vPNPeer.deleteMany({ where: { tenantId: id } });
         await tx.voucher.deleteMany({ where: { tenantId: id } });
+        await tx.voucherBatch.deleteMany({ where: { tenantId: id } });
+        await tx.resellerTransaction.deleteMany({ where: { tenantId: id } });
+        await tx.reseller.deleteMany({ where: { tenantId: id } });
+        await tx.walletTransaction.deleteMany({ where: { tenantId: id } });
+        await tx.paymentAllocation.deleteMany({ where: { tenantId: id } });
+        await tx.paymentRefund.deleteMany({ where: { tenantId: id } });
         await tx.payment.deleteMany({ where: { tenantId: id } });
+        await tx.mpesaStatementImport.deleteMany({ where: { tenantId: id } });
         await tx.expense.deleteMany({ where: { tenantId: id } });
         await tx.invoice.deleteMany({ where: { tenantId: id } });
+        await tx.journalEntry.deleteMany({ where: { tenantId: id } }); // Lines cascade
         await tx.chartOfAccount.deleteMany({ where: { tenantId: id } });
         await tx.customer.deleteMany({ where: { tenantId: id } });
         await tx.package.deleteMany({ where: { tenantId: id } });
+        await tx.radiusRealm.deleteMany({ where: { tenantId: id } });
         await tx.nAS.deleteMany({ where: { tenantId: id } });
         await tx.user.deleteMany({ where: { tenantId: id } });
         await tx.tenant.delete({ where: { id } });
@@ -4,6 +4,7 @@ import { prisma } from '../lib/prisma.js';
 import { authMiddleware, requireRole, requirePermission } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { smsService } from '../services/sms.service.js';
+import { isValidTimezone } from '../services/bandwidth-schedule.service.js';
 // import { testConnection } from '../services/mpesa.service.js';
 import bcrypt from 'bcryptjs';
 const { hash } = bcrypt;
@@ -19,6 +20,18 @@ const updateSettingsSchema = z.object({
     email: z.string().email().optional(),
     phone: z.string().optional(),
     location: z.string().optional(),
+    gracePeriodMinutes: z.number().int().min(0).max(43200).optional(),
+    graceRateLimit: z.string().regex(/^\d+[kKmM]?\/\d+[kKmM]?$/, 'Rate limit must look like 256k/256k').optional(),
+    expiredWalledGarden: z.boolean().optional(),
+    billingCycleEnabled: z.boolean().optional(),
+    billDay: z.number().int().min(1).max(28).nullable().optional(),
+    invoiceDueDays: z.number().int().min(0).max(60).optional(),
+    dunningOffsetDays: z.array(z.number().int().min(-30).max(30)).max(10).optional(),
+    quotaAction: z.enum(['DISCONNECT', 'THROTTLE']).optional(),
+    fupRateLimit: z.string().regex(/^\d+[kKmM]?\/\d+[kKmM]?$/, 'Rate limit must look like 1M/1M').optional(),
+    timezone: z.string().refine(isValidTimezone, 'Unknown time zone').optional(),
+    simultaneousUseAction: z.enum(['REJECT', 'KICK_OLDEST']).optional(),
+    verifySessionsOnRouter: z.boolean().optional(),
 });
 
 const createOperatorSchema = z.object({
@@ -58,6 +71,18 @@ tenantRoutes.get('/me', async (c) => {
         logo: tenant.logo,
         status: tenant.status,
         walletBalance: tenant.walletBalance,
+        gracePeriodMinutes: tenant.gracePeriodMinutes,
+        graceRateLimit: tenant.graceRateLimit,
+        expiredWalledGarden: tenant.expiredWalledGarden,
+        billingCycleEnabled: tenant.billingCycleEnabled,
+        billDay: tenant.billDay,
+        invoiceDueDays: tenant.invoiceDueDays,
+        dunningOffsetDays: tenant.dunningOffsetDays,
+        quotaAction: tenant.quotaAction,
+        fupRateLimit: tenant.fupRateLimit,
+        timezone: tenant.timezone,
+        simultaneousUseAction: tenant.simultaneousUseAction,
+        verifySessionsOnRouter: tenant.verifySessionsOnRouter,
         activeUsers: tenant._count.customers,
         operators: tenant._count.users,
         createdAt: tenant.createdAt,
@@ -83,6 +108,18 @@ tenantRoutes.put('/settings', requireRole('ADMIN', 'SUPER_ADMIN'), async (c) =>
             email: tenant.email,
             phone: tenant.phone,
             location: tenant.location,
+            gracePeriodMinutes: tenant.gracePeriodMinutes,
+            graceRateLimit: tenant.graceRateLimit,
+            expiredWalledGarden: tenant.expiredWalledGarden,
+            billingCycleEnabled: tenant.billingCycleEnabled,
+            billDay: tenant.billDay,
+            invoiceDueDays: tenant.invoiceDueDays,
+            dunningOffsetDays: tenant.dunningOffsetDays,
+            quotaAction: tenant.quotaAction,
+            fupRateLimit: tenant.fupRateLimit,
+            timezone: tenant.timezone,
+            simultaneousUseAction: tenant.simultaneousUseAction,
+            verifySessionsOnRouter: tenant.verifySessionsOnRouter,
         },
     });
 });
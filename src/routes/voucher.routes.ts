@@ -4,7 +4,15 @@ import { prisma } from '../lib/prisma.js';
 import { authMiddleware, requirePermission } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { createAuditLog } from '../lib/audit.js';
-import { randomBytes } from 'crypto';
+import { renderVoucherCsv, renderVoucherSheetPdf } from '../services/document.service.js';
+import {
+    generateVoucherBatch,
+    getBatchStats,
+    getRedemptionTimeline,
+    revokeBatch,
+    extendBatchExpiry,
+} from '../services/voucher.service.js';
+import { creditRedemptionCommission, purchaseResellerBatch, revokeResellerBatch } from '../services/reseller.service.js';
 
 export const voucherRoutes = new Hono();
 
@@ -17,6 +25,30 @@ const generateVouchersSchema = z.object({
     quantity: z.number().int().min(1).max(500),
     prefix: z.string().max(10).optional(),
     codeLength: z.number().int().min(6).max(16).optional().default(8),
+    name: z.string().min(1).max(100).optional(),
+    expiryPolicy: z.enum(['NONE', 'FIXED_DATE', 'DAYS_AFTER_CREATION']).optional().default('NONE'),
+    validDays: z.number().int().min(1).max(3650).optional(),
+    expiresAt: z.coerce.date().optional(),
+    resellerId: z.string().uuid().optional(),
+}).refine((d) => d.expiryPolicy !== 'FIXED_DATE' || (d.expiresAt && d.expiresAt > new Date()), {
+    message: 'A future expiresAt is required for a fixed-date batch',
+    path: ['expiresAt'],
+}).refine((d) => d.expiryPolicy !== 'DAYS_AFTER_CREATION' || d.validDays, {
+    message: 'validDays is required when codes expire after creation',
+    path: ['validDays'],
+});
+
+const extendBatchSchema = z.object({
+    expiresAt: z.coerce.date().optional(),
+    extendDays: z.number().int().min(1).max(3650).optional(),
+}).refine((d) => !!d.expiresAt !== !!d.extendDays, {
+    message: 'Provide either expiresAt or extendDays',
+});
+
+const voucherSheetQuerySchema = z.object({
+    columns: z.coerce.number().int().min(1).max(5).default(3),
+    rows: z.coerce.number().int().min(1).max(12).default(8),
+    portalUrl: z.string().url().optional(),
 });
 
 // GET /api/vouchers
@@ -105,49 +137,42 @@ voucherRoutes.post('/', requirePermission('hotspot:add_user'), async (c) => {
         throw new AppError(404, 'Package not found');
     }
 
-    // Generate unique codes
-    const codes: string[] = [];
-    const existingCodes = new Set<string>();
-
-    // Get existing codes to avoid duplicates
-    const existing = await prisma.voucher.findMany({
-        where: { tenantId },
-        select: { code: true },
-    });
-    existing.forEach((v) => existingCodes.add(v.code));
-
-    // Generate codes
-    const prefix = data.prefix ?? '';
-    const codeLength = data.codeLength ?? 8;
-
-    while (codes.length < data.quantity) {
-        const randomPart = randomBytes(Math.ceil(codeLength / 2))
-            .toString('hex')
-            .toUpperCase()
-            .slice(0, codeLength);
-        const code = `${prefix}${randomPart}`;
-
-        if (!existingCodes.has(code)) {
-            codes.push(code);
-            existingCodes.add(code);
+    let generated: Awaited<ReturnType<typeof generateVoucherBatch>>;
+    if (data.resellerId) {
+        // Batches issued to a reseller are paid for from their float
+        const reseller = await prisma.reseller.findFirst({
+            where: { id: data.resellerId, tenantId },
+        });
+        if (!reseller) {
+            throw new AppError(404, 'Reseller not found');
         }
-    }
 
-    // Create vouchers in batch
-    await prisma.voucher.createMany({
-        data: codes.map((code) => ({
-            code,
-            packageId: data.packageId,
+        generated = await purchaseResellerBatch(reseller, {
+            ...data,
+            quantity: data.quantity,
+            createdById: user.id,
+            package: pkg,
+        });
+        if (!generated) {
+            throw new AppError(400, 'Insufficient reseller float balance');
+        }
+    } else {
+        generated = await generateVoucherBatch({
+            ...data,
+            packageId: pkg.id,
+            quantity: data.quantity,
             tenantId,
-            status: 'AVAILABLE',
-        })),
-    });
+            createdById: user.id,
+        }, pkg);
+    }
+    const { batch, codes } = generated;
 
     // Audit log
     await createAuditLog({
         action: 'VOUCHER_GENERATE',
         targetType: 'Voucher',
-        targetName: `${data.quantity} vouchers`,
+        targetId: batch.id,
+        targetName: `${batch.name} (${data.quantity} vouchers)`,
         details: `Package: ${pkg.name}`,
         user,
     });
@@ -155,6 +180,8 @@ voucherRoutes.post('/', requirePermission('hotspot:add_user'), async (c) => {
     return c.json(
         {
             success: true,
+            batchId: batch.id,
+            batch: { id: batch.id, name: batch.name, expiryPolicy: batch.expiryPolicy, expiresAt: batch.expiresAt },
             count: codes.length,
             codes: codes.slice(0, 50), // Return first 50 codes
             package: { id: pkg.id, name: pkg.name, price: pkg.price },
@@ -163,6 +190,181 @@ voucherRoutes.post('/', requirePermission('hotspot:add_user'), async (c) => {
     );
 });
 
+// GET /api/vouchers/batches - Batches with sales analytics
+voucherRoutes.get('/batches', requirePermission('hotspot:view'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const page = parseInt(c.req.query('page') ?? '1');
+    const pageSize = parseInt(c.req.query('pageSize') ?? '20');
+    const packageId = c.req.query('packageId');
+
+    const where = { tenantId, ...(packageId && { packageId }) };
+
+    const [batches, total] = await Promise.all([
+        prisma.voucherBatch.findMany({
+            where,
+            include: {
+                package: { select: { id: true, name: true, price: true, sessionTime: true } },
+                createdBy: { select: { id: true, name: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+            skip: (page - 1) * pageSize,
+            take: pageSize,
+        }),
+        prisma.voucherBatch.count({ where }),
+    ]);
+
+    const stats = await getBatchStats(batches);
+
+    return c.json({
+        batches: batches.map((b) => ({
+            id: b.id,
+            name: b.name,
+            quantity: b.quantity,
+            expiryPolicy: b.expiryPolicy,
+            validDays: b.validDays,
+            expiresAt: b.expiresAt,
+            revokedAt: b.revokedAt,
+            resellerId: b.resellerId,
+            package: { id: b.package.id, name: b.package.name, price: b.package.price },
+            createdBy: b.createdBy,
+            createdAt: b.createdAt,
+            stats: stats.get(b.id),
+        })),
+        total,
+        page,
+        pageSize,
+    });
+});
+
+// GET /api/vouchers/batches/:batchId - Batch details with redemption timeline
+voucherRoutes.get('/batches/:batchId', requirePermission('hotspot:view'), async (c) => {
+    const tenantId = c.get('tenantId');
+
+    const batch = await prisma.voucherBatch.findFirst({
+        where: { id: c.req.param('batchId'), tenantId },
+        include: {
+            package: { select: { id: true, name: true, price: true, sessionTime: true } },
+            createdBy: { select: { id: true, name: true } },
+        },
+    });
+    if (!batch) {
+        throw new AppError(404, 'Voucher batch not found');
+    }
+
+    const [stats, timeline] = await Promise.all([
+        getBatchStats([batch]),
+        getRedemptionTimeline(batch.id),
+    ]);
+
+    return c.json({
+        ...batch,
+        package: { id: batch.package.id, name: batch.package.name, price: batch.package.price },
+        stats: stats.get(batch.id),
+        timeline,
+    });
+});
+
+// POST /api/vouchers/batches/:batchId/revoke - Revoke all unused codes in a batch
+voucherRoutes.post('/batches/:batchId/revoke', requirePermission('hotspot:delete'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+
+    const batch = await prisma.voucherBatch.findFirst({
+        where: { id: c.req.param('batchId'), tenantId },
+    });
+    if (!batch) {
+        throw new AppError(404, 'Voucher batch not found');
+    }
+
+    // Reseller batches were paid for from the float, so unused codes are refunded to it
+    const { revoked, refund } = batch.resellerId
+        ? await revokeResellerBatch({ ...batch, resellerId: batch.resellerId })
+        : { revoked: await revokeBatch(batch.id), refund: 0 };
+
+    await createAuditLog({
+        action: 'VOUCHER_DELETE',
+        targetType: 'VoucherBatch',
+        targetId: batch.id,
+        targetName: batch.name,
+        details: refund > 0
+            ? `Revoked ${revoked} unused vouchers, refunded ${refund} to the reseller float`
+            : `Revoked ${revoked} unused vouchers`,
+        user,
+    });
+
+    return c.json({ success: true, revoked, refund });
+});
+
+// PUT /api/vouchers/batches/:batchId/expiry - Extend a batch's expiry
+voucherRoutes.put('/batches/:batchId/expiry', requirePermission('hotspot:add_user'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const user = c.get('user');
+    const data = extendBatchSchema.parse(await c.req.json());
+
+    const batch = await prisma.voucherBatch.findFirst({
+        where: { id: c.req.param('batchId'), tenantId },
+    });
+    if (!batch) {
+        throw new AppError(404, 'Voucher batch not found');
+    }
+    if (batch.revokedAt) {
+        throw new AppError(400, 'Cannot extend a revoked batch');
+    }
+
+    let expiresAt = data.expiresAt;
+    if (data.extendDays) {
+        // Extend from the current expiry, or from now if it has already passed
+        const base = batch.expiresAt && batch.expiresAt > new Date() ? batch.expiresAt : new Date();
+        expiresAt = new Date(base.getTime() + data.extendDays * 24 * 60 * 60 * 1000);
+    }
+    if (expiresAt <= new Date()) {
+        throw new AppError(400, 'New expiry must be in the future');
+    }
+
+    const updated = await extendBatchExpiry(batch.id, expiresAt);
+
+    await createAuditLog({
+        action: 'VOUCHER_UPDATE',
+        targetType: 'VoucherBatch',
+        targetId: batch.id,
+        targetName: batch.name,
+        details: `Expiry extended to ${expiresAt.toISOString()} for ${updated} vouchers`,
+        user,
+    });
+
+    return c.json({ success: true, expiresAt, updated });
+});
+
+// GET /api/vouchers/batches/:batchId/pdf - Printable sheet of voucher cards
+voucherRoutes.get('/batches/:batchId/pdf', requirePermission('hotspot:view'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const options = voucherSheetQuerySchema.parse(c.req.query());
+
+    const file = await renderVoucherSheetPdf(tenantId, c.req.param('batchId'), options);
+    if (!file) {
+        throw new AppError(404, 'No unused vouchers found in this batch');
+    }
+
+    c.header('Content-Type', 'application/pdf');
+    c.header('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return c.body(new Uint8Array(file.content));
+});
+
+// GET /api/vouchers/batches/:batchId/csv - Export batch codes
+voucherRoutes.get('/batches/:batchId/csv', requirePermission('hotspot:view'), async (c) => {
+    const tenantId = c.get('tenantId');
+    const { portalUrl } = voucherSheetQuerySchema.parse(c.req.query());
+
+    const file = await renderVoucherCsv(tenantId, c.req.param('batchId'), portalUrl);
+    if (!file) {
+        throw new AppError(404, 'Voucher batch not found');
+    }
+
+    c.header('Content-Type', 'text/csv; charset=utf-8');
+    c.header('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return c.body(file.content);
+});
+
 // DELETE /api/vouchers/:id - Revoke voucher
 voucherRoutes.delete('/:id', requirePermission('hotspot:delete'), async (c) => {
     const tenantId = c.get('tenantId');
@@ -218,39 +420,49 @@ voucherRoutes.post('/redeem', async (c) => {
 
     // Check expiry
     if (voucher.expiresAt && voucher.expiresAt < new Date()) {
-        await prisma.voucher.update({
-            where: { id: voucher.id },
+        await prisma.voucher.updateMany({
+            where: { id: voucher.id, status: 'AVAILABLE' },
             data: { status: 'EXPIRED' },
         });
         throw new AppError(400, 'Voucher has expired');
     }
 
-    // Update voucher and customer
-    const [updatedVoucher] = await prisma.$transaction([
-        prisma.voucher.update({
-            where: { id: voucher.id },
+    // Claim the voucher before touching the customer so a concurrent redemption
+    // or batch revoke can't use it too
+    const claimed = await prisma.$transaction(async (tx) => {
+        const claim = await tx.voucher.updateMany({
+            where: { id: voucher.id, status: 'AVAILABLE' },
             data: {
                 status: 'USED',
                 usedAt: new Date(),
                 usedById: customerId,
             },
-        }),
-        ...(customerId
-            ? [
-                prisma.customer.update({
-                    where: { id: customerId },
-                    data: {
-                        packageId: voucher.packageId,
-                        status: 'ACTIVE',
-                        expiresAt: new Date(
-                            Date.now() +
-                            (voucher.package.sessionTime ?? 30 * 24 * 60) * 60 * 1000
-                        ),
-                    },
-                }),
-            ]
-            : []),
-    ]);
+        });
+        if (claim.count === 0) {
+            return false;
+        }
+
+        if (customerId) {
+            await tx.customer.update({
+                where: { id: customerId },
+                data: {
+                    packageId: voucher.packageId,
+                    status: 'ACTIVE',
+                    expiresAt: new Date(
+                        Date.now() +
+                        (voucher.package.sessionTime ?? 30 * 24 * 60) * 60 * 1000
+                    ),
+                },
+            });
+        }
+        return true;
+    });
+
+    if (!claimed) {
+        throw new AppError(404, 'Invalid or unavailable voucher');
+    }
+
+    await creditRedemptionCommission(voucher.id);
 
     return c.json({
         success: true,
@@ -0,0 +1,210 @@
+/**
+ * Bandwidth Schedule Service
+ * Packages can carry time-of-day speed profiles (night-time boosts, weekend
+ * speeds). The access handler picks the profile active at login, and a
+ * per-minute job sends CoA-Requests to every active session of a package
+ * whenever one of its windows opens or closes.
+ */
+
+import type { PackageSchedule } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { queue } from '../lib/queue.js';
+import { updateSession } from '../radius/handlers/coa.js';
+
+// Configuration
+export const SCHEDULE_JOB_NAME = 'bandwidth-schedule';
+const SCHEDULE_CRON = '* * * * *'; // Every minute, matching the HH:MM window resolution
+
+export interface SpeedProfile {
+    downloadSpeed: number;
+    uploadSpeed: number;
+    burstDownload: number | null;
+    burstUpload: number | null;
+}
+
+export interface LocalTime {
+    day: number; // 0 = Sunday
+    minutes: number; // Minutes since local midnight
+}
+
+type ScheduleWindow = Pick<PackageSchedule, 'daysOfWeek' | 'startTime' | 'endTime'>;
+
+type ScheduledPackage = SpeedProfile & {
+    schedules: (ScheduleWindow & SpeedProfile)[];
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * MikroTik rate limit for a profile: "up/down", or the burst form
+ * "up/down burst-up/burst-down threshold time priority" when bursts are set
+ */
+export function formatRateLimit(profile: SpeedProfile): string {
+    const base = `${profile.uploadSpeed}M/${profile.downloadSpeed}M`;
+    if (profile.burstDownload && profile.burstUpload) {
+        return `${base} ${profile.burstUpload}M/${profile.burstDownload}M 0/0 1/1 5`;
+    }
+    return base;
+}
+
+/**
+ * Minutes since midnight for an "HH:MM" string
+ */
+export function parseClock(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number);
+    return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+/**
+ * Day of week and time of day in a time zone
+ */
+export function getLocalTime(now: Date, timezone: string): LocalTime {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(now);
+
+    const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+    return {
+        day: WEEKDAYS.indexOf(part('weekday')),
+        minutes: parseInt(part('hour')) * 60 + parseInt(part('minute')),
+    };
+}
+
+/**
+ * Whether a window covers a local time. Windows that run past midnight belong
+ * to the day they start on.
+ */
+export function isWindowActive(window: ScheduleWindow, local: LocalTime): boolean {
+    const start = parseClock(window.startTime);
+    const end = parseClock(window.endTime);
+    const onDay = (day: number) => window.daysOfWeek.length === 0 || window.daysOfWeek.includes(day);
+
+    if (start === end) {
+        return onDay(local.day);
+    }
+    if (start < end) {
+        return onDay(local.day) && local.minutes >= start && local.minutes < end;
+    }
+    const previousDay = (local.day + 6) % 7;
+    return (onDay(local.day) && local.minutes >= start) || (onDay(previousDay) && local.minutes < end);
+}
+
+/**
+ * The profile in force for a package: the first matching schedule, otherwise
+ * the package's own speeds
+ */
+export function getActiveProfile(pkg: ScheduledPackage, timezone: string, now: Date = new Date()): SpeedProfile {
+    const local = getLocalTime(now, timezone);
+    return pkg.schedules.find((schedule) => isWindowActive(schedule, local)) ?? pkg;
+}
+
+/**
+ * Validate an "HH:MM" clock value
+ */
+export function isValidClock(value: string): boolean {
+    return /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+/**
+ * Validate an IANA time zone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Push the new rate limit to active sessions of every package whose profile
+ * changed between `since` and `now`. Customers held at a lower rate (grace
+ * period or exhausted quota) are left alone.
+ */
+export async function applyScheduleBoundaries(
+    since: Date,
+    now: Date = new Date()
+): Promise<{ packages: number; updated: number; failed: number }> {
+    const result = { packages: 0, updated: 0, failed: 0 };
+
+    const packages = await prisma.package.findMany({
+        where: { isActive: true, schedules: { some: {} } },
+        include: {
+            schedules: { orderBy: { createdAt: 'asc' } },
+            tenant: { select: { timezone: true } },
+        },
+    });
+
+    for (const pkg of packages) {
+        const rateLimit = formatRateLimit(getActiveProfile(pkg, pkg.tenant.timezone, now));
+        if (rateLimit === formatRateLimit(getActiveProfile(pkg, pkg.tenant.timezone, since))) {
+            continue;
+        }
+        result.packages++;
+
+        try {
+            const sessions = await prisma.session.findMany({
+                where: {
+                    stopTime: null,
+                    customer: {
+                        packageId: pkg.id,
+                        status: 'ACTIVE',
+                        deletedAt: null,
+                        expiresAt: { gt: now },
+                        dataQuotas: { none: { exhaustedAt: { not: null }, periodEnd: { gt: now } } },
+                    },
+                },
+                include: { nas: true },
+            });
+
+            for (const session of sessions) {
+                if (!session.nas) {
+                    continue;
+                }
+
+                const coa = await updateSession(
+                    session.nas.vpnIp || session.nas.ipAddress,
+                    session.nas.coaPort,
+                    session.nas.secret,
+                    session.sessionId,
+                    session.username,
+                    rateLimit
+                );
+                if (coa.success) {
+                    result.updated++;
+                } else {
+                    result.failed++;
+                }
+            }
+
+            logger.info({ packageId: pkg.id, rateLimit, sessions: sessions.length }, 'Package speed schedule changed');
+        } catch (error) {
+            logger.error({ error, packageId: pkg.id }, 'Failed to apply package speed schedule');
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Start the schedule boundary job
+ */
+export async function startBandwidthScheduler(): Promise<void> {
+    let lastRunAt = new Date(Date.now() - 60 * 1000);
+
+    await queue.scheduleRecurring(SCHEDULE_JOB_NAME, SCHEDULE_CRON, async () => {
+        const now = new Date();
+        const result = await applyScheduleBoundaries(lastRunAt, now);
+        lastRunAt = now;
+        if (result.packages > 0) {
+            logger.info(result, 'Bandwidth schedule run complete');
+        }
+    });
+}
@@ -0,0 +1,513 @@
+/**
+ * Billing Cycle Engine
+ * Raises recurring invoices for PPPoE customers from their package, either on
+ * each customer's signup anniversary or on a tenant-wide bill day. Wallet
+ * payments are matched to open invoices, and a dunning sequence sends SMS
+ * reminders before suspending customers whose invoices go overdue.
+ */
+
+import type { InvoiceStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { queue } from '../lib/queue.js';
+import { disconnectUser } from '../radius/handlers/coa.js';
+import { smsService } from './sms.service.js';
+import { ACCOUNT_CODES, postInvoiceIssued, postInvoicePayment } from './ledger.service.js';
+
+// Configuration
+export const BILLING_JOB_NAME = 'billing-cycle';
+const BILLING_CRON = '0 6 * * *'; // Daily at 06:00 UTC so reminders don't go out overnight
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BILLING_LEAD_MS = DAY_MS; // Raise invoices a day early so the expiry engine never sees the period lapse
+const COVERAGE_TOLERANCE_MS = 3 * DAY_MS; // 30-day packages don't line up exactly with calendar months
+const INVOICING_BATCH_SIZE = 500;
+const DUNNING_BATCH_SIZE = 500;
+
+export const OPEN_INVOICE_STATUSES: InvoiceStatus[] = ['pending', 'overdue'];
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface BillingPeriod {
+    periodStart: Date;
+    periodEnd: Date;
+}
+
+export interface BillingRunResult {
+    invoiced: number;
+    reminded: number;
+    overdue: number;
+    suspended: number;
+}
+
+export interface SettlementResult {
+    settled: number;
+    reactivated: boolean;
+}
+
+interface BillingTenant {
+    billingCycleEnabled: boolean;
+    billDay: number | null;
+    invoiceDueDays: number;
+}
+
+interface BillableCustomer {
+    id: string;
+    username: string;
+    status: string;
+    expiresAt: Date;
+    createdAt: Date;
+    tenantId: string;
+    package: { name: string; price: number } | null;
+}
+
+/**
+ * Invoice-billed customers are renewed by the billing engine, not from the wallet
+ */
+export function isInvoiceBilled(
+    customer: { connectionType: string },
+    tenant: { billingCycleEnabled: boolean }
+): boolean {
+    return tenant.billingCycleEnabled && customer.connectionType === 'PPPOE';
+}
+
+/**
+ * Date at the given day of month, clamped to the month's last day (UTC)
+ */
+function billDateIn(year: number, month: number, day: number): Date {
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month, Math.min(day, lastDay)));
+}
+
+/**
+ * The billing period that starts on the latest bill date on or before `at`
+ */
+export function getBillingPeriod(anchorDay: number, at: Date): BillingPeriod {
+    let periodStart = billDateIn(at.getUTCFullYear(), at.getUTCMonth(), anchorDay);
+    if (periodStart > at) {
+        periodStart = billDateIn(at.getUTCFullYear(), at.getUTCMonth() - 1, anchorDay);
+    }
+    const periodEnd = billDateIn(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + 1, anchorDay);
+    return { periodStart, periodEnd };
+}
+
+/**
+ * Next sequential invoice number for a tenant (shared with manual invoices).
+ * Incrementing the tenant's counter locks its row until the transaction ends,
+ * so concurrent invoices queue up instead of taking the same number; call it
+ * inside the transaction that creates the invoice.
+ */
+export async function nextInvoiceNo(db: Db, tenantId: string, now: Date = new Date()): Promise<string> {
+    const tenant = await db.tenant.update({
+        where: { id: tenantId },
+        data: { invoiceSeq: { increment: 1 } },
+        select: { invoiceSeq: true },
+    });
+    let seq = tenant.invoiceSeq;
+
+    // Tenants that invoiced before the counter existed continue after their invoices
+    if (seq === 1) {
+        const count = await db.invoice.count({ where: { tenantId } });
+        if (count > 0) {
+            seq = count + 1;
+            await db.tenant.update({ where: { id: tenantId }, data: { invoiceSeq: seq } });
+        }
+    }
+
+    return `INV-${now.getFullYear()}${String(seq).padStart(4, '0')}`;
+}
+
+/**
+ * Raise the invoice for a customer's current billing period unless it already
+ * exists or their subscription already covers it. Issuing the invoice extends
+ * the subscription to the end of the period; dunning enforces payment.
+ */
+export async function raiseInvoiceIfDue(
+    customer: BillableCustomer,
+    tenant: BillingTenant,
+    now: Date = new Date()
+) {
+    if (!customer.package) {
+        return null;
+    }
+
+    const anchorDay = tenant.billDay ?? customer.createdAt.getUTCDate();
+    const { periodStart, periodEnd } = getBillingPeriod(anchorDay, new Date(now.getTime() + BILLING_LEAD_MS));
+
+    if (customer.expiresAt.getTime() + COVERAGE_TOLERANCE_MS >= periodEnd.getTime()) {
+        return null;
+    }
+
+    const existing = await prisma.invoice.findFirst({
+        where: { customerId: customer.id, periodStart },
+        select: { id: true },
+    });
+    if (existing) {
+        return null;
+    }
+
+    const pkg = customer.package;
+    const dueDate = new Date(periodStart.getTime() + tenant.invoiceDueDays * DAY_MS);
+    const expiresAt = customer.expiresAt > periodEnd ? customer.expiresAt : periodEnd;
+    const wasExpired = customer.status === 'EXPIRED';
+
+    const invoice = await prisma.$transaction(async (tx) => {
+        const invoice = await tx.invoice.create({
+            data: {
+                invoiceNo: await nextInvoiceNo(tx, customer.tenantId, now),
+                amount: pkg.price,
+                dueDate,
+                items: [{
+                    description: `${pkg.name} (${periodStart.toISOString().slice(0, 10)} to ${periodEnd.toISOString().slice(0, 10)})`,
+                    amount: pkg.price,
+                }],
+                periodStart,
+                periodEnd,
+                customerId: customer.id,
+                tenantId: customer.tenantId,
+            },
+        });
+
+        await postInvoiceIssued(invoice, tx);
+
+        await tx.customer.update({
+            where: { id: customer.id },
+            data: {
+                expiresAt,
+                graceStartedAt: null,
+                ...(wasExpired && { status: 'ACTIVE' }),
+            },
+        });
+
+        return invoice;
+    });
+
+    logger.info({
+        customerId: customer.id,
+        username: customer.username,
+        invoiceNo: invoice.invoiceNo,
+        amount: invoice.amount,
+        dueDate,
+    }, 'Recurring invoice raised');
+
+    // Bring expired (possibly walled-garden) sessions back with full access
+    if (wasExpired) {
+        await disconnectUser(customer.username, customer.tenantId);
+    }
+
+    return invoice;
+}
+
+/**
+ * Raise invoices for every billable PPPoE customer of tenants with billing enabled
+ */
+export async function generateRecurringInvoices(now: Date = new Date()): Promise<number> {
+    const tenants = await prisma.tenant.findMany({
+        where: { billingCycleEnabled: true },
+        select: { id: true, billingCycleEnabled: true, billDay: true, invoiceDueDays: true },
+    });
+
+    let invoiced = 0;
+    for (const tenant of tenants) {
+        let lastId: string | undefined;
+
+        for (;;) {
+            // Suspended customers already owe money - they are billed again once restored
+            const customers = await prisma.customer.findMany({
+                where: {
+                    ...(lastId ? { id: { gt: lastId } } : {}),
+                    tenantId: tenant.id,
+                    deletedAt: null,
+                    connectionType: 'PPPOE',
+                    status: { in: ['ACTIVE', 'EXPIRED'] },
+                    packageId: { not: null },
+                },
+                include: { package: { select: { name: true, price: true } } },
+                orderBy: { id: 'asc' },
+                take: INVOICING_BATCH_SIZE,
+            });
+
+            for (const customer of customers) {
+                try {
+                    const invoice = await raiseInvoiceIfDue(customer, tenant, now);
+                    if (!invoice) {
+                        continue;
+                    }
+                    invoiced++;
+
+                    // Prepaid wallet balances settle the new invoice straight away
+                    await settleOpenInvoices(customer.id, now);
+                } catch (error) {
+                    logger.error({ error, customerId: customer.id }, 'Failed to raise recurring invoice');
+                }
+            }
+
+            if (customers.length < INVOICING_BATCH_SIZE) {
+                break;
+            }
+            lastId = customers[customers.length - 1].id;
+        }
+    }
+
+    return invoiced;
+}
+
+/**
+ * Pay a customer's open invoices (oldest due first) from their wallet balance
+ * and restore them if that clears everything that was overdue
+ */
+export async function settleOpenInvoices(customerId: string, now: Date = new Date()): Promise<SettlementResult> {
+    const customer = await prisma.customer.findUnique({
+        where: { id: customerId },
+        select: { walletBalance: true },
+    });
+
+    if (!customer) {
+        throw new Error('Customer not found');
+    }
+
+    const invoices = await prisma.invoice.findMany({
+        where: { customerId, status: { in: OPEN_INVOICE_STATUSES } },
+        orderBy: { dueDate: 'asc' },
+    });
+
+    let balance = customer.walletBalance;
+    let settled = 0;
+
+    for (const invoice of invoices) {
+        if (balance < invoice.amount) {
+            break;
+        }
+
+        const balanceAfter = await prisma.$transaction(async (tx) => {
+            const claimed = await tx.invoice.updateMany({
+                where: { id: invoice.id, status: { in: OPEN_INVOICE_STATUSES } },
+                data: { status: 'paid', paidAt: now },
+            });
+            if (claimed.count === 0) {
+                return null; // Settled elsewhere in the meantime
+            }
+
+            // Guard against a concurrent debit spending the same balance
+            const debited = await tx.customer.updateMany({
+                where: { id: customerId, walletBalance: { gte: invoice.amount } },
+                data: { walletBalance: { decrement: invoice.amount } },
+            });
+            if (debited.count === 0) {
+                throw new Error('Wallet balance changed during invoice settlement');
+            }
+
+            const updated = await tx.customer.findUniqueOrThrow({ where: { id: customerId } });
+
+            await tx.walletTransaction.create({
+                data: {
+                    type: 'DEBIT',
+                    amount: invoice.amount,
+                    balanceAfter: updated.walletBalance,
+                    reference: invoice.id,
+                    description: `Invoice ${invoice.invoiceNo}`,
+                    customerId,
+                    tenantId: invoice.tenantId,
+                },
+            });
+
+            await postInvoicePayment(invoice, ACCOUNT_CODES.CUSTOMER_WALLETS, tx);
+
+            return updated.walletBalance;
+        });
+
+        if (balanceAfter === null) {
+            continue;
+        }
+
+        balance = balanceAfter;
+        settled++;
+
+        logger.info({ customerId, invoiceNo: invoice.invoiceNo, amount: invoice.amount }, 'Invoice settled from wallet');
+    }
+
+    const reactivated = settled > 0 ? await restoreIfSettled(customerId, now) : false;
+
+    return { settled, reactivated };
+}
+
+/**
+ * Lift a dunning suspension once the customer has no overdue invoices left and
+ * bill the current period if the suspension ran across a bill date
+ */
+export async function restoreIfSettled(customerId: string, now: Date = new Date()): Promise<boolean> {
+    const customer = await prisma.customer.findUnique({
+        where: { id: customerId },
+        include: {
+            package: { select: { name: true, price: true } },
+            tenant: { select: { billingCycleEnabled: true, billDay: true, invoiceDueDays: true } },
+        },
+    });
+
+    if (!customer || customer.status !== 'SUSPENDED' || !isInvoiceBilled(customer, customer.tenant)) {
+        return false;
+    }
+
+    const overdue = await prisma.invoice.count({
+        where: { customerId, status: 'overdue' },
+    });
+    if (overdue > 0) {
+        return false;
+    }
+
+    await prisma.customer.update({
+        where: { id: customerId },
+        data: { status: 'ACTIVE' },
+    });
+
+    logger.info({ customerId, username: customer.username }, 'Customer restored after settling overdue invoices');
+
+    const invoice = await raiseInvoiceIfDue({ ...customer, status: 'ACTIVE' }, customer.tenant, now);
+    if (invoice) {
+        await settleOpenInvoices(customerId, now);
+    }
+
+    return true;
+}
+
+function formatReminder(
+    invoice: { invoiceNo: string; amount: number; dueDate: Date; status: string },
+    customer: { name: string; username: string },
+    businessName: string
+): string {
+    const amount = `KES ${invoice.amount.toLocaleString()}`;
+    if (invoice.status === 'overdue') {
+        return `Dear ${customer.name}, invoice ${invoice.invoiceNo} of ${amount} is overdue and your internet has been suspended. ` +
+            `Pay via M-Pesa using account ${customer.username} to restore service. - ${businessName}`;
+    }
+    return `Dear ${customer.name}, invoice ${invoice.invoiceNo} of ${amount} is due on ${invoice.dueDate.toISOString().slice(0, 10)}. ` +
+        `Pay via M-Pesa using account ${customer.username} to avoid disconnection. - ${businessName}`;
+}
+
+const DUNNING_INCLUDE = {
+    customer: { select: { id: true, name: true, username: true, phone: true, status: true } },
+    tenant: { select: { businessName: true, dunningOffsetDays: true } },
+} satisfies Prisma.InvoiceInclude;
+
+type DunningInvoice = Prisma.InvoiceGetPayload<{ include: typeof DUNNING_INCLUDE }>;
+
+/**
+ * Send reminders at the tenant's dunning offsets, mark invoices past their due
+ * date as overdue and suspend the customers that owe them. Open invoices are
+ * walked in id order in batches.
+ */
+export async function processDunning(now: Date = new Date()): Promise<Omit<BillingRunResult, 'invoiced'>> {
+    const result = { reminded: 0, overdue: 0, suspended: 0 };
+    let lastId: string | undefined;
+
+    for (;;) {
+        const invoices = await prisma.invoice.findMany({
+            where: {
+                ...(lastId ? { id: { gt: lastId } } : {}),
+                status: { in: OPEN_INVOICE_STATUSES },
+                customerId: { not: null },
+                tenant: { billingCycleEnabled: true },
+            },
+            include: DUNNING_INCLUDE,
+            orderBy: { id: 'asc' },
+            take: DUNNING_BATCH_SIZE,
+        });
+
+        for (const invoice of invoices) {
+            await dunInvoice(invoice, now, result);
+        }
+
+        if (invoices.length < DUNNING_BATCH_SIZE) {
+            break;
+        }
+        lastId = invoices[invoices.length - 1].id;
+    }
+
+    return result;
+}
+
+/**
+ * Dunning step for one open invoice
+ */
+async function dunInvoice(
+    invoice: DunningInvoice,
+    now: Date,
+    result: Omit<BillingRunResult, 'invoiced'>
+): Promise<void> {
+    const customer = invoice.customer;
+    if (!customer) {
+        return;
+    }
+
+    try {
+        let status = invoice.status;
+
+        if (status === 'pending' && invoice.dueDate <= now) {
+            await prisma.invoice.update({
+                where: { id: invoice.id },
+                data: { status: 'overdue' },
+            });
+            status = 'overdue';
+            result.overdue++;
+
+            if (customer.status === 'ACTIVE') {
+                await prisma.customer.update({
+                    where: { id: customer.id },
+                    data: { status: 'SUSPENDED' },
+                });
+                result.suspended++;
+
+                const coa = await disconnectUser(customer.username, invoice.tenantId);
+                logger.info({
+                    username: customer.username,
+                    invoiceNo: invoice.invoiceNo,
+                    coa: coa.message,
+                }, 'Customer suspended for overdue invoice');
+            }
+        }
+
+        // Only the latest reached offset is sent, so a missed run doesn't burst several SMS
+        const reached = invoice.tenant.dunningOffsetDays
+            .filter((offset) => invoice.dueDate.getTime() + offset * DAY_MS <= now.getTime())
+            .length;
+
+        if (reached <= invoice.remindersSent) {
+            return;
+        }
+
+        if (customer.phone) {
+            const message = formatReminder({ ...invoice, status }, customer, invoice.tenant.businessName);
+            const sms = await smsService.sendSms(invoice.tenantId, customer.phone, message, 'dunning', 'PPPOE');
+            if (sms.success) {
+                result.reminded++;
+            } else {
+                logger.warn({ invoiceNo: invoice.invoiceNo, error: sms.error }, 'Dunning reminder failed to send');
+            }
+        }
+
+        await prisma.invoice.update({
+            where: { id: invoice.id },
+            data: { remindersSent: reached, lastReminderAt: now },
+        });
+    } catch (error) {
+        logger.error({ error, invoiceId: invoice.id }, 'Failed to process dunning for invoice');
+    }
+}
+
+/**
+ * Run one billing cycle: raise due invoices, then chase unpaid ones
+ */
+export async function runBillingCycle(now: Date = new Date()): Promise<BillingRunResult> {
+    const invoiced = await generateRecurringInvoices(now);
+    const dunning = await processDunning(now);
+    return { invoiced, ...dunning };
+}
+
+/**
+ * Start the billing engine as a recurring pg-boss job
+ */
+export async function startBillingEngine(): Promise<void> {
+    await queue.scheduleRecurring(BILLING_JOB_NAME, BILLING_CRON, async () => {
+        const result = await runBillingCycle();
+        logger.info(result, 'Billing cycle complete');
+    });
+}
@@ -0,0 +1,153 @@
+/**
+ * Customer Credential Service
+ * Customer passwords are stored twice: a bcrypt hash for PAP and portal login,
+ * and an AES-256-GCM ciphertext for CHAP and MS-CHAPv2, which need the plain
+ * password to check the challenge. Rows from before encryption still hold the
+ * plain password until migrateCustomerPasswords() has run; they keep working.
+ *
+ * The hotspot portal auto-login gets a short-lived login token instead of the
+ * password. Tokens are derived from the customer and a 5-minute time slot, so
+ * the RADIUS server can recompute them for CHAP as well as PAP.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { config } from '../lib/config.js';
+
+const { hash, compare } = bcrypt;
+
+// Configuration
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const HASH_ROUNDS = 10; // Checked on every PAP login, so cheaper than operator passwords
+export const LOGIN_TOKEN_WINDOW_MS = 5 * 60 * 1000; // A token is valid for 5 to 10 minutes
+const LOGIN_TOKEN_LENGTH = 20;
+
+export interface StoredCredential {
+    password: string;
+    passwordHash: string | null;
+}
+
+function encryptionKey(): Buffer {
+    return createHash('sha256').update(config.credentialKey).digest();
+}
+
+/**
+ * Encrypt a password for storage: "enc:v1:<iv>.<tag>.<ciphertext>" (base64url)
+ */
+export function encryptCredential(plain: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+
+    return `${ENCRYPTED_PREFIX}${iv.toString('base64url')}.${cipher.getAuthTag().toString('base64url')}.${ciphertext.toString('base64url')}`;
+}
+
+/**
+ * The plain password from a stored value. Legacy plaintext is returned as-is;
+ * null when the ciphertext does not decrypt (wrong key or tampered).
+ */
+export function decryptCredential(stored: string): string | null {
+    if (!stored.startsWith(ENCRYPTED_PREFIX)) {
+        return stored;
+    }
+
+    try {
+        const [iv, tag, ciphertext] = stored.slice(ENCRYPTED_PREFIX.length).split('.');
+        const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), Buffer.from(iv, 'base64url'));
+        decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+        return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+    } catch (error) {
+        logger.error({ error }, 'Failed to decrypt customer credential');
+        return null;
+    }
+}
+
+/**
+ * Prisma data for setting a customer's password
+ */
+export async function protectPassword(plain: string): Promise<StoredCredential> {
+    return {
+        password: encryptCredential(plain),
+        passwordHash: await hash(plain, HASH_ROUNDS),
+    };
+}
+
+/**
+ * Check a plain password (PAP, portal login) against the hash, or the
+ * decrypted value for rows not migrated yet
+ */
+export async function verifyCustomerPassword(customer: StoredCredential, candidate: string): Promise<boolean> {
+    if (customer.passwordHash) {
+        return compare(candidate, customer.passwordHash);
+    }
+    const plain = decryptCredential(customer.password);
+    return plain !== null && plain === candidate;
+}
+
+function loginTokenForSlot(customerId: string, slot: number): string {
+    return createHmac('sha256', config.credentialKey)
+        .update(`login-token:${customerId}:${slot}`)
+        .digest('base64url')
+        .slice(0, LOGIN_TOKEN_LENGTH);
+}
+
+/**
+ * Login token for the hotspot auto-login, used in place of the password
+ */
+export function createLoginToken(customerId: string, now: Date = new Date()): { token: string; expiresAt: Date } {
+    const slot = Math.floor(now.getTime() / LOGIN_TOKEN_WINDOW_MS);
+    return {
+        token: loginTokenForSlot(customerId, slot),
+        expiresAt: new Date((slot + 2) * LOGIN_TOKEN_WINDOW_MS),
+    };
+}
+
+/**
+ * Tokens accepted right now: the current slot and the one before it
+ */
+export function getValidLoginTokens(customerId: string, now: Date = new Date()): string[] {
+    const slot = Math.floor(now.getTime() / LOGIN_TOKEN_WINDOW_MS);
+    return [loginTokenForSlot(customerId, slot), loginTokenForSlot(customerId, slot - 1)];
+}
+
+/**
+ * Encrypt and hash the passwords of customers still stored in plaintext.
+ * Safe to run repeatedly; rows that do not decrypt are counted as failed.
+ */
+export async function migrateCustomerPasswords(batchSize: number = 500): Promise<{ migrated: number; failed: number }> {
+    const result = { migrated: 0, failed: 0 };
+    let lastId: string | undefined;
+
+    for (;;) {
+        const customers = await prisma.customer.findMany({
+            where: { passwordHash: null, ...(lastId ? { id: { gt: lastId } } : {}) },
+            select: { id: true, password: true },
+            orderBy: { id: 'asc' },
+            take: batchSize,
+        });
+        if (customers.length === 0) {
+            break;
+        }
+        lastId = customers[customers.length - 1].id;
+
+        for (const customer of customers) {
+            const plain = decryptCredential(customer.password);
+            if (plain === null) {
+                result.failed++;
+                continue;
+            }
+
+            await prisma.customer.update({
+                where: { id: customer.id },
+                data: await protectPassword(plain),
+            });
+            result.migrated++;
+        }
+
+        logger.info(result, 'Customer password migration progress');
+    }
+
+    return result;
+}
@@ -0,0 +1,518 @@
+/**
+ * Document Service
+ * Renders tenant-branded invoice and payment receipt PDFs, printable voucher
+ * card sheets and exports, and issues short public download links that can be
+ * texted to customers.
+ */
+
+import { randomBytes } from 'crypto';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { fetchPublicUrl } from '../lib/network.js';
+import { smsService, type SmsResult } from './sms.service.js';
+
+// Configuration
+const DEFAULT_BRAND_COLOR = '#2563eb';
+const LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Download links stay valid for 30 days
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+// Hotspot login page on the router (dns-name set on the hotspot profile in mikrotik.service.ts)
+export const HOTSPOT_LOGIN_URL = 'http://hotspot.local/login';
+
+export type DocumentType = 'INVOICE' | 'RECEIPT';
+
+export interface PdfDocumentFile {
+    filename: string;
+    content: Buffer;
+}
+
+export interface VoucherSheetOptions {
+    columns?: number;
+    rows?: number;
+    portalUrl?: string;
+}
+
+export interface InvoiceItem {
+    description: string;
+    quantity: number;
+    amount: number;
+}
+
+interface Branding {
+    businessName: string;
+    logo: string | null;
+    primaryColor: string | null;
+    phone: string | null;
+    email: string;
+    location: string | null;
+}
+
+interface DocumentLayout {
+    title: string;
+    number: string;
+    meta: [string, string][];
+    billTo: string[];
+    items: InvoiceItem[];
+    total: number;
+    footer: string;
+}
+
+const brandingSelect = {
+    businessName: true,
+    logo: true,
+    primaryColor: true,
+    phone: true,
+    email: true,
+    location: true,
+} as const;
+
+const invoiceItemSchema = z.object({
+    description: z.string(),
+    quantity: z.coerce.number().positive().default(1),
+    amount: z.coerce.number(),
+});
+
+/**
+ * Read invoice line items out of the stored JSON, dropping anything malformed
+ */
+export function parseInvoiceItems(items: Prisma.JsonValue): InvoiceItem[] {
+    if (!Array.isArray(items)) {
+        return [];
+    }
+    return items.flatMap((item) => {
+        const parsed = invoiceItemSchema.safeParse(item);
+        return parsed.success ? [parsed.data as InvoiceItem] : [];
+    });
+}
+
+function formatMoney(amount: number): string {
+    return `KES ${amount.toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function resolveBrandColor(primaryColor: string | null): string {
+    return primaryColor && /^#[0-9a-fA-F]{6}$/.test(primaryColor) ? primaryColor : DEFAULT_BRAND_COLOR;
+}
+
+function collectPdf(doc: PDFKit.PDFDocument): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    return new Promise<Buffer>((resolve, reject) => {
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+    });
+}
+
+/**
+ * Load the tenant logo from an upload path, URL or data URI (null if unavailable).
+ * URLs are only fetched from public hosts and upload paths must stay inside
+ * the uploads directory, since the tenant controls the value.
+ */
+async function loadLogo(logo: string | null): Promise<Buffer | null> {
+    if (!logo) {
+        return null;
+    }
+    try {
+        if (logo.startsWith('data:')) {
+            return Buffer.from(logo.slice(logo.indexOf(',') + 1), 'base64');
+        }
+        if (/^https?:\/\//.test(logo)) {
+            return await fetchPublicUrl(logo, { timeoutMs: LOGO_FETCH_TIMEOUT_MS, maxBytes: MAX_LOGO_BYTES });
+        }
+        if (logo.startsWith('/uploads/')) {
+            const uploadsDir = path.resolve(process.cwd(), 'public', 'uploads');
+            const file = path.resolve(process.cwd(), 'public', `.${logo}`);
+            if (!file.startsWith(uploadsDir + path.sep)) {
+                logger.warn({ logo }, 'Tenant logo path escapes the uploads directory');
+                return null;
+            }
+            return await readFile(file);
+        }
+    } catch (error) {
+        logger.warn({ error, logo }, 'Failed to load tenant logo for PDF');
+    }
+    return null;
+}
+
+/**
+ * Lay out a branded A4 document and collect it into a buffer
+ */
+async function renderPdf(branding: Branding, layout: DocumentLayout): Promise<Buffer> {
+    const logo = await loadLogo(branding.logo);
+    const color = resolveBrandColor(branding.primaryColor);
+
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const done = collectPdf(doc);
+
+    const left = doc.page.margins.left;
+    const right = doc.page.width - doc.page.margins.right;
+    const width = right - left;
+
+    // Header band with logo and business contacts
+    doc.rect(0, 0, doc.page.width, 110).fill(color);
+    let nameX = left;
+    if (logo) {
+        try {
+            doc.image(logo, left, 25, { fit: [60, 60] });
+            nameX = left + 75;
+        } catch (error) {
+            logger.warn({ error }, 'Unsupported tenant logo format for PDF');
+        }
+    }
+    doc.fillColor('#ffffff').fontSize(20).font('Helvetica-Bold')
+        .text(branding.businessName, nameX, 32, { width: width - (nameX - left) - 160 });
+    const contacts = [branding.phone, branding.email, branding.location].filter(Boolean) as string[];
+    doc.fontSize(9).font('Helvetica').text(contacts.join('\n'), right - 160, 32, { width: 160, align: 'right' });
+
+    // Title and document details
+    doc.fillColor(color).fontSize(22).font('Helvetica-Bold').text(layout.title, left, 135);
+    doc.fillColor('#111111').fontSize(10).font('Helvetica').text(layout.number, left, 162);
+
+    let y = 190;
+    for (const [label, value] of layout.meta) {
+        doc.font('Helvetica-Bold').text(label, right - 220, y, { width: 100 });
+        doc.font('Helvetica').text(value, right - 120, y, { width: 120, align: 'right' });
+        y += 15;
+    }
+
+    doc.font('Helvetica-Bold').text(layout.title === 'RECEIPT' ? 'Received from' : 'Bill to', left, 190);
+    doc.font('Helvetica').text(layout.billTo.join('\n'), left, 205, { width: 250 });
+
+    // Line items
+    y = Math.max(y, 205 + layout.billTo.length * 15) + 25;
+    doc.rect(left, y, width, 22).fill(color);
+    doc.fillColor('#ffffff').font('Helvetica-Bold')
+        .text('Description', left + 8, y + 7, { width: width - 200 })
+        .text('Qty', right - 190, y + 7, { width: 40, align: 'right' })
+        .text('Amount', right - 130, y + 7, { width: 122, align: 'right' });
+    y += 30;
+
+    doc.fillColor('#111111').font('Helvetica');
+    for (const item of layout.items) {
+        const rowHeight = Math.max(15, doc.heightOfString(item.description, { width: width - 200 }));
+        if (y + rowHeight > doc.page.height - 150) {
+            doc.addPage();
+            y = doc.page.margins.top;
+        }
+        doc.text(item.description, left + 8, y, { width: width - 200 })
+            .text(String(item.quantity), right - 190, y, { width: 40, align: 'right' })
+            .text(formatMoney(item.amount * item.quantity), right - 130, y, { width: 122, align: 'right' });
+        y += rowHeight + 8;
+        doc.moveTo(left, y - 4).lineTo(right, y - 4).strokeColor('#e5e7eb').stroke();
+    }
+
+    doc.font('Helvetica-Bold').fontSize(12)
+        .text('Total', right - 220, y + 8, { width: 90 })
+        .text(formatMoney(layout.total), right - 130, y + 8, { width: 122, align: 'right' });
+
+    doc.fillColor('#6b7280').font('Helvetica').fontSize(9)
+        .text(layout.footer, left, doc.page.height - 90, { width, align: 'center' });
+
+    doc.end();
+    return done;
+}
+
+/**
+ * Render an invoice PDF (looked up by invoice number, as exposed by the API)
+ */
+export async function renderInvoicePdf(tenantId: string, invoiceNo: string): Promise<PdfDocumentFile | null> {
+    const invoice = await prisma.invoice.findFirst({
+        where: { invoiceNo, tenantId },
+        include: {
+            customer: { select: { name: true, username: true, phone: true, email: true, location: true } },
+            tenant: { select: brandingSelect },
+        },
+    });
+
+    if (!invoice) {
+        return null;
+    }
+
+    const items = parseInvoiceItems(invoice.items);
+    const customer = invoice.customer;
+
+    const meta: [string, string][] = [
+        ['Issued', formatDate(invoice.createdAt)],
+        ['Due', formatDate(invoice.dueDate)],
+        ['Status', invoice.status.toUpperCase()],
+    ];
+    if (invoice.periodStart && invoice.periodEnd) {
+        meta.push(['Period', `${formatDate(invoice.periodStart)} - ${formatDate(invoice.periodEnd)}`]);
+    }
+    if (invoice.paidAt) {
+        meta.push(['Paid', formatDate(invoice.paidAt)]);
+    }
+
+    const content = await renderPdf(invoice.tenant, {
+        title: 'INVOICE',
+        number: invoice.invoiceNo,
+        meta,
+        billTo: customer
+            ? [customer.name, `Account: ${customer.username}`, customer.phone, customer.email, customer.location]
+                .filter((line): line is string => !!line)
+            : ['Walk-in customer'],
+        items: items.length > 0 ? items : [{ description: 'Internet service', quantity: 1, amount: invoice.amount }],
+        total: invoice.amount,
+        footer: customer
+            ? `Pay via M-Pesa using account ${customer.username}. Thank you for choosing ${invoice.tenant.businessName}.`
+            : `Thank you for choosing ${invoice.tenant.businessName}.`,
+    });
+
+    return { filename: `${invoice.invoiceNo}.pdf`, content };
+}
+
+export function getReceiptNo(payment: { id: string }): string {
+    return `RCT-${payment.id.slice(0, 8).toUpperCase()}`;
+}
+
+/**
+ * Render a receipt PDF for a completed payment
+ */
+export async function renderReceiptPdf(tenantId: string, paymentId: string): Promise<PdfDocumentFile | null> {
+    const payment = await prisma.payment.findFirst({
+        where: { id: paymentId, tenantId, status: 'COMPLETED' },
+        include: {
+            customer: { select: { name: true, username: true, phone: true } },
+            tenant: { select: brandingSelect },
+        },
+    });
+
+    if (!payment) {
+        return null;
+    }
+
+    const receiptNo = getReceiptNo(payment);
+    const meta: [string, string][] = [
+        ['Date', formatDate(payment.createdAt)],
+        ['Method', payment.method.replace('_', ' ')],
+    ];
+    if (payment.transactionId) {
+        meta.push(['Reference', payment.transactionId]);
+    }
+
+    const payer = payment.customer
+        ? [payment.customer.name, `Account: ${payment.customer.username}`, payment.customer.phone ?? payment.phone]
+        : [payment.account ? `Account: ${payment.account}` : null, payment.phone];
+
+    const content = await renderPdf(payment.tenant, {
+        title: 'RECEIPT',
+        number: receiptNo,
+        meta,
+        billTo: payer.filter((line): line is string => !!line),
+        items: [{ description: payment.description ?? 'Internet service payment', quantity: 1, amount: payment.amount }],
+        total: payment.amount,
+        footer: `Payment received with thanks. ${payment.tenant.businessName}`,
+    });
+
+    return { filename: `${receiptNo}.pdf`, content };
+}
+
+// ============ VOUCHER CARDS ============
+
+/**
+ * Human-readable validity of a voucher package (time and/or data allowance)
+ */
+export function formatVoucherValidity(pkg: { sessionTime: number | null; dataLimit: bigint | null }): string {
+    const parts: string[] = [];
+    if (pkg.sessionTime) {
+        const minutes = pkg.sessionTime;
+        const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+        if (minutes < 60) parts.push(`${minutes} min`);
+        else if (minutes < 1440) parts.push(plural(Math.floor(minutes / 60), 'hour'));
+        else parts.push(plural(Math.floor(minutes / 1440), 'day'));
+    }
+    if (pkg.dataLimit) {
+        const gb = Number(pkg.dataLimit) / (1024 * 1024 * 1024);
+        parts.push(gb >= 1 ? `${gb.toFixed(1)} GB` : `${Math.round(gb * 1024)} MB`);
+    }
+    return parts.length > 0 ? parts.join(' / ') : 'Unlimited';
+}
+
+/**
+ * Captive portal URL that opens the voucher tab with the code pre-filled
+ */
+export function getVoucherPortalUrl(code: string, portalUrl: string = HOTSPOT_LOGIN_URL): string {
+    return `${portalUrl}?voucher=${encodeURIComponent(code)}`;
+}
+
+async function findBatchVouchers(tenantId: string, batchId: string, status?: 'AVAILABLE') {
+    return prisma.voucher.findMany({
+        where: { tenantId, batchId, ...(status && { status }) },
+        include: { package: { select: { name: true, price: true, sessionTime: true, dataLimit: true } } },
+        orderBy: { code: 'asc' },
+    });
+}
+
+/**
+ * Render the unused vouchers of a batch as a grid of cut-out cards
+ */
+export async function renderVoucherSheetPdf(
+    tenantId: string,
+    batchId: string,
+    options: VoucherSheetOptions
+): Promise<PdfDocumentFile | null> {
+    const [vouchers, tenant] = await Promise.all([
+        findBatchVouchers(tenantId, batchId, 'AVAILABLE'),
+        prisma.tenant.findUnique({ where: { id: tenantId }, select: brandingSelect }),
+    ]);
+
+    if (vouchers.length === 0 || !tenant) {
+        return null;
+    }
+
+    const color = resolveBrandColor(tenant.primaryColor);
+    const columns = options.columns ?? 3;
+    const rows = options.rows ?? 8;
+    const margin = 30;
+    const gap = 8;
+
+    const doc = new PDFDocument({ size: 'A4', margin });
+    const done = collectPdf(doc);
+
+    const cardWidth = (doc.page.width - margin * 2 - gap * (columns - 1)) / columns;
+    const cardHeight = (doc.page.height - margin * 2 - gap * (rows - 1)) / rows;
+    const stripHeight = Math.min(18, cardHeight * 0.2);
+    const qrSize = Math.min(cardHeight - stripHeight - 10, cardWidth * 0.4);
+    const textWidth = cardWidth - qrSize - 15;
+    const perPage = columns * rows;
+
+    for (let i = 0; i < vouchers.length; i++) {
+        const voucher = vouchers[i];
+        const slot = i % perPage;
+        if (i > 0 && slot === 0) {
+            doc.addPage();
+        }
+
+        const x = margin + (slot % columns) * (cardWidth + gap);
+        const y = margin + Math.floor(slot / columns) * (cardHeight + gap);
+
+        doc.roundedRect(x, y, cardWidth, cardHeight, 4).lineWidth(0.75).strokeColor(color).stroke();
+        doc.save().roundedRect(x, y, cardWidth, stripHeight, 4).clip()
+            .rect(x, y, cardWidth, stripHeight).fill(color).restore();
+        doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(Math.min(9, stripHeight * 0.55))
+            .text(tenant.businessName, x + 5, y + stripHeight * 0.25, { width: cardWidth - 10, height: stripHeight, ellipsis: true, lineBreak: false });
+
+        let textY = y + stripHeight + 4;
+        doc.fillColor('#111111').font('Helvetica-Bold').fontSize(8)
+            .text(voucher.package.name, x + 5, textY, { width: textWidth, lineBreak: false, ellipsis: true });
+        textY += 11;
+        doc.font('Helvetica').fontSize(7)
+            .text(`${formatMoney(voucher.package.price)} - ${formatVoucherValidity(voucher.package)}`, x + 5, textY, { width: textWidth, lineBreak: false, ellipsis: true });
+        textY += 12;
+        doc.font('Courier-Bold').fontSize(Math.min(12, textWidth / (voucher.code.length * 0.62)))
+            .text(voucher.code, x + 5, textY, { width: textWidth, lineBreak: false });
+
+        const qr = await QRCode.toBuffer(getVoucherPortalUrl(voucher.code, options.portalUrl), {
+            type: 'png',
+            margin: 0,
+            width: 200,
+            errorCorrectionLevel: 'M',
+        });
+        doc.image(qr, x + cardWidth - qrSize - 5, y + stripHeight + (cardHeight - stripHeight - qrSize) / 2, {
+            width: qrSize,
+            height: qrSize,
+        });
+    }
+
+    doc.end();
+    return { filename: `vouchers-${batchId.slice(0, 8)}.pdf`, content: await done };
+}
+
+function csvValue(value: string | number | null): string {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export every voucher in a batch as CSV
+ */
+export async function renderVoucherCsv(
+    tenantId: string,
+    batchId: string,
+    portalUrl?: string
+): Promise<{ filename: string; content: string } | null> {
+    const vouchers = await findBatchVouchers(tenantId, batchId);
+
+    if (vouchers.length === 0) {
+        return null;
+    }
+
+    const header = ['code', 'package', 'price', 'validity', 'status', 'expiresAt', 'usedAt', 'portalUrl'];
+    const rows = vouchers.map((voucher) => [
+        voucher.code,
+        voucher.package.name,
+        voucher.package.price,
+        formatVoucherValidity(voucher.package),
+        voucher.status,
+        voucher.expiresAt?.toISOString() ?? null,
+        voucher.usedAt?.toISOString() ?? null,
+        getVoucherPortalUrl(voucher.code, portalUrl),
+    ].map(csvValue).join(','));
+
+    return {
+        filename: `vouchers-${batchId.slice(0, 8)}.csv`,
+        content: [header.join(','), ...rows].join('\n') + '\n',
+    };
+}
+
+/**
+ * Create a short public download link for an invoice or receipt
+ */
+export async function createDocumentLink(type: DocumentType, documentId: string, tenantId: string): Promise<string> {
+    const link = await prisma.documentLink.create({
+        data: {
+            code: randomBytes(6).toString('base64url'),
+            type,
+            documentId,
+            tenantId,
+            expiresAt: new Date(Date.now() + LINK_TTL_MS),
+        },
+    });
+
+    const baseUrl = process.env['API_BASE_URL'] ?? 'https://113-30-190-52.cloud-xip.com';
+    return `${baseUrl}/d/${link.code}`;
+}
+
+/**
+ * Render the document behind a download link (null if unknown or expired)
+ */
+export async function renderLinkedDocument(code: string): Promise<PdfDocumentFile | null> {
+    const link = await prisma.documentLink.findUnique({ where: { code } });
+
+    if (!link || link.expiresAt < new Date()) {
+        return null;
+    }
+
+    return link.type === 'INVOICE'
+        ? renderInvoicePdf(link.tenantId, link.documentId)
+        : renderReceiptPdf(link.tenantId, link.documentId);
+}
+
+/**
+ * Text a customer a download link for an invoice or receipt
+ */
+export async function sendDocumentLink(
+    type: DocumentType,
+    documentId: string,
+    tenantId: string,
+    phone: string,
+    label: string
+): Promise<SmsResult & { url: string }> {
+    const url = await createDocumentLink(type, documentId, tenantId);
+    const message = type === 'INVOICE'
+        ? `Your invoice ${label} is ready. Download: ${url}`
+        : `Your payment receipt ${label} is ready. Download: ${url}`;
+
+    const result = await smsService.sendSms(tenantId, phone, message, 'document_link');
+    return { ...result, url };
+}
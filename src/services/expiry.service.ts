@@ -0,0 +1,166 @@
+/**
+ * Customer Expiry Engine
+ * Moves expired customers to EXPIRED and kicks them off the network via CoA.
+ * Tenants can configure a grace period during which expired users are throttled
+ * to a low rate limit instead of being disconnected straight away.
+ */
+
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { queue } from '../lib/queue.js';
+import { disconnectUser, updateUserRateLimit } from '../radius/handlers/coa.js';
+import { renewIfDue } from './renewal.service.js';
+
+// Configuration
+export const EXPIRY_JOB_NAME = 'customer-expiry';
+const EXPIRY_CRON = '* * * * *'; // Every minute
+const BATCH_SIZE = 200; // Customers loaded per page
+
+// Walled garden for expired PPPoE users (see configureGoldenState in mikrotik.service.ts)
+export const WALLED_GARDEN_ADDRESS_LIST = 'easyisp-expired';
+export const WALLED_GARDEN_RATE_LIMIT = '64k/64k';
+
+export interface ExpiryRunResult {
+    renewed: number;
+    expired: number;
+    throttled: number;
+    disconnected: number;
+}
+
+interface GraceSettings {
+    gracePeriodMinutes: number;
+    graceRateLimit: string;
+}
+
+/**
+ * Work out when a customer's grace period ends (null if the tenant has no grace period)
+ */
+export function getGraceEndsAt(expiresAt: Date, tenant: GraceSettings): Date | null {
+    if (!tenant.gracePeriodMinutes || tenant.gracePeriodMinutes <= 0) {
+        return null;
+    }
+    return new Date(expiresAt.getTime() + tenant.gracePeriodMinutes * 60 * 1000);
+}
+
+/**
+ * Check whether an expired customer is still inside the tenant's grace period
+ */
+export function isWithinGracePeriod(expiresAt: Date, tenant: GraceSettings, now: Date = new Date()): boolean {
+    const graceEndsAt = getGraceEndsAt(expiresAt, tenant);
+    return graceEndsAt !== null && expiresAt <= now && now < graceEndsAt;
+}
+
+/**
+ * Find active customers whose subscription has lapsed and renew them from their
+ * wallet, throttle them (inside the grace period) or expire and disconnect them.
+ */
+export async function processExpiredCustomers(now: Date = new Date()): Promise<ExpiryRunResult> {
+    const result: ExpiryRunResult = { renewed: 0, expired: 0, throttled: 0, disconnected: 0 };
+
+    // Page in id order: customers sitting out their grace period stay in the
+    // result, so a fixed first batch could keep newly expired ones from being reached
+    let lastId: string | undefined;
+
+    for (;;) {
+        const customers = await prisma.customer.findMany({
+            where: {
+                ...(lastId ? { id: { gt: lastId } } : {}),
+                status: 'ACTIVE',
+                deletedAt: null,
+                expiresAt: { lte: now },
+            },
+            select: {
+                id: true,
+                username: true,
+                tenantId: true,
+                expiresAt: true,
+                graceStartedAt: true,
+                tenant: {
+                    select: {
+                        gracePeriodMinutes: true,
+                        graceRateLimit: true,
+                    },
+                },
+            },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+        });
+
+        for (const customer of customers) {
+            try {
+                // Customers with enough wallet balance are renewed instead of expired
+                const renewal = await renewIfDue(customer.id, now);
+                if (renewal.renewed) {
+                    result.renewed++;
+                    continue;
+                }
+
+                if (isWithinGracePeriod(customer.expiresAt, customer.tenant, now)) {
+                    // Already throttled for this expiry - nothing to do until grace runs out
+                    if (customer.graceStartedAt && customer.graceStartedAt >= customer.expiresAt) {
+                        continue;
+                    }
+
+                    await prisma.customer.update({
+                        where: { id: customer.id },
+                        data: { graceStartedAt: now },
+                    });
+
+                    const coa = await updateUserRateLimit(
+                        customer.username,
+                        customer.tenantId,
+                        customer.tenant.graceRateLimit
+                    );
+                    result.throttled++;
+
+                    logger.info({
+                        username: customer.username,
+                        tenantId: customer.tenantId,
+                        rateLimit: customer.tenant.graceRateLimit,
+                        coa: coa.message,
+                    }, 'Customer expired - throttled for grace period');
+                    continue;
+                }
+
+                await prisma.customer.update({
+                    where: { id: customer.id },
+                    data: { status: 'EXPIRED' },
+                });
+                result.expired++;
+
+                const coa = await disconnectUser(customer.username, customer.tenantId);
+                if (coa.success) {
+                    result.disconnected++;
+                }
+
+                logger.info({
+                    username: customer.username,
+                    tenantId: customer.tenantId,
+                    expiresAt: customer.expiresAt,
+                    coa: coa.message,
+                }, 'Customer expired - disconnected');
+            } catch (error) {
+                logger.error({ error, customerId: customer.id }, 'Failed to process expired customer');
+            }
+        }
+
+        if (customers.length < BATCH_SIZE) {
+            break;
+        }
+        lastId = customers[customers.length - 1].id;
+    }
+
+    return result;
+}
+
+/**
+ * Start the expiry engine as a recurring pg-boss job
+ */
+export async function startExpiryEngine(): Promise<void> {
+    await queue.scheduleRecurring(EXPIRY_JOB_NAME, EXPIRY_CRON, async () => {
+        const result = await processExpiredCustomers();
+        if (result.expired > 0 || result.throttled > 0 || result.renewed > 0) {
+            logger.info(result, 'Expiry run complete');
+        }
+    });
+}
@@ -0,0 +1,618 @@
+/**
+ * General Ledger Service
+ * Double-entry bookkeeping on top of ChartOfAccount. Every payment, wallet
+ * renewal, expense, invoice and refund posts a balanced JournalEntry, and the
+ * account balances are kept in step with the posted lines.
+ */
+
+import type { PaymentMethod, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export type AccountType = 'Asset' | 'Liability' | 'Equity' | 'Revenue' | 'Expense';
+
+// System account codes seeded for every tenant
+export const ACCOUNT_CODES = {
+    CASH: '1000',
+    MPESA: '1010',
+    AIRTEL_MONEY: '1015',
+    BANK: '1020',
+    ACCOUNTS_RECEIVABLE: '1100',
+    CUSTOMER_WALLETS: '2000',
+    UNALLOCATED_RECEIPTS: '2050',
+    RESELLER_FLOAT: '2100',
+    OWNER_EQUITY: '3000',
+    SERVICE_REVENUE: '4000',
+    OTHER_INCOME: '4900',
+    GENERAL_EXPENSES: '5000',
+    BANDWIDTH: '5100',
+    SALARIES: '5200',
+    EQUIPMENT: '5300',
+    RENT: '5400',
+    RESELLER_COMMISSION: '5500',
+} as const;
+
+export const DEFAULT_ACCOUNTS: { code: string; name: string; type: AccountType; description: string }[] = [
+    { code: ACCOUNT_CODES.CASH, name: 'Cash on Hand', type: 'Asset', description: 'Cash payments received' },
+    { code: ACCOUNT_CODES.MPESA, name: 'M-Pesa', type: 'Asset', description: 'M-Pesa paybill/till balance' },
+    { code: ACCOUNT_CODES.AIRTEL_MONEY, name: 'Airtel Money', type: 'Asset', description: 'Airtel Money merchant balance' },
+    { code: ACCOUNT_CODES.BANK, name: 'Bank', type: 'Asset', description: 'Bank transfers and card payments' },
+    { code: ACCOUNT_CODES.ACCOUNTS_RECEIVABLE, name: 'Accounts Receivable', type: 'Asset', description: 'Unpaid customer invoices' },
+    { code: ACCOUNT_CODES.CUSTOMER_WALLETS, name: 'Customer Wallet Deposits', type: 'Liability', description: 'Prepaid balances held in customer wallets' },
+    { code: ACCOUNT_CODES.UNALLOCATED_RECEIPTS, name: 'Unallocated Receipts', type: 'Liability', description: 'Payments received but not yet matched to a customer' },
+    { code: ACCOUNT_CODES.RESELLER_FLOAT, name: 'Reseller Float', type: 'Liability', description: 'Prepaid float held by voucher resellers' },
+    { code: ACCOUNT_CODES.OWNER_EQUITY, name: "Owner's Equity", type: 'Equity', description: 'Capital invested by the owner' },
+    { code: ACCOUNT_CODES.SERVICE_REVENUE, name: 'Internet Service Revenue', type: 'Revenue', description: 'PPPoE and hotspot subscriptions' },
+    { code: ACCOUNT_CODES.OTHER_INCOME, name: 'Other Income', type: 'Revenue', description: 'Income not tied to a subscription' },
+    { code: ACCOUNT_CODES.GENERAL_EXPENSES, name: 'General Expenses', type: 'Expense', description: 'Uncategorised operating expenses' },
+    { code: ACCOUNT_CODES.BANDWIDTH, name: 'Bandwidth', type: 'Expense', description: 'Upstream bandwidth and transit' },
+    { code: ACCOUNT_CODES.SALARIES, name: 'Salaries', type: 'Expense', description: 'Staff salaries and wages' },
+    { code: ACCOUNT_CODES.EQUIPMENT, name: 'Equipment', type: 'Expense', description: 'Routers, radios and other equipment' },
+    { code: ACCOUNT_CODES.RENT, name: 'Rent', type: 'Expense', description: 'Office, mast and site rent' },
+    { code: ACCOUNT_CODES.RESELLER_COMMISSION, name: 'Reseller Commission', type: 'Expense', description: 'Commission paid to voucher resellers' },
+];
+
+export interface JournalLineInput {
+    accountCode: string;
+    debit?: number;
+    credit?: number;
+    description?: string;
+}
+
+export interface JournalEntryInput {
+    tenantId: string;
+    date?: Date;
+    description: string;
+    sourceType: string;
+    sourceId?: string;
+    reversalOf?: string;
+    lines: JournalLineInput[];
+}
+
+/**
+ * Asset and expense accounts increase with debits; everything else with credits
+ */
+export function isDebitNormal(type: string): boolean {
+    return type === 'Asset' || type === 'Expense';
+}
+
+function round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Seed the system chart of accounts for a tenant (safe to call repeatedly)
+ */
+export async function seedDefaultAccounts(db: Db, tenantId: string): Promise<void> {
+    await db.chartOfAccount.createMany({
+        data: DEFAULT_ACCOUNTS.map(a => ({ ...a, isSystem: true, tenantId })),
+        skipDuplicates: true,
+    });
+}
+
+/**
+ * Post a balanced journal entry and update the affected account balances
+ */
+export async function postJournalEntry(input: JournalEntryInput, db: Db = prisma) {
+    const lines = input.lines
+        .map(l => ({ ...l, debit: round(l.debit ?? 0), credit: round(l.credit ?? 0) }))
+        .filter(l => l.debit !== 0 || l.credit !== 0);
+
+    const totalDebit = round(lines.reduce((sum, l) => sum + l.debit, 0));
+    const totalCredit = round(lines.reduce((sum, l) => sum + l.credit, 0));
+
+    if (lines.length < 2 || totalDebit <= 0 || totalDebit !== totalCredit) {
+        throw new Error(`Unbalanced journal entry: debits ${totalDebit}, credits ${totalCredit}`);
+    }
+
+    const codes = [...new Set(lines.map(l => l.accountCode))];
+    let accounts = await db.chartOfAccount.findMany({
+        where: { tenantId: input.tenantId, code: { in: codes } },
+    });
+
+    // Tenants created before the ledger existed get their system accounts on first posting
+    if (accounts.length < codes.length) {
+        await seedDefaultAccounts(db, input.tenantId);
+        accounts = await db.chartOfAccount.findMany({
+            where: { tenantId: input.tenantId, code: { in: codes } },
+        });
+    }
+
+    const byCode = new Map(accounts.map(a => [a.code, a]));
+    const missing = codes.filter(code => !byCode.has(code));
+    if (missing.length > 0) {
+        throw new Error(`Unknown account code(s): ${missing.join(', ')}`);
+    }
+
+    const entry = await db.journalEntry.create({
+        data: {
+            tenantId: input.tenantId,
+            date: input.date ?? new Date(),
+            description: input.description,
+            sourceType: input.sourceType,
+            sourceId: input.sourceId,
+            reversalOf: input.reversalOf,
+            lines: {
+                create: lines.map(l => ({
+                    accountId: byCode.get(l.accountCode)!.id,
+                    debit: l.debit,
+                    credit: l.credit,
+                    description: l.description,
+                })),
+            },
+        },
+        include: { lines: true },
+    });
+
+    for (const line of lines) {
+        const account = byCode.get(line.accountCode)!;
+        const change = isDebitNormal(account.type) ? line.debit - line.credit : line.credit - line.debit;
+        await db.chartOfAccount.update({
+            where: { id: account.id },
+            data: { balance: { increment: round(change) } },
+        });
+    }
+
+    return entry;
+}
+
+/**
+ * Reverse every entry posted for a source document (refunds, cancellations)
+ */
+export async function reverseEntriesForSource(
+    tenantId: string,
+    sourceType: string,
+    sourceId: string,
+    reason: string,
+    db: Db = prisma
+): Promise<number> {
+    const entries = await db.journalEntry.findMany({
+        where: { tenantId, sourceType, sourceId, reversalOf: null },
+        include: { lines: { include: { account: true } } },
+    });
+
+    let reversed = 0;
+    for (const entry of entries) {
+        const already = await db.journalEntry.findFirst({ where: { reversalOf: entry.id } });
+        if (already) continue;
+
+        await postJournalEntry({
+            tenantId,
+            description: `${reason}: ${entry.description}`,
+            sourceType: 'REFUND',
+            sourceId,
+            reversalOf: entry.id,
+            lines: entry.lines.map(l => ({
+                accountCode: l.account.code,
+                debit: l.credit,
+                credit: l.debit,
+                description: l.description ?? undefined,
+            })),
+        }, db);
+        reversed++;
+    }
+
+    return reversed;
+}
+
+// ============ ACCOUNT MAPPING ============
+
+/**
+ * Asset account that receives money for a payment method
+ */
+export function accountForPaymentMethod(method: PaymentMethod | string | null | undefined): string {
+    const normalized = (method ?? '').toString().toUpperCase().replace(/[^A-Z]/g, '');
+    if (normalized === 'MPESA') return ACCOUNT_CODES.MPESA;
+    if (normalized === 'AIRTELMONEY') return ACCOUNT_CODES.AIRTEL_MONEY;
+    if (normalized.startsWith('BANK') || ['CARD', 'PAYSTACK', 'FLUTTERWAVE'].includes(normalized)) return ACCOUNT_CODES.BANK;
+    return ACCOUNT_CODES.CASH;
+}
+
+/**
+ * Expense account for an expense category
+ */
+export function accountForExpenseCategory(category: string): string {
+    switch (category.toLowerCase()) {
+        case 'bandwidth': return ACCOUNT_CODES.BANDWIDTH;
+        case 'salaries': return ACCOUNT_CODES.SALARIES;
+        case 'equipment': return ACCOUNT_CODES.EQUIPMENT;
+        case 'rent': return ACCOUNT_CODES.RENT;
+        default: return ACCOUNT_CODES.GENERAL_EXPENSES;
+    }
+}
+
+// ============ POSTING HELPERS ============
+
+/**
+ * Money received into a customer wallet: Dr Cash/M-Pesa/Bank, Cr Customer Wallet Deposits
+ */
+export function postWalletDeposit(
+    payment: { id: string; tenantId: string; amount: number; method: PaymentMethod; createdAt?: Date },
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: payment.tenantId,
+        date: payment.createdAt,
+        description: 'Customer wallet deposit',
+        sourceType: 'PAYMENT',
+        sourceId: payment.id,
+        lines: [
+            { accountCode: accountForPaymentMethod(payment.method), debit: payment.amount },
+            { accountCode: ACCOUNT_CODES.CUSTOMER_WALLETS, credit: payment.amount },
+        ],
+    }, db);
+}
+
+/**
+ * Money received that no customer could be matched to: Dr Cash/M-Pesa/Bank, Cr Unallocated Receipts
+ */
+export function postUnallocatedReceipt(
+    payment: { id: string; tenantId: string; amount: number; method: PaymentMethod; createdAt?: Date },
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: payment.tenantId,
+        date: payment.createdAt,
+        description: 'Unallocated receipt',
+        sourceType: 'PAYMENT',
+        sourceId: payment.id,
+        lines: [
+            { accountCode: accountForPaymentMethod(payment.method), debit: payment.amount },
+            { accountCode: ACCOUNT_CODES.UNALLOCATED_RECEIPTS, credit: payment.amount },
+        ],
+    }, db);
+}
+
+/**
+ * Unallocated receipt assigned to a customer: Dr Unallocated Receipts, Cr Customer Wallet Deposits
+ */
+export function postReceiptAllocation(
+    allocation: { paymentId: string; tenantId: string; amount: number; description: string },
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: allocation.tenantId,
+        description: allocation.description,
+        sourceType: 'PAYMENT',
+        sourceId: allocation.paymentId,
+        lines: [
+            { accountCode: ACCOUNT_CODES.UNALLOCATED_RECEIPTS, debit: allocation.amount },
+            { accountCode: ACCOUNT_CODES.CUSTOMER_WALLETS, credit: allocation.amount },
+        ],
+    }, db);
+}
+
+/**
+ * Money paid back to a payer: Dr Customer Wallet Deposits (unspent balance),
+ * Service Revenue (balance already spent on renewals) and Unallocated Receipts
+ * (suspense), Cr M-Pesa
+ */
+export function postPaymentRefund(
+    refund: { id: string; tenantId: string; fromWallets: number; fromRevenue: number; fromUnallocated: number; description: string },
+    db: Db = prisma
+) {
+    const total = refund.fromWallets + refund.fromRevenue + refund.fromUnallocated;
+    return postJournalEntry({
+        tenantId: refund.tenantId,
+        description: refund.description,
+        sourceType: 'REFUND',
+        sourceId: refund.id,
+        lines: [
+            { accountCode: ACCOUNT_CODES.CUSTOMER_WALLETS, debit: refund.fromWallets },
+            { accountCode: ACCOUNT_CODES.SERVICE_REVENUE, debit: refund.fromRevenue },
+            { accountCode: ACCOUNT_CODES.UNALLOCATED_RECEIPTS, debit: refund.fromUnallocated },
+            { accountCode: ACCOUNT_CODES.MPESA, credit: total },
+        ],
+    }, db);
+}
+
+/**
+ * Money received directly as revenue (hotspot sales, ad-hoc income):
+ * Dr Cash/M-Pesa/Bank, Cr Revenue
+ */
+export function postDirectSale(
+    payment: { id: string; tenantId: string; amount: number; method: PaymentMethod; createdAt?: Date },
+    description: string,
+    revenueCode: string = ACCOUNT_CODES.SERVICE_REVENUE,
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: payment.tenantId,
+        date: payment.createdAt,
+        description,
+        sourceType: 'PAYMENT',
+        sourceId: payment.id,
+        lines: [
+            { accountCode: accountForPaymentMethod(payment.method), debit: payment.amount },
+            { accountCode: revenueCode, credit: payment.amount },
+        ],
+    }, db);
+}
+
+/**
+ * Wallet balance spent on a renewal: Dr Customer Wallet Deposits, Cr Service Revenue
+ */
+export function postWalletRenewal(
+    renewal: { walletTransactionId: string; tenantId: string; amount: number; description: string },
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: renewal.tenantId,
+        description: renewal.description,
+        sourceType: 'WALLET_RENEWAL',
+        sourceId: renewal.walletTransactionId,
+        lines: [
+            { accountCode: ACCOUNT_CODES.CUSTOMER_WALLETS, debit: renewal.amount },
+            { accountCode: ACCOUNT_CODES.SERVICE_REVENUE, credit: renewal.amount },
+        ],
+    }, db);
+}
+
+/**
+ * Expense paid: Dr Expense (by category), Cr Cash/M-Pesa/Bank
+ */
+export function postExpense(
+    expense: { id: string; tenantId: string; amount: number; category: string; description: string; paymentMethod: string | null; date: Date },
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: expense.tenantId,
+        date: expense.date,
+        description: expense.description,
+        sourceType: 'EXPENSE',
+        sourceId: expense.id,
+        lines: [
+            { accountCode: accountForExpenseCategory(expense.category), debit: expense.amount },
+            { accountCode: accountForPaymentMethod(expense.paymentMethod), credit: expense.amount },
+        ],
+    }, db);
+}
+
+/**
+ * Invoice issued: Dr Accounts Receivable, Cr Service Revenue
+ */
+export function postInvoiceIssued(
+    invoice: { id: string; tenantId: string; amount: number; invoiceNo: string; createdAt?: Date },
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: invoice.tenantId,
+        date: invoice.createdAt,
+        description: `Invoice ${invoice.invoiceNo}`,
+        sourceType: 'INVOICE',
+        sourceId: invoice.id,
+        lines: [
+            { accountCode: ACCOUNT_CODES.ACCOUNTS_RECEIVABLE, debit: invoice.amount },
+            { accountCode: ACCOUNT_CODES.SERVICE_REVENUE, credit: invoice.amount },
+        ],
+    }, db);
+}
+
+/**
+ * Invoice settled: Dr Cash/M-Pesa/Bank (or Customer Wallet Deposits), Cr Accounts Receivable
+ */
+export function postInvoicePayment(
+    invoice: { id: string; tenantId: string; amount: number; invoiceNo: string },
+    debitAccountCode: string = ACCOUNT_CODES.CASH,
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: invoice.tenantId,
+        description: `Payment for invoice ${invoice.invoiceNo}`,
+        sourceType: 'INVOICE_PAYMENT',
+        sourceId: invoice.id,
+        lines: [
+            { accountCode: debitAccountCode, debit: invoice.amount },
+            { accountCode: ACCOUNT_CODES.ACCOUNTS_RECEIVABLE, credit: invoice.amount },
+        ],
+    }, db);
+}
+
+/**
+ * Reseller float topped up: Dr Cash/M-Pesa/Bank, Cr Reseller Float
+ */
+export function postResellerFloatTopUp(
+    topUp: { transactionId: string; tenantId: string; amount: number; method: string },
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: topUp.tenantId,
+        description: 'Reseller float top-up',
+        sourceType: 'RESELLER_FLOAT',
+        sourceId: topUp.transactionId,
+        lines: [
+            { accountCode: accountForPaymentMethod(topUp.method), debit: topUp.amount },
+            { accountCode: ACCOUNT_CODES.RESELLER_FLOAT, credit: topUp.amount },
+        ],
+    }, db);
+}
+
+/**
+ * Float spent on a voucher batch: Dr Reseller Float, Cr Service Revenue
+ */
+export function postResellerBatchSale(
+    sale: { transactionId: string; tenantId: string; amount: number; description: string },
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: sale.tenantId,
+        description: sale.description,
+        sourceType: 'RESELLER_BATCH',
+        sourceId: sale.transactionId,
+        lines: [
+            { accountCode: ACCOUNT_CODES.RESELLER_FLOAT, debit: sale.amount },
+            { accountCode: ACCOUNT_CODES.SERVICE_REVENUE, credit: sale.amount },
+        ],
+    }, db);
+}
+
+/**
+ * Unused codes of a revoked batch returned to the float: Dr Service Revenue, Cr Reseller Float
+ */
+export function postResellerBatchRefund(
+    refund: { transactionId: string; tenantId: string; amount: number; description: string },
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: refund.tenantId,
+        description: refund.description,
+        sourceType: 'RESELLER_BATCH_REFUND',
+        sourceId: refund.transactionId,
+        lines: [
+            { accountCode: ACCOUNT_CODES.SERVICE_REVENUE, debit: refund.amount },
+            { accountCode: ACCOUNT_CODES.RESELLER_FLOAT, credit: refund.amount },
+        ],
+    }, db);
+}
+
+/**
+ * Commission credited to a reseller's float: Dr Reseller Commission, Cr Reseller Float
+ */
+export function postResellerCommission(
+    commission: { transactionId: string; tenantId: string; amount: number; description: string },
+    db: Db = prisma
+) {
+    return postJournalEntry({
+        tenantId: commission.tenantId,
+        description: commission.description,
+        sourceType: 'RESELLER_COMMISSION',
+        sourceId: commission.transactionId,
+        lines: [
+            { accountCode: ACCOUNT_CODES.RESELLER_COMMISSION, debit: commission.amount },
+            { accountCode: ACCOUNT_CODES.RESELLER_FLOAT, credit: commission.amount },
+        ],
+    }, db);
+}
+
+// ============ REPORTS ============
+
+export interface AccountBalanceRow {
+    accountId: string;
+    code: string;
+    name: string;
+    type: string;
+    debit: number;
+    credit: number;
+    balance: number; // In the account's normal direction
+}
+
+/**
+ * Sum posted lines per account for entries dated within the range
+ */
+async function getAccountTotals(tenantId: string, from?: Date, to?: Date): Promise<AccountBalanceRow[]> {
+    const date: { gte?: Date; lte?: Date } = {};
+    if (from) date.gte = from;
+    if (to) date.lte = to;
+
+    const [accounts, totals] = await Promise.all([
+        prisma.chartOfAccount.findMany({ where: { tenantId }, orderBy: { code: 'asc' } }),
+        prisma.journalLine.groupBy({
+            by: ['accountId'],
+            where: { entry: { tenantId, ...(from || to ? { date } : {}) } },
+            _sum: { debit: true, credit: true },
+        }),
+    ]);
+
+    const byAccount = new Map(totals.map(t => [t.accountId, t._sum]));
+
+    return accounts.map(a => {
+        const sums = byAccount.get(a.id);
+        const debit = round(sums?.debit ?? 0);
+        const credit = round(sums?.credit ?? 0);
+        return {
+            accountId: a.id,
+            code: a.code,
+            name: a.name,
+            type: a.type,
+            debit,
+            credit,
+            balance: round(isDebitNormal(a.type) ? debit - credit : credit - debit),
+        };
+    });
+}
+
+/**
+ * Trial balance: every account's net debit or credit; totals must agree
+ */
+export async function getTrialBalance(tenantId: string, from?: Date, to?: Date) {
+    const rows = await getAccountTotals(tenantId, from, to);
+
+    const accounts = rows
+        .filter(r => r.debit !== 0 || r.credit !== 0)
+        .map(r => {
+            const net = round(r.debit - r.credit);
+            return {
+                code: r.code,
+                name: r.name,
+                type: r.type,
+                debit: net > 0 ? net : 0,
+                credit: net < 0 ? -net : 0,
+            };
+        });
+
+    const totalDebit = round(accounts.reduce((sum, a) => sum + a.debit, 0));
+    const totalCredit = round(accounts.reduce((sum, a) => sum + a.credit, 0));
+
+    return { accounts, totalDebit, totalCredit, balanced: totalDebit === totalCredit };
+}
+
+/**
+ * Profit and loss: revenue less expenses for the period
+ */
+export async function getProfitAndLoss(tenantId: string, from?: Date, to?: Date) {
+    const rows = await getAccountTotals(tenantId, from, to);
+
+    const revenue = rows.filter(r => r.type === 'Revenue' && r.balance !== 0)
+        .map(r => ({ code: r.code, name: r.name, amount: r.balance }));
+    const expenses = rows.filter(r => r.type === 'Expense' && r.balance !== 0)
+        .map(r => ({ code: r.code, name: r.name, amount: r.balance }));
+
+    const totalRevenue = round(revenue.reduce((sum, r) => sum + r.amount, 0));
+    const totalExpenses = round(expenses.reduce((sum, e) => sum + e.amount, 0));
+
+    return {
+        revenue,
+        expenses,
+        totalRevenue,
+        totalExpenses,
+        netIncome: round(totalRevenue - totalExpenses),
+    };
+}
+
+/**
+ * Balance sheet as of a date; unclosed revenue/expense shows as current earnings in equity
+ */
+export async function getBalanceSheet(tenantId: string, asOf?: Date) {
+    const rows = await getAccountTotals(tenantId, undefined, asOf);
+
+    const section = (type: string) => rows
+        .filter(r => r.type === type && r.balance !== 0)
+        .map(r => ({ code: r.code, name: r.name, amount: r.balance }));
+
+    const assets = section('Asset');
+    const liabilities = section('Liability');
+    const equity = section('Equity');
+
+    const revenue = rows.filter(r => r.type === 'Revenue').reduce((sum, r) => sum + r.balance, 0);
+    const expenses = rows.filter(r => r.type === 'Expense').reduce((sum, r) => sum + r.balance, 0);
+    const currentEarnings = round(revenue - expenses);
+    if (currentEarnings !== 0) {
+        equity.push({ code: '-', name: 'Current Earnings', amount: currentEarnings });
+    }
+
+    const totalAssets = round(assets.reduce((sum, a) => sum + a.amount, 0));
+    const totalLiabilities = round(liabilities.reduce((sum, l) => sum + l.amount, 0));
+    const totalEquity = round(equity.reduce((sum, e) => sum + e.amount, 0));
+
+    return {
+        asOf: asOf ?? new Date(),
+        assets,
+        liabilities,
+        equity,
+        totalAssets,
+        totalLiabilities,
+        totalEquity,
+        balanced: totalAssets === round(totalLiabilities + totalEquity),
+    };
+}
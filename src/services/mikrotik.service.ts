@@ -6,6 +6,7 @@
 import { RouterOSAPI } from 'routeros-client';
 import { logger } from '../lib/logger.js';
 import { prisma } from '../lib/prisma.js';
+import { WALLED_GARDEN_ADDRESS_LIST } from './expiry.service.js';
 
 interface NASInfo {
     id: string;
@@ -1571,12 +1572,100 @@ export class MikroTikService {
             } catch (e) {
                 logger.error({ error: e }, 'Failed to apply NAT rule');
             }
+
+            // ==========================================
+            // 5. Expired PPPoE Walled Garden
+            // ==========================================
+            // RADIUS puts expired users in the address list; their HTTP traffic is sent
+            // to the router's web proxy, which redirects every request to the renewal page.
+            try {
+                const tenant = await prisma.tenant.findUnique({
+                    where: { id: nas.tenantId },
+                    select: { expiredWalledGarden: true },
+                });
+
+                if (tenant?.expiredWalledGarden) {
+                    await this.configureExpiredWalledGarden(api, nas);
+                }
+            } catch (e) {
+                logger.error({ error: e }, 'Failed to configure expired walled garden');
+            }
         } catch (error) {
             logger.error({ error }, 'Failed to fix Walled Garden');
             // Don't throw, as this is a maintenance task
         }
     }
 
+    /**
+     * Redirect expired PPPoE users (address list from RADIUS) to the renewal portal page
+     * and block everything else except DNS and the backend.
+     */
+    private async configureExpiredWalledGarden(api: any, nas: any): Promise<void> {
+        const publicUrl = process.env['API_BASE_URL'] ?? 'https://113-30-190-52.cloud-xip.com';
+        const backendIp = '113.30.190.52';
+        const renewUrl = `${publicUrl}/portal-preview/expired.html?tenantId=${nas.tenantId}`;
+        const proxyPort = '8080';
+
+        // Web proxy: deny everything with a redirect to the renewal page
+        await api.write('/ip/proxy/set', [`=enabled=yes`, `=port=${proxyPort}`]);
+
+        const proxyComment = 'EasyISP: Expired Redirect';
+        const existingAccess = await api.write('/ip/proxy/access/print', [`?comment=${proxyComment}`]);
+        for (const entry of existingAccess) {
+            if (entry['.id']) {
+                await api.write('/ip/proxy/access/remove', [`=.id=${entry['.id']}`]);
+            }
+        }
+        await api.write('/ip/proxy/access/add', [
+            '=action=deny',
+            `=redirect-to=${renewUrl}`,
+            `=comment=${proxyComment}`,
+        ]);
+
+        // NAT: send expired users' HTTP to the proxy (except the backend itself)
+        const natComment = 'EasyISP: Expired HTTP Redirect';
+        const existingNat = await api.write('/ip/firewall/nat/print', [`?comment=${natComment}`]);
+        if (existingNat.length === 0) {
+            await api.write('/ip/firewall/nat/add', [
+                '=chain=dstnat',
+                `=src-address-list=${WALLED_GARDEN_ADDRESS_LIST}`,
+                '=protocol=tcp',
+                '=dst-port=80',
+                `=dst-address=!${backendIp}`,
+                '=action=redirect',
+                `=to-ports=${proxyPort}`,
+                `=comment=${natComment}`,
+                '=place-before=0',
+            ]);
+        }
+
+        // Filter: allow DNS and the backend, drop everything else from the list
+        const filterRules = [
+            {
+                comment: 'EasyISP: Expired Allow Backend',
+                cmd: ['=chain=forward', `=src-address-list=${WALLED_GARDEN_ADDRESS_LIST}`, `=dst-address=${backendIp}`, '=action=accept']
+            },
+            {
+                comment: 'EasyISP: Expired Allow DNS',
+                cmd: ['=chain=forward', `=src-address-list=${WALLED_GARDEN_ADDRESS_LIST}`, '=protocol=udp', '=dst-port=53', '=action=accept']
+            },
+            {
+                comment: 'EasyISP: Expired Drop',
+                cmd: ['=chain=forward', `=src-address-list=${WALLED_GARDEN_ADDRESS_LIST}`, '=action=drop']
+            },
+        ];
+
+        // Append in order so the drop rule stays below the allow rules
+        for (const rule of filterRules) {
+            const existing = await api.write('/ip/firewall/filter/print', [`?comment=${rule.comment}`]);
+            if (existing.length === 0) {
+                await api.write('/ip/firewall/filter/add', [...rule.cmd, `=comment=${rule.comment}`]);
+            }
+        }
+
+        logger.info({ nasId: nas.id, renewUrl }, 'Expired walled garden configured');
+    }
+
     /**
      * Close all connections (for cleanup)
      */
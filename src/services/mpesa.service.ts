@@ -8,9 +8,12 @@
  * - SMS message parsing
  */
 
+import type { PaymentGateway, PaymentMethod } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
 import { logger } from '../lib/logger.js';
 import { config } from '../lib/config.js';
+import { postDirectSale, ACCOUNT_CODES } from './ledger.service.js';
+import { protectPassword } from './credential.service.js';
 
 interface MpesaConfig {
     subType: 'PAYBILL' | 'BUYGOODS' | 'BANK';
@@ -185,7 +188,10 @@ export async function getTenantMpesaConfig(tenantId: string, purpose?: 'HOTSPOT'
 /**
  * Get M-Pesa API base URL
  */
-function getBaseUrl(env: 'sandbox' | 'production'): string {
+export function getBaseUrl(env: 'sandbox' | 'production'): string {
+    if (config.mpesa.apiUrl) {
+        return config.mpesa.apiUrl;
+    }
     return env === 'sandbox'
         ? 'https://sandbox.safaricom.co.ke'
         : 'https://api.safaricom.co.ke';
@@ -265,6 +271,43 @@ export async function getAccessToken(tenantId: string, purpose?: 'HOTSPOT' | 'PP
     return data.access_token;
 }
 
+/**
+ * OAuth access token for a gateway's own Daraja app (cached). B2C payouts and
+ * reversals run on the tenant's shortcode, so they can't use the central app.
+ */
+export async function getGatewayAccessToken(
+    gateway: Pick<PaymentGateway, 'id' | 'consumerKey' | 'consumerSecret' | 'env'>
+): Promise<string> {
+    if (!gateway.consumerKey || !gateway.consumerSecret) {
+        throw new Error('Gateway is missing API credentials');
+    }
+
+    const cacheKey = `gateway:${gateway.id}:${gateway.consumerKey}`;
+    const cached = tokenCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.token;
+    }
+
+    const baseUrl = getBaseUrl(gateway.env as 'sandbox' | 'production');
+    const auth = Buffer.from(`${gateway.consumerKey.trim()}:${gateway.consumerSecret.trim()}`).toString('base64');
+
+    const response = await fetch(`${baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+        method: 'GET',
+        headers: { Authorization: `Basic ${auth}` },
+    });
+    if (!response.ok) {
+        throw new Error(`Failed to get M-Pesa access token: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { access_token: string };
+    tokenCache.set(cacheKey, {
+        token: data.access_token,
+        expiresAt: Date.now() + 50 * 60 * 1000,
+    });
+
+    return data.access_token;
+}
+
 /**
  * Test Specific Gateway Connection
  */
@@ -618,14 +661,15 @@ export async function initiateSTKPush(
  */
 export async function querySTKStatus(
     tenantId: string,
-    checkoutRequestId: string
+    checkoutRequestId: string,
+    purpose?: 'HOTSPOT' | 'PPPOE'
 ): Promise<STKQueryResponse> {
-    const mpesaConfig = await getTenantMpesaConfig(tenantId);
+    const mpesaConfig = await getTenantMpesaConfig(tenantId, purpose);
     if (!mpesaConfig) {
         throw new Error('M-Pesa not configured for this tenant');
     }
 
-    const token = await getAccessToken(tenantId);
+    const token = await getAccessToken(tenantId, purpose);
     const baseUrl = getBaseUrl(mpesaConfig.env);
     const timestamp = generateTimestamp();
 
@@ -657,6 +701,44 @@ export async function querySTKStatus(
     return data;
 }
 
+export interface StkCallbackResult {
+    checkoutRequestId: string;
+    resultCode: number;
+    resultDesc?: string;
+    receipt?: string;
+    amount?: number;
+    phone?: string;
+    transactionType?: string;
+}
+
+/**
+ * Parse the body Daraja posts to the STK Push CallBackURL
+ */
+export function parseStkCallback(body: any): StkCallbackResult | null {
+    const stkCallback = body?.Body?.stkCallback;
+    if (!stkCallback?.CheckoutRequestID) {
+        return null;
+    }
+
+    const metadata: { Name: string; Value?: string | number }[] = stkCallback.CallbackMetadata?.Item ?? [];
+    const getMetaValue = (name: string) => metadata.find((m) => m.Name === name)?.Value;
+
+    const receipt = getMetaValue('MpesaReceiptNumber');
+    const amount = getMetaValue('Amount');
+    const phone = getMetaValue('PhoneNumber');
+    const transactionType = getMetaValue('TransactionType');
+
+    return {
+        checkoutRequestId: stkCallback.CheckoutRequestID,
+        resultCode: Number(stkCallback.ResultCode),
+        resultDesc: stkCallback.ResultDesc,
+        receipt: receipt ? String(receipt) : undefined,
+        amount: Number(amount) || undefined,
+        phone: phone ? String(phone) : undefined,
+        transactionType: transactionType ? String(transactionType) : undefined,
+    };
+}
+
 /**
  * Parse M-Pesa SMS message to extract transaction code
  * 
@@ -705,7 +787,8 @@ export async function createHotspotCustomerFromPayment(
     phone: string,
     packageId: string,
     amount: number,
-    macAddress?: string
+    macAddress?: string,
+    method: PaymentMethod = 'MPESA'
 ): Promise<{ customerId: string; username: string; password: string; expiresAt: Date }> {
     // Get the package details
     const pkg = await prisma.package.findFirst({
@@ -725,7 +808,7 @@ export async function createHotspotCustomerFromPayment(
     const customer = await prisma.customer.create({
         data: {
             username: transactionCode,
-            password: transactionCode,
+            ...(await protectPassword(transactionCode)),
             name: `Hotspot-${transactionCode}`,
             phone: phone,
             connectionType: 'HOTSPOT',
@@ -737,27 +820,31 @@ export async function createHotspotCustomerFromPayment(
         },
     });
 
-    // Record the payment
-    await prisma.payment.create({
-        data: {
-            amount: amount,
-            method: 'MPESA',
-            status: 'COMPLETED',
-            transactionId: transactionCode,
-            phone: phone,
-            account: transactionCode,
-            customerId: customer.id,
-            tenantId: tenantId,
-            description: `Hotspot package: ${pkg.name}`,
-        },
+    // Record the payment and post the sale to the ledger
+    await prisma.$transaction(async (tx) => {
+        const payment = await tx.payment.create({
+            data: {
+                amount: amount,
+                method,
+                status: 'COMPLETED',
+                transactionId: transactionCode,
+                phone: phone,
+                account: transactionCode,
+                customerId: customer.id,
+                tenantId: tenantId,
+                description: `Hotspot package: ${pkg.name}`,
+            },
+        });
+        await postDirectSale(payment, `Hotspot sale: ${pkg.name}`, ACCOUNT_CODES.SERVICE_REVENUE, tx);
     });
 
     logger.info({
         customerId: customer.id,
         username: transactionCode,
         expiresAt,
-        packageName: pkg.name
-    }, 'Hotspot customer created from M-Pesa payment');
+        packageName: pkg.name,
+        method,
+    }, 'Hotspot customer created from payment');
 
     return {
         customerId: customer.id,
@@ -0,0 +1,197 @@
+/**
+ * Data Quota Service
+ * Adds every accounting delta to the customer's quota for the current billing
+ * period, so usage accumulates across sessions instead of starting over on
+ * each reconnect. Customers get an SMS at 80% and 100%, and reaching the limit
+ * applies the tenant's action: disconnect, or throttle to the fair-use rate.
+ */
+
+import type { DataQuota, QuotaAction } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { disconnectUser, updateUserRateLimit } from '../radius/handlers/coa.js';
+import { smsService } from './sms.service.js';
+import { getBillingPeriod, isInvoiceBilled } from './billing.service.js';
+import { getPackageValidityDays } from './renewal.service.js';
+
+// Configuration
+export const QUOTA_WARNING_PERCENT = 80;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QuotaPeriod {
+    periodStart: Date;
+    periodEnd: Date;
+}
+
+export interface QuotaUpdate {
+    quota: DataQuota;
+    warned: boolean;
+    exhausted: boolean;
+}
+
+interface QuotaCustomer {
+    id: string;
+    expiresAt: Date;
+    createdAt: Date;
+    connectionType: string;
+    package: { sessionTime: number | null } | null;
+    tenant: { billingCycleEnabled: boolean; billDay: number | null };
+}
+
+/**
+ * The period a customer's quota is counted over: the invoice period for
+ * invoice-billed customers, otherwise the prepaid term containing `now`,
+ * counted back from expiresAt in steps of the package validity.
+ */
+export function getQuotaPeriod(customer: QuotaCustomer, now: Date = new Date()): QuotaPeriod {
+    if (isInvoiceBilled(customer, customer.tenant)) {
+        return getBillingPeriod(customer.tenant.billDay ?? customer.createdAt.getUTCDate(), now);
+    }
+
+    const termMs = getPackageValidityDays(customer.package ?? { sessionTime: null }) * DAY_MS;
+    const termsAhead = Math.max(1, Math.ceil((customer.expiresAt.getTime() - now.getTime()) / termMs));
+    const periodEnd = new Date(customer.expiresAt.getTime() - (termsAhead - 1) * termMs);
+
+    return { periodStart: new Date(periodEnd.getTime() - termMs), periodEnd };
+}
+
+/**
+ * The quota row for the customer's current period, if any usage has been counted
+ */
+export async function getCurrentQuota(customer: QuotaCustomer, now: Date = new Date()): Promise<DataQuota | null> {
+    const { periodStart } = getQuotaPeriod(customer, now);
+    return prisma.dataQuota.findUnique({
+        where: { customerId_periodStart: { customerId: customer.id, periodStart } },
+    });
+}
+
+/**
+ * Bytes left this period (never negative); the full package limit before any usage is counted
+ */
+export function getRemainingQuota(quota: Pick<DataQuota, 'usedOctets' | 'limitOctets'> | null, dataLimit: bigint): bigint {
+    if (!quota) return dataLimit;
+    const remaining = quota.limitOctets - quota.usedOctets;
+    return remaining > BigInt(0) ? remaining : BigInt(0);
+}
+
+function formatBytes(bytes: bigint): string {
+    const gb = Number(bytes) / (1024 * 1024 * 1024);
+    return gb >= 1 ? `${gb.toFixed(1)} GB` : `${(Number(bytes) / (1024 * 1024)).toFixed(0)} MB`;
+}
+
+function formatQuotaMessage(
+    customer: { name: string },
+    limit: bigint,
+    exhaustedAction: QuotaAction | null,
+    tenant: { businessName: string; fupRateLimit: string }
+): string {
+    const allowance = formatBytes(limit);
+    if (exhaustedAction === 'THROTTLE') {
+        return `Dear ${customer.name}, you have used your full ${allowance} data allowance. ` +
+            `Your speed has been reduced to ${tenant.fupRateLimit} until your next renewal. - ${tenant.businessName}`;
+    }
+    if (exhaustedAction === 'DISCONNECT') {
+        return `Dear ${customer.name}, you have used your full ${allowance} data allowance and have been disconnected. ` +
+            `Renew your package to get back online. - ${tenant.businessName}`;
+    }
+    return `Dear ${customer.name}, you have used ${QUOTA_WARNING_PERCENT}% of your ${allowance} data allowance for this period. - ${tenant.businessName}`;
+}
+
+/**
+ * Count octets against the customer's current-period quota and act on the
+ * warning and limit thresholds the first time they are crossed
+ */
+export async function addQuotaUsage(customerId: string, octets: bigint, now: Date = new Date()): Promise<QuotaUpdate | null> {
+    try {
+        const customer = await prisma.customer.findUnique({
+            where: { id: customerId },
+            include: {
+                package: true,
+                tenant: {
+                    select: {
+                        businessName: true,
+                        billingCycleEnabled: true,
+                        billDay: true,
+                        quotaAction: true,
+                        fupRateLimit: true,
+                    },
+                },
+            },
+        });
+
+        if (!customer?.package?.dataLimit) {
+            return null;
+        }
+
+        const { periodStart, periodEnd } = getQuotaPeriod(customer, now);
+
+        const quota = await prisma.dataQuota.upsert({
+            where: { customerId_periodStart: { customerId, periodStart } },
+            create: {
+                customerId,
+                tenantId: customer.tenantId,
+                periodStart,
+                periodEnd,
+                limitOctets: customer.package.dataLimit,
+                usedOctets: octets,
+            },
+            update: {
+                usedOctets: { increment: octets },
+            },
+        });
+
+        const percent = Number((quota.usedOctets * BigInt(100)) / quota.limitOctets);
+        const result: QuotaUpdate = { quota, warned: false, exhausted: false };
+        let action: QuotaAction | null = null;
+
+        // updateMany on the null timestamp so concurrent updates only act once
+        if (percent >= 100 && !quota.exhaustedAt) {
+            action = customer.tenant.quotaAction;
+            const claimed = await prisma.dataQuota.updateMany({
+                where: { id: quota.id, exhaustedAt: null },
+                data: { exhaustedAt: now, warnedAt: quota.warnedAt ?? now, action },
+            });
+            if (claimed.count === 0) {
+                return result;
+            }
+            result.exhausted = true;
+
+            const coa = action === 'THROTTLE'
+                ? await updateUserRateLimit(customer.username, customer.tenantId, customer.tenant.fupRateLimit)
+                : await disconnectUser(customer.username, customer.tenantId);
+
+            logger.info({
+                username: customer.username,
+                usedOctets: quota.usedOctets.toString(),
+                limitOctets: quota.limitOctets.toString(),
+                action,
+                coa: coa.message,
+            }, 'Data quota exhausted');
+        } else if (percent >= QUOTA_WARNING_PERCENT && !quota.warnedAt) {
+            const claimed = await prisma.dataQuota.updateMany({
+                where: { id: quota.id, warnedAt: null },
+                data: { warnedAt: now },
+            });
+            if (claimed.count === 0) {
+                return result;
+            }
+            result.warned = true;
+        } else {
+            return result;
+        }
+
+        if (customer.phone) {
+            const message = formatQuotaMessage(customer, quota.limitOctets, action, customer.tenant);
+            const purpose = customer.connectionType === 'HOTSPOT' ? 'HOTSPOT' : 'PPPOE';
+            const sms = await smsService.sendSms(customer.tenantId, customer.phone, message, 'quota', purpose);
+            if (!sms.success) {
+                logger.warn({ username: customer.username, error: sms.error }, 'Quota SMS failed to send');
+            }
+        }
+
+        return result;
+    } catch (error) {
+        logger.error({ error, customerId }, 'Failed to update data quota');
+        return null;
+    }
+}
@@ -0,0 +1,325 @@
+/**
+ * M-Pesa Statement Reconciliation
+ * Compares the statement exported from the M-Pesa org portal with what the
+ * system recorded. Every incoming receipt is looked up by receipt number in
+ * Payment.transactionId and PendingHotspotPayment.transactionCode; receipts
+ * the system never saw, payments the statement doesn't have and amounts that
+ * differ are reported. Missing receipts can then be imported through the
+ * normal C2B crediting flow (wallet credit and renewal, or suspense).
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import type { SheetRow } from '../lib/spreadsheet.js';
+import { handleC2BConfirmation, type C2BConfirmationResult } from './c2b.service.js';
+
+const EAT_OFFSET_MS = 3 * 60 * 60 * 1000; // Statement times are East Africa Time (UTC+3)
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const IMPORT_DESCRIPTION = 'M-Pesa payment imported from statement';
+
+export interface StatementEntry {
+    receiptNo: string;
+    completedAt: string | null; // ISO timestamp
+    amount: number; // Paid in
+    billRef: string | null; // A/C No. the payer entered
+    phone: string | null;
+    payer: string | null;
+    details: string | null;
+}
+
+export interface ReconciliationReport {
+    periodFrom: string | null;
+    periodTo: string | null;
+    summary: {
+        statementEntries: number;
+        matched: number;
+        missingInSystem: number;
+        missingInSystemAmount: number;
+        missingInStatement: number;
+        amountMismatches: number;
+    };
+    missingInSystem: StatementEntry[];
+    missingInStatement: { source: 'PAYMENT' | 'HOTSPOT'; id: string; transactionId: string; amount: number; createdAt: string }[];
+    amountMismatches: { receiptNo: string; statementAmount: number; systemAmount: number; source: 'PAYMENT' | 'HOTSPOT'; id: string }[];
+}
+
+function normalizeHeader(cell: string): string {
+    return cell.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function parseAmount(cell: string | undefined): number {
+    const amount = Number((cell ?? '').replace(/[^0-9.-]/g, ''));
+    return Number.isFinite(amount) ? amount : 0;
+}
+
+/**
+ * A statement timestamp: an Excel serial day number, "YYYY-MM-DD HH:mm:ss" or
+ * "DD-MM-YYYY HH:mm:ss" (slashes also accepted), all in East Africa Time
+ */
+export function parseStatementTime(cell: string | undefined): Date | null {
+    const value = (cell ?? '').trim();
+    if (!value) return null;
+
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        return new Date(EXCEL_EPOCH_MS + Math.round(Number(value) * 86400000) - EAT_OFFSET_MS);
+    }
+
+    let match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(value);
+    let parts: string[] | null = match ? [match[1], match[2], match[3], match[4], match[5], match[6]] : null;
+    if (!parts) {
+        match = /^(\d{1,2})[-/](\d{1,2})[-/](\d{4})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(value);
+        parts = match ? [match[3], match[2], match[1], match[4], match[5], match[6]] : null;
+    }
+    if (!parts) return null;
+
+    const [year, month, day, hour, minute, second] = parts.map((p) => Number(p ?? 0));
+    const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second) - EAT_OFFSET_MS);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Incoming entries of an org portal statement. The header row is found by
+ * its "Receipt No." column since the export starts with account details.
+ * Returns null when the sheet isn't an M-Pesa statement.
+ */
+export function parseStatement(rows: SheetRow[]): StatementEntry[] | null {
+    const headerIndex = rows.findIndex((row) => row.some((cell) => normalizeHeader(cell) === 'receiptno'));
+    if (headerIndex < 0) {
+        return null;
+    }
+
+    const header = rows[headerIndex].map(normalizeHeader);
+    const col = (...names: string[]) => header.findIndex((h) => names.includes(h));
+    const receiptCol = col('receiptno');
+    const timeCol = col('completiontime', 'completedtime', 'transactiontime');
+    const paidInCol = col('paidin', 'amount');
+    const statusCol = col('transactionstatus', 'status');
+    const detailsCol = col('details');
+    const otherPartyCol = col('otherpartyinfo', 'otherparty');
+    const accountCol = col('acno', 'accountno', 'accountnumber');
+
+    const entries: StatementEntry[] = [];
+    for (const row of rows.slice(headerIndex + 1)) {
+        const receiptNo = (row[receiptCol] ?? '').trim();
+        if (!receiptNo) continue;
+        if (statusCol >= 0 && row[statusCol] && row[statusCol].trim().toLowerCase() !== 'completed') continue;
+
+        const amount = parseAmount(row[paidInCol]);
+        if (amount <= 0) continue; // Withdrawals and charges
+
+        // "254712345678 - JOHN DOE" (the number may be masked)
+        const otherParty = otherPartyCol >= 0 ? (row[otherPartyCol] ?? '').trim() : '';
+        const [phonePart, ...nameParts] = otherParty.split(' - ');
+        const completedAt = timeCol >= 0 ? parseStatementTime(row[timeCol]) : null;
+
+        entries.push({
+            receiptNo,
+            completedAt: completedAt?.toISOString() ?? null,
+            amount,
+            billRef: accountCol >= 0 ? (row[accountCol] ?? '').trim() || null : null,
+            phone: /^\d{9,12}$/.test(phonePart?.trim() ?? '') ? phonePart.trim() : null,
+            payer: nameParts.join(' - ').trim() || null,
+            details: detailsCol >= 0 ? (row[detailsCol] ?? '').trim() || null : null,
+        });
+    }
+
+    return entries;
+}
+
+/**
+ * Reconcile statement entries against the tenant's payments. Payments missing
+ * from the statement are looked for within the statement's period only.
+ */
+export async function reconcileStatement(tenantId: string, entries: StatementEntry[]): Promise<ReconciliationReport> {
+    const receipts = entries.map((e) => e.receiptNo);
+    const times = entries.map((e) => e.completedAt).filter((t): t is string => !!t).sort();
+    const periodFrom = times[0] ?? null;
+    const periodTo = times[times.length - 1] ?? null;
+
+    const [payments, hotspotPayments] = await Promise.all([
+        prisma.payment.findMany({
+            where: { tenantId, transactionId: { in: receipts } },
+            select: { id: true, transactionId: true, amount: true },
+        }),
+        prisma.pendingHotspotPayment.findMany({
+            where: { tenantId, transactionCode: { in: receipts } },
+            select: { id: true, transactionCode: true, amount: true },
+        }),
+    ]);
+
+    const paymentByReceipt = new Map(payments.map((p) => [p.transactionId!, p]));
+    const hotspotByReceipt = new Map(hotspotPayments.map((p) => [p.transactionCode!, p]));
+
+    const report: ReconciliationReport = {
+        periodFrom,
+        periodTo,
+        summary: {
+            statementEntries: entries.length,
+            matched: 0,
+            missingInSystem: 0,
+            missingInSystemAmount: 0,
+            missingInStatement: 0,
+            amountMismatches: 0,
+        },
+        missingInSystem: [],
+        missingInStatement: [],
+        amountMismatches: [],
+    };
+
+    for (const entry of entries) {
+        const payment = paymentByReceipt.get(entry.receiptNo);
+        const hotspot = hotspotByReceipt.get(entry.receiptNo);
+
+        if (!payment && !hotspot) {
+            report.missingInSystem.push(entry);
+            continue;
+        }
+
+        const record = payment
+            ? { source: 'PAYMENT' as const, id: payment.id, amount: payment.amount }
+            : { source: 'HOTSPOT' as const, id: hotspot!.id, amount: hotspot!.amount };
+
+        if (Math.round(record.amount * 100) !== Math.round(entry.amount * 100)) {
+            report.amountMismatches.push({
+                receiptNo: entry.receiptNo,
+                statementAmount: entry.amount,
+                systemAmount: record.amount,
+                source: record.source,
+                id: record.id,
+            });
+        } else {
+            report.summary.matched++;
+        }
+    }
+
+    if (periodFrom && periodTo) {
+        const createdAt = { gte: new Date(periodFrom), lte: new Date(periodTo) };
+        const [unlistedPayments, unlistedHotspot] = await Promise.all([
+            prisma.payment.findMany({
+                where: {
+                    tenantId,
+                    method: 'MPESA',
+                    status: { in: ['COMPLETED', 'UNALLOCATED'] },
+                    transactionId: { not: null, notIn: receipts },
+                    createdAt,
+                },
+                select: { id: true, transactionId: true, amount: true, createdAt: true },
+                orderBy: { createdAt: 'asc' },
+            }),
+            prisma.pendingHotspotPayment.findMany({
+                where: {
+                    tenantId,
+                    status: 'COMPLETED',
+                    transactionCode: { not: null, notIn: receipts },
+                    createdAt,
+                },
+                select: { id: true, transactionCode: true, amount: true, createdAt: true },
+                orderBy: { createdAt: 'asc' },
+            }),
+        ]);
+
+        // A hotspot sale also has a Payment row with the same receipt - report it once
+        const listed = new Set(unlistedPayments.map((p) => p.transactionId));
+        report.missingInStatement = [
+            ...unlistedPayments.map((p) => ({
+                source: 'PAYMENT' as const,
+                id: p.id,
+                transactionId: p.transactionId!,
+                amount: p.amount,
+                createdAt: p.createdAt.toISOString(),
+            })),
+            ...unlistedHotspot.filter((p) => !listed.has(p.transactionCode)).map((p) => ({
+                source: 'HOTSPOT' as const,
+                id: p.id,
+                transactionId: p.transactionCode!,
+                amount: p.amount,
+                createdAt: p.createdAt.toISOString(),
+            })),
+        ];
+    }
+
+    report.summary.missingInSystem = report.missingInSystem.length;
+    report.summary.missingInSystemAmount = Math.round(report.missingInSystem.reduce((sum, e) => sum + e.amount, 0) * 100) / 100;
+    report.summary.missingInStatement = report.missingInStatement.length;
+    report.summary.amountMismatches = report.amountMismatches.length;
+
+    return report;
+}
+
+/**
+ * Store an uploaded statement with its reconciliation report
+ */
+export async function createStatementImport(
+    tenantId: string,
+    gatewayId: string,
+    entries: StatementEntry[],
+    options: { fileName?: string; createdBy?: string } = {}
+) {
+    const report = await reconcileStatement(tenantId, entries);
+
+    return prisma.mpesaStatementImport.create({
+        data: {
+            fileName: options.fileName,
+            periodFrom: report.periodFrom ? new Date(report.periodFrom) : null,
+            periodTo: report.periodTo ? new Date(report.periodTo) : null,
+            entries: entries as unknown as Prisma.InputJsonValue,
+            report: report as unknown as Prisma.InputJsonValue,
+            gatewayId,
+            tenantId,
+            createdBy: options.createdBy,
+        },
+    });
+}
+
+/**
+ * Import receipts the system is missing (all, or the given receipt numbers)
+ * through the C2B crediting flow, then refresh the stored report. Returns
+ * null when the statement import doesn't exist.
+ */
+export async function importMissingEntries(tenantId: string, importId: string, receiptNos?: string[]) {
+    const statement = await prisma.mpesaStatementImport.findFirst({
+        where: { id: importId, tenantId },
+        include: { gateway: { select: { shortcode: true } } },
+    });
+    if (!statement) {
+        return null;
+    }
+
+    const entries = statement.entries as unknown as StatementEntry[];
+    // Re-check first: receipts may have arrived since the upload
+    const current = await reconcileStatement(tenantId, entries);
+    const wanted = receiptNos ? new Set(receiptNos) : null;
+    const toImport = current.missingInSystem.filter((e) => !wanted || wanted.has(e.receiptNo));
+
+    const results: { receiptNo: string; status: C2BConfirmationResult['status'] | 'failed'; paymentId?: string; error?: string }[] = [];
+    for (const entry of toImport) {
+        try {
+            const result = await handleC2BConfirmation({ tenantId }, {
+                TransID: entry.receiptNo,
+                TransAmount: entry.amount,
+                BusinessShortCode: statement.gateway.shortcode,
+                BillRefNumber: entry.billRef ?? undefined,
+                MSISDN: entry.phone ?? undefined,
+                FirstName: entry.payer ?? undefined,
+            }, IMPORT_DESCRIPTION);
+            results.push({ receiptNo: entry.receiptNo, status: result.status, paymentId: result.paymentId });
+        } catch (error) {
+            logger.error({ error, importId, receiptNo: entry.receiptNo }, 'Failed to import statement entry');
+            results.push({ receiptNo: entry.receiptNo, status: 'failed', error: (error as Error).message });
+        }
+    }
+
+    const report = await reconcileStatement(tenantId, entries);
+    await prisma.mpesaStatementImport.update({
+        where: { id: statement.id },
+        data: { report: report as unknown as Prisma.InputJsonValue },
+    });
+
+    return {
+        imported: results.filter((r) => r.status === 'credited' || r.status === 'suspense').length,
+        failed: results.filter((r) => r.status === 'failed').length,
+        results,
+        report,
+    };
+}
@@ -0,0 +1,435 @@
+/**
+ * M-Pesa Refund Service
+ * Sends money back to a payer through Daraja, either as a B2C payout to their
+ * phone or as a Transaction Reversal of the original receipt (payments sent
+ * to the wrong PayBill/Till). Both go through the gateway's M-Pesa provider
+ * adapter, on its own app and initiator. Daraja answers asynchronously on a
+ * per-refund callback URL; only a successful result takes the money back from the customer - first from the
+ * wallet, then by rolling back the expiry the payment bought - and posts the
+ * refund to the ledger.
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { PaymentRefund, Prisma, RefundMethod, RefundStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { formatPhoneNumber } from './mpesa.service.js';
+import { paymentProviderService } from './payment-provider.service.js';
+import { getPackageValidityDays } from './renewal.service.js';
+import { postPaymentRefund } from './ledger.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RefundRequest {
+    method: RefundMethod;
+    amount?: number; // Defaults to whatever is left to refund
+    phone?: string; // B2C recipient, defaults to the payer
+    reason?: string;
+    gatewayId?: string; // Defaults to the tenant's default gateway
+}
+
+export interface RefundRequestResult {
+    success: boolean;
+    message: string;
+    refund?: PaymentRefund;
+}
+
+// Result body Daraja posts to the ResultURL
+export interface DarajaResult {
+    ResultType?: number;
+    ResultCode: number | string;
+    ResultDesc?: string;
+    OriginatorConversationID?: string;
+    ConversationID?: string;
+    TransactionID?: string;
+}
+
+function round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Public result/timeout URLs of a refund
+ */
+export function getRefundCallbackUrls(refund: { id: string; callbackToken: string }) {
+    const baseUrl = process.env['API_BASE_URL'] ?? 'https://113-30-190-52.cloud-xip.com';
+    const prefix = `${baseUrl}/api/payments/webhooks/refund/${refund.id}/${refund.callbackToken}`;
+    return {
+        resultUrl: `${prefix}/result`,
+        timeoutUrl: `${prefix}/timeout`,
+    };
+}
+
+/**
+ * Free the payment for other refunds and allocation once a refund failed
+ */
+function releaseReservation(tx: Prisma.TransactionClient, refund: Pick<PaymentRefund, 'paymentId'>) {
+    return tx.payment.update({
+        where: { id: refund.paymentId },
+        data: { refundReserved: 0 },
+    });
+}
+
+/**
+ * Ask Daraja to refund (part of) an M-Pesa payment. The refund stays PENDING
+ * until the result callback arrives.
+ */
+export async function requestRefund(
+    tenantId: string,
+    paymentId: string,
+    input: RefundRequest,
+    requestedBy?: string
+): Promise<RefundRequestResult> {
+    const payment = await prisma.payment.findFirst({ where: { id: paymentId, tenantId } });
+    if (!payment) {
+        return { success: false, message: 'Payment not found' };
+    }
+    if (payment.method !== 'MPESA') {
+        return { success: false, message: 'Only M-Pesa payments can be refunded through M-Pesa' };
+    }
+    if (payment.status !== 'COMPLETED' && payment.status !== 'UNALLOCATED') {
+        return { success: false, message: `A ${payment.status.toLowerCase()} payment cannot be refunded` };
+    }
+
+    if (payment.refundReserved > 0) {
+        return { success: false, message: 'A refund of this payment is already in progress' };
+    }
+
+    const refundable = round(payment.amount - payment.refundedAmount);
+    const amount = input.amount ?? refundable;
+    if (amount <= 0 || amount > refundable) {
+        return { success: false, message: `At most KES ${refundable} can be refunded` };
+    }
+
+    let phone: string | null = null;
+    if (input.method === 'REVERSAL') {
+        if (!payment.transactionId) {
+            return { success: false, message: 'Payment has no M-Pesa receipt to reverse' };
+        }
+        if (payment.refundedAmount > 0 || amount !== payment.amount) {
+            return { success: false, message: 'A reversal returns the whole payment; use a B2C refund for part of it' };
+        }
+    } else {
+        // C2B callbacks mask the payer's number, so staff may have to supply it
+        const raw = (input.phone ?? payment.phone ?? '').trim();
+        if (!/^\+?\d{9,12}$/.test(raw)) {
+            return { success: false, message: 'A valid phone number is required for a B2C refund' };
+        }
+        phone = formatPhoneNumber(raw);
+    }
+
+    const gateway = input.gatewayId
+        ? await prisma.paymentGateway.findFirst({ where: { id: input.gatewayId, tenantId } })
+        : await prisma.paymentGateway.findFirst({
+            where: { tenantId, type: 'MPESA_API' },
+            orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+        });
+    const provider = gateway ? paymentProviderService.getAdapter(gateway) : null;
+    if (!gateway || provider?.method !== 'MPESA') {
+        return { success: false, message: 'No M-Pesa gateway configured' };
+    }
+    if (!gateway.initiatorName || !gateway.securityCredential) {
+        return { success: false, message: 'Gateway has no initiator credentials for refunds' };
+    }
+
+    // Reserve the amount before anything is paid out. The guard only matches the
+    // payment as read above, so a concurrent refund or allocation makes it miss.
+    const refund = await prisma.$transaction(async (tx) => {
+        const reserved = await tx.payment.updateMany({
+            where: { id: paymentId, status: payment.status, refundedAmount: payment.refundedAmount, refundReserved: 0 },
+            data: { refundReserved: amount },
+        });
+        if (reserved.count === 0) {
+            return null;
+        }
+
+        return tx.paymentRefund.create({
+            data: {
+                method: input.method,
+                amount,
+                phone,
+                reason: input.reason,
+                callbackToken: randomBytes(24).toString('hex'),
+                paymentId,
+                tenantId,
+                requestedBy,
+            },
+        });
+    });
+    if (!refund) {
+        return { success: false, message: 'The payment is being refunded or allocated; try again' };
+    }
+
+    const urls = getRefundCallbackUrls(refund);
+    const result = await provider.refund({
+        transactionId: payment.transactionId ?? payment.id,
+        amount,
+        phone: phone ?? undefined,
+        reversal: input.method === 'REVERSAL',
+        reason: input.reason,
+        resultUrl: urls.resultUrl,
+        timeoutUrl: urls.timeoutUrl,
+    });
+
+    if (!result.success) {
+        const message = result.error || 'Refund request failed';
+        logger.warn({ refundId: refund.id, message }, 'M-Pesa refund request failed');
+        const failed = await prisma.$transaction(async (tx) => {
+            await releaseReservation(tx, refund);
+            return tx.paymentRefund.update({
+                where: { id: refund.id },
+                data: { status: 'FAILED', resultDesc: message, completedAt: new Date() },
+            });
+        });
+        return { success: false, message, refund: failed };
+    }
+
+    const sent = await prisma.paymentRefund.update({
+        where: { id: refund.id },
+        data: {
+            conversationId: result.reference,
+            originatorConversationId: result.originatorReference,
+        },
+    });
+
+    logger.info({ refundId: refund.id, paymentId, method: input.method, amount }, 'M-Pesa refund requested');
+    return { success: true, message: result.message || 'Refund requested', refund: sent };
+}
+
+/**
+ * The refund a Daraja callback belongs to, or null when the URL token doesn't match
+ */
+export async function findRefundForCallback(refundId: string, token: string): Promise<PaymentRefund | null> {
+    const refund = await prisma.paymentRefund.findUnique({ where: { id: refundId } });
+    if (!refund) {
+        return null;
+    }
+
+    const expected = Buffer.from(refund.callbackToken);
+    const given = Buffer.from(token);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+        return null;
+    }
+
+    return refund;
+}
+
+/**
+ * Customers a payment was credited to and their share of a refund. A split
+ * suspense payment is refunded in proportion to each allocation.
+ */
+function refundShares(
+    payment: { amount: number; customerId: string | null; allocations: { customerId: string; amount: number }[] },
+    amount: number
+): { customerId: string; amount: number }[] {
+    const owners = payment.allocations.length > 0
+        ? payment.allocations
+        : payment.customerId ? [{ customerId: payment.customerId, amount: payment.amount }] : [];
+
+    // Allocations add up to what was left after earlier refunds, not the whole payment
+    const total = owners.reduce((sum, owner) => sum + owner.amount, 0);
+    let remaining = amount;
+    return owners.map((owner, i) => {
+        const share = i === owners.length - 1 ? remaining : round(amount * owner.amount / total);
+        remaining = round(remaining - share);
+        return { customerId: owner.customerId, amount: share };
+    });
+}
+
+/**
+ * Take a refunded share back from a customer: out of the wallet while it
+ * lasts, then by shortening the subscription the rest already paid for
+ */
+async function takeBackFromCustomer(
+    tx: Prisma.TransactionClient,
+    customerId: string,
+    amount: number,
+    refundId: string,
+    description: string
+): Promise<{ walletDebited: number; revenueReversed: number }> {
+    const customer = await tx.customer.findUnique({
+        where: { id: customerId },
+        include: { package: true },
+    });
+    if (!customer) {
+        return { walletDebited: 0, revenueReversed: amount };
+    }
+
+    const walletDebited = round(Math.min(Math.max(customer.walletBalance, 0), amount));
+    const revenueReversed = round(amount - walletDebited);
+
+    const data: Prisma.CustomerUpdateInput = {
+        totalSpent: { decrement: amount },
+    };
+    if (walletDebited > 0) {
+        data.walletBalance = { decrement: walletDebited };
+    }
+    if (revenueReversed > 0 && customer.package && customer.package.price > 0) {
+        const days = revenueReversed / customer.package.price * getPackageValidityDays(customer.package);
+        data.expiresAt = new Date(customer.expiresAt.getTime() - days * DAY_MS);
+    }
+
+    const updated = await tx.customer.update({ where: { id: customerId }, data });
+
+    if (walletDebited > 0) {
+        await tx.walletTransaction.create({
+            data: {
+                type: 'DEBIT',
+                amount: walletDebited,
+                balanceAfter: updated.walletBalance,
+                reference: refundId,
+                description,
+                customerId,
+                tenantId: customer.tenantId,
+            },
+        });
+    }
+
+    logger.info({
+        customer: customer.username,
+        walletDebited,
+        revenueReversed,
+        expiresAt: updated.expiresAt,
+    }, 'Refund taken back from customer');
+
+    return { walletDebited, revenueReversed };
+}
+
+/**
+ * Mark a PENDING refund failed and release its reservation. Returns false
+ * when another callback already settled it.
+ */
+async function failRefund(
+    refund: PaymentRefund,
+    data: Pick<Prisma.PaymentRefundUpdateManyMutationInput, 'resultCode' | 'resultDesc' | 'completedAt'>
+): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+        const failed = await tx.paymentRefund.updateMany({
+            where: { id: refund.id, status: 'PENDING' },
+            data: { status: 'FAILED', ...data },
+        });
+        if (failed.count === 0) {
+            return false;
+        }
+
+        await releaseReservation(tx, refund);
+        return true;
+    });
+}
+
+/**
+ * Apply Daraja's result for a refund. A success adjusts the customer(s),
+ * the payment and the ledger exactly once; repeated callbacks are ignored.
+ * Returns the refund's new status, or null when nothing changed.
+ */
+export async function handleRefundResult(refund: PaymentRefund, result: DarajaResult): Promise<RefundStatus | null> {
+    if (refund.status !== 'PENDING') {
+        logger.info({ refundId: refund.id, status: refund.status }, 'Duplicate M-Pesa refund result');
+        return null;
+    }
+    if (result.ConversationID && refund.conversationId && result.ConversationID !== refund.conversationId) {
+        logger.warn({ refundId: refund.id, conversationId: result.ConversationID }, 'M-Pesa refund result for another conversation');
+        return null;
+    }
+
+    const resultCode = Number(result.ResultCode);
+    const completedAt = new Date();
+
+    if (resultCode !== 0) {
+        const failed = await failRefund(refund, { resultCode, resultDesc: result.ResultDesc, completedAt });
+        logger.warn({ refundId: refund.id, resultCode, resultDesc: result.ResultDesc }, 'M-Pesa refund failed');
+        return failed ? 'FAILED' : null;
+    }
+
+    const applied = await prisma.$transaction(async (tx) => {
+        // Claim the refund first so a concurrent callback can't apply it twice
+        const claimed = await tx.paymentRefund.updateMany({
+            where: { id: refund.id, status: 'PENDING' },
+            data: {
+                status: 'COMPLETED',
+                resultCode,
+                resultDesc: result.ResultDesc,
+                transactionId: result.TransactionID,
+                completedAt,
+            },
+        });
+        if (claimed.count === 0) {
+            return false;
+        }
+
+        const payment = await tx.payment.findUniqueOrThrow({
+            where: { id: refund.paymentId },
+            include: { allocations: true },
+        });
+        const description = `Refund of payment ${payment.transactionId ?? payment.id}`;
+
+        let fromWallets = 0;
+        let fromRevenue = 0;
+        let fromUnallocated = 0;
+
+        if (payment.status === 'UNALLOCATED') {
+            fromUnallocated = refund.amount;
+        } else {
+            const shares = refundShares(payment, refund.amount);
+            if (shares.length === 0) {
+                fromRevenue = refund.amount; // Direct sale with no customer
+            }
+            for (const share of shares) {
+                const taken = await takeBackFromCustomer(tx, share.customerId, share.amount, refund.id, description);
+                fromWallets = round(fromWallets + taken.walletDebited);
+                fromRevenue = round(fromRevenue + taken.revenueReversed);
+            }
+        }
+
+        const refundedAmount = round(payment.refundedAmount + refund.amount);
+        await tx.payment.update({
+            where: { id: payment.id },
+            data: {
+                refundedAmount,
+                refundReserved: 0,
+                status: refundedAmount >= payment.amount ? 'REFUNDED' : payment.status,
+            },
+        });
+
+        await tx.paymentRefund.update({
+            where: { id: refund.id },
+            data: { walletDebited: fromWallets, revenueReversed: fromRevenue },
+        });
+
+        await postPaymentRefund({
+            id: refund.id,
+            tenantId: refund.tenantId,
+            fromWallets,
+            fromRevenue,
+            fromUnallocated,
+            description,
+        }, tx);
+
+        return true;
+    });
+
+    if (!applied) {
+        return null;
+    }
+
+    logger.info({
+        refundId: refund.id,
+        paymentId: refund.paymentId,
+        amount: refund.amount,
+        transactionId: result.TransactionID,
+    }, 'M-Pesa refund completed');
+    return 'COMPLETED';
+}
+
+/**
+ * Daraja gave up on a refund that sat in its queue too long; nothing was paid out
+ */
+export async function handleRefundTimeout(refund: PaymentRefund): Promise<RefundStatus | null> {
+    const failed = await failRefund(refund, { resultDesc: 'Request timed out in the M-Pesa queue', completedAt: new Date() });
+    if (!failed) {
+        return null;
+    }
+
+    logger.warn({ refundId: refund.id }, 'M-Pesa refund timed out');
+    return 'FAILED';
+}
@@ -0,0 +1,375 @@
+/**
+ * Wallet Renewal Service
+ * Credits customer wallets from payments and spends the balance to renew the
+ * customer's package once it is due. Partial payments simply accumulate in the
+ * wallet until they cover a full renewal. Every credit and debit is written to
+ * the WalletTransaction ledger and posted to the general ledger. Customers on
+ * invoice billing have their open invoices paid from the wallet instead.
+ */
+
+import type { PaymentMethod, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { queue } from '../lib/queue.js';
+import { disconnectUser } from '../radius/handlers/coa.js';
+import { postWalletDeposit, postWalletRenewal } from './ledger.service.js';
+import { isInvoiceBilled, settleOpenInvoices } from './billing.service.js';
+
+// Configuration
+export const RENEWAL_JOB_NAME = 'wallet-renewal';
+const RENEWAL_CRON = '*/5 * * * *'; // Every 5 minutes
+const BATCH_SIZE = 500;
+
+export interface WalletPaymentInput {
+    customerId: string;
+    amount: number;
+    transactionId?: string;
+    phone?: string;
+    method?: PaymentMethod;
+    description?: string;
+}
+
+export interface RenewalResult {
+    renewed: boolean;
+    walletBalance: number;
+    expiresAt: Date;
+    reconnected: boolean;
+}
+
+export interface WalletPaymentResult {
+    paymentId: string;
+    walletBalance: number;
+    renewal: RenewalResult;
+    invoicesSettled: number;
+}
+
+/**
+ * Validity of a package in days (mirrors hotspot purchase logic; defaults to 30 days)
+ */
+export function getPackageValidityDays(pkg: { sessionTime: number | null }): number {
+    return pkg.sessionTime ? Math.max(1, Math.floor(pkg.sessionTime / (24 * 60))) : 30;
+}
+
+/**
+ * A customer is due for renewal once their subscription has lapsed or they were
+ * suspended/expired. Disabled customers are never renewed automatically.
+ */
+export function isRenewalDue(customer: { status: string; expiresAt: Date }, now: Date = new Date()): boolean {
+    if (customer.status === 'DISABLED') {
+        return false;
+    }
+    return customer.status === 'EXPIRED' || customer.status === 'SUSPENDED' || customer.expiresAt <= now;
+}
+
+/**
+ * Credit a customer's wallet inside an existing transaction and write the ledger entry
+ */
+export async function creditWallet(
+    tx: Prisma.TransactionClient,
+    customerId: string,
+    amount: number,
+    reference?: string,
+    description?: string
+) {
+    const customer = await tx.customer.update({
+        where: { id: customerId },
+        data: {
+            walletBalance: { increment: amount },
+            totalSpent: { increment: amount },
+        },
+    });
+
+    await tx.walletTransaction.create({
+        data: {
+            type: 'CREDIT',
+            amount,
+            balanceAfter: customer.walletBalance,
+            reference,
+            description,
+            customerId,
+            tenantId: customer.tenantId,
+        },
+    });
+
+    return customer;
+}
+
+/**
+ * Take a cancelled payment back out of a customer's wallet inside an existing
+ * transaction. The balance goes negative when the money was already spent.
+ */
+export async function debitWallet(
+    tx: Prisma.TransactionClient,
+    customerId: string,
+    amount: number,
+    reference?: string,
+    description?: string
+) {
+    const customer = await tx.customer.update({
+        where: { id: customerId },
+        data: {
+            walletBalance: { decrement: amount },
+            totalSpent: { decrement: amount },
+        },
+    });
+
+    await tx.walletTransaction.create({
+        data: {
+            type: 'DEBIT',
+            amount,
+            balanceAfter: customer.walletBalance,
+            reference,
+            description,
+            customerId,
+            tenantId: customer.tenantId,
+        },
+    });
+
+    return customer;
+}
+
+/**
+ * Record a completed payment into a customer's wallet and renew them if due
+ */
+export async function recordWalletPayment(input: WalletPaymentInput): Promise<WalletPaymentResult> {
+    const customer = await prisma.customer.findUnique({
+        where: { id: input.customerId },
+    });
+
+    if (!customer) {
+        throw new Error('Customer not found');
+    }
+
+    const description = input.description ?? 'Wallet top-up';
+
+    const { payment, walletBalance } = await prisma.$transaction(async (tx) => {
+        const payment = await tx.payment.create({
+            data: {
+                amount: input.amount,
+                method: input.method ?? 'MPESA',
+                status: 'COMPLETED',
+                transactionId: input.transactionId,
+                phone: input.phone,
+                account: customer.username,
+                customerId: customer.id,
+                tenantId: customer.tenantId,
+                description,
+            },
+        });
+
+        const updated = await creditWallet(tx, customer.id, input.amount, payment.id, description);
+        await postWalletDeposit(payment, tx);
+
+        return { payment, walletBalance: updated.walletBalance };
+    });
+
+    const { invoicesSettled, renewal } = await settleAndRenew(customer, walletBalance);
+
+    return {
+        paymentId: payment.id,
+        walletBalance: renewal.walletBalance,
+        renewal,
+        invoicesSettled,
+    };
+}
+
+/**
+ * After a wallet credit: pay open invoices, then renew if due
+ */
+export async function settleAndRenew(
+    customer: { id: string; expiresAt: Date },
+    walletBalance: number
+): Promise<Pick<WalletPaymentResult, 'invoicesSettled' | 'renewal'>> {
+    // A failed settlement or renewal must not lose the payment - the schedulers will retry it
+    let invoicesSettled = 0;
+    try {
+        invoicesSettled = (await settleOpenInvoices(customer.id)).settled;
+    } catch (error) {
+        logger.error({ error, customerId: customer.id }, 'Invoice settlement after payment failed');
+    }
+
+    let renewal: RenewalResult = {
+        renewed: false,
+        walletBalance,
+        expiresAt: customer.expiresAt,
+        reconnected: false,
+    };
+    try {
+        renewal = await renewIfDue(customer.id);
+    } catch (error) {
+        logger.error({ error, customerId: customer.id }, 'Wallet renewal after payment failed');
+    }
+
+    return { invoicesSettled, renewal };
+}
+
+/**
+ * Renew a customer's package from their wallet if the renewal is due and the
+ * balance covers the package price
+ */
+export async function renewIfDue(customerId: string, now: Date = new Date()): Promise<RenewalResult> {
+    const customer = await prisma.customer.findUnique({
+        where: { id: customerId },
+        include: {
+            package: true,
+            tenant: { select: { billingCycleEnabled: true } },
+        },
+    });
+
+    if (!customer) {
+        throw new Error('Customer not found');
+    }
+
+    const notRenewed: RenewalResult = {
+        renewed: false,
+        walletBalance: customer.walletBalance,
+        expiresAt: customer.expiresAt,
+        reconnected: false,
+    };
+
+    if (
+        !customer.package ||
+        isInvoiceBilled(customer, customer.tenant) ||
+        !isRenewalDue(customer, now) ||
+        customer.walletBalance < customer.package.price
+    ) {
+        return notRenewed;
+    }
+
+    const pkg = customer.package;
+    const base = customer.expiresAt > now ? customer.expiresAt : now;
+    const expiresAt = new Date(base.getTime() + getPackageValidityDays(pkg) * 24 * 60 * 60 * 1000);
+
+    const walletBalance = await prisma.$transaction(async (tx) => {
+        // Only renew the subscription period we read: if a concurrent renewal
+        // already moved expiresAt on, this one matches nothing and is skipped
+        const debited = await tx.customer.updateMany({
+            where: { id: customer.id, expiresAt: customer.expiresAt, walletBalance: { gte: pkg.price } },
+            data: {
+                walletBalance: { decrement: pkg.price },
+                expiresAt,
+                status: 'ACTIVE',
+                graceStartedAt: null,
+            },
+        });
+
+        if (debited.count === 0) {
+            return null;
+        }
+
+        const updated = await tx.customer.findUniqueOrThrow({ where: { id: customer.id } });
+
+        const description = `Renewal: ${pkg.name} until ${expiresAt.toISOString().slice(0, 10)}`;
+        const debit = await tx.walletTransaction.create({
+            data: {
+                type: 'DEBIT',
+                amount: pkg.price,
+                balanceAfter: updated.walletBalance,
+                reference: pkg.id,
+                description,
+                customerId: customer.id,
+                tenantId: customer.tenantId,
+            },
+        });
+
+        await postWalletRenewal({
+            walletTransactionId: debit.id,
+            tenantId: customer.tenantId,
+            amount: pkg.price,
+            description: `${customer.username} - ${description}`,
+        }, tx);
+
+        return updated.walletBalance;
+    });
+
+    if (walletBalance === null) {
+        return notRenewed;
+    }
+
+    logger.info({
+        customerId: customer.id,
+        username: customer.username,
+        packageName: pkg.name,
+        expiresAt,
+    }, 'Customer subscription renewed from wallet');
+
+    // Bounce the session so walled-garden/throttled users come back with full access
+    const coa = await disconnectUser(customer.username, customer.tenantId);
+
+    return {
+        renewed: true,
+        walletBalance,
+        expiresAt,
+        reconnected: coa.success,
+    };
+}
+
+/**
+ * Renew every due customer whose wallet covers their package. Candidates are
+ * walked in id order in batches so that customers whose balance does not yet
+ * cover their package cannot crowd out the ones behind them.
+ */
+export async function processWalletRenewals(now: Date = new Date()): Promise<{ checked: number; renewed: number }> {
+    let checked = 0;
+    let renewed = 0;
+    let lastId: string | undefined;
+
+    for (;;) {
+        const candidates = await prisma.customer.findMany({
+            where: {
+                ...(lastId ? { id: { gt: lastId } } : {}),
+                deletedAt: null,
+                packageId: { not: null },
+                walletBalance: { gt: 0 },
+                NOT: { connectionType: 'PPPOE', tenant: { billingCycleEnabled: true } },
+                OR: [
+                    { status: { in: ['EXPIRED', 'SUSPENDED'] } },
+                    { status: 'ACTIVE', expiresAt: { lte: now } },
+                ],
+            },
+            select: {
+                id: true,
+                walletBalance: true,
+                package: { select: { price: true } },
+            },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+        });
+
+        checked += candidates.length;
+
+        for (const candidate of candidates) {
+            if (!candidate.package || candidate.walletBalance < candidate.package.price) {
+                continue;
+            }
+
+            try {
+                const result = await renewIfDue(candidate.id, now);
+                if (result.renewed) {
+                    renewed++;
+                }
+            } catch (error) {
+                logger.error({ error, customerId: candidate.id }, 'Scheduled wallet renewal failed');
+            }
+        }
+
+        if (candidates.length < BATCH_SIZE) {
+            break;
+        }
+        lastId = candidates[candidates.length - 1].id;
+    }
+
+    return { checked, renewed };
+}
+
+/**
+ * Start the wallet renewal scheduler as a recurring pg-boss job
+ */
+export async function startRenewalScheduler(): Promise<void> {
+    await queue.scheduleRecurring(RENEWAL_JOB_NAME, RENEWAL_CRON, async () => {
+        const result = await processWalletRenewals();
+        if (result.renewed > 0) {
+            logger.info(result, 'Wallet renewal run complete');
+        }
+    });
+}
@@ -0,0 +1,286 @@
+/**
+ * Reseller Service
+ * Voucher agents hold a prepaid float with the ISP. They draw voucher batches
+ * against it at a discount off the package price, and earn commission into
+ * the same float whenever one of their vouchers is redeemed. Every float
+ * movement is written to ResellerTransaction and posted to the general ledger.
+ */
+
+import type { Prisma, Reseller, VoucherBatch } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { generateVoucherBatch, getBatchStats, revokeBatch, type GenerateBatchInput } from './voucher.service.js';
+import {
+    postResellerBatchRefund,
+    postResellerBatchSale,
+    postResellerCommission,
+    postResellerFloatTopUp,
+} from './ledger.service.js';
+
+export interface ResellerBatchInput extends Omit<GenerateBatchInput, 'tenantId' | 'packageId' | 'resellerId' | 'unitPrice'> {
+    package: { id: string; name: string; price: number };
+}
+
+function round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Price a reseller pays per voucher after their discount
+ */
+export function getResellerUnitPrice(reseller: Pick<Reseller, 'discountPercent'>, packagePrice: number): number {
+    return round(packagePrice * (1 - reseller.discountPercent / 100));
+}
+
+/**
+ * Record a float movement and return the balance it left behind
+ */
+async function recordFloatMovement(
+    tx: Prisma.TransactionClient,
+    reseller: Pick<Reseller, 'id' | 'tenantId'>,
+    movement: { type: 'FLOAT_TOPUP' | 'BATCH_PURCHASE' | 'COMMISSION' | 'BATCH_REFUND'; amount: number; reference?: string; description: string }
+) {
+    const { floatBalance } = await tx.reseller.findUniqueOrThrow({
+        where: { id: reseller.id },
+        select: { floatBalance: true },
+    });
+
+    return tx.resellerTransaction.create({
+        data: {
+            type: movement.type,
+            amount: movement.amount,
+            balanceAfter: floatBalance,
+            reference: movement.reference,
+            description: movement.description,
+            resellerId: reseller.id,
+            tenantId: reseller.tenantId,
+        },
+    });
+}
+
+/**
+ * Credit a reseller's float after they pay the ISP
+ */
+export async function topUpFloat(
+    reseller: Pick<Reseller, 'id' | 'tenantId'>,
+    amount: number,
+    method: string,
+    reference?: string
+) {
+    return prisma.$transaction(async (tx) => {
+        await tx.reseller.update({
+            where: { id: reseller.id },
+            data: { floatBalance: { increment: amount } },
+        });
+
+        const transaction = await recordFloatMovement(tx, reseller, {
+            type: 'FLOAT_TOPUP',
+            amount,
+            reference,
+            description: `Float top-up via ${method}`,
+        });
+
+        await postResellerFloatTopUp({
+            transactionId: transaction.id,
+            tenantId: reseller.tenantId,
+            amount,
+            method,
+        }, tx);
+
+        return transaction;
+    });
+}
+
+/**
+ * Draw a voucher batch against the reseller's float. Returns null when the
+ * float can't cover the batch.
+ */
+export async function purchaseResellerBatch(reseller: Reseller, input: ResellerBatchInput) {
+    const unitPrice = getResellerUnitPrice(reseller, input.package.price);
+    const cost = round(unitPrice * input.quantity);
+
+    return prisma.$transaction(async (tx) => {
+        // Guarded decrement so concurrent purchases can't overdraw the float
+        const debit = await tx.reseller.updateMany({
+            where: { id: reseller.id, floatBalance: { gte: cost } },
+            data: { floatBalance: { decrement: cost } },
+        });
+        if (debit.count === 0) {
+            return null;
+        }
+
+        const { package: pkg, ...batchInput } = input;
+        const { batch, codes } = await generateVoucherBatch({
+            ...batchInput,
+            packageId: pkg.id,
+            tenantId: reseller.tenantId,
+            resellerId: reseller.id,
+            unitPrice,
+        }, pkg, tx);
+
+        const transaction = await recordFloatMovement(tx, reseller, {
+            type: 'BATCH_PURCHASE',
+            amount: -cost,
+            reference: batch.id,
+            description: `${input.quantity} x ${pkg.name} vouchers`,
+        });
+
+        if (cost > 0) {
+            await postResellerBatchSale({
+                transactionId: transaction.id,
+                tenantId: reseller.tenantId,
+                amount: cost,
+                description: `Reseller voucher batch ${batch.name}`,
+            }, tx);
+        }
+
+        return { batch, codes, cost, floatBalance: transaction.balanceAfter };
+    });
+}
+
+/**
+ * Revoke a reseller's batch and return what they paid for the codes that
+ * were never redeemed to their float
+ */
+export async function revokeResellerBatch(
+    batch: Pick<VoucherBatch, 'id' | 'name' | 'tenantId' | 'unitPrice'> & { resellerId: string }
+) {
+    const reseller = { id: batch.resellerId, tenantId: batch.tenantId };
+
+    return prisma.$transaction(async (tx) => {
+        const revoked = await revokeBatch(batch.id, tx);
+        const refund = round(revoked * (batch.unitPrice ?? 0));
+        if (refund <= 0) {
+            return { revoked, refund: 0 };
+        }
+
+        await tx.reseller.update({
+            where: { id: reseller.id },
+            data: { floatBalance: { increment: refund } },
+        });
+
+        const transaction = await recordFloatMovement(tx, reseller, {
+            type: 'BATCH_REFUND',
+            amount: refund,
+            reference: batch.id,
+            description: `Refund for ${revoked} revoked vouchers`,
+        });
+
+        await postResellerBatchRefund({
+            transactionId: transaction.id,
+            tenantId: reseller.tenantId,
+            amount: refund,
+            description: `Reseller voucher batch ${batch.name} revoked`,
+        }, tx);
+
+        return { revoked, refund };
+    });
+}
+
+/**
+ * Credit commission to the reseller who sold a voucher, once it is redeemed.
+ * Redemption has already happened by the time this runs, so failures are
+ * logged rather than thrown.
+ */
+export async function creditRedemptionCommission(voucherId: string): Promise<number> {
+    try {
+        const voucher = await prisma.voucher.findUnique({
+            where: { id: voucherId },
+            include: {
+                package: { select: { price: true } },
+                batch: { include: { reseller: true } },
+            },
+        });
+
+        const reseller = voucher?.batch?.reseller;
+        if (!reseller || reseller.commissionPercent <= 0) {
+            return 0;
+        }
+
+        const amount = round(voucher.package.price * reseller.commissionPercent / 100);
+        if (amount <= 0) {
+            return 0;
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.reseller.update({
+                where: { id: reseller.id },
+                data: { floatBalance: { increment: amount } },
+            });
+
+            const transaction = await recordFloatMovement(tx, reseller, {
+                type: 'COMMISSION',
+                amount,
+                reference: voucher.id,
+                description: `Commission on voucher ${voucher.code}`,
+            });
+
+            await postResellerCommission({
+                transactionId: transaction.id,
+                tenantId: reseller.tenantId,
+                amount,
+                description: `Reseller commission on voucher ${voucher.code}`,
+            }, tx);
+        });
+
+        return amount;
+    } catch (error) {
+        logger.error({ error, voucherId }, 'Failed to credit reseller commission');
+        return 0;
+    }
+}
+
+/**
+ * Sales summary for a reseller's own dashboard
+ */
+export async function getResellerDashboard(reseller: Reseller) {
+    const [batches, totals] = await Promise.all([
+        prisma.voucherBatch.findMany({
+            where: { resellerId: reseller.id },
+            include: { package: { select: { id: true, name: true, price: true, sessionTime: true } } },
+            orderBy: { createdAt: 'desc' },
+        }),
+        prisma.resellerTransaction.groupBy({
+            by: ['type'],
+            where: { resellerId: reseller.id },
+            _sum: { amount: true },
+        }),
+    ]);
+
+    const stats = await getBatchStats(batches);
+    const sumOf = (type: string) => totals.find((t) => t.type === type)?._sum.amount ?? 0;
+
+    const summary = { purchased: 0, available: 0, sold: 0, used: 0, expired: 0, revoked: 0 };
+    for (const batch of batches) {
+        const s = stats.get(batch.id)!;
+        summary.purchased += batch.quantity;
+        summary.available += s.available;
+        summary.sold += s.sold;
+        summary.used += s.used;
+        summary.expired += s.expired;
+        summary.revoked += s.revoked;
+    }
+
+    return {
+        floatBalance: reseller.floatBalance,
+        discountPercent: reseller.discountPercent,
+        commissionPercent: reseller.commissionPercent,
+        totals: {
+            ...summary,
+            toppedUp: sumOf('FLOAT_TOPUP'),
+            spent: -sumOf('BATCH_PURCHASE'),
+            commission: sumOf('COMMISSION'),
+        },
+        batches: batches.map((b) => ({
+            id: b.id,
+            name: b.name,
+            quantity: b.quantity,
+            unitPrice: b.unitPrice,
+            expiresAt: b.expiresAt,
+            revokedAt: b.revokedAt,
+            package: { id: b.package.id, name: b.package.name, price: b.package.price },
+            createdAt: b.createdAt,
+            stats: stats.get(b.id),
+        })),
+    };
+}
@@ -0,0 +1,164 @@
+/**
+ * Session Reconciler
+ * Sessions stay open in the database when the router's Accounting-Stop never
+ * arrives. Every few minutes the open sessions of each router are compared
+ * with its active PPPoE and Hotspot lists, and the ones the router no longer
+ * has are closed as LOST_SERVICE.
+ */
+
+import type { NAS, Session } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { queue } from '../lib/queue.js';
+import { mikrotikService, type PPPoESession } from './mikrotik.service.js';
+import { AcctTerminateCause } from '../radius/dictionary.js';
+
+// Configuration
+export const SESSION_RECONCILE_JOB_NAME = 'session-reconcile';
+const SESSION_RECONCILE_CRON = '*/5 * * * *'; // Every 5 minutes
+const RECONCILE_CONCURRENCY = 5;
+const MIN_SESSION_AGE_MS = 5 * 60 * 1000; // Skip sessions younger than this; the router list may lag the Start
+export const STALE_TERMINATE_CAUSE = AcctTerminateCause[AcctTerminateCause.LOST_SERVICE];
+
+export type OpenSession = Pick<Session, 'id' | 'sessionId' | 'username' | 'framedIp' | 'startTime' | 'sessionTime'>;
+
+/**
+ * Acct-Session-Id as a comparable key. RouterOS lists it as "0x81A0000B" while
+ * the accounting packets may carry "81a0000b".
+ */
+export function normalizeSessionId(sessionId: string): string {
+    return sessionId.trim().replace(/^0x/i, '').toLowerCase();
+}
+
+function userAddressKey(username: string, address: string): string {
+    return `${username.toLowerCase()}|${address}`;
+}
+
+/**
+ * Open sessions the router no longer reports. PPPoE sessions are matched on
+ * Acct-Session-Id, falling back to username plus framed IP when the ids don't
+ * line up; Hotspot entries (and PPPoE entries without an id) by username.
+ */
+export function findStaleSessions(
+    sessions: OpenSession[],
+    pppoe: Pick<PPPoESession, 'name' | 'sessionId' | 'address'>[],
+    hotspot: { name: string }[]
+): OpenSession[] {
+    const activeIds = new Set(pppoe.filter((s) => s.sessionId).map((s) => normalizeSessionId(s.sessionId)));
+    const activeAddresses = new Set(pppoe.filter((s) => s.address).map((s) => userAddressKey(s.name, s.address)));
+    const activeUsers = new Set([
+        ...pppoe.filter((s) => !s.sessionId).map((s) => s.name.toLowerCase()),
+        ...hotspot.map((u) => u.name.toLowerCase()),
+    ]);
+
+    return sessions.filter((s) =>
+        !activeIds.has(normalizeSessionId(s.sessionId)) &&
+        !(s.framedIp && activeAddresses.has(userAddressKey(s.username, s.framedIp))) &&
+        !activeUsers.has(s.username.toLowerCase())
+    );
+}
+
+/**
+ * When a stale session most likely ended: its last reported Session-Time,
+ * or now if it never sent an update
+ */
+export function staleStopTime(session: OpenSession, now: Date): Date {
+    if (session.sessionTime > 0) {
+        return new Date(Math.min(session.startTime.getTime() + session.sessionTime * 1000, now.getTime()));
+    }
+    return now;
+}
+
+/**
+ * Close sessions the router no longer has
+ */
+export async function closeStaleSessions(stale: OpenSession[], now: Date = new Date()): Promise<void> {
+    for (const session of stale) {
+        // stopTime: null guards against a Stop that arrived meanwhile
+        await prisma.session.updateMany({
+            where: { id: session.id, stopTime: null },
+            data: {
+                stopTime: staleStopTime(session, now),
+                terminateCause: STALE_TERMINATE_CAUSE,
+            },
+        });
+    }
+}
+
+/**
+ * Close the stale sessions of one router. Nothing is closed when the router
+ * can't be asked, so an unreachable router never ends live sessions.
+ */
+export async function reconcileNasSessions(nas: NAS, now: Date = new Date()): Promise<number> {
+    const sessions = await prisma.session.findMany({
+        where: {
+            nasId: nas.id,
+            stopTime: null,
+            startTime: { lt: new Date(now.getTime() - MIN_SESSION_AGE_MS) },
+        },
+        select: { id: true, sessionId: true, username: true, framedIp: true, startTime: true, sessionTime: true },
+    });
+    if (sessions.length === 0) {
+        return 0;
+    }
+
+    const [pppoe, hotspot] = await Promise.all([
+        mikrotikService.getActiveSessions(nas),
+        mikrotikService.getActiveHotspotUsers(nas),
+    ]);
+
+    const stale = findStaleSessions(sessions, pppoe, hotspot);
+    await closeStaleSessions(stale, now);
+
+    if (stale.length > 0) {
+        logger.info({
+            nasId: nas.id,
+            closed: stale.length,
+            sessionIds: stale.map((s) => s.sessionId),
+        }, 'Closed stale sessions');
+    }
+
+    return stale.length;
+}
+
+/**
+ * Reconcile every router with open sessions and API access, a few at a time
+ */
+export async function reconcileAllSessions(now: Date = new Date()): Promise<{ checked: number; closed: number; failed: number }> {
+    const routers = await prisma.nAS.findMany({
+        where: {
+            apiUsername: { not: null },
+            apiPassword: { not: null },
+            sessions: { some: { stopTime: null } },
+        },
+    });
+    const result = { checked: 0, closed: 0, failed: 0 };
+
+    for (let i = 0; i < routers.length; i += RECONCILE_CONCURRENCY) {
+        const batch = routers.slice(i, i + RECONCILE_CONCURRENCY);
+        const results = await Promise.allSettled(batch.map((nas) => reconcileNasSessions(nas, now)));
+        results.forEach((outcome, j) => {
+            if (outcome.status === 'fulfilled') {
+                result.checked++;
+                result.closed += outcome.value;
+            } else {
+                result.failed++;
+                logger.warn({ nasId: batch[j].id, error: outcome.reason?.message }, 'Session reconcile failed');
+            }
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Start the reconciler as a recurring pg-boss job
+ */
+export async function startSessionReconciler(): Promise<void> {
+    await queue.scheduleRecurring(SESSION_RECONCILE_JOB_NAME, SESSION_RECONCILE_CRON, async () => {
+        const result = await reconcileAllSessions();
+        if (result.closed > 0 || result.failed > 0) {
+            logger.info(result, 'Session reconcile complete');
+        }
+    });
+}
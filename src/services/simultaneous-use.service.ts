@@ -0,0 +1,150 @@
+/**
+ * Simultaneous-Use Enforcement
+ * Limits how many sessions one customer can hold open at a time, so a single
+ * account can't be shared across several homes. The limit comes from the
+ * customer (override) or their package; open Session rows are counted,
+ * optionally confirmed against the router's active list first. Over the limit
+ * the tenant either rejects the new login or kicks the oldest session via CoA.
+ */
+
+import type { SimultaneousUseAction } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { disconnectSession } from '../radius/handlers/coa.js';
+import { mikrotikService } from './mikrotik.service.js';
+import { closeStaleSessions, findStaleSessions } from './session-reconciler.service.js';
+
+export interface SimultaneousUseSettings {
+    simultaneousUseAction: SimultaneousUseAction;
+    verifySessionsOnRouter: boolean;
+}
+
+interface SessionLimitCustomer {
+    id: string;
+    username: string;
+    connectionType: string;
+    maxSessions: number | null;
+    package: { maxSessions: number | null } | null;
+}
+
+export interface SimultaneousUseResult {
+    allowed: boolean;
+    limit: number | null;
+    active: number;
+    kick: Awaited<ReturnType<typeof findOpenSessions>>; // Oldest sessions to disconnect for KICK_OLDEST
+}
+
+/**
+ * The customer's concurrent session limit: their own override, else the
+ * package's. Null means unlimited.
+ */
+export function getSessionLimit(customer: Pick<SessionLimitCustomer, 'maxSessions' | 'package'>): number | null {
+    return customer.maxSessions ?? customer.package?.maxSessions ?? null;
+}
+
+function normalizeMac(mac: string | null | undefined): string {
+    return (mac ?? '').replace(/[^A-Fa-f0-9]/g, '').toUpperCase();
+}
+
+/**
+ * Open sessions of a customer, oldest first
+ */
+async function findOpenSessions(customerId: string) {
+    return prisma.session.findMany({
+        where: { customerId, stopTime: null },
+        orderBy: { startTime: 'asc' },
+        include: { nas: true },
+    });
+}
+
+/**
+ * Drop the sessions their router no longer reports (and close them), matched
+ * the way the reconciler matches them: normalised Acct-Session-Id, then
+ * username plus framed IP. Routers that can't be asked keep their sessions.
+ */
+async function confirmOnRouters(
+    sessions: Awaited<ReturnType<typeof findOpenSessions>>,
+    connectionType: string
+): Promise<Awaited<ReturnType<typeof findOpenSessions>>> {
+    const stale = new Set<string>();
+
+    for (const nas of new Map(sessions.filter((s) => s.nas).map((s) => [s.nas!.id, s.nas!])).values()) {
+        if (!nas.apiUsername || !nas.apiPassword) continue;
+
+        try {
+            const onNas = sessions.filter((s) => s.nasId === nas.id);
+            const pppoe = connectionType === 'HOTSPOT' ? [] : await mikrotikService.getActiveSessions(nas);
+            const hotspot = connectionType === 'HOTSPOT' ? await mikrotikService.getActiveHotspotUsers(nas) : [];
+
+            const gone = findStaleSessions(onNas, pppoe, hotspot);
+            await closeStaleSessions(gone);
+            gone.forEach((s) => stale.add(s.id));
+        } catch (error) {
+            logger.warn({ nasId: nas.id, error: (error as Error).message }, 'Could not confirm sessions on router');
+        }
+    }
+
+    return sessions.filter((s) => !stale.has(s.id));
+}
+
+/**
+ * Check whether a customer may open another session. A session from the
+ * same MAC as the new login is the device reconnecting and doesn't count.
+ */
+export async function checkSimultaneousUse(
+    customer: SessionLimitCustomer,
+    settings: SimultaneousUseSettings,
+    macAddress?: string
+): Promise<SimultaneousUseResult> {
+    const limit = getSessionLimit(customer);
+    if (limit === null) {
+        return { allowed: true, limit, active: 0, kick: [] };
+    }
+
+    const mac = normalizeMac(macAddress);
+    let sessions = (await findOpenSessions(customer.id)).filter((s) => !mac || normalizeMac(s.macAddress) !== mac);
+
+    if (sessions.length >= limit && settings.verifySessionsOnRouter) {
+        sessions = await confirmOnRouters(sessions, customer.connectionType);
+    }
+
+    if (sessions.length < limit) {
+        return { allowed: true, limit, active: sessions.length, kick: [] };
+    }
+
+    if (settings.simultaneousUseAction === 'KICK_OLDEST') {
+        return { allowed: true, limit, active: sessions.length, kick: sessions.slice(0, sessions.length - limit + 1) };
+    }
+
+    return { allowed: false, limit, active: sessions.length, kick: [] };
+}
+
+/**
+ * Disconnect sessions through CoA. Their Accounting-Stop closes the rows.
+ */
+export async function kickSessions(sessions: SimultaneousUseResult['kick']): Promise<number> {
+    let kicked = 0;
+
+    for (const session of sessions) {
+        if (!session.nas) {
+            logger.warn({ sessionId: session.sessionId }, 'Cannot kick session without a NAS');
+            continue;
+        }
+
+        const result = await disconnectSession(
+            session.nas.vpnIp || session.nas.ipAddress,
+            session.nas.coaPort,
+            session.nas.secret,
+            session.sessionId,
+            session.username
+        );
+
+        if (result.success) {
+            kicked++;
+        } else {
+            logger.warn({ sessionId: session.sessionId, message: result.message }, 'Failed to kick session over the simultaneous-use limit');
+        }
+    }
+
+    return kicked;
+}
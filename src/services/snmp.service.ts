@@ -0,0 +1,413 @@
+/**
+ * SNMP Polling Service
+ * Polls each SNMP-enabled NAS over v2c or v3 for IF-MIB interface counters,
+ * HOST-RESOURCES CPU/memory and MikroTik health readings, and stores every
+ * poll as a time-series sample. Interface rates are worked out against the
+ * previous poll so the API can serve traffic graphs straight from the table.
+ */
+
+import snmp from 'net-snmp';
+import type { NAS } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { queue } from '../lib/queue.js';
+
+// Configuration
+export const SNMP_POLL_JOB_NAME = 'snmp-poll';
+export const SNMP_PRUNE_JOB_NAME = 'snmp-prune';
+export const SNMP_POLL_INTERVAL_SECONDS = 60;
+const SNMP_POLL_CRON = '* * * * *'; // Every minute, the finest pg-boss schedule
+const SNMP_PRUNE_CRON = '30 3 * * *'; // Daily at 03:30 UTC
+const SNMP_TIMEOUT_MS = 5000;
+const SNMP_RETRIES = 1;
+const POLL_CONCURRENCY = 5;
+const DEFAULT_RETENTION_DAYS = 7;
+
+export const OIDS = {
+    // SNMPv2-MIB
+    sysDescr: '1.3.6.1.2.1.1.1.0',
+    sysUpTime: '1.3.6.1.2.1.1.3.0',
+    sysName: '1.3.6.1.2.1.1.5.0',
+    // IF-MIB
+    ifDescr: '1.3.6.1.2.1.2.2.1.2',
+    ifOperStatus: '1.3.6.1.2.1.2.2.1.8',
+    ifName: '1.3.6.1.2.1.31.1.1.1.1',
+    ifHCInOctets: '1.3.6.1.2.1.31.1.1.1.6',
+    ifHCOutOctets: '1.3.6.1.2.1.31.1.1.1.10',
+    ifHighSpeed: '1.3.6.1.2.1.31.1.1.1.15',
+    // HOST-RESOURCES-MIB
+    hrProcessorLoad: '1.3.6.1.2.1.25.3.3.1.2',
+    hrStorageType: '1.3.6.1.2.1.25.2.3.1.2',
+    hrStorageAllocationUnits: '1.3.6.1.2.1.25.2.3.1.4',
+    hrStorageSize: '1.3.6.1.2.1.25.2.3.1.5',
+    hrStorageUsed: '1.3.6.1.2.1.25.2.3.1.6',
+    hrStorageRam: '1.3.6.1.2.1.25.2.1.2',
+    // MIKROTIK-MIB health (values in tenths)
+    mtxrHlVoltage: '1.3.6.1.4.1.14988.1.1.3.8.0',
+    mtxrHlTemperature: '1.3.6.1.4.1.14988.1.1.3.10.0',
+    mtxrHlCpuTemperature: '1.3.6.1.4.1.14988.1.1.3.11.0',
+} as const;
+
+const OPER_STATUS: Record<number, string> = {
+    1: 'up',
+    2: 'down',
+    3: 'testing',
+    4: 'unknown',
+    5: 'dormant',
+    6: 'notPresent',
+    7: 'lowerLayerDown',
+};
+
+type SnmpValue = snmp.VarbindValue;
+
+export interface InterfaceReading {
+    ifIndex: number;
+    name: string;
+    operStatus: string;
+    speedMbps: number | null;
+    inOctets: bigint;
+    outOctets: bigint;
+}
+
+export interface PollReading {
+    system: { descr: string | null; name: string | null; uptimeSeconds: number | null };
+    cpuLoad: number | null;
+    memory: { used: bigint; total: bigint } | null;
+    health: { temperature: number | null; cpuTemperature: number | null; voltage: number | null };
+    interfaces: InterfaceReading[];
+}
+
+// ============ CLIENT ============
+
+const AUTH_PROTOCOLS: Record<string, snmp.AuthProtocols> = {
+    MD5: snmp.AuthProtocols.md5,
+    SHA: snmp.AuthProtocols.sha,
+    SHA256: snmp.AuthProtocols.sha256,
+};
+
+const PRIV_PROTOCOLS: Record<string, snmp.PrivProtocols> = {
+    DES: snmp.PrivProtocols.des,
+    AES: snmp.PrivProtocols.aes,
+};
+
+/**
+ * Open an SNMP session to a NAS with its stored credentials. Polls go over
+ * the VPN tunnel when the router has one.
+ */
+export function createSnmpSession(nas: NAS): snmp.Session {
+    const target = nas.vpnIp ?? nas.ipAddress;
+    const options = { port: nas.snmpPort, timeout: SNMP_TIMEOUT_MS, retries: SNMP_RETRIES };
+
+    if (nas.snmpVersion === 'v3') {
+        if (!nas.snmpUsername) {
+            throw new Error('SNMPv3 username is not configured');
+        }
+
+        const authProtocol = nas.snmpAuthKey ? AUTH_PROTOCOLS[nas.snmpAuthProtocol ?? 'SHA'] : undefined;
+        const privProtocol = authProtocol && nas.snmpPrivKey ? PRIV_PROTOCOLS[nas.snmpPrivProtocol ?? 'AES'] : undefined;
+        const level = privProtocol
+            ? snmp.SecurityLevel.authPriv
+            : authProtocol ? snmp.SecurityLevel.authNoPriv : snmp.SecurityLevel.noAuthNoPriv;
+
+        return snmp.createV3Session(target, {
+            name: nas.snmpUsername,
+            level,
+            authProtocol,
+            authKey: authProtocol ? nas.snmpAuthKey ?? undefined : undefined,
+            privProtocol,
+            privKey: privProtocol ? nas.snmpPrivKey ?? undefined : undefined,
+        }, { ...options, version: snmp.Version3 });
+    }
+
+    return snmp.createSession(target, nas.snmpCommunity ?? 'public', { ...options, version: snmp.Version2c });
+}
+
+/**
+ * GET a set of scalars; missing objects come back as null
+ */
+function getScalars(session: snmp.Session, oids: string[]): Promise<Map<string, SnmpValue>> {
+    return new Promise((resolve, reject) => {
+        session.get(oids, (error, varbinds) => {
+            if (error) {
+                return reject(error);
+            }
+            const values = new Map<string, SnmpValue>();
+            for (const vb of varbinds ?? []) {
+                values.set(vb.oid, snmp.isVarbindError(vb) ? null : vb.value);
+            }
+            resolve(values);
+        });
+    });
+}
+
+/**
+ * Walk one table column, keyed by the row index after the column OID
+ */
+function walkColumn(session: snmp.Session, columnOid: string): Promise<Map<string, SnmpValue>> {
+    return new Promise((resolve, reject) => {
+        const rows = new Map<string, SnmpValue>();
+        const prefix = `${columnOid}.`;
+
+        session.subtree(columnOid, 20, (varbinds) => {
+            for (const vb of varbinds) {
+                if (!snmp.isVarbindError(vb) && vb.oid.startsWith(prefix)) {
+                    rows.set(vb.oid.slice(prefix.length), vb.value);
+                }
+            }
+        }, (error) => (error ? reject(error) : resolve(rows)));
+    });
+}
+
+// ============ VALUE DECODING ============
+
+/**
+ * Counter64 values arrive as big-endian buffers of varying length
+ */
+export function toBigInt(value: SnmpValue): bigint {
+    if (typeof value === 'bigint') return value;
+    if (typeof value === 'number') return BigInt(Math.trunc(value));
+    if (Buffer.isBuffer(value)) return value.length > 0 ? BigInt(`0x${value.toString('hex')}`) : 0n;
+    return 0n;
+}
+
+function toNumber(value: SnmpValue): number | null {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'bigint') return Number(value);
+    if (Buffer.isBuffer(value)) return Number(toBigInt(value));
+    return null;
+}
+
+function toText(value: SnmpValue): string | null {
+    if (value === null || value === undefined) return null;
+    return Buffer.isBuffer(value) ? value.toString('utf8') : String(value);
+}
+
+function tenths(value: SnmpValue): number | null {
+    const n = toNumber(value);
+    return n === null ? null : n / 10;
+}
+
+/**
+ * Format seconds the way RouterOS reports uptime (e.g. 3d4h5m6s)
+ */
+export function formatUptime(totalSeconds: number): string {
+    const units: [string, number][] = [['w', 604800], ['d', 86400], ['h', 3600], ['m', 60]];
+    let remaining = Math.floor(totalSeconds);
+    let result = '';
+    for (const [suffix, size] of units) {
+        if (remaining >= size) {
+            result += `${Math.floor(remaining / size)}${suffix}`;
+            remaining %= size;
+        }
+    }
+    return `${result}${remaining}s`;
+}
+
+/**
+ * Bits per second between two counter readings, or null across a counter reset
+ */
+export function counterRate(current: bigint, previous: bigint, seconds: number): number | null {
+    if (seconds <= 0 || current < previous) return null;
+    return Math.round(Number(current - previous) * 8 / seconds);
+}
+
+// ============ POLLING ============
+
+/**
+ * Read every metric we track from an open session
+ */
+export async function readDevice(session: snmp.Session): Promise<PollReading> {
+    const system = await getScalars(session, [OIDS.sysDescr, OIDS.sysUpTime, OIDS.sysName]);
+
+    const [health, cpu, storageType, storageUnits, storageSize, storageUsed, ifDescr, ifName, ifOper, ifIn, ifOut, ifSpeed] =
+        await Promise.all([
+            // Non-MikroTik agents simply won't have these
+            getScalars(session, [OIDS.mtxrHlTemperature, OIDS.mtxrHlCpuTemperature, OIDS.mtxrHlVoltage])
+                .catch(() => new Map<string, SnmpValue>()),
+            walkColumn(session, OIDS.hrProcessorLoad),
+            walkColumn(session, OIDS.hrStorageType),
+            walkColumn(session, OIDS.hrStorageAllocationUnits),
+            walkColumn(session, OIDS.hrStorageSize),
+            walkColumn(session, OIDS.hrStorageUsed),
+            walkColumn(session, OIDS.ifDescr),
+            walkColumn(session, OIDS.ifName),
+            walkColumn(session, OIDS.ifOperStatus),
+            walkColumn(session, OIDS.ifHCInOctets),
+            walkColumn(session, OIDS.ifHCOutOctets),
+            walkColumn(session, OIDS.ifHighSpeed),
+        ]);
+
+    const loads = [...cpu.values()].map(toNumber).filter((n): n is number => n !== null);
+    const ticks = toNumber(system.get(OIDS.sysUpTime) ?? null);
+
+    // Physical RAM is the hrStorageRam row; sizes are in allocation units
+    let memory: PollReading['memory'] = null;
+    for (const [index, type] of storageType) {
+        if (toText(type) !== OIDS.hrStorageRam) continue;
+        const units = toBigInt(storageUnits.get(index) ?? 1);
+        memory = {
+            used: toBigInt(storageUsed.get(index) ?? 0) * units,
+            total: toBigInt(storageSize.get(index) ?? 0) * units,
+        };
+        break;
+    }
+
+    const interfaces: InterfaceReading[] = [...ifDescr.keys()].map((index) => ({
+        ifIndex: parseInt(index, 10),
+        name: toText(ifName.get(index) ?? null) || toText(ifDescr.get(index) ?? null) || `if${index}`,
+        operStatus: OPER_STATUS[toNumber(ifOper.get(index) ?? null) ?? 4] ?? 'unknown',
+        speedMbps: toNumber(ifSpeed.get(index) ?? null),
+        inOctets: toBigInt(ifIn.get(index) ?? null),
+        outOctets: toBigInt(ifOut.get(index) ?? null),
+    }));
+
+    return {
+        system: {
+            descr: toText(system.get(OIDS.sysDescr) ?? null),
+            name: toText(system.get(OIDS.sysName) ?? null),
+            uptimeSeconds: ticks === null ? null : Math.floor(ticks / 100),
+        },
+        cpuLoad: loads.length > 0 ? Math.round(loads.reduce((a, b) => a + b, 0) / loads.length) : null,
+        memory,
+        health: {
+            temperature: tenths(health.get(OIDS.mtxrHlTemperature) ?? null),
+            cpuTemperature: tenths(health.get(OIDS.mtxrHlCpuTemperature) ?? null),
+            voltage: tenths(health.get(OIDS.mtxrHlVoltage) ?? null),
+        },
+        interfaces,
+    };
+}
+
+/**
+ * Poll a NAS, store the sample and refresh the router's cached stats.
+ * Poll failures are recorded on the NAS and rethrown.
+ */
+export async function pollNas(nas: NAS) {
+    const polledAt = new Date();
+    let reading: PollReading;
+
+    try {
+        const session = createSnmpSession(nas);
+        try {
+            reading = await readDevice(session);
+        } finally {
+            session.close();
+        }
+    } catch (error) {
+        await prisma.nAS.update({
+            where: { id: nas.id },
+            data: { lastPolledAt: polledAt, lastPollError: (error as Error).message },
+        });
+        throw error;
+    }
+
+    // Previous counters for rate calculation
+    const previous = await prisma.snmpSample.findFirst({
+        where: { nasId: nas.id },
+        orderBy: { polledAt: 'desc' },
+        include: { interfaces: true },
+    });
+    const previousByIndex = new Map((previous?.interfaces ?? []).map((i) => [i.ifIndex, i]));
+    const elapsedSeconds = previous ? (polledAt.getTime() - previous.polledAt.getTime()) / 1000 : 0;
+
+    const sample = await prisma.snmpSample.create({
+        data: {
+            nasId: nas.id,
+            tenantId: nas.tenantId,
+            polledAt,
+            uptimeSeconds: reading.system.uptimeSeconds,
+            cpuLoad: reading.cpuLoad,
+            memoryUsed: reading.memory?.used,
+            memoryTotal: reading.memory?.total,
+            temperature: reading.health.temperature,
+            cpuTemperature: reading.health.cpuTemperature,
+            voltage: reading.health.voltage,
+            interfaces: {
+                create: reading.interfaces.map((i) => {
+                    const prev = previousByIndex.get(i.ifIndex);
+                    return {
+                        nasId: nas.id,
+                        ifIndex: i.ifIndex,
+                        name: i.name,
+                        operStatus: i.operStatus,
+                        speedMbps: i.speedMbps,
+                        inOctets: i.inOctets,
+                        outOctets: i.outOctets,
+                        inBps: prev ? counterRate(i.inOctets, prev.inOctets, elapsedSeconds) : null,
+                        outBps: prev ? counterRate(i.outOctets, prev.outOctets, elapsedSeconds) : null,
+                        polledAt,
+                    };
+                }),
+            },
+        },
+        include: { interfaces: { orderBy: { ifIndex: 'asc' } } },
+    });
+
+    await prisma.nAS.update({
+        where: { id: nas.id },
+        data: {
+            cpuLoad: reading.cpuLoad ?? undefined,
+            memoryUsage: reading.memory && reading.memory.total > 0n
+                ? Number(reading.memory.used * 10000n / reading.memory.total) / 100
+                : undefined,
+            memoryTotal: reading.memory ? Number(reading.memory.total) : undefined,
+            uptime: reading.system.uptimeSeconds !== null ? formatUptime(reading.system.uptimeSeconds) : undefined,
+            lastSeen: polledAt,
+            lastPolledAt: polledAt,
+            lastPollError: null,
+        },
+    });
+
+    return { reading, sample };
+}
+
+/**
+ * Poll every SNMP-enabled NAS, a few at a time
+ */
+export async function pollAllDevices(): Promise<{ polled: number; failed: number }> {
+    const devices = await prisma.nAS.findMany({ where: { snmpEnabled: true } });
+    let polled = 0;
+    let failed = 0;
+
+    for (let i = 0; i < devices.length; i += POLL_CONCURRENCY) {
+        const results = await Promise.allSettled(devices.slice(i, i + POLL_CONCURRENCY).map((nas) => pollNas(nas)));
+        results.forEach((result, j) => {
+            if (result.status === 'fulfilled') {
+                polled++;
+            } else {
+                failed++;
+                logger.warn({ nasId: devices[i + j].id, error: result.reason?.message }, 'SNMP poll failed');
+            }
+        });
+    }
+
+    return { polled, failed };
+}
+
+/**
+ * Drop samples older than the retention window (interface rows cascade)
+ */
+export async function pruneSamples(now: Date = new Date()): Promise<number> {
+    const days = parseInt(process.env['SNMP_RETENTION_DAYS'] ?? String(DEFAULT_RETENTION_DAYS));
+    const result = await prisma.snmpSample.deleteMany({
+        where: { polledAt: { lt: new Date(now.getTime() - days * 24 * 60 * 60 * 1000) } },
+    });
+    return result.count;
+}
+
+/**
+ * Start the scheduled poller and retention cleanup
+ */
+export async function startSnmpPoller(): Promise<void> {
+    await queue.scheduleRecurring(SNMP_POLL_JOB_NAME, SNMP_POLL_CRON, async () => {
+        const result = await pollAllDevices();
+        if (result.polled + result.failed > 0) {
+            logger.debug(result, 'SNMP poll complete');
+        }
+    });
+
+    await queue.scheduleRecurring(SNMP_PRUNE_JOB_NAME, SNMP_PRUNE_CRON, async () => {
+        const pruned = await pruneSamples();
+        logger.info({ pruned }, 'Old SNMP samples pruned');
+    });
+}
@@ -0,0 +1,277 @@
+/**
+ * Payment Suspense Service
+ * Payments that arrive without a recognisable customer (a mistyped PayBill
+ * account, an unknown phone) are kept as UNALLOCATED instead of being lost.
+ * The money is booked to Unallocated Receipts until staff allocate it to one
+ * customer, or split it across several, at which point each share is credited
+ * to the customer's wallet like any payment.
+ */
+
+import type { PaymentMethod, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { creditWallet, settleAndRenew } from './renewal.service.js';
+import { postReceiptAllocation, postUnallocatedReceipt } from './ledger.service.js';
+
+export interface UnallocatedPaymentInput {
+    tenantId: string;
+    amount: number;
+    transactionId?: string;
+    phone?: string;
+    account?: string; // What the payer typed as the account reference
+    method?: PaymentMethod;
+    description?: string;
+}
+
+export interface PaymentAllocationInput {
+    customerId: string;
+    amount: number;
+}
+
+export interface AllocationResult {
+    paymentId: string;
+    amount: number;
+    allocations: {
+        customerId: string;
+        username: string;
+        amount: number;
+        walletBalance: number;
+        renewed: boolean;
+        expiresAt: Date;
+        invoicesSettled: number;
+    }[];
+}
+
+/**
+ * Park a payment in suspense and book it to Unallocated Receipts
+ */
+export async function recordUnallocatedPayment(input: UnallocatedPaymentInput) {
+    const payment = await prisma.$transaction(async (tx) => {
+        const payment = await tx.payment.create({
+            data: {
+                amount: input.amount,
+                method: input.method ?? 'MPESA',
+                status: 'UNALLOCATED',
+                transactionId: input.transactionId,
+                phone: input.phone,
+                account: input.account,
+                description: input.description ?? 'Unallocated payment',
+                tenantId: input.tenantId,
+            },
+        });
+
+        await postUnallocatedReceipt(payment, tx);
+        return payment;
+    });
+
+    logger.warn({
+        tenantId: input.tenantId,
+        paymentId: payment.id,
+        transactionId: input.transactionId,
+        account: input.account,
+    }, 'Payment held in suspense - no matching customer');
+
+    return payment;
+}
+
+/**
+ * Unallocated payments of a tenant, newest first
+ */
+export async function listUnallocatedPayments(
+    tenantId: string,
+    options: { page?: number; pageSize?: number; search?: string } = {}
+) {
+    const page = options.page ?? 1;
+    const pageSize = options.pageSize ?? 20;
+
+    const where: Prisma.PaymentWhereInput = { tenantId, status: 'UNALLOCATED' };
+    if (options.search) {
+        where.OR = [
+            { transactionId: { contains: options.search, mode: 'insensitive' } },
+            { phone: { contains: options.search } },
+            { account: { contains: options.search, mode: 'insensitive' } },
+        ];
+    }
+
+    const [payments, total, sum] = await Promise.all([
+        prisma.payment.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            skip: (page - 1) * pageSize,
+            take: pageSize,
+        }),
+        prisma.payment.count({ where }),
+        prisma.payment.aggregate({ where, _sum: { amount: true, refundedAmount: true } }),
+    ]);
+
+    const totalAmount = (sum._sum.amount ?? 0) - (sum._sum.refundedAmount ?? 0);
+    return { payments, total, totalAmount: Math.round(totalAmount * 100) / 100, page, pageSize };
+}
+
+/**
+ * Customers a suspense payment may belong to. With a search term, customers
+ * matching it by username, name, phone or account number; otherwise the ones
+ * whose username/account number resembles the payment's account reference or
+ * whose phone matches the payer's.
+ */
+export async function findAllocationCandidates(
+    tenantId: string,
+    payment: { phone: string | null; account: string | null },
+    search?: string
+) {
+    const or: Prisma.CustomerWhereInput[] = [];
+    const term = search?.trim();
+
+    if (term) {
+        or.push(
+            { username: { contains: term, mode: 'insensitive' } },
+            { name: { contains: term, mode: 'insensitive' } },
+            { accountNumber: { contains: term, mode: 'insensitive' } },
+            { phone: { contains: term } },
+        );
+    } else {
+        const account = payment.account?.trim();
+        if (account) {
+            or.push(
+                { username: { contains: account, mode: 'insensitive' } },
+                { accountNumber: { contains: account, mode: 'insensitive' } },
+            );
+        }
+        const digits = (payment.phone ?? '').replace(/\D/g, '');
+        if (digits.length >= 9) {
+            or.push({ phone: { endsWith: digits.slice(-9) } });
+        }
+    }
+
+    if (or.length === 0) {
+        return [];
+    }
+
+    return prisma.customer.findMany({
+        where: { tenantId, deletedAt: null, OR: or },
+        select: {
+            id: true,
+            username: true,
+            name: true,
+            phone: true,
+            accountNumber: true,
+            status: true,
+            expiresAt: true,
+            walletBalance: true,
+            package: { select: { name: true, price: true } },
+        },
+        orderBy: { username: 'asc' },
+        take: 20,
+    });
+}
+
+/**
+ * What is left of a suspense payment to allocate after partial refunds
+ */
+export function unallocatedAmount(payment: { amount: number; refundedAmount: number }): number {
+    return Math.round((payment.amount - payment.refundedAmount) * 100) / 100;
+}
+
+/**
+ * Whether allocation amounts add up to the payment amount (to the cent)
+ */
+export function allocationsMatchAmount(allocations: PaymentAllocationInput[], amount: number): boolean {
+    const total = allocations.reduce((sum, a) => sum + Math.round(a.amount * 100), 0);
+    return allocations.every((a) => a.amount > 0) && total === Math.round(amount * 100);
+}
+
+/**
+ * Share an unallocated payment out to one or more customers: credit each
+ * wallet, move the money from Unallocated Receipts to Customer Wallet Deposits
+ * and run invoice settlement and renewal for each customer. Only what partial
+ * refunds left of the payment is allocated, and never while a refund is in
+ * progress. Returns null when the payment is not in suspense or is being
+ * refunded, a customer is unknown or the amounts don't add up.
+ */
+export async function allocatePayment(
+    tenantId: string,
+    paymentId: string,
+    allocations: PaymentAllocationInput[],
+    allocatedBy?: string
+): Promise<AllocationResult | null> {
+    const customerIds = [...new Set(allocations.map((a) => a.customerId))];
+    const [payment, customers] = await Promise.all([
+        prisma.payment.findFirst({ where: { id: paymentId, tenantId, status: 'UNALLOCATED' } }),
+        prisma.customer.findMany({ where: { id: { in: customerIds }, tenantId, deletedAt: null } }),
+    ]);
+
+    if (!payment || payment.refundReserved > 0 || customers.length !== customerIds.length || customerIds.length !== allocations.length) {
+        return null;
+    }
+    const amount = unallocatedAmount(payment);
+    if (!allocationsMatchAmount(allocations, amount)) {
+        return null;
+    }
+
+    const byId = new Map(customers.map((c) => [c.id, c]));
+    const description = `Allocated payment${payment.transactionId ? ` ${payment.transactionId}` : ''}`;
+
+    const balances = await prisma.$transaction(async (tx) => {
+        // Claim the payment so two staff members can't allocate it twice, and
+        // not while a refund has reserved it or changed it since it was read
+        const claimed = await tx.payment.updateMany({
+            where: { id: payment.id, status: 'UNALLOCATED', refundedAmount: payment.refundedAmount, refundReserved: 0 },
+            data: {
+                status: 'COMPLETED',
+                customerId: allocations.length === 1 ? allocations[0].customerId : null,
+            },
+        });
+        if (claimed.count === 0) {
+            return null;
+        }
+
+        const balances = new Map<string, number>();
+        for (const allocation of allocations) {
+            const customer = byId.get(allocation.customerId)!;
+
+            await tx.paymentAllocation.create({
+                data: {
+                    amount: allocation.amount,
+                    paymentId: payment.id,
+                    customerId: customer.id,
+                    tenantId,
+                    allocatedBy,
+                },
+            });
+
+            const updated = await creditWallet(tx, customer.id, allocation.amount, payment.id, description);
+            await postReceiptAllocation({
+                paymentId: payment.id,
+                tenantId,
+                amount: allocation.amount,
+                description: `${description} to ${customer.username}`,
+            }, tx);
+
+            balances.set(customer.id, updated.walletBalance);
+        }
+
+        return balances;
+    });
+
+    if (balances === null) {
+        return null;
+    }
+
+    const results: AllocationResult['allocations'] = [];
+    for (const allocation of allocations) {
+        const customer = byId.get(allocation.customerId)!;
+        const { invoicesSettled, renewal } = await settleAndRenew(customer, balances.get(customer.id)!);
+
+        results.push({
+            customerId: customer.id,
+            username: customer.username,
+            amount: allocation.amount,
+            walletBalance: renewal.walletBalance,
+            renewed: renewal.renewed,
+            expiresAt: renewal.expiresAt,
+            invoicesSettled,
+        });
+    }
+
+    return { paymentId: payment.id, amount, allocations: results };
+}
@@ -0,0 +1,234 @@
+/**
+ * Usage Time-Series Service
+ * Turns the running totals in RADIUS interim and stop packets into
+ * per-interval deltas, stores them as compact samples and folds them into
+ * hourly and daily rollups so usage can be charted without replaying sessions.
+ */
+
+import type { Session, UsagePeriod } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { queue } from '../lib/queue.js';
+
+// Configuration
+export const USAGE_PRUNE_JOB_NAME = 'usage-prune';
+const USAGE_PRUNE_CRON = '45 3 * * *'; // Daily at 03:45 UTC
+const DEFAULT_SAMPLE_RETENTION_DAYS = 7;
+const DEFAULT_HOURLY_RETENTION_DAYS = 90;
+const DEFAULT_DAILY_RETENTION_DAYS = 400; // Covers a full calendar year on the dashboard
+
+const COUNTER_32 = BigInt(4294967296); // 2^32, one gigaword
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const USAGE_RANGES = {
+    '24h': { period: 'HOURLY', buckets: 24 },
+    '7d': { period: 'HOURLY', buckets: 7 * 24 },
+    '30d': { period: 'DAILY', buckets: 30 },
+    '90d': { period: 'DAILY', buckets: 90 },
+} as const;
+
+export type UsageRange = keyof typeof USAGE_RANGES;
+
+export interface AccountingCounters {
+    inputOctets: bigint;
+    outputOctets: bigint;
+    sessionTime: number;
+}
+
+export interface UsagePoint {
+    timestamp: Date;
+    inputOctets: number;
+    outputOctets: number;
+    totalOctets: number;
+}
+
+type SessionTotals = Pick<Session, 'sessionId' | 'customerId' | 'nasId' | 'tenantId' | 'inputOctets' | 'outputOctets' | 'sessionTime'>;
+
+/**
+ * Octets moved since the previous update. After a session reset the counter
+ * starts again from zero; a backwards step without a reset is the 32-bit
+ * Acct-*-Octets counter wrapping on a NAS that didn't send gigawords.
+ */
+export function octetDelta(current: bigint, previous: bigint, reset: boolean): bigint {
+    if (reset) return current;
+    if (current >= previous) return current - previous;
+    return ((current - previous) % COUNTER_32 + COUNTER_32) % COUNTER_32;
+}
+
+/**
+ * Start of the UTC hour or day a timestamp falls in
+ */
+export function bucketStart(date: Date, period: UsagePeriod): Date {
+    const size = period === 'HOURLY' ? HOUR_MS : DAY_MS;
+    return new Date(Math.floor(date.getTime() / size) * size);
+}
+
+/**
+ * Store the usage between the session's stored totals and a new accounting
+ * update, and add it to the customer's hourly and daily buckets.
+ * Call before the session row is overwritten with the new totals.
+ */
+export async function recordUsage(
+    session: SessionTotals,
+    counters: AccountingCounters,
+    recordedAt: Date = new Date()
+): Promise<{ inputOctets: bigint; outputOctets: bigint } | null> {
+    if (!session.customerId) return null;
+
+    // Session-Time only moves backwards when the NAS restarted the session
+    const reset = counters.sessionTime < session.sessionTime;
+    const inputOctets = octetDelta(counters.inputOctets, session.inputOctets, reset);
+    const outputOctets = octetDelta(counters.outputOctets, session.outputOctets, reset);
+
+    if (inputOctets === BigInt(0) && outputOctets === BigInt(0)) return null;
+
+    const intervalSeconds = reset ? counters.sessionTime : counters.sessionTime - session.sessionTime;
+
+    try {
+        await prisma.$transaction(async (tx) => {
+            await tx.usageSample.create({
+                data: {
+                    sessionId: session.sessionId,
+                    customerId: session.customerId!,
+                    nasId: session.nasId,
+                    tenantId: session.tenantId,
+                    recordedAt,
+                    intervalSeconds,
+                    inputOctets,
+                    outputOctets,
+                },
+            });
+
+            for (const period of ['HOURLY', 'DAILY'] as const) {
+                const start = bucketStart(recordedAt, period);
+                await tx.usageRollup.upsert({
+                    where: {
+                        customerId_period_bucketStart: {
+                            customerId: session.customerId!,
+                            period,
+                            bucketStart: start,
+                        },
+                    },
+                    create: {
+                        period,
+                        bucketStart: start,
+                        customerId: session.customerId!,
+                        tenantId: session.tenantId,
+                        inputOctets,
+                        outputOctets,
+                        samples: 1,
+                    },
+                    update: {
+                        inputOctets: { increment: inputOctets },
+                        outputOctets: { increment: outputOctets },
+                        samples: { increment: 1 },
+                    },
+                });
+            }
+        });
+
+        return { inputOctets, outputOctets };
+    } catch (error) {
+        logger.error({ error, sessionId: session.sessionId }, 'Failed to record usage sample');
+        return null;
+    }
+}
+
+/**
+ * Customer usage over a range as a gap-free series of rollup buckets
+ */
+export async function getCustomerUsageSeries(
+    customerId: string,
+    range: UsageRange,
+    now: Date = new Date()
+): Promise<UsagePoint[]> {
+    const { period, buckets } = USAGE_RANGES[range];
+    const size = period === 'HOURLY' ? HOUR_MS : DAY_MS;
+    const from = new Date(bucketStart(now, period).getTime() - (buckets - 1) * size);
+
+    const rollups = await prisma.usageRollup.findMany({
+        where: { customerId, period, bucketStart: { gte: from } },
+        orderBy: { bucketStart: 'asc' },
+    });
+
+    const byBucket = new Map(rollups.map((r) => [r.bucketStart.getTime(), r]));
+
+    return Array.from({ length: buckets }, (_, i) => {
+        const timestamp = new Date(from.getTime() + i * size);
+        const rollup = byBucket.get(timestamp.getTime());
+        const inputOctets = Number(rollup?.inputOctets ?? 0);
+        const outputOctets = Number(rollup?.outputOctets ?? 0);
+        return { timestamp, inputOctets, outputOctets, totalOctets: inputOctets + outputOctets };
+    });
+}
+
+/**
+ * Customer usage summed by UTC hour of day over the last `days` days
+ */
+export async function getPeakHours(
+    customerId: string,
+    days: number,
+    now: Date = new Date()
+): Promise<{ hours: { hour: number; totalOctets: number }[]; peakHour: number | null }> {
+    const rollups = await prisma.usageRollup.findMany({
+        where: {
+            customerId,
+            period: 'HOURLY',
+            bucketStart: { gte: new Date(now.getTime() - days * DAY_MS) },
+        },
+        select: { bucketStart: true, inputOctets: true, outputOctets: true },
+    });
+
+    const totals = new Array<number>(24).fill(0);
+    for (const rollup of rollups) {
+        totals[rollup.bucketStart.getUTCHours()] += Number(rollup.inputOctets + rollup.outputOctets);
+    }
+
+    const max = Math.max(...totals);
+
+    return {
+        hours: totals.map((totalOctets, hour) => ({ hour, totalOctets })),
+        peakHour: max > 0 ? totals.indexOf(max) : null,
+    };
+}
+
+/**
+ * Apply the retention policy to raw samples and each rollup period
+ */
+export async function pruneUsage(now: Date = new Date()): Promise<{ samples: number; hourly: number; daily: number }> {
+    const cutoff = (envKey: string, fallback: number) => {
+        const days = parseInt(process.env[envKey] ?? String(fallback));
+        return new Date(now.getTime() - days * DAY_MS);
+    };
+
+    const [samples, hourly, daily] = await Promise.all([
+        prisma.usageSample.deleteMany({
+            where: { recordedAt: { lt: cutoff('USAGE_SAMPLE_RETENTION_DAYS', DEFAULT_SAMPLE_RETENTION_DAYS) } },
+        }),
+        prisma.usageRollup.deleteMany({
+            where: {
+                period: 'HOURLY',
+                bucketStart: { lt: cutoff('USAGE_HOURLY_RETENTION_DAYS', DEFAULT_HOURLY_RETENTION_DAYS) },
+            },
+        }),
+        prisma.usageRollup.deleteMany({
+            where: {
+                period: 'DAILY',
+                bucketStart: { lt: cutoff('USAGE_DAILY_RETENTION_DAYS', DEFAULT_DAILY_RETENTION_DAYS) },
+            },
+        }),
+    ]);
+
+    return { samples: samples.count, hourly: hourly.count, daily: daily.count };
+}
+
+/**
+ * Start the scheduled retention cleanup
+ */
+export async function startUsageRetention(): Promise<void> {
+    await queue.scheduleRecurring(USAGE_PRUNE_JOB_NAME, USAGE_PRUNE_CRON, async () => {
+        const pruned = await pruneUsage();
+        logger.info(pruned, 'Old usage samples and rollups pruned');
+    });
+}
@@ -0,0 +1,241 @@
+/**
+ * Voucher Batch Service
+ * Generates voucher codes as named batches and manages their lifecycle:
+ * expiry policies, bulk revocation, expiry extension and sales analytics.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Prisma, VoucherExpiryPolicy } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_VALIDITY_MINUTES = 30 * 24 * 60; // Matches redemption when a package has no sessionTime
+
+export interface GenerateBatchInput {
+    tenantId: string;
+    createdById: string;
+    packageId: string;
+    quantity: number;
+    name?: string;
+    prefix?: string;
+    codeLength?: number;
+    expiryPolicy?: VoucherExpiryPolicy;
+    validDays?: number;
+    expiresAt?: Date;
+    resellerId?: string;
+    unitPrice?: number;
+}
+
+/**
+ * Batch counts. A voucher is "sold" once redeemed and "used" once the time it
+ * bought has run out; "expired" covers unredeemed codes past the batch expiry.
+ */
+export interface VoucherBatchStats {
+    available: number;
+    sold: number;
+    used: number;
+    expired: number;
+    revoked: number;
+    revenue: number;
+}
+
+/**
+ * Work out the expiry date applied to a batch's codes from its policy
+ */
+export function resolveBatchExpiry(
+    policy: VoucherExpiryPolicy,
+    options: { validDays?: number | null; expiresAt?: Date | null },
+    createdAt: Date = new Date()
+): Date | null {
+    switch (policy) {
+        case 'FIXED_DATE':
+            return options.expiresAt ?? null;
+        case 'DAYS_AFTER_CREATION':
+            return options.validDays ? new Date(createdAt.getTime() + options.validDays * DAY_MS) : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Generate random codes that don't clash with the tenant's existing vouchers
+ */
+async function generateUniqueCodes(tenantId: string, quantity: number, prefix: string, codeLength: number): Promise<string[]> {
+    const existing = await prisma.voucher.findMany({
+        where: { tenantId },
+        select: { code: true },
+    });
+    const existingCodes = new Set(existing.map((v) => v.code));
+
+    const codes: string[] = [];
+    while (codes.length < quantity) {
+        const randomPart = randomBytes(Math.ceil(codeLength / 2))
+            .toString('hex')
+            .toUpperCase()
+            .slice(0, codeLength);
+        const code = `${prefix}${randomPart}`;
+
+        if (!existingCodes.has(code)) {
+            codes.push(code);
+            existingCodes.add(code);
+        }
+    }
+
+    return codes;
+}
+
+/**
+ * Create a named batch and its voucher codes. Pass a transaction client to
+ * create the batch as part of a larger transaction (e.g. a reseller purchase).
+ */
+export async function generateVoucherBatch(
+    input: GenerateBatchInput,
+    pkg: { name: string },
+    db?: Prisma.TransactionClient
+) {
+    const now = new Date();
+    const policy = input.expiryPolicy ?? 'NONE';
+    const expiresAt = resolveBatchExpiry(policy, input, now);
+    const codes = await generateUniqueCodes(input.tenantId, input.quantity, input.prefix ?? '', input.codeLength ?? 8);
+
+    const create = async (tx: Prisma.TransactionClient) => {
+        const batch = await tx.voucherBatch.create({
+            data: {
+                name: input.name ?? `${pkg.name} x${input.quantity} (${now.toISOString().slice(0, 10)})`,
+                quantity: input.quantity,
+                expiryPolicy: policy,
+                validDays: policy === 'DAYS_AFTER_CREATION' ? input.validDays : null,
+                expiresAt,
+                packageId: input.packageId,
+                createdById: input.createdById,
+                resellerId: input.resellerId,
+                unitPrice: input.unitPrice,
+                tenantId: input.tenantId,
+            },
+        });
+
+        await tx.voucher.createMany({
+            data: codes.map((code) => ({
+                code,
+                packageId: input.packageId,
+                tenantId: input.tenantId,
+                batchId: batch.id,
+                expiresAt,
+                status: 'AVAILABLE' as const,
+            })),
+        });
+
+        return { batch, codes };
+    };
+
+    return db ? create(db) : prisma.$transaction(create);
+}
+
+/**
+ * Sold/used/expired counts for a set of batches, keyed by batch ID
+ */
+export async function getBatchStats(
+    batches: { id: string; package: { price: number; sessionTime: number | null } }[],
+    now: Date = new Date()
+): Promise<Map<string, VoucherBatchStats>> {
+    const batchIds = batches.map((b) => b.id);
+
+    const [statusCounts, lapsed, used] = await Promise.all([
+        prisma.voucher.groupBy({
+            by: ['batchId', 'status'],
+            where: { batchId: { in: batchIds } },
+            _count: true,
+        }),
+        // Unredeemed codes past their expiry that haven't been flagged yet
+        prisma.voucher.groupBy({
+            by: ['batchId'],
+            where: { batchId: { in: batchIds }, status: 'AVAILABLE', expiresAt: { lte: now } },
+            _count: true,
+        }),
+        Promise.all(batches.map((batch) => {
+            const validityMs = (batch.package.sessionTime ?? DEFAULT_VALIDITY_MINUTES) * 60 * 1000;
+            return prisma.voucher.count({
+                where: { batchId: batch.id, status: 'USED', usedAt: { lte: new Date(now.getTime() - validityMs) } },
+            });
+        })),
+    ]);
+
+    const stats = new Map<string, VoucherBatchStats>();
+    batches.forEach((batch, i) => {
+        const count = (status: string) =>
+            statusCounts.find((s) => s.batchId === batch.id && s.status === status)?._count ?? 0;
+        const lapsedCount = lapsed.find((l) => l.batchId === batch.id)?._count ?? 0;
+        const sold = count('USED');
+
+        stats.set(batch.id, {
+            available: count('AVAILABLE') - lapsedCount,
+            sold,
+            used: used[i],
+            expired: count('EXPIRED') + lapsedCount,
+            revoked: count('REVOKED'),
+            revenue: sold * batch.package.price,
+        });
+    });
+
+    return stats;
+}
+
+/**
+ * Redemptions per day for a batch, from Voucher.usedAt
+ */
+export async function getRedemptionTimeline(batchId: string): Promise<{ date: string; count: number }[]> {
+    const redeemed = await prisma.voucher.findMany({
+        where: { batchId, status: 'USED', usedAt: { not: null } },
+        select: { usedAt: true },
+    });
+
+    const perDay = new Map<string, number>();
+    for (const voucher of redeemed) {
+        const date = voucher.usedAt!.toISOString().slice(0, 10);
+        perDay.set(date, (perDay.get(date) ?? 0) + 1);
+    }
+
+    return [...perDay.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, count]) => ({ date, count }));
+}
+
+/**
+ * Revoke every code in a batch that hasn't been redeemed
+ */
+export async function revokeBatch(batchId: string, db?: Prisma.TransactionClient): Promise<number> {
+    const revoke = async (tx: Prisma.TransactionClient) => {
+        const result = await tx.voucher.updateMany({
+            where: { batchId, status: { in: ['AVAILABLE', 'EXPIRED'] } },
+            data: { status: 'REVOKED' },
+        });
+
+        await tx.voucherBatch.update({
+            where: { id: batchId },
+            data: { revokedAt: new Date() },
+        });
+
+        return result.count;
+    };
+
+    return db ? revoke(db) : prisma.$transaction(revoke);
+}
+
+/**
+ * Move a batch's expiry to a new date, reviving unredeemed codes that had expired
+ */
+export async function extendBatchExpiry(batchId: string, expiresAt: Date): Promise<number> {
+    return prisma.$transaction(async (tx) => {
+        await tx.voucherBatch.update({
+            where: { id: batchId },
+            data: { expiryPolicy: 'FIXED_DATE', expiresAt, validDays: null },
+        });
+
+        const result = await tx.voucher.updateMany({
+            where: { batchId, status: { in: ['AVAILABLE', 'EXPIRED'] } },
+            data: { status: 'AVAILABLE', expiresAt },
+        });
+
+        return result.count;
+    });
+}